@@ -4,6 +4,12 @@ const nextConfig = {
   // StrictMode verursacht doppelte Initialisierung, was zu Problemen mit WebGL führt
   reactStrictMode: false,
 
+  // Version aus package.json zur Build-Zeit einsetzen (z.B. für die Gerber-Kopfzeilen),
+  // statt die ganze package.json ins Client-Bundle zu importieren
+  env: {
+    APP_VERSION: require('./package.json').version,
+  },
+
   // Konva.js und react-konva funktionieren nur im Browser,
   // daher müssen wir sie als externe Module markieren
   webpack: (config, { isServer }) => {
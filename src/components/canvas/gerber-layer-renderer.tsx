@@ -13,8 +13,9 @@
 
 'use client';
 
-import { useMemo, useEffect } from 'react';
+import { useMemo, useEffect, useRef } from 'react';
 import { Group, Circle, Rect, Line } from 'react-konva';
+import Konva from 'konva';
 import type { GerberFile } from '@/types';
 import {
   renderGerberLayers,
@@ -86,12 +87,29 @@ interface LayerShapesProps {
 }
 
 function LayerShapes({ shapes, color, visible }: LayerShapesProps) {
+  const groupRef = useRef<Konva.Group>(null);
+  const hasClear = useMemo(() => shapes.some((s) => s.clear), [shapes]);
+
+  // Löschende Formen (destination-out) dürfen nur diesen Layer radieren:
+  // Gruppe mit Aussparungen in ein eigenes Zwischenbild cachen, sonst würde
+  // alles darunter auf der gemeinsamen Konva-Layer-Canvas gelöscht.
+  // Ohne Aussparungen kein Caching - macht Konturen unscharf beim Zoomen
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    if (hasClear) {
+      group.cache({ pixelRatio: 4 });
+    } else {
+      group.clearCache();
+    }
+  }, [shapes, color, hasClear, visible]);
+
   if (!visible) return null;
 
-  // Kein Caching - macht Konturen unscharf beim Zoomen
   // Performance wird durch listening=false und perfectDrawEnabled=false optimiert
   return (
     <Group
+      ref={groupRef}
       listening={false}
       perfectDrawEnabled={false}
     >
@@ -125,6 +143,7 @@ function ShapeRenderer({ shape, color }: ShapeRendererProps) {
           fill={shape.fill ? color : undefined}
           stroke={!shape.fill ? color : undefined}
           strokeWidth={shape.strokeWidth}
+          globalCompositeOperation={shape.clear ? 'destination-out' : undefined}
           listening={false}
           perfectDrawEnabled={false}
         />
@@ -140,6 +159,7 @@ function ShapeRenderer({ shape, color }: ShapeRendererProps) {
           fill={shape.fill ? color : undefined}
           stroke={!shape.fill ? color : undefined}
           strokeWidth={shape.strokeWidth}
+          globalCompositeOperation={shape.clear ? 'destination-out' : undefined}
           listening={false}
           perfectDrawEnabled={false}
         />
@@ -153,16 +173,58 @@ function ShapeRenderer({ shape, color }: ShapeRendererProps) {
           strokeWidth={shape.strokeWidth || 1}
           lineCap="round"
           lineJoin="round"
+          globalCompositeOperation={shape.clear ? 'destination-out' : undefined}
           listening={false}
           perfectDrawEnabled={false}
         />
       );
 
+    case 'polygon':
+      return (
+        <Line
+          points={shape.points || []}
+          fill={color}
+          closed
+          globalCompositeOperation={shape.clear ? 'destination-out' : undefined}
+          listening={false}
+          perfectDrawEnabled={false}
+        />
+      );
+
+    case 'group':
+      return <MacroPadGroup shapes={shape.shapes || []} color={color} />;
+
     default:
       return null;
   }
 }
 
+// ============================================================================
+// Sub-Komponente für ein Makro-Pad mit ausgesparten Primitiven
+// ============================================================================
+
+interface MacroPadGroupProps {
+  shapes: RenderShape[];
+  color: string;
+}
+
+function MacroPadGroup({ shapes, color }: MacroPadGroupProps) {
+  const groupRef = useRef<Konva.Group>(null);
+
+  // Eigenes Zwischenbild: die löschenden Primitive radieren nur dieses Pad
+  useEffect(() => {
+    groupRef.current?.cache({ pixelRatio: 4 });
+  }, [shapes, color]);
+
+  return (
+    <Group ref={groupRef} listening={false}>
+      {shapes.map((shape, index) => (
+        <ShapeRenderer key={index} shape={shape} color={color} />
+      ))}
+    </Group>
+  );
+}
+
 // ============================================================================
 // Einfache Board-Vorschau (Rechteck mit Umriss)
 // ============================================================================
@@ -8,7 +8,7 @@
 'use client';
 
 import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
-import { Application, Graphics, Container, Text, TextStyle } from 'pixi.js';
+import { Application, Graphics, Container, Text, TextStyle, AlphaFilter } from 'pixi.js';
 import {
   usePanelStore,
   usePanel,
@@ -20,6 +20,7 @@ import {
   useSelectedFiducialId,
   useSelectedBadmarkId,
   useSelectedToolingHoleId,
+  useSelectedPanelTextId,
   useSelectedTabId,
   useSelectedVScoreLineId,
   useSelectedFreeMousebiteId,
@@ -28,16 +29,21 @@ import {
   useShowBoardLabels,
   useShowVScoreLines,
   useShowRoutingContours,
+  useShowCopperThieving,
   useShowDimensions,
   useShowDrawingPreview,
   useOutlineDefineState,
   findNearestArcAtPoint,
-  buildOutlineSegments,
+  buildOutlineLoops,
   computeOutlineWindingSign,
 } from '@/stores/panel-store';
 import { snapToGrid } from '@/lib/utils';
+import { getTabRect, getTabMousebiteHoles, getFreeMousebiteHoles } from '@/lib/utils/mousebite-holes';
+import { generateCopperThieving, type CopperThievingGeometry } from '@/lib/utils/copper-thieving';
+import { getPanelTextStrokes } from '@/lib/utils/stroke-font';
 import { renderGerberLayers, PIXELS_PER_MM } from '@/lib/canvas/gerber-renderer';
-import type { BoardInstance, Board, GerberFile, Fiducial, Badmark, ToolingHole, Tab, VScoreLine, FreeMousebite, RoutingContour, RoutingSegment, Panel, Point, OutlinePathSegment, DimensionLabelOffset, DrawingPreviewConfig } from '@/types';
+import { calculateCombinedBoundingBox, getCommandPolarity, hasClearPolarity } from '@/lib/gerber';
+import type { BoardInstance, Board, GerberFile, GerberCommand, Aperture, ApertureMacroPrimitive, BoundingBox, Fiducial, Badmark, ToolingHole, PanelText, Tab, VScoreLine, FreeMousebite, RoutingContour, RoutingSegment, Panel, Point, OutlinePathSegment, DimensionLabelOffset, DrawingPreviewConfig } from '@/types';
 
 // ============================================================================
 // Konstanten
@@ -51,6 +57,8 @@ const COLORS = {
   boardSelected: 0x60a5fa,
   grid: 0x2a2a2a,
   gridMajor: 0x3a3a3a,
+  copperThieving: 0xb87333,
+  silkscreen: 0xf0f0f0,
 };
 
 // ============================================================================
@@ -71,6 +79,7 @@ export function PixiPanelCanvas() {
   const selectedFiducialId = useSelectedFiducialId();
   const selectedBadmarkId = useSelectedBadmarkId();
   const selectedToolingHoleId = useSelectedToolingHoleId();
+  const selectedPanelTextId = useSelectedPanelTextId();
   const selectedTabId = useSelectedTabId();
   const selectedVScoreLineId = useSelectedVScoreLineId();
   const selectedFreeMousebiteId = useSelectedFreeMousebiteId();
@@ -79,6 +88,7 @@ export function PixiPanelCanvas() {
   const showBoardLabels = useShowBoardLabels();
   const showVScoreLines = useShowVScoreLines();
   const showRoutingContours = useShowRoutingContours();
+  const showCopperThieving = useShowCopperThieving();
   const showDimensions = useShowDimensions();
   const showDrawingPreview = useShowDrawingPreview();
   const outlineDefineState = useOutlineDefineState();
@@ -95,6 +105,8 @@ export function PixiPanelCanvas() {
   const updateBadmarkPosition = usePanelStore((state) => state.updateBadmarkPosition);
   const selectToolingHole = usePanelStore((state) => state.selectToolingHole);
   const updateToolingHolePosition = usePanelStore((state) => state.updateToolingHolePosition);
+  const selectPanelText = usePanelStore((state) => state.selectPanelText);
+  const updatePanelTextPosition = usePanelStore((state) => state.updatePanelTextPosition);
   const selectTab = usePanelStore((state) => state.selectTab);
   const updateTabPosition = usePanelStore((state) => state.updateTabPosition);
   const selectVScoreLine = usePanelStore((state) => state.selectVScoreLine);
@@ -144,7 +156,7 @@ export function PixiPanelCanvas() {
   // Generisch: dragItemType bestimmt ob Fiducial oder Tooling Hole gezogen wird
   const isDraggingItemRef = useRef(false);
   const draggedItemIdRef = useRef<string | null>(null);
-  const dragItemTypeRef = useRef<'fiducial' | 'badmark' | 'toolingHole' | 'tab' | 'vscoreLine' | 'routingStart' | 'routingEnd' | 'dimensionLabel' | 'drawingPanelDrag' | null>(null);
+  const dragItemTypeRef = useRef<'fiducial' | 'badmark' | 'toolingHole' | 'panelText' | 'tab' | 'vscoreLine' | 'routingStart' | 'routingEnd' | 'dimensionLabel' | 'drawingPanelDrag' | null>(null);
   // Für Dimension-Label-Drag: Key des Labels (z.B. "routing-legend") und Basis-Position in mm
   const dragDimLabelKeyRef = useRef<string | null>(null);
   const dragDimLabelBaseRef = useRef<{ x: number; y: number } | null>(null);
@@ -370,6 +382,11 @@ export function PixiPanelCanvas() {
           e.preventDefault();
           return;
         }
+        if (state.selectedPanelTextId) {
+          state.removePanelText(state.selectedPanelTextId);
+          e.preventDefault();
+          return;
+        }
         if (state.selectedVScoreLineId) {
           state.removeVScoreLine(state.selectedVScoreLineId);
           e.preventDefault();
@@ -573,6 +590,15 @@ export function PixiPanelCanvas() {
     }
   }, [viewport]);
 
+  // ----------------------------------------------------------------
+  // Kupfer-Thieving-Geometrie (aufwändig, daher nur bei Panel-Änderungen neu
+  // berechnen - nicht bei Auswahl, Hover oder Zoom)
+  // ----------------------------------------------------------------
+  const copperThieving = useMemo(
+    () => (showCopperThieving && panel.thievingConfig?.enabled ? generateCopperThieving(panel) : null),
+    [showCopperThieving, panel]
+  );
+
   // ----------------------------------------------------------------
   // Boards rendern
   // ----------------------------------------------------------------
@@ -650,6 +676,11 @@ export function PixiPanelCanvas() {
       panelTarget.addChild(gridGraphics);
     }
 
+    // Kupfer-Thieving rendern (unter den Boards, nicht interaktiv)
+    if (copperThieving) {
+      panelTarget.addChild(createCopperThievingGraphics(copperThieving));
+    }
+
     // Fadenkreuz am Nullpunkt (0,0) zeichnen
     // Das hilft bei der Orientierung - der Nullpunkt ist links unten
     const crosshairGraphics = new Graphics();
@@ -905,6 +936,45 @@ export function PixiPanelCanvas() {
       panelTarget.addChild(holeGraphics);
     }
 
+    // Panel-Beschriftungen rendern (interaktiv - klickbar und ziehbar)
+    for (const text of panel.panelTexts) {
+      const isTextSelected = text.id === selectedPanelTextId;
+      const textGraphics = createPanelTextGraphics(text, panel, isTextSelected);
+
+      textGraphics.eventMode = 'static';
+      textGraphics.cursor = 'pointer';
+
+      // Pointerdown-Handler: Beschriftung auswählen UND Drag starten
+      textGraphics.on('pointerdown', (event) => {
+        event.stopPropagation();
+        selectPanelText(text.id);
+        selectFiducial(null);
+        selectToolingHole(null);
+
+        const vp = viewportRef.current;
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect) return;
+
+        const textScreenX = text.position.x * PIXELS_PER_MM * vp.scale + vp.offsetX;
+        const textScreenY = text.position.y * PIXELS_PER_MM * vp.scale + vp.offsetY;
+
+        const mouseX = event.clientX - rect.left;
+        const mouseY = event.clientY - rect.top;
+        dragOffsetRef.current = {
+          x: mouseX - textScreenX,
+          y: mouseY - textScreenY,
+        };
+
+        usePanelStore.getState().saveHistorySnapshot();
+        isDraggingItemRef.current = true;
+        draggedItemIdRef.current = text.id;
+        dragItemTypeRef.current = 'panelText';
+        setCursorStyle('grabbing');
+      });
+
+      panelTarget.addChild(textGraphics);
+    }
+
     // Tabs rendern (interaktiv - klickbar und ziehbar)
     for (const tab of panel.tabs) {
       // Board-Instanz finden für Position
@@ -1118,6 +1188,7 @@ export function PixiPanelCanvas() {
       }
       selectFiducial(null);
       selectToolingHole(null);
+      selectPanelText(null);
       selectTab(null);
       selectVScoreLine(null);
       selectFreeMousebite(null);
@@ -1183,7 +1254,7 @@ export function PixiPanelCanvas() {
     }
 
     console.log(`Rendered ${instances.length} boards, ${panel.fiducials.length} fiducials, ${panel.tabs.length} tabs, ${panel.vscoreLines.length} v-scores, ${panel.routingContours.length} routing contours with WebGL`);
-  }, [isReady, panel, grid, boards, instances, showBoardBackground, showBoardLabels, showVScoreLines, showRoutingContours, showDimensions, showDrawingPreview, outlineDefineState, selectedFiducialId, selectedBadmarkId, selectedToolingHoleId, selectedTabId, selectedVScoreLineId, selectedFreeMousebiteId, selectedRoutingContourId, selectFiducial, selectBadmark, selectToolingHole, selectTab, selectVScoreLine, selectFreeMousebite, selectRoutingContour]);
+  }, [isReady, panel, grid, boards, instances, showBoardBackground, showBoardLabels, showVScoreLines, showRoutingContours, copperThieving, showDimensions, showDrawingPreview, outlineDefineState, selectedFiducialId, selectedBadmarkId, selectedToolingHoleId, selectedPanelTextId, selectedTabId, selectedVScoreLineId, selectedFreeMousebiteId, selectedRoutingContourId, selectFiducial, selectBadmark, selectToolingHole, selectPanelText, selectTab, selectVScoreLine, selectFreeMousebite, selectRoutingContour]);
 
   // ----------------------------------------------------------------
   // Viewport auto-zoom bei Zeichnungsvorschau-Wechsel
@@ -1577,7 +1648,8 @@ export function PixiPanelCanvas() {
             const inst = currentState.panel.instances.find((i: any) => i.id === nearestResult.instanceId);
             const brd = inst ? currentState.panel.boards.find((b: any) => b.id === inst.boardId) : null;
             if (brd && inst) {
-              const outlineSegs = buildOutlineSegments(brd, inst);
+              // Nur die angeklickte Kontur (Aussenkontur oder Ausschnitt) cachen
+              const outlineSegs = buildOutlineLoops(brd, inst)[nearestResult.loopIndex] || [];
               if (outlineSegs.length > 0) {
                 // Board sofort registrieren (ohne Segment-Auswahl — das passiert in mouseUp
                 // falls kein Rubber-Band gezogen wurde, oder per Rubber-Band falls gezogen)
@@ -1750,6 +1822,8 @@ export function PixiPanelCanvas() {
         updateBadmarkPosition(draggedItemIdRef.current, { x: mmX, y: mmY });
       } else if (dragItemTypeRef.current === 'toolingHole') {
         updateToolingHolePosition(draggedItemIdRef.current, { x: mmX, y: mmY });
+      } else if (dragItemTypeRef.current === 'panelText') {
+        updatePanelTextPosition(draggedItemIdRef.current, { x: mmX, y: mmY });
       } else if (dragItemTypeRef.current === 'vscoreLine' && dragVScoreInfoRef.current) {
         // V-Score Drag: achsenbeschränkt verschieben
         // Horizontale Linie → nur Y-Position, Vertikale Linie → nur X-Position
@@ -1789,9 +1863,6 @@ export function PixiPanelCanvas() {
           if (brd && inst) {
             // Einmalige Initialisierung beim ersten Drag-Frame
             if (!dragOutlineInfoRef.current) {
-              const outlineSegs = buildOutlineSegments(brd, inst);
-              if (outlineSegs.length === 0) return;
-
               const draggedPt = dragItemTypeRef.current === 'routingStart'
                 ? contour.segments[0]?.start
                 : contour.segments[contour.segments.length - 1]?.end;
@@ -1800,6 +1871,11 @@ export function PixiPanelCanvas() {
                 : contour.segments[0]?.start;
               if (!draggedPt || !fixedPt) return;
 
+              // Nur auf der Kontur des festen Endpunkts ziehen (kein Sprung in andere Konturen)
+              const loops = buildOutlineLoops(brd, inst);
+              const outlineSegs = loops[findOutlineLoop(loops, fixedPt)] || [];
+              if (outlineSegs.length === 0) return;
+
               // Gezogenen Punkt auf Outline projizieren
               let bestIdx = 0;
               let bestDist = Infinity;
@@ -2151,7 +2227,7 @@ export function PixiPanelCanvas() {
 
       lastMousePosRef.current = { x: e.clientX, y: e.clientY };
     }
-  }, [setViewport, updateFiducialPosition, updateToolingHolePosition, updateTabPosition, updateVScoreLinePosition, updateRoutingContourEndpoints, replaceRoutingContourSegments, setCursorPosition, setDimensionLabelOffset]);
+  }, [setViewport, updateFiducialPosition, updateToolingHolePosition, updatePanelTextPosition, updateTabPosition, updateVScoreLinePosition, updateRoutingContourEndpoints, replaceRoutingContourSegments, setCursorPosition, setDimensionLabelOffset]);
 
   const handleMouseUp = useCallback((e: React.MouseEvent) => {
     // === Outline-Define-Modus: Rubber-Band abschliessen oder Einzelklick ===
@@ -2387,33 +2463,36 @@ function findNearestOutlinePoint(
   clickX: number,
   clickY: number,
   maxDistance: number
-): { point: Point; instanceId: string; distance: number } | null {
-  let bestResult: { point: Point; instanceId: string; distance: number } | null = null;
+): { point: Point; instanceId: string; loopIndex: number; distance: number } | null {
+  let bestResult: { point: Point; instanceId: string; loopIndex: number; distance: number } | null = null;
 
   for (const instance of panel.instances) {
     const board = panel.boards.find((b) => b.id === instance.boardId);
     if (!board) continue;
 
     // Echte Outline-Segmente laden (mit Bögen) statt vereinfachtes Rechteck
-    const outlineSegs = buildOutlineSegments(board, instance);
+    const loops = buildOutlineLoops(board, instance);
 
-    for (const seg of outlineSegs) {
-      let nearest: { point: Point; distance: number };
+    for (let loopIndex = 0; loopIndex < loops.length; loopIndex++) {
+      for (const seg of loops[loopIndex]) {
+        let nearest: { point: Point; distance: number };
 
-      if (seg.arc) {
-        // Bogen-Segment: nearestPointOnArc verwenden
-        nearest = nearestPointOnArc(clickX, clickY, seg.arc, seg.start, seg.end);
-      } else {
-        // Gerades Segment: nearestPointOnSegment wie bisher
-        nearest = nearestPointOnSegment(clickX, clickY, seg.start, seg.end);
-      }
+        if (seg.arc) {
+          // Bogen-Segment: nearestPointOnArc verwenden
+          nearest = nearestPointOnArc(clickX, clickY, seg.arc, seg.start, seg.end);
+        } else {
+          // Gerades Segment: nearestPointOnSegment wie bisher
+          nearest = nearestPointOnSegment(clickX, clickY, seg.start, seg.end);
+        }
 
-      if (nearest.distance < maxDistance && (!bestResult || nearest.distance < bestResult.distance)) {
-        bestResult = {
-          point: nearest.point,
-          instanceId: instance.id,
-          distance: nearest.distance,
-        };
+        if (nearest.distance < maxDistance && (!bestResult || nearest.distance < bestResult.distance)) {
+          bestResult = {
+            point: nearest.point,
+            instanceId: instance.id,
+            loopIndex,
+            distance: nearest.distance,
+          };
+        }
       }
     }
   }
@@ -2421,6 +2500,27 @@ function findNearestOutlinePoint(
   return bestResult;
 }
 
+/**
+ * Index der Outline-Schleife, die einem Punkt am nächsten liegt
+ * (Aussenkontur oder Ausschnitt, siehe buildOutlineLoops)
+ */
+function findOutlineLoop(loops: OutlinePathSegment[][], point: Point): number {
+  let bestLoop = 0;
+  let bestDist = Infinity;
+  loops.forEach((loop, loopIndex) => {
+    for (const seg of loop) {
+      const d = seg.arc
+        ? nearestPointOnArc(point.x, point.y, seg.arc, seg.start, seg.end).distance
+        : nearestPointOnSegment(point.x, point.y, seg.start, seg.end).distance;
+      if (d < bestDist) {
+        bestDist = d;
+        bestLoop = loopIndex;
+      }
+    }
+  });
+  return bestLoop;
+}
+
 /**
  * Berechnet den nächsten Punkt auf einem Liniensegment zu einem gegebenen Punkt.
  */
@@ -2597,14 +2697,19 @@ function getOutlineSubpath(
   const board = panel.boards.find((b) => b.id === instance.boardId);
   if (!board) return emptyResult;
 
-  // Echte Outline-Segmente laden (mit Bögen)
-  const outlineSegs = buildOutlineSegments(board, instance);
+  // Echte Outline-Segmente laden (mit Bögen) — nur die Kontur, auf der der Startpunkt liegt.
+  // Segment-Hints beziehen sich auf die Indizes innerhalb dieser Kontur.
+  const loops = buildOutlineLoops(board, instance);
+  const loopIndex = findOutlineLoop(loops, fromPoint);
+  const outlineSegs = loops[loopIndex] || [];
   if (outlineSegs.length === 0) return emptyResult;
 
   // Umlaufrichtung (Winding) der Outline berechnen — bestimmt zuverlässig die Außenseite,
   // auch bei Einbuchtungen/konkaven Formen (anders als die alte Board-Mitte-Heuristik)
   // offsetSide: 'none' = kein Offset (toolRadius auf 0), 'left' = normaler wSign, 'right' = negierter wSign
-  const rawWSign = computeOutlineWindingSign(outlineSegs);
+  // Bei Ausschnitten liegt die Fräsbahn innerhalb der Schleife (weg vom Board-Material)
+  const isCutout = !!board.contours?.outer && loopIndex > 0;
+  const rawWSign = computeOutlineWindingSign(outlineSegs) * (isCutout ? -1 : 1);
   const wSign = offsetSide === 'right' ? -rawWSign : rawWSign;
   // Bei 'none' wird der toolRadius auf 0 gesetzt → kein Versatz
   const effectiveToolRadius = offsetSide === 'none' ? 0 : toolRadius;
@@ -3453,11 +3558,14 @@ function createBoardGraphics(board: Board, instance: BoardInstance, showBackgrou
     const renderOffY = board.renderOffsetY || 0;
     offsetContainer.position.set(-renderOffX * PIXELS_PER_MM, -renderOffY * PIXELS_PER_MM);
 
+    // Board-Ausdehnung über alle Layer (Hintergrund für negative Layer)
+    const boardBounds = calculateCombinedBoundingBox(board.layers);
+
     // Alle sichtbaren Layer rendern
     for (const layer of visibleLayers) {
       if (!layer.parsedData) continue;
 
-      const layerGraphics = createLayerGraphics(layer);
+      const layerGraphics = createLayerGraphics(layer, boardBounds);
       // Outline-Layer mit voller Deckkraft, alle anderen mit 70% damit überlagerte Layer erkennbar bleiben
       layerGraphics.alpha = layer.type === 'outline' ? 1.0 : 0.7;
       offsetContainer.addChild(layerGraphics);
@@ -3520,154 +3628,292 @@ function createBoardGraphics(board: Board, instance: BoardInstance, showBackgrou
 // Layer Graphics erstellen
 // ============================================================================
 
-function createLayerGraphics(layer: GerberFile): Graphics {
-  const graphics = new Graphics();
-
-  if (!layer.parsedData) return graphics;
+/**
+ * Erstellt die Grafik eines Gerber-Layers
+ *
+ * Layer ohne Aussparungen werden in ein einzelnes Graphics-Objekt gezeichnet.
+ * Layer mit LPC-Objekten oder negativem Bild (IPNEG) werden in Abschnitte
+ * gleicher Polarität aufgeteilt: löschende Abschnitte radieren mit dem
+ * Blend-Mode 'erase' aus. Der Filter sorgt dafür, dass der Layer in eine
+ * eigene Textur gerendert wird und nur dieser Layer radiert wird.
+ * Makro-Pads mit Primitiven ohne Belichtung bekommen auf dieselbe Weise
+ * einen eigenen Container, damit sie nur das Pad selbst radieren.
+ *
+ * @param layer - Der Gerber-Layer
+ * @param boardBounds - Ausdehnung des Boards in Gerber-Koordinaten (Hintergrund negativer Layer)
+ */
+function createLayerGraphics(layer: GerberFile, boardBounds: BoundingBox): Container {
+  if (!layer.parsedData) return new Graphics();
 
-  const { commands, apertures } = layer.parsedData;
+  const data = layer.parsedData;
   const color = parseInt(layer.color.replace('#', ''), 16);
 
-  // Durch alle Commands iterieren
-  for (const command of commands) {
-    const aperture = command.apertureId
-      ? apertures.get(command.apertureId) ?? null
-      : null;
-
-    switch (command.type) {
-      case 'flash':
-        if (command.endPoint) {
-          const x = command.endPoint.x * PIXELS_PER_MM;
-          const y = command.endPoint.y * PIXELS_PER_MM;
-
-          if (aperture?.type === 'circle' && aperture.diameter) {
-            const radius = (aperture.diameter / 2) * PIXELS_PER_MM;
-            graphics.circle(x, y, radius).fill({ color });
-          } else if (aperture?.type === 'rectangle' && aperture.width && aperture.height) {
-            const w = aperture.width * PIXELS_PER_MM;
-            const h = aperture.height * PIXELS_PER_MM;
-            graphics.rect(x - w / 2, y - h / 2, w, h).fill({ color });
-          } else {
-            // Fallback: kleiner Kreis
-            graphics.circle(x, y, 0.5 * PIXELS_PER_MM).fill({ color });
-          }
-        }
-        break;
+  if (!hasClearPolarity(data)) {
+    const graphics = new Graphics();
+    for (const command of data.commands) {
+      drawLayerCommand(graphics, command, data.apertures, color);
+    }
+    return graphics;
+  }
 
-      case 'line':
-        if (command.startPoint && command.endPoint) {
-          let strokeWidth = 0.2 * PIXELS_PER_MM;
+  const container = new Container();
+  container.filters = [new AlphaFilter()];
 
-          if (aperture?.type === 'circle' && aperture.diameter) {
-            strokeWidth = aperture.diameter * PIXELS_PER_MM;
-          } else if (aperture?.width) {
-            strokeWidth = aperture.width * PIXELS_PER_MM;
-          }
+  // Negativer Layer: volle Fläche, die Objekte sparen daraus aus
+  if (data.imagePolarity === 'negative') {
+    const background = new Graphics();
+    background
+      .rect(
+        boardBounds.minX * PIXELS_PER_MM,
+        boardBounds.minY * PIXELS_PER_MM,
+        (boardBounds.maxX - boardBounds.minX) * PIXELS_PER_MM,
+        (boardBounds.maxY - boardBounds.minY) * PIXELS_PER_MM
+      )
+      .fill({ color });
+    container.addChild(background);
+  }
 
-          // Mindest-Strichbreite: 0.5px damit dünne Outline-Linien sichtbar bleiben
-          strokeWidth = Math.max(strokeWidth, 0.5);
+  let graphics: Graphics | null = null;
+  let currentPolarity: 'dark' | 'clear' | null = null;
+  for (const command of data.commands) {
+    const polarity = getCommandPolarity(command, data);
+    const aperture = command.apertureId ? data.apertures.get(command.apertureId) : undefined;
+    if (
+      polarity === 'dark' &&
+      command.type === 'flash' &&
+      command.endPoint &&
+      aperture?.primitives?.some((primitive) => !primitive.exposure)
+    ) {
+      container.addChild(createMacroPadGraphics(command.endPoint, aperture.primitives, color));
+      graphics = null;
+      continue;
+    }
+    if (!graphics || polarity !== currentPolarity) {
+      graphics = new Graphics();
+      if (polarity === 'clear') graphics.blendMode = 'erase';
+      container.addChild(graphics);
+      currentPolarity = polarity;
+    }
+    drawLayerCommand(graphics, command, data.apertures, color);
+  }
 
-          graphics
-            .moveTo(
-              command.startPoint.x * PIXELS_PER_MM,
-              command.startPoint.y * PIXELS_PER_MM
-            )
-            .lineTo(
-              command.endPoint.x * PIXELS_PER_MM,
-              command.endPoint.y * PIXELS_PER_MM
-            )
-            .stroke({ color, width: strokeWidth, cap: 'round', join: 'round' });
+  return container;
+}
+
+/**
+ * Erstellt ein Makro-Pad mit ausgesparten Primitiven
+ *
+ * Aufeinanderfolgende Primitive gleicher Belichtung landen in einem
+ * Graphics-Objekt; Primitive ohne Belichtung radieren die vorherigen aus.
+ */
+function createMacroPadGraphics(
+  position: Point,
+  primitives: ApertureMacroPrimitive[],
+  color: number
+): Container {
+  const pad = new Container();
+  pad.filters = [new AlphaFilter()];
+
+  let graphics: Graphics | null = null;
+  let currentExposure: boolean | null = null;
+  for (const primitive of primitives) {
+    if (!graphics || primitive.exposure !== currentExposure) {
+      graphics = new Graphics();
+      if (!primitive.exposure) graphics.blendMode = 'erase';
+      pad.addChild(graphics);
+      currentExposure = primitive.exposure;
+    }
+    drawMacroPrimitive(graphics, primitive, position.x * PIXELS_PER_MM, position.y * PIXELS_PER_MM, color);
+  }
+
+  return pad;
+}
+
+/**
+ * Zeichnet ein Makro-Primitiv relativ zum Flash-Punkt (in Pixeln)
+ */
+function drawMacroPrimitive(
+  graphics: Graphics,
+  primitive: ApertureMacroPrimitive,
+  x: number,
+  y: number,
+  color: number
+): void {
+  if (primitive.type === 'circle' && primitive.center && primitive.diameter) {
+    graphics
+      .circle(
+        x + primitive.center.x * PIXELS_PER_MM,
+        y + primitive.center.y * PIXELS_PER_MM,
+        (primitive.diameter / 2) * PIXELS_PER_MM
+      )
+      .fill({ color });
+  } else if (primitive.points && primitive.points.length >= 3) {
+    graphics
+      .poly(primitive.points.flatMap((p) => [x + p.x * PIXELS_PER_MM, y + p.y * PIXELS_PER_MM]))
+      .fill({ color });
+  }
+}
+
+/**
+ * Zeichnet einen einzelnen Gerber-Befehl in ein Graphics-Objekt
+ */
+function drawLayerCommand(
+  graphics: Graphics,
+  command: GerberCommand,
+  apertures: Map<string, Aperture>,
+  color: number
+): void {
+  const aperture = command.apertureId
+    ? apertures.get(command.apertureId) ?? null
+    : null;
+
+  switch (command.type) {
+    case 'flash':
+      if (command.endPoint) {
+        const x = command.endPoint.x * PIXELS_PER_MM;
+        const y = command.endPoint.y * PIXELS_PER_MM;
+
+        if (aperture?.type === 'circle' && aperture.diameter) {
+          const radius = (aperture.diameter / 2) * PIXELS_PER_MM;
+          graphics.circle(x, y, radius).fill({ color });
+        } else if (aperture?.type === 'rectangle' && aperture.width && aperture.height) {
+          const w = aperture.width * PIXELS_PER_MM;
+          const h = aperture.height * PIXELS_PER_MM;
+          graphics.rect(x - w / 2, y - h / 2, w, h).fill({ color });
+        } else if (aperture?.type === 'macro' && aperture.primitives) {
+          // Makro-Aperture: belichtete Primitive relativ zum Flash-Punkt
+          // (Pads mit Aussparungen zeichnet createMacroPadGraphics; bei einem
+          // löschenden Pad radieren die belichteten Primitive, Aussparungen vereinfacht)
+          for (const primitive of aperture.primitives) {
+            if (!primitive.exposure) continue;
+            drawMacroPrimitive(graphics, primitive, x, y, color);
+          }
+        } else {
+          // Fallback: kleiner Kreis
+          graphics.circle(x, y, 0.5 * PIXELS_PER_MM).fill({ color });
         }
-        break;
+      }
+      break;
 
-      case 'arc': {
-        // Bogen (Arc) zeichnen - echte Kurve mit Liniensegment-Approximation
-        if (!command.startPoint || !command.endPoint) break;
+    case 'line':
+      if (command.startPoint && command.endPoint) {
+        let strokeWidth = 0.2 * PIXELS_PER_MM;
 
-        let arcStrokeWidth = 0.2 * PIXELS_PER_MM;
         if (aperture?.type === 'circle' && aperture.diameter) {
-          arcStrokeWidth = aperture.diameter * PIXELS_PER_MM;
+          strokeWidth = aperture.diameter * PIXELS_PER_MM;
         } else if (aperture?.width) {
-          arcStrokeWidth = aperture.width * PIXELS_PER_MM;
+          strokeWidth = aperture.width * PIXELS_PER_MM;
         }
 
         // Mindest-Strichbreite: 0.5px damit dünne Outline-Linien sichtbar bleiben
-        arcStrokeWidth = Math.max(arcStrokeWidth, 0.5);
+        strokeWidth = Math.max(strokeWidth, 0.5);
 
-        const sx = command.startPoint.x * PIXELS_PER_MM;
-        const sy = command.startPoint.y * PIXELS_PER_MM;
-        const ex = command.endPoint.x * PIXELS_PER_MM;
-        const ey = command.endPoint.y * PIXELS_PER_MM;
+        graphics
+          .moveTo(
+            command.startPoint.x * PIXELS_PER_MM,
+            command.startPoint.y * PIXELS_PER_MM
+          )
+          .lineTo(
+            command.endPoint.x * PIXELS_PER_MM,
+            command.endPoint.y * PIXELS_PER_MM
+          )
+          .stroke({ color, width: strokeWidth, cap: 'round', join: 'round' });
+      }
+      break;
 
-        // Prüfen ob ein gültiger Mittelpunkt vorhanden ist
-        if (command.centerPoint) {
-          const cx = command.centerPoint.x * PIXELS_PER_MM;
-          const cy = command.centerPoint.y * PIXELS_PER_MM;
+    case 'arc': {
+      // Bogen (Arc) zeichnen - echte Kurve mit Liniensegment-Approximation
+      if (!command.startPoint || !command.endPoint) break;
 
-          // Radius aus Start-Punkt zum Mittelpunkt
-          const radius = Math.sqrt((sx - cx) ** 2 + (sy - cy) ** 2);
+      let arcStrokeWidth = 0.2 * PIXELS_PER_MM;
+      if (aperture?.type === 'circle' && aperture.diameter) {
+        arcStrokeWidth = aperture.diameter * PIXELS_PER_MM;
+      } else if (aperture?.width) {
+        arcStrokeWidth = aperture.width * PIXELS_PER_MM;
+      }
 
-          // Bei sehr kleinem Radius oder NaN: als Linie zeichnen
-          if (radius < 0.01 || !isFinite(radius)) {
-            graphics
-              .moveTo(sx, sy)
-              .lineTo(ex, ey)
-              .stroke({ color, width: arcStrokeWidth, cap: 'round' });
-            break;
-          }
+      // Mindest-Strichbreite: 0.5px damit dünne Outline-Linien sichtbar bleiben
+      arcStrokeWidth = Math.max(arcStrokeWidth, 0.5);
 
-          // Winkel berechnen (Gerber Y-up Koordinatensystem)
-          const startAngle = Math.atan2(sy - cy, sx - cx);
-          const endAngle = Math.atan2(ey - cy, ex - cx);
-
-          // NaN-Schutz für Winkel
-          if (!isFinite(startAngle) || !isFinite(endAngle)) {
-            graphics
-              .moveTo(sx, sy)
-              .lineTo(ex, ey)
-              .stroke({ color, width: arcStrokeWidth, cap: 'round' });
-            break;
-          }
+      const sx = command.startPoint.x * PIXELS_PER_MM;
+      const sy = command.startPoint.y * PIXELS_PER_MM;
+      const ex = command.endPoint.x * PIXELS_PER_MM;
+      const ey = command.endPoint.y * PIXELS_PER_MM;
 
-          // Sweep-Winkel bestimmen (Richtung des Bogens)
-          let sweep = endAngle - startAngle;
+      // Prüfen ob ein gültiger Mittelpunkt vorhanden ist
+      if (command.centerPoint) {
+        const cx = command.centerPoint.x * PIXELS_PER_MM;
+        const cy = command.centerPoint.y * PIXELS_PER_MM;
 
-          if (command.clockwise) {
-            // G02: Uhrzeigersinn in Y-up = abnehmender Winkel
-            // Sweep muss negativ sein
-            if (sweep > 0) sweep -= 2 * Math.PI;
-            if (sweep === 0) sweep = -2 * Math.PI; // Vollkreis
-          } else {
-            // G03: Gegenuhrzeigersinn in Y-up = zunehmender Winkel
-            // Sweep muss positiv sein
-            if (sweep < 0) sweep += 2 * Math.PI;
-            if (sweep === 0) sweep = 2 * Math.PI; // Vollkreis
-          }
+        // Radius aus Start-Punkt zum Mittelpunkt
+        const radius = Math.sqrt((sx - cx) ** 2 + (sy - cy) ** 2);
 
-          // Bogen als Liniensegmente approximieren (glatte Kurve)
-          const arcSegments = Math.max(16, Math.ceil(Math.abs(sweep) * 32 / Math.PI));
+        // Bei sehr kleinem Radius oder NaN: als Linie zeichnen
+        if (radius < 0.01 || !isFinite(radius)) {
+          graphics
+            .moveTo(sx, sy)
+            .lineTo(ex, ey)
+            .stroke({ color, width: arcStrokeWidth, cap: 'round' });
+          break;
+        }
 
-          graphics.moveTo(sx, sy);
-          for (let si = 1; si <= arcSegments; si++) {
-            const angle = startAngle + (sweep * si) / arcSegments;
-            const px = cx + radius * Math.cos(angle);
-            const py = cy + radius * Math.sin(angle);
-            graphics.lineTo(px, py);
-          }
-          graphics.stroke({ color, width: arcStrokeWidth, cap: 'round', join: 'round' });
-        } else {
-          // Fallback: Kein Mittelpunkt → als Linie zeichnen
+        // Winkel berechnen (Gerber Y-up Koordinatensystem)
+        const startAngle = Math.atan2(sy - cy, sx - cx);
+        const endAngle = Math.atan2(ey - cy, ex - cx);
+
+        // NaN-Schutz für Winkel
+        if (!isFinite(startAngle) || !isFinite(endAngle)) {
           graphics
             .moveTo(sx, sy)
             .lineTo(ex, ey)
             .stroke({ color, width: arcStrokeWidth, cap: 'round' });
+          break;
         }
-        break;
+
+        // Sweep-Winkel bestimmen (Richtung des Bogens)
+        let sweep = endAngle - startAngle;
+
+        if (command.clockwise) {
+          // G02: Uhrzeigersinn in Y-up = abnehmender Winkel
+          // Sweep muss negativ sein
+          if (sweep > 0) sweep -= 2 * Math.PI;
+          if (sweep === 0) sweep = -2 * Math.PI; // Vollkreis
+        } else {
+          // G03: Gegenuhrzeigersinn in Y-up = zunehmender Winkel
+          // Sweep muss positiv sein
+          if (sweep < 0) sweep += 2 * Math.PI;
+          if (sweep === 0) sweep = 2 * Math.PI; // Vollkreis
+        }
+
+        // Bogen als Liniensegmente approximieren (glatte Kurve)
+        const arcSegments = Math.max(16, Math.ceil(Math.abs(sweep) * 32 / Math.PI));
+
+        graphics.moveTo(sx, sy);
+        for (let si = 1; si <= arcSegments; si++) {
+          const angle = startAngle + (sweep * si) / arcSegments;
+          const px = cx + radius * Math.cos(angle);
+          const py = cy + radius * Math.sin(angle);
+          graphics.lineTo(px, py);
+        }
+        graphics.stroke({ color, width: arcStrokeWidth, cap: 'round', join: 'round' });
+      } else {
+        // Fallback: Kein Mittelpunkt → als Linie zeichnen
+        graphics
+          .moveTo(sx, sy)
+          .lineTo(ex, ey)
+          .stroke({ color, width: arcStrokeWidth, cap: 'round' });
       }
+      break;
     }
-  }
 
-  return graphics;
+    case 'region': {
+      // Region (G36/G37): gefüllte Fläche, Bögen sind bereits in Punkte aufgelöst
+      if (!command.points || command.points.length < 3) break;
+      const regionPoints = command.points.flatMap((p) => [p.x * PIXELS_PER_MM, p.y * PIXELS_PER_MM]);
+      graphics.poly(regionPoints).fill({ color });
+      break;
+    }
+  }
 }
 
 // ============================================================================
@@ -3775,6 +4021,52 @@ function createToolingHoleGraphics(hole: ToolingHole, isSelected: boolean = fals
   return graphics;
 }
 
+// ============================================================================
+// Panel-Beschriftung Graphics erstellen
+// ============================================================================
+
+/**
+ * Zeichnet eine Panel-Beschriftung mit der Strichschrift (identisch mit PDF
+ * und Gerber). Bestückungsdruck weiss, Kupfer in Kupferfarbe, Unterseite
+ * halbtransparent und gespiegelt.
+ */
+function createPanelTextGraphics(text: PanelText, panel: Panel, isSelected: boolean = false): Graphics {
+  const graphics = new Graphics();
+  const strokes = getPanelTextStrokes(text, panel);
+  const points = strokes.flat();
+  if (points.length === 0) return graphics;
+
+  // Bounding-Box als (fast unsichtbare) Klickfläche bzw. Auswahl-Rahmen
+  const pad = text.strokeWidth;
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = (Math.min(...xs) - pad) * PIXELS_PER_MM;
+  const minY = (Math.min(...ys) - pad) * PIXELS_PER_MM;
+  const w = (Math.max(...xs) + pad) * PIXELS_PER_MM - minX;
+  const h = (Math.max(...ys) + pad) * PIXELS_PER_MM - minY;
+  graphics.rect(minX, minY, w, h).fill({ color: 0xffffff, alpha: 0.01 });
+  if (isSelected) {
+    graphics.rect(minX - 2, minY - 2, w + 4, h + 4).stroke({ color: 0xffa500, width: 2, alpha: 0.8 });
+  }
+
+  // Striche: alle Polylinien als ein Pfad, dann einmal zeichnen
+  for (const stroke of strokes) {
+    graphics.moveTo(stroke[0].x * PIXELS_PER_MM, stroke[0].y * PIXELS_PER_MM);
+    for (let i = 1; i < stroke.length; i++) {
+      graphics.lineTo(stroke[i].x * PIXELS_PER_MM, stroke[i].y * PIXELS_PER_MM);
+    }
+  }
+  graphics.stroke({
+    color: text.layer === 'copper' ? COLORS.copperThieving : COLORS.silkscreen,
+    width: text.strokeWidth * PIXELS_PER_MM,
+    alpha: text.side === 'bottom' ? 0.5 : 1,
+    cap: 'round',
+    join: 'round',
+  });
+
+  return graphics;
+}
+
 // ============================================================================
 // Tab Graphics erstellen
 // ============================================================================
@@ -3782,44 +4074,12 @@ function createToolingHoleGraphics(hole: ToolingHole, isSelected: boolean = fals
 function createTabGraphics(tab: Tab, instance: BoardInstance, board: Board, isSelected: boolean = false): Graphics {
   const graphics = new Graphics();
 
-  // Board-Größe (berücksichtigt Rotation)
-  const isRotated = instance.rotation === 90 || instance.rotation === 270;
-  const boardWidth = isRotated ? board.height : board.width;
-  const boardHeight = isRotated ? board.width : board.height;
-
-  // Tab-Position berechnen
-  let tabX = 0;
-  let tabY = 0;
-  let tabW = tab.width * PIXELS_PER_MM;
-  let tabH = 2 * PIXELS_PER_MM; // Tab-Tiefe (ins Board hinein)
-
-  const boardX = instance.position.x * PIXELS_PER_MM;
-  const boardY = instance.position.y * PIXELS_PER_MM;
-
-  switch (tab.edge) {
-    case 'top':
-      tabX = boardX + tab.position * boardWidth * PIXELS_PER_MM - tabW / 2;
-      tabY = boardY + boardHeight * PIXELS_PER_MM;
-      tabH = 2 * PIXELS_PER_MM;
-      break;
-    case 'bottom':
-      tabX = boardX + tab.position * boardWidth * PIXELS_PER_MM - tabW / 2;
-      tabY = boardY - 2 * PIXELS_PER_MM;
-      tabH = 2 * PIXELS_PER_MM;
-      break;
-    case 'left':
-      tabX = boardX - 2 * PIXELS_PER_MM;
-      tabY = boardY + tab.position * boardHeight * PIXELS_PER_MM - tabW / 2;
-      tabW = 2 * PIXELS_PER_MM;
-      tabH = tab.width * PIXELS_PER_MM;
-      break;
-    case 'right':
-      tabX = boardX + boardWidth * PIXELS_PER_MM;
-      tabY = boardY + tab.position * boardHeight * PIXELS_PER_MM - tabW / 2;
-      tabW = 2 * PIXELS_PER_MM;
-      tabH = tab.width * PIXELS_PER_MM;
-      break;
-  }
+  // Tab-Rechteck berechnen (gemeinsame Geometrie mit dem Excellon-Export)
+  const rect = getTabRect(tab, instance, board);
+  const tabX = rect.x * PIXELS_PER_MM;
+  const tabY = rect.y * PIXELS_PER_MM;
+  const tabW = rect.width * PIXELS_PER_MM;
+  const tabH = rect.height * PIXELS_PER_MM;
 
   // Farbe basierend auf Tab-Typ
   let tabColor = 0xffa500; // Orange für Solid
@@ -3845,37 +4105,13 @@ function createTabGraphics(tab: Tab, instance: BoardInstance, board: Board, isSe
   graphics.rect(tabX, tabY, tabW, tabH).stroke({ color: isSelected ? 0xffffff : tabColor, width: isSelected ? 2 : 1 });
 
   // Bei Mouse Bites: Bohrungen andeuten
-  // WICHTIG: Die Bohrungsmittelpunkte liegen direkt auf der Board-Kante,
-  // damit das Ausbrechen sauber funktioniert.
-  if (tab.type === 'mousebites' && tab.holeDiameter && tab.holeSpacing) {
+  // Positionen kommen aus getTabMousebiteHoles() – exakt dieselben wie im Excellon-Export
+  if (tab.type === 'mousebites' && tab.holeDiameter) {
     const holeRadius = (tab.holeDiameter / 2) * PIXELS_PER_MM;
-    const spacing = tab.holeSpacing * PIXELS_PER_MM;
-
-    // Anzahl Bohrungen berechnen
-    const tabLength = (tab.edge === 'top' || tab.edge === 'bottom') ? tabW : tabH;
-    const holeCount = Math.floor(tabLength / spacing);
-
-    for (let i = 0; i < holeCount; i++) {
-      let holeX, holeY;
-
-      if (tab.edge === 'top' || tab.edge === 'bottom') {
-        // Bohrungen entlang der X-Achse verteilen
-        holeX = tabX + (i + 0.5) * (tabW / holeCount);
-        // Y-Position: direkt auf der Board-Kante
-        // Top-Kante: unterer Rand des Tabs = Board-Oberkante
-        // Bottom-Kante: oberer Rand des Tabs = Board-Unterkante
-        holeY = tab.edge === 'top' ? tabY : tabY + tabH;
-      } else {
-        // Y-Position: Bohrungen entlang der Y-Achse verteilen
-        holeY = tabY + (i + 0.5) * (tabH / holeCount);
-        // X-Position: direkt auf der Board-Kante
-        // Left-Kante: rechter Rand des Tabs = Board-Linkskante
-        // Right-Kante: linker Rand des Tabs = Board-Rechtskante
-        holeX = tab.edge === 'left' ? tabX + tabW : tabX;
-      }
 
+    for (const hole of getTabMousebiteHoles(tab, instance, board)) {
       // Bohrung als dunkler Kreis
-      graphics.circle(holeX, holeY, holeRadius).fill({ color: 0x1a1a1a });
+      graphics.circle(hole.x * PIXELS_PER_MM, hole.y * PIXELS_PER_MM, holeRadius).fill({ color: 0x1a1a1a });
     }
   }
 
@@ -4219,6 +4455,52 @@ function createRoutingContourGraphics(
   return container;
 }
 
+// ============================================================================
+// Kupfer-Thieving Graphics erstellen
+// ============================================================================
+
+/**
+ * Erstellt die Grafik für das Kupfer-Thieving (Geometrie aus copper-thieving.ts,
+ * identisch mit dem Gerber-Export)
+ */
+function createCopperThievingGraphics(geometry: CopperThievingGeometry): Graphics {
+  const graphics = new Graphics();
+  const color = COLORS.copperThieving;
+
+  // Vollfläche: alle Streifen als ein Pfad, dann einmal füllen
+  if (geometry.strips.length > 0) {
+    for (const strip of geometry.strips) {
+      graphics.rect(
+        strip.x * PIXELS_PER_MM,
+        strip.y * PIXELS_PER_MM,
+        strip.width * PIXELS_PER_MM,
+        strip.height * PIXELS_PER_MM
+      );
+    }
+    graphics.fill({ color, alpha: 0.5 });
+  }
+
+  // Schraffur: Linien sammeln, dann einmal zeichnen (PixiJS 8)
+  if (geometry.lines.length > 0) {
+    for (const line of geometry.lines) {
+      graphics.moveTo(line.start.x * PIXELS_PER_MM, line.start.y * PIXELS_PER_MM);
+      graphics.lineTo(line.end.x * PIXELS_PER_MM, line.end.y * PIXELS_PER_MM);
+    }
+    graphics.stroke({ color, width: geometry.lineWidth * PIXELS_PER_MM, cap: 'round', alpha: 0.5 });
+  }
+
+  // Punkte
+  if (geometry.dots.length > 0) {
+    const r = (geometry.dotDiameter / 2) * PIXELS_PER_MM;
+    for (const dot of geometry.dots) {
+      graphics.circle(dot.x * PIXELS_PER_MM, dot.y * PIXELS_PER_MM, r);
+    }
+    graphics.fill({ color, alpha: 0.5 });
+  }
+
+  return graphics;
+}
+
 // ============================================================================
 // Rundungs-Mousebite Graphics erstellen (Kreisbogen)
 // ============================================================================
@@ -4280,12 +4562,11 @@ function createFreeMousebiteGraphics(
   container.addChild(arcLine);
 
   // Bohrungen entlang des Kreisbogens zeichnen
+  // Positionen kommen aus getFreeMousebiteHoles() – exakt dieselben wie im Excellon-Export
   const holeGraphics = new Graphics();
-  for (let i = 0; i < holeCount; i++) {
-    const t = holeCount > 1 ? i / (holeCount - 1) : 0.5;
-    const angle = startRad + t * totalArc;
-    const hx = cx + Math.cos(angle) * radius;
-    const hy = cy + Math.sin(angle) * radius;
+  for (const hole of getFreeMousebiteHoles(mousebite)) {
+    const hx = hole.x * PIXELS_PER_MM;
+    const hy = hole.y * PIXELS_PER_MM;
 
     // Bohrung als dunkler Kreis mit farbigem Rand
     holeGraphics.circle(hx, hy, holeRadius).fill({ color: 0x1a1a1a });
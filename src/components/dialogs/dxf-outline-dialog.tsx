@@ -0,0 +1,226 @@
+/**
+ * DXF-Outline Dialog - Board-Kontur aus einer DXF-Zeichnung übernehmen
+ *
+ * Wird aus dem "Outline definieren"-Modus der Sidebar geöffnet:
+ * 1. DXF-Datei wählen
+ * 2. Einheit und Ausrichtung auf die Kupfer-Layer festlegen
+ * 3. Als neuen Outline-Layer übernehmen (bisheriger Outline wird 'mechanical')
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { X, FileUp, AlertCircle } from 'lucide-react';
+import {
+  parseDxf,
+  createDxfOutlineLayer,
+  calculateBoundingBox,
+  type DxfAlignment,
+  type DxfDrawing,
+  type DxfUnit,
+} from '@/lib/gerber';
+import { usePanelStore } from '@/stores/panel-store';
+import type { ParsedGerber } from '@/types';
+
+// ============================================================================
+// Auswahl-Optionen
+// ============================================================================
+
+const UNIT_OPTIONS: { value: DxfUnit; label: string }[] = [
+  { value: 'mm', label: 'Millimeter' },
+  { value: 'cm', label: 'Zentimeter' },
+  { value: 'm', label: 'Meter' },
+  { value: 'inch', label: 'Zoll (inch)' },
+  { value: 'mil', label: 'mil (1/1000 inch)' },
+];
+
+const ALIGNMENT_OPTIONS: { value: DxfAlignment; label: string }[] = [
+  { value: 'center', label: 'Mitte auf Kupfer-Layer' },
+  { value: 'lower-left', label: 'Linke untere Ecke auf Kupfer-Layer' },
+  { value: 'none', label: 'DXF-Koordinaten übernehmen' },
+];
+
+/**
+ * Einheit und Ausrichtung einer DXF-Kontur (auch im Import-Dialog verwendet)
+ */
+export function DxfOutlineOptions({
+  unit,
+  alignment,
+  onUnitChange,
+  onAlignmentChange,
+}: {
+  unit: DxfUnit;
+  alignment: DxfAlignment;
+  onUnitChange: (unit: DxfUnit) => void;
+  onAlignmentChange: (alignment: DxfAlignment) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label className="input-label">Einheit</label>
+        <select
+          value={unit}
+          onChange={(e) => onUnitChange(e.target.value as DxfUnit)}
+          className="input-field"
+        >
+          {UNIT_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="input-label">Ausrichtung</label>
+        <select
+          value={alignment}
+          onChange={(e) => onAlignmentChange(e.target.value as DxfAlignment)}
+          className="input-field"
+        >
+          {ALIGNMENT_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Kurzbeschreibung einer gelesenen DXF (Elemente und Größe in der gewählten Einheit)
+ */
+export function describeDxfDrawing(drawing: DxfDrawing, unit: DxfUnit): string {
+  const entities = Object.entries(drawing.entityCounts)
+    .map(([type, count]) => `${count} ${type}`)
+    .join(', ');
+  if (drawing.commands.length === 0) return entities || 'Keine Geometrie';
+
+  const bbox = calculateBoundingBox({ commands: drawing.commands } as ParsedGerber);
+  const w = bbox.maxX - bbox.minX;
+  const h = bbox.maxY - bbox.minY;
+  return `${entities} · ${w.toFixed(2)} × ${h.toFixed(2)} ${unit}`;
+}
+
+// ============================================================================
+// Dialog
+// ============================================================================
+
+interface DxfOutlineDialogProps {
+  /** Ob der Dialog geöffnet ist */
+  isOpen: boolean;
+  /** Callback zum Schließen des Dialogs */
+  onClose: () => void;
+  /** Board, dessen Outline ersetzt wird */
+  boardId: string;
+}
+
+export function DxfOutlineDialog({ isOpen, onClose, boardId }: DxfOutlineDialogProps) {
+  const board = usePanelStore((state) => state.panel.boards.find((b) => b.id === boardId));
+  const applyDxfOutline = usePanelStore((state) => state.applyDxfOutline);
+
+  const [filename, setFilename] = useState('');
+  const [drawing, setDrawing] = useState<DxfDrawing | null>(null);
+  const [unit, setUnit] = useState<DxfUnit>('mm');
+  const [alignment, setAlignment] = useState<DxfAlignment>('center');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parseDxf(await file.text());
+    setFilename(file.name);
+    setDrawing(parsed);
+    if (parsed.detectedUnit) setUnit(parsed.detectedUnit);
+  };
+
+  const handleClose = () => {
+    setFilename('');
+    setDrawing(null);
+    onClose();
+  };
+
+  const handleApply = () => {
+    if (!board || !drawing) return;
+    applyDxfOutline(
+      board.id,
+      createDxfOutlineLayer(drawing, filename, { unit, alignment, layers: board.layers, origin: board.sourceOrigin })
+    );
+    handleClose();
+  };
+
+  if (!isOpen || !board) return null;
+
+  const canApply = drawing !== null && drawing.commands.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Hintergrund-Overlay */}
+      <div className="absolute inset-0 bg-black/50" onClick={handleClose} />
+
+      {/* Dialog-Box */}
+      <div className="relative bg-white rounded-xl shadow-2xl w-full max-w-md animate-slide-in">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Outline aus DXF</h2>
+          <button onClick={handleClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-2 px-3 py-3 text-sm rounded-lg border-2 border-dashed border-gray-300 text-gray-600 hover:border-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <FileUp className="w-4 h-4" />
+            {filename || 'DXF-Datei wählen...'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".dxf"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+
+          {drawing && (
+            <>
+              <p className="text-xs text-gray-500">{describeDxfDrawing(drawing, unit)}</p>
+
+              {drawing.diagnostics.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex gap-2">
+                  <AlertCircle className="w-4 h-4 text-amber-500 shrink-0" />
+                  <div className="text-xs text-amber-800 space-y-1">
+                    {drawing.diagnostics.map((d, i) => (
+                      <p key={i}>{d.message}</p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <DxfOutlineOptions
+                unit={unit}
+                alignment={alignment}
+                onUnitChange={setUnit}
+                onAlignmentChange={setAlignment}
+              />
+            </>
+          )}
+        </div>
+
+        {/* Aktionen */}
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+          <button onClick={handleClose} className="btn-secondary">
+            Abbrechen
+          </button>
+          <button onClick={handleApply} disabled={!canApply} className="btn-primary disabled:opacity-50">
+            Als Outline übernehmen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,15 +2,15 @@
  * Import Dialog - Benutzeroberfläche zum Importieren von Gerber-Dateien
  *
  * Dieser Dialog ermöglicht:
- * 1. Upload einer ZIP-Datei mit Gerber-Daten
+ * 1. Upload einer ZIP-Datei mit Gerber-Daten oder einer KiCad-Leiterplatte (.kicad_pcb)
  * 2. Automatische Erkennung der Layer-Typen
  * 3. Manuelle Korrektur der Layer-Zuordnung
- * 4. Import der Daten in die Anwendung
+ * 4. Import der Daten in die Anwendung (mehrere Designs im ZIP als eigene Boards)
  */
 
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { Fragment, useState, useCallback, useEffect, useRef } from 'react';
 import {
   X,
   Upload,
@@ -21,21 +21,60 @@ import {
   Loader2,
   Eye,
   EyeOff,
+  Download,
+  FileUp,
+  BookmarkPlus,
 } from 'lucide-react';
 import {
   extractZipFile,
-  parseGerberFiles,
+  parseGerberFilesInWorker,
+  normalizeGerberLayersInWorker,
   calculateCombinedBoundingBox,
   extractBoardOutline,
+  extractBoardContours,
   validateGerberFiles,
   getAllLayerTypes,
   getLayerLabel,
   getLayerColor,
-  normalizeGerberLayers,
+  diagnoseLayerSet,
+  getWorstSeverity,
+  generateDiagnosticsReport,
+  parseKicadPcbInWorker,
+  isKicadPcbFile,
+  parseDxf,
+  createDxfOutlineLayer,
+  replaceOutlineLayer,
+  type ParseProgress,
+  type DxfAlignment,
+  type DxfDrawing,
+  type DxfUnit,
 } from '@/lib/gerber';
+import { saveAs } from 'file-saver';
 import { usePanelStore } from '@/stores/panel-store';
 import { cn, generateId } from '@/lib/utils';
-import type { GerberFile, GerberLayerType, Board } from '@/types';
+import { compareBoardRevision } from '@/lib/utils/board-revision';
+import {
+  getLayerMappingRules,
+  getRulesForProfile,
+  getLayerRuleProfiles,
+  getActiveLayerProfile,
+  setActiveLayerProfile,
+  addLayerMappingRule,
+  suggestLayerRulePattern,
+} from '@/lib/utils/layer-mapping-rules';
+import { DxfOutlineOptions, describeDxfDrawing } from './dxf-outline-dialog';
+import { LayerRulesDialog } from './layer-rules-dialog';
+import type {
+  GerberFile,
+  GerberLayerType,
+  Board,
+  BoardComponent,
+  BoardRevisionData,
+  BoardRevisionSummary,
+  GerberJob,
+  LayerDetection,
+  Point,
+} from '@/types';
 
 // ============================================================================
 // Props und State
@@ -46,27 +85,72 @@ interface ImportDialogProps {
   isOpen: boolean;
   /** Callback zum Schließen des Dialogs */
   onClose: () => void;
+  /** Board, dessen Daten durch eine neue Revision ersetzt werden (statt ein neues Board anzulegen) */
+  replaceBoardId?: string;
 }
 
-type ImportStep = 'upload' | 'review' | 'importing' | 'success' | 'error';
+type ImportStep = 'upload' | 'review' | 'importing' | 'revision' | 'success' | 'error';
+
+/**
+ * Ein Design aus dem ZIP (wird bei mehreren Designs als eigenes Board importiert)
+ */
+interface ImportDesign {
+  name: string;
+  /** IDs der zugehörigen Layer in gerberFiles */
+  fileIds: string[];
+  gerberJob: GerberJob | null;
+}
+
+/** Abstand in mm zwischen mehreren gleichzeitig importierten Boards */
+const MULTI_IMPORT_GAP = 5;
 
 // ============================================================================
 // Haupt-Komponente
 // ============================================================================
 
-export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
+export function ImportDialog({ isOpen, onClose, replaceBoardId }: ImportDialogProps) {
   // Store-Aktionen
   const addBoard = usePanelStore((state) => state.addBoard);
   const addBoardInstance = usePanelStore((state) => state.addBoardInstance);
+  const replaceBoardData = usePanelStore((state) => state.replaceBoardData);
+  const replaceBoard = usePanelStore((state) => state.panel.boards.find((b) => b.id === replaceBoardId));
 
   // Lokaler State
   const [step, setStep] = useState<ImportStep>('upload');
   const [isDragging, setIsDragging] = useState(false);
   const [gerberFiles, setGerberFiles] = useState<GerberFile[]>([]);
+  const [gerberJob, setGerberJob] = useState<GerberJob | null>(null);
+  const [designs, setDesigns] = useState<ImportDesign[]>([]);
+  const [splitDesigns, setSplitDesigns] = useState(true);
+  const [importedNames, setImportedNames] = useState<string[]>([]);
   const [boardName, setBoardName] = useState('');
+  const [sourceName, setSourceName] = useState('');
   const [warnings, setWarnings] = useState<string[]>([]);
   const [infos, setInfos] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [revision, setRevision] = useState<{ data: BoardRevisionData; summary: BoardRevisionSummary } | null>(null);
+  // Bauteile aus einer KiCad-Leiterplatte (null = Gerber-Import)
+  const [components, setComponents] = useState<BoardComponent[] | null>(null);
+
+  // Board-Kontur aus DXF (aus dem ZIP oder separat gewählt)
+  const [dxfFiles, setDxfFiles] = useState<Map<string, string>>(new Map());
+  const [dxfName, setDxfName] = useState('');
+  const [dxfDrawing, setDxfDrawing] = useState<DxfDrawing | null>(null);
+  const [dxfUnit, setDxfUnit] = useState<DxfUnit>('mm');
+  const [dxfAlignment, setDxfAlignment] = useState<DxfAlignment>('center');
+
+  // Kundenprofil für die Layer-Zuordnungsregeln ('' = nur allgemeine Regeln)
+  const [layerProfile, setLayerProfile] = useState('');
+  const [isRulesDialogOpen, setIsRulesDialogOpen] = useState(false);
+
+  // Zuletzt gewähltes Profil beim Öffnen wiederherstellen
+  useEffect(() => {
+    if (isOpen) setLayerProfile(getActiveLayerProfile());
+  }, [isOpen]);
+
+  // Laufende Verarbeitung im Worker (zum Abbrechen)
+  const abortRef = useRef<AbortController | null>(null);
 
   // Ref für das versteckte File-Input
   const fileInputRef = useRef<HTMLInputElement>(null!);
@@ -76,23 +160,82 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
   // ----------------------------------------------------------------
 
   /**
-   * Verarbeitet die hochgeladene ZIP-Datei
+   * Wählt eine DXF-Zeichnung als Board-Kontur (leerer Name = keine)
+   */
+  const selectDxf = useCallback((name: string, content: string) => {
+    setDxfName(name);
+    if (!name) {
+      setDxfDrawing(null);
+      return;
+    }
+    const drawing = parseDxf(content);
+    setDxfDrawing(drawing);
+    if (drawing.detectedUnit) setDxfUnit(drawing.detectedUnit);
+  }, []);
+
+  /**
+   * Verarbeitet die hochgeladene ZIP-Datei bzw. KiCad-Leiterplatte
    */
   const handleFileUpload = useCallback(async (file: File) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setStep('importing');
+    setProgress(null);
     setError(null);
 
     try {
       // Board-Name aus Dateiname ableiten
-      const name = file.name.replace(/\.zip$/i, '');
+      const name = file.name.replace(/\.(zip|kicad_pcb)$/i, '');
       setBoardName(name);
+      setSourceName(file.name);
+
+      // KiCad-Leiterplatte direkt lesen (ohne Gerber-Export, im Worker)
+      if (isKicadPcbFile(file.name)) {
+        const pcb = await parseKicadPcbInWorker(await file.text(), file.name, { signal: controller.signal });
+        const job = pcb.gerberJob;
+        const specs = [
+          `${job.copperLayerCount} Lagen`,
+          job.boardThickness ? `${job.boardThickness} mm` : null,
+          `${pcb.components.length} Bauteile`,
+        ].filter(Boolean);
+        setBoardName(job.designName || name);
+        setGerberJob(job);
+        setComponents(pcb.components);
+        setWarnings(pcb.diagnostics.filter((d) => d.severity !== 'info').map((d) => d.message));
+        setInfos([
+          `KiCad-Leiterplatte gelesen (${specs.join(', ')}).`,
+          ...pcb.diagnostics.filter((d) => d.severity === 'info').map((d) => d.message),
+        ]);
+        setDesigns([]);
+        setDxfFiles(new Map());
+        selectDxf('', '');
+        setGerberFiles(diagnoseLayerSet(pcb.layers));
+        setStep('review');
+        return;
+      }
+      setComponents(null);
+
+      // Benutzerdefinierte Zuordnungsregeln (allgemein + gewähltes Kundenprofil)
+      const rules = getRulesForProfile(getLayerMappingRules(), layerProfile);
 
       // ZIP extrahieren
-      const extraction = await extractZipFile(file);
+      const extraction = await extractZipFile(file, rules);
 
       // Validieren
       const validation = validateGerberFiles(extraction.gerberFiles);
       setWarnings(validation.warnings);
+
+      // Jobdatei: Design-Name und Aufbau übernehmen
+      const job = extraction.gerberJob;
+      setGerberJob(job);
+      if (job) {
+        if (job.designName) setBoardName(job.designName);
+        const specs = [
+          job.copperLayerCount ? `${job.copperLayerCount} Lagen` : null,
+          job.boardThickness ? `${job.boardThickness} mm` : null,
+        ].filter(Boolean);
+        validation.info.push(`Gerber-Jobdatei gefunden${specs.length > 0 ? ` (${specs.join(', ')})` : ''}.`);
+      }
       setInfos(validation.info);
 
       if (!validation.valid) {
@@ -101,25 +244,69 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
         return;
       }
 
-      // Gerber-Dateien parsen
-      const parsed = await parseGerberFiles(extraction.files);
+      // Gerber-Dateien pro Design im Worker parsen (jedes Design mit seiner eigenen Jobdatei)
+      const parsed: GerberFile[] = [];
+      const foundDesigns: ImportDesign[] = [];
+      let remaining = extraction.gerberFiles.length;
+      for (const group of extraction.designs) {
+        const groupFiles = new Map(group.files.map((key) => [key, extraction.files.get(key) || '']));
+        remaining -= group.files.length;
+        const groupLayers = await parseGerberFilesInWorker(groupFiles, {
+          job: group.gerberJob,
+          rules,
+          signal: controller.signal,
+          // Fortschritt über alle Designs zusammen zählen
+          onProgress: (p) => setProgress({
+            done: parsed.length + p.done,
+            total: parsed.length + p.total + remaining,
+            filename: p.filename,
+          }),
+        });
+        // Diagnose pro Design (Outline-Vergleich nur innerhalb des Designs)
+        parsed.push(...diagnoseLayerSet(groupLayers));
+        foundDesigns.push({
+          name: group.gerberJob?.designName || group.name || name,
+          fileIds: groupLayers.map((l) => l.id),
+          gerberJob: group.gerberJob,
+        });
+      }
+      if (foundDesigns.length > 1) {
+        validation.info.push(`${foundDesigns.length} Designs im Archiv erkannt: ${foundDesigns.map((d) => d.name).join(', ')}.`);
+        setInfos(validation.info);
+      }
+      setDesigns(foundDesigns);
+      setSplitDesigns(true);
+
+      // Normalisiert wird erst beim Import (gemeinsam oder pro Design)
+      setGerberFiles(parsed);
 
-      // WICHTIG: Alle Layer gemeinsam normalisieren, damit sie korrekt übereinander liegen!
-      const normalizedLayers = normalizeGerberLayers(parsed);
-      setGerberFiles(normalizedLayers);
+      // DXF-Zeichnungen im Archiv: ohne Outline-Layer die erste als Kontur vorschlagen
+      const dxfContents = new Map(extraction.dxfFiles.map((key) => [key, extraction.files.get(key) || '']));
+      setDxfFiles(dxfContents);
+      if (dxfContents.size > 0) {
+        validation.info.push(`DXF-Zeichnung gefunden: ${extraction.dxfFiles.join(', ')}.`);
+        setInfos(validation.info);
+      }
+      if (dxfContents.size > 0 && !parsed.some((f) => f.type === 'outline')) {
+        selectDxf(extraction.dxfFiles[0], dxfContents.get(extraction.dxfFiles[0]) || '');
+      } else {
+        selectDxf('', '');
+      }
 
       // Zur Review-Ansicht wechseln
       setStep('review');
     } catch (err) {
+      // Vom Benutzer abgebrochen: Dialog wurde bereits zurückgesetzt
+      if (controller.signal.aborted) return;
       console.error('Fehler beim Import:', err);
       setError(
         err instanceof Error
           ? err.message
-          : 'Unbekannter Fehler beim Verarbeiten der ZIP-Datei.'
+          : 'Unbekannter Fehler beim Verarbeiten der Datei.'
       );
       setStep('error');
     }
-  }, []);
+  }, [selectDxf, layerProfile]);
 
   /**
    * Handler für File-Input Change
@@ -140,10 +327,10 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
       setIsDragging(false);
 
       const file = e.dataTransfer.files[0];
-      if (file && file.name.toLowerCase().endsWith('.zip')) {
+      if (file && (file.name.toLowerCase().endsWith('.zip') || isKicadPcbFile(file.name))) {
         handleFileUpload(file);
       } else {
-        setError('Bitte laden Sie eine ZIP-Datei hoch.');
+        setError('Bitte laden Sie eine ZIP-Datei oder eine KiCad-Leiterplatte (.kicad_pcb) hoch.');
         setStep('error');
       }
     },
@@ -168,12 +355,31 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
     setGerberFiles((prev) =>
       prev.map((file) =>
         file.id === fileId
-          ? { ...file, type: newType, color: getLayerColor(newType) }
+          ? { ...file, type: newType, color: getLayerColor(newType), detection: undefined }
           : file
       )
     );
   };
 
+  /**
+   * Speichert die manuelle Zuordnung als Regel (eigene Dateiendung, sonst exakter Dateiname)
+   */
+  const handleSaveRule = (fileId: string) => {
+    const file = gerberFiles.find((f) => f.id === fileId);
+    if (!file) return;
+    addLayerMappingRule({
+      pattern: suggestLayerRulePattern(file.filename),
+      syntax: 'glob',
+      type: file.type,
+      ...(layerProfile && { profile: layerProfile }),
+    });
+    setGerberFiles((prev) =>
+      prev.map((f) =>
+        f.id === fileId ? { ...f, detection: { type: f.type, confidence: 1, source: 'rule' } } : f
+      )
+    );
+  };
+
   const handleVisibilityToggle = (fileId: string) => {
     setGerberFiles((prev) =>
       prev.map((file) =>
@@ -186,37 +392,86 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
   // Import abschließen
   // ----------------------------------------------------------------
 
-  const handleImport = () => {
-    // Bounding Box nur aus sichtbaren Layern berechnen (für korrekte Board-Größe)
-    const visibleFiles = gerberFiles.filter((f) => f.visible);
-    const bbox = calculateCombinedBoundingBox(visibleFiles.length > 0 ? visibleFiles : gerberFiles);
-
-    // Outline extrahieren
-    const outline = extractBoardOutline(gerberFiles);
-
-    // Board-Objekt erstellen
-    const board: Board = {
-      id: generateId(),
-      name: boardName || 'Importiertes Board',
-      layers: gerberFiles,
-      outline,
-      boundingBox: bbox,
-      width: bbox.maxX - bbox.minX,
-      height: bbox.maxY - bbox.minY,
-      renderOffsetX: bbox.minX,
-      renderOffsetY: bbox.minY,
-      layerRotation: 0,
-      mirrorX: false,
-      mirrorY: false,
-      importedAt: new Date(),
-    };
-
-    // Zum Store hinzufügen
-    addBoard(board);
-
-    // Board automatisch im Panel platzieren (innerhalb des Nutzenrands)
+  const handleImport = async () => {
+    // Ein Board pro Design oder alles zusammen als ein Board (neue Revision immer zusammen)
+    const groups = splitDesigns && designs.length > 1 && !replaceBoard
+      ? designs.map((d) => ({
+          name: d.name,
+          files: gerberFiles.filter((f) => d.fileIds.includes(f.id)),
+          job: d.gerberJob,
+        }))
+      : [{ name: boardName, files: gerberFiles, job: gerberJob }];
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStep('importing');
+    setProgress(null);
+
+    // WICHTIG: Alle Layer eines Boards gemeinsam normalisieren, damit sie korrekt übereinander liegen!
+    let boards: Board[];
+    try {
+      boards = await Promise.all(
+        groups.map(async (group) => {
+          // Bauteile um denselben Offset verschieben wie die Layer beim Normalisieren
+          const origin = calculateCombinedBoundingBox(group.files);
+          const placed = components?.map((c) => ({
+            ...c,
+            position: { x: c.position.x - origin.minX, y: c.position.y - origin.minY },
+          }));
+          let layers = await normalizeGerberLayersInWorker(group.files, { signal: controller.signal });
+          const sourceOrigin = { x: origin.minX, y: origin.minY };
+          // Kontur aus DXF (nur bei einem Board) nach dem Normalisieren an den Kupfer-Layern ausrichten
+          if (groups.length === 1 && dxfDrawing) {
+            const dxfLayer = createDxfOutlineLayer(dxfDrawing, dxfName, {
+              unit: dxfUnit,
+              alignment: dxfAlignment,
+              layers,
+              origin: sourceOrigin,
+            });
+            layers = replaceOutlineLayer(layers, dxfLayer);
+          }
+          return createBoard(group.name, layers, group.job, sourceOrigin, placed);
+        })
+      );
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Fehler beim Import:', err);
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler beim Normalisieren der Layer.');
+      setStep('error');
+      return;
+    }
+
+    // Neue Revision: erst Änderungen zeigen, ersetzt wird nach Bestätigung
+    if (replaceBoard) {
+      const { layers, outline, contours, boundingBox, width, height, renderOffsetX, renderOffsetY, sourceOrigin, gerberJob: job, components: parts } = boards[0];
+      const data: BoardRevisionData = {
+        layers,
+        outline,
+        contours,
+        boundingBox,
+        width,
+        height,
+        renderOffsetX,
+        renderOffsetY,
+        sourceOrigin,
+        gerberJob: job,
+        components: parts,
+      };
+      const panel = usePanelStore.getState().panel;
+      setRevision({ data, summary: compareBoardRevision(panel, replaceBoard, { ...replaceBoard, ...data }) });
+      setStep('revision');
+      return;
+    }
+
+    // Boards nebeneinander im Panel platzieren (innerhalb des Nutzenrands)
     const frame = usePanelStore.getState().panel.frame;
-    addBoardInstance(board.id, { x: frame.left, y: frame.top });
+    let x = frame.left;
+    for (const board of boards) {
+      addBoard(board);
+      addBoardInstance(board.id, { x, y: frame.top });
+      x += board.width + MULTI_IMPORT_GAP;
+    }
+    setImportedNames(groups.map((g) => g.name || 'Importiertes Board'));
 
     // Erfolg anzeigen
     setStep('success');
@@ -227,14 +482,50 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
     }, 1500);
   };
 
+  /**
+   * Übernimmt die neue Revision in das bestehende Board
+   */
+  const handleConfirmRevision = () => {
+    if (!replaceBoard || !revision) return;
+    replaceBoardData(replaceBoard.id, revision.data);
+    setImportedNames([replaceBoard.name]);
+    setStep('success');
+    setTimeout(() => {
+      handleClose();
+    }, 1500);
+  };
+
+  /**
+   * Bricht das Parsen bzw. Normalisieren im Worker ab
+   */
+  const handleCancelProcessing = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+    // Beim Import zurück zur Überprüfung, beim Einlesen zurück zum Upload
+    setStep(gerberFiles.length > 0 ? 'review' : 'upload');
+  };
+
   // ----------------------------------------------------------------
   // Dialog schließen und zurücksetzen
   // ----------------------------------------------------------------
 
   const handleClose = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+    setRevision(null);
+    setComponents(null);
+    setDxfFiles(new Map());
+    setDxfName('');
+    setDxfDrawing(null);
     setStep('upload');
     setGerberFiles([]);
+    setGerberJob(null);
+    setDesigns([]);
+    setImportedNames([]);
     setBoardName('');
+    setSourceName('');
     setWarnings([]);
     setInfos([]);
     setError(null);
@@ -261,7 +552,7 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
         {/* Header */}
         <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
           <h2 className="text-lg font-semibold text-gray-900">
-            Gerber-Dateien importieren
+            {replaceBoard ? `Neue Revision für "${replaceBoard.name}"` : 'Gerber-Dateien importieren'}
           </h2>
           <button
             onClick={handleClose}
@@ -283,11 +574,20 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
               onFileSelect={() => fileInputRef.current?.click()}
               fileInputRef={fileInputRef}
               onFileInputChange={handleFileInputChange}
+              profiles={getLayerRuleProfiles(getLayerMappingRules())}
+              profile={layerProfile}
+              onProfileChange={(profile) => {
+                setLayerProfile(profile);
+                setActiveLayerProfile(profile);
+              }}
+              onEditRules={() => setIsRulesDialogOpen(true)}
             />
           )}
 
           {/* Step: Importing */}
-          {step === 'importing' && <ImportingStep />}
+          {step === 'importing' && (
+            <ImportingStep progress={progress} onCancel={handleCancelProcessing} />
+          )}
 
           {/* Step: Review */}
           {step === 'review' && (
@@ -297,15 +597,49 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
               warnings={warnings}
               infos={infos}
               onBoardNameChange={setBoardName}
+              designs={designs}
+              splitDesigns={splitDesigns}
+              onSplitDesignsChange={setSplitDesigns}
+              onDesignNameChange={(index, designName) =>
+                setDesigns((prev) => prev.map((d, i) => (i === index ? { ...d, name: designName } : d)))
+              }
               onLayerTypeChange={handleLayerTypeChange}
+              onSaveRule={handleSaveRule}
               onVisibilityToggle={handleVisibilityToggle}
+              replaceName={replaceBoard?.name}
+              outlineSection={
+                <DxfOutlineSection
+                  dxfFiles={dxfFiles}
+                  dxfName={dxfName}
+                  drawing={dxfDrawing}
+                  unit={dxfUnit}
+                  alignment={dxfAlignment}
+                  onSelect={selectDxf}
+                  onUnitChange={setDxfUnit}
+                  onAlignmentChange={setDxfAlignment}
+                />
+              }
               onImport={handleImport}
+              onDownloadReport={() => {
+                const report = generateDiagnosticsReport(gerberFiles, sourceName);
+                const blob = new Blob([report], { type: 'text/plain;charset=utf-8' });
+                saveAs(blob, `${sourceName.replace(/\.(zip|kicad_pcb)$/i, '') || 'import'}_Import-Diagnose.txt`);
+              }}
               onCancel={handleClose}
             />
           )}
 
+          {/* Step: Revision (Änderungen vor dem Ersetzen) */}
+          {step === 'revision' && revision && (
+            <RevisionStep
+              summary={revision.summary}
+              onConfirm={handleConfirmRevision}
+              onBack={() => setStep('review')}
+            />
+          )}
+
           {/* Step: Success */}
-          {step === 'success' && <SuccessStep boardName={boardName} />}
+          {step === 'success' && <SuccessStep boardNames={importedNames} replaced={!!replaceBoard} />}
 
           {/* Step: Error */}
           {step === 'error' && (
@@ -313,10 +647,54 @@ export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
           )}
         </div>
       </div>
+
+      {/* Layer-Zuordnungsregeln (aus dem Upload Step geöffnet) */}
+      <LayerRulesDialog isOpen={isRulesDialogOpen} onClose={() => setIsRulesDialogOpen(false)} />
     </div>
   );
 }
 
+// ============================================================================
+// Hilfsfunktionen
+// ============================================================================
+
+/**
+ * Erstellt ein Board aus bereits normalisierten Layern
+ *
+ * @param sourceOrigin - Offset, um den die Layer beim Normalisieren verschoben wurden
+ */
+function createBoard(
+  name: string,
+  layers: GerberFile[],
+  gerberJob: GerberJob | null,
+  sourceOrigin: Point,
+  components?: BoardComponent[]
+): Board {
+  // Bounding Box nur aus sichtbaren Layern berechnen (für korrekte Board-Größe)
+  const visibleFiles = layers.filter((f) => f.visible);
+  const bbox = calculateCombinedBoundingBox(visibleFiles.length > 0 ? visibleFiles : layers);
+
+  return {
+    id: generateId(),
+    name: name || 'Importiertes Board',
+    layers,
+    outline: extractBoardOutline(layers),
+    contours: extractBoardContours(layers),
+    boundingBox: bbox,
+    width: bbox.maxX - bbox.minX,
+    height: bbox.maxY - bbox.minY,
+    renderOffsetX: bbox.minX,
+    renderOffsetY: bbox.minY,
+    sourceOrigin,
+    layerRotation: 0,
+    mirrorX: false,
+    mirrorY: false,
+    importedAt: new Date(),
+    ...(gerberJob && { gerberJob }),
+    ...(components && { components }),
+  };
+}
+
 // ============================================================================
 // Sub-Komponenten für jeden Step
 // ============================================================================
@@ -332,6 +710,10 @@ function UploadStep({
   onFileSelect,
   fileInputRef,
   onFileInputChange,
+  profiles,
+  profile,
+  onProfileChange,
+  onEditRules,
 }: {
   isDragging: boolean;
   onDrop: (e: React.DragEvent) => void;
@@ -340,6 +722,11 @@ function UploadStep({
   onFileSelect: () => void;
   fileInputRef: React.RefObject<HTMLInputElement>;
   onFileInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  /** Kundenprofile aus den Layer-Zuordnungsregeln */
+  profiles: string[];
+  profile: string;
+  onProfileChange: (profile: string) => void;
+  onEditRules: () => void;
 }) {
   return (
     <div className="space-y-6">
@@ -347,7 +734,8 @@ function UploadStep({
       <p className="text-gray-600">
         Laden Sie eine ZIP-Datei mit Ihren Gerber-Daten hoch. Die meisten
         PCB-CAD-Programme (KiCad, Altium, Eagle) können Gerber-Dateien als ZIP
-        exportieren.
+        exportieren. KiCad-Leiterplatten (.kicad_pcb) können auch direkt
+        importiert werden.
       </p>
 
       {/* Drag & Drop Zone */}
@@ -372,8 +760,8 @@ function UploadStep({
         />
         <p className="text-lg font-medium text-gray-700 mb-2">
           {isDragging
-            ? 'ZIP-Datei hier ablegen...'
-            : 'ZIP-Datei hierher ziehen'}
+            ? 'Datei hier ablegen...'
+            : 'ZIP-Datei oder .kicad_pcb hierher ziehen'}
         </p>
         <p className="text-sm text-gray-500">
           oder{' '}
@@ -387,11 +775,35 @@ function UploadStep({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".zip"
+        accept=".zip,.kicad_pcb"
         onChange={onFileInputChange}
         className="hidden"
       />
 
+      {/* Layer-Zuordnungsregeln */}
+      <div className="flex items-center gap-3 text-sm">
+        {profiles.length > 0 && (
+          <>
+            <label className="text-gray-600">Kundenprofil</label>
+            <select
+              value={profiles.includes(profile) ? profile : ''}
+              onChange={(e) => onProfileChange(e.target.value)}
+              className="input-field w-auto"
+            >
+              <option value="">Keines (nur allgemeine Regeln)</option>
+              {profiles.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        <button onClick={onEditRules} className="text-primary-600 hover:underline ml-auto">
+          Zuordnungsregeln bearbeiten
+        </button>
+      </div>
+
       {/* Hinweise */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <div className="flex gap-3">
@@ -402,6 +814,7 @@ function UploadStep({
               <li>Gerber RS-274X (.gbr, .ger, .gtl, .gbl, etc.)</li>
               <li>Excellon Drill (.drl, .xln)</li>
               <li>KiCad, Altium, Eagle, Protel Exporte</li>
+              <li>KiCad-Leiterplatte (.kicad_pcb) ohne Gerber-Export</li>
             </ul>
           </div>
         </div>
@@ -413,16 +826,132 @@ function UploadStep({
 /**
  * Importing Step - Lade-Animation
  */
-function ImportingStep() {
+function ImportingStep({
+  progress,
+  onCancel,
+}: {
+  progress: ParseProgress | null;
+  onCancel: () => void;
+}) {
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
   return (
     <div className="py-12 text-center">
       <Loader2 className="w-12 h-12 mx-auto mb-4 text-primary-500 animate-spin" />
       <p className="text-lg font-medium text-gray-700">
         Gerber-Dateien werden verarbeitet...
       </p>
-      <p className="text-sm text-gray-500 mt-2">
-        Die Layer werden automatisch erkannt.
-      </p>
+      {progress ? (
+        <div className="max-w-sm mx-auto mt-4">
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary-500 transition-all"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-500 mt-2 truncate" title={progress.filename}>
+            {progress.done} von {progress.total} Dateien · {progress.filename}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mt-2">
+          Die Layer werden automatisch erkannt.
+        </p>
+      )}
+      <button onClick={onCancel} className="btn-secondary mt-6">
+        Abbrechen
+      </button>
+    </div>
+  );
+}
+
+/**
+ * DXF-Kontur im Review Step - ersetzt den Outline-Layer des Boards
+ */
+function DxfOutlineSection({
+  dxfFiles,
+  dxfName,
+  drawing,
+  unit,
+  alignment,
+  onSelect,
+  onUnitChange,
+  onAlignmentChange,
+}: {
+  dxfFiles: Map<string, string>;
+  dxfName: string;
+  drawing: DxfDrawing | null;
+  unit: DxfUnit;
+  alignment: DxfAlignment;
+  onSelect: (name: string, content: string) => void;
+  onUnitChange: (unit: DxfUnit) => void;
+  onAlignmentChange: (alignment: DxfAlignment) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    onSelect(file.name, await file.text());
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="input-label">Board-Kontur aus DXF</label>
+      <div className="flex gap-2">
+        {dxfFiles.size > 0 && (
+          <select
+            value={dxfFiles.has(dxfName) ? dxfName : ''}
+            onChange={(e) => onSelect(e.target.value, dxfFiles.get(e.target.value) || '')}
+            className="input-field flex-1"
+          >
+            <option value="">Keine (Outline aus Gerber)</option>
+            {Array.from(dxfFiles.keys()).map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="btn-secondary flex items-center gap-2 text-sm"
+        >
+          <FileUp className="w-4 h-4" />
+          {dxfName && !dxfFiles.has(dxfName) ? dxfName : 'DXF-Datei wählen...'}
+        </button>
+        {dxfName && (
+          <button onClick={() => onSelect('', '')} className="btn-secondary text-sm">
+            Entfernen
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".dxf"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {drawing && (
+        <>
+          <p className="text-xs text-gray-500">{describeDxfDrawing(drawing, unit)}</p>
+          {drawing.diagnostics.length > 0 && (
+            <div className="text-xs text-amber-700 space-y-1">
+              {drawing.diagnostics.map((d, i) => (
+                <p key={i}>{d.message}</p>
+              ))}
+            </div>
+          )}
+          <DxfOutlineOptions
+            unit={unit}
+            alignment={alignment}
+            onUnitChange={onUnitChange}
+            onAlignmentChange={onAlignmentChange}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -436,9 +965,17 @@ function ReviewStep({
   warnings,
   infos,
   onBoardNameChange,
+  designs,
+  splitDesigns,
+  onSplitDesignsChange,
+  onDesignNameChange,
   onLayerTypeChange,
+  onSaveRule,
   onVisibilityToggle,
+  replaceName,
+  outlineSection,
   onImport,
+  onDownloadReport,
   onCancel,
 }: {
   gerberFiles: GerberFile[];
@@ -446,12 +983,30 @@ function ReviewStep({
   warnings: string[];
   infos: string[];
   onBoardNameChange: (name: string) => void;
+  designs: ImportDesign[];
+  splitDesigns: boolean;
+  onSplitDesignsChange: (split: boolean) => void;
+  onDesignNameChange: (index: number, name: string) => void;
   onLayerTypeChange: (fileId: string, type: GerberLayerType) => void;
+  /** Manuelle Zuordnung als Layer-Zuordnungsregel speichern */
+  onSaveRule: (fileId: string) => void;
   onVisibilityToggle: (fileId: string) => void;
+  /** Name des Boards, das durch die neue Revision ersetzt wird */
+  replaceName?: string;
+  /** Auswahl einer DXF-Kontur (nur wenn alles als ein Board importiert wird) */
+  outlineSection: React.ReactNode;
   onImport: () => void;
+  onDownloadReport: () => void;
   onCancel: () => void;
 }) {
   const layerTypes = getAllLayerTypes();
+  const split = splitDesigns && designs.length > 1 && !replaceName;
+  const diagnosticFiles = gerberFiles.filter((f) => f.diagnostics && f.diagnostics.length > 0);
+
+  // Tabellen-Abschnitte: pro Design oder alle Layer zusammen
+  const sections = split
+    ? designs.map((d) => ({ title: d.name, files: gerberFiles.filter((f) => d.fileIds.includes(f.id)) }))
+    : [{ title: '', files: gerberFiles }];
 
   return (
     <div className="space-y-6">
@@ -478,17 +1033,55 @@ function ReviewStep({
         </div>
       )}
 
-      {/* Board-Name */}
-      <div>
-        <label className="input-label">Board-Name</label>
-        <input
-          type="text"
-          value={boardName}
-          onChange={(e) => onBoardNameChange(e.target.value)}
-          className="input-field"
-          placeholder="z.B. Arduino Shield"
-        />
-      </div>
+      {/* Neue Revision: Panel-Layout bleibt */}
+      {replaceName && (
+        <div className="text-sm text-gray-700 bg-blue-50 border border-blue-200 rounded-lg p-3">
+          Die Layer von <strong>{replaceName}</strong> werden durch diese Dateien ersetzt.
+          Instanzen, Tabs, Fräskonturen und Badmarks bleiben erhalten.
+        </div>
+      )}
+
+      {/* Mehrere Designs im Archiv */}
+      {designs.length > 1 && !replaceName && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 bg-blue-50 border border-blue-200 rounded-lg p-3">
+          <input
+            type="checkbox"
+            checked={splitDesigns}
+            onChange={(e) => onSplitDesignsChange(e.target.checked)}
+          />
+          Jedes Design als eigenes Board importieren ({designs.length} Boards)
+        </label>
+      )}
+
+      {/* Board-Name (bei getrennten Designs einer pro Board) */}
+      {replaceName ? null : split ? (
+        <div className="space-y-2">
+          <label className="input-label">Board-Namen</label>
+          {designs.map((design, index) => (
+            <input
+              key={index}
+              type="text"
+              value={design.name}
+              onChange={(e) => onDesignNameChange(index, e.target.value)}
+              className="input-field"
+            />
+          ))}
+        </div>
+      ) : (
+        <div>
+          <label className="input-label">Board-Name</label>
+          <input
+            type="text"
+            value={boardName}
+            onChange={(e) => onBoardNameChange(e.target.value)}
+            className="input-field"
+            placeholder="z.B. Arduino Shield"
+          />
+        </div>
+      )}
+
+      {/* Board-Kontur aus DXF */}
+      {!split && outlineSection}
 
       {/* Layer-Liste */}
       <div>
@@ -509,76 +1102,266 @@ function ReviewStep({
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
-              {gerberFiles.map((file) => (
-                <tr key={file.id} className="hover:bg-gray-50">
-                  {/* Dateiname mit Farbindikator */}
-                  <td className="px-4 py-2">
-                    <div className="flex items-center gap-2">
-                      <div
-                        className="w-3 h-3 rounded-full border border-gray-300"
-                        style={{ backgroundColor: file.color }}
-                      />
-                      <span className="truncate max-w-48" title={file.filename}>
-                        {file.filename}
-                      </span>
-                    </div>
-                  </td>
-
-                  {/* Layer-Typ Dropdown */}
-                  <td className="px-4 py-2">
-                    <select
-                      value={file.type}
-                      onChange={(e) =>
-                        onLayerTypeChange(file.id, e.target.value as GerberLayerType)
-                      }
-                      className={cn(
-                        'w-full px-2 py-1 text-sm border rounded',
-                        'focus:outline-none focus:ring-1 focus:ring-primary-500',
-                        file.type === 'unknown'
-                          ? 'border-amber-300 bg-amber-50'
-                          : 'border-gray-300'
-                      )}
-                    >
-                      {layerTypes.map((lt) => (
-                        <option key={lt.type} value={lt.type}>
-                          {getLayerLabel(lt.type)}
-                        </option>
-                      ))}
-                    </select>
-                  </td>
-
-                  {/* Sichtbarkeit Toggle */}
-                  <td className="px-4 py-2 text-center">
-                    <button
-                      onClick={() => onVisibilityToggle(file.id)}
-                      className={cn(
-                        'p-1 rounded transition-colors',
-                        file.visible
-                          ? 'text-primary-600 hover:bg-primary-50'
-                          : 'text-gray-300 hover:bg-gray-100'
-                      )}
-                    >
-                      {file.visible ? (
-                        <Eye className="w-4 h-4" />
-                      ) : (
-                        <EyeOff className="w-4 h-4" />
-                      )}
-                    </button>
-                  </td>
-                </tr>
+              {sections.map((section, sectionIndex) => (
+                <Fragment key={sectionIndex}>
+                  {section.title && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={3} className="px-4 py-1.5 text-xs font-medium text-gray-600">
+                        {section.title}
+                      </td>
+                    </tr>
+                  )}
+                  {section.files.map((file) => (
+                    <tr key={file.id} className="hover:bg-gray-50">
+                      {/* Dateiname mit Farbindikator */}
+                      <td className="px-4 py-2">
+                        <div className="flex items-center gap-2">
+                          <div
+                            className="w-3 h-3 rounded-full border border-gray-300"
+                            style={{ backgroundColor: file.color }}
+                          />
+                          <span className="truncate max-w-48" title={file.filename}>
+                            {file.filename}
+                          </span>
+                          <DiagnosticBadge file={file} />
+                        </div>
+                      </td>
+
+                      {/* Layer-Typ Dropdown mit Erkennungs-Sicherheit */}
+                      <td className="px-4 py-2">
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={file.type}
+                            onChange={(e) =>
+                              onLayerTypeChange(file.id, e.target.value as GerberLayerType)
+                            }
+                            className={cn(
+                              'w-full px-2 py-1 text-sm border rounded',
+                              'focus:outline-none focus:ring-1 focus:ring-primary-500',
+                              file.type === 'unknown'
+                                ? 'border-amber-300 bg-amber-50'
+                                : 'border-gray-300'
+                            )}
+                          >
+                            {layerTypes.map((lt) => (
+                              <option key={lt.type} value={lt.type}>
+                                {getLayerLabel(lt.type)}
+                              </option>
+                            ))}
+                          </select>
+                          {file.detection ? (
+                            <ConfidenceBadge detection={file.detection} />
+                          ) : (
+                            <button
+                              onClick={() => onSaveRule(file.id)}
+                              className="shrink-0 p-1 text-gray-400 hover:text-primary-600"
+                              title={`Zuordnung als Regel für künftige Importe speichern (${suggestLayerRulePattern(file.filename)})`}
+                            >
+                              <BookmarkPlus className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+
+                      {/* Sichtbarkeit Toggle */}
+                      <td className="px-4 py-2 text-center">
+                        <button
+                          onClick={() => onVisibilityToggle(file.id)}
+                          className={cn(
+                            'p-1 rounded transition-colors',
+                            file.visible
+                              ? 'text-primary-600 hover:bg-primary-50'
+                              : 'text-gray-300 hover:bg-gray-100'
+                          )}
+                        >
+                          {file.visible ? (
+                            <Eye className="w-4 h-4" />
+                          ) : (
+                            <EyeOff className="w-4 h-4" />
+                          )}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </Fragment>
               ))}
             </tbody>
           </table>
         </div>
       </div>
 
+      {/* Import-Diagnose */}
+      {diagnosticFiles.length > 0 && (
+        <div className="border border-gray-200 rounded-lg p-3 text-sm">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-gray-700">Import-Diagnose</span>
+            <button
+              onClick={onDownloadReport}
+              className="flex items-center gap-1 text-xs text-primary-600 hover:underline"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Bericht herunterladen
+            </button>
+          </div>
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {diagnosticFiles.flatMap((file) =>
+              (file.diagnostics || []).map((d, i) => (
+                <p key={`${file.id}-${i}`} className="text-xs text-gray-600">
+                  <span
+                    className={cn(
+                      'font-medium',
+                      d.severity === 'error' ? 'text-red-600' : d.severity === 'warning' ? 'text-amber-600' : 'text-blue-600'
+                    )}
+                  >
+                    {file.filename}:
+                  </span>{' '}
+                  {d.message}
+                </p>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Aktionen */}
       <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
         <button onClick={onCancel} className="btn-secondary">
           Abbrechen
         </button>
         <button onClick={onImport} className="btn-primary">
-          Board importieren
+          {replaceName ? 'Weiter' : 'Board importieren'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Schwerster Diagnose-Eintrag einer Datei als Symbol (Details im Tooltip)
+ */
+function DiagnosticBadge({ file }: { file: GerberFile }) {
+  const severity = getWorstSeverity(file.diagnostics);
+  if (!severity) return null;
+
+  const Icon = severity === 'info' ? Info : AlertCircle;
+  return (
+    <span title={(file.diagnostics || []).map((d) => d.message).join('\n')}>
+      <Icon
+        className={cn(
+          'w-4 h-4 shrink-0',
+          severity === 'error' ? 'text-red-500' : severity === 'warning' ? 'text-amber-500' : 'text-blue-400'
+        )}
+      />
+    </span>
+  );
+}
+
+/**
+ * Sicherheit der automatischen Layer-Erkennung (grün = sicher, rot = geraten)
+ */
+function ConfidenceBadge({ detection }: { detection: LayerDetection }) {
+  const sources: Record<LayerDetection['source'], string> = {
+    x2: 'Gerber X2 Attribut',
+    job: 'Gerber-Jobdatei',
+    excellon: 'Excellon-Header',
+    rule: 'Zuordnungsregel',
+    kicad: 'KiCad-Leiterplatte',
+    filename: 'Dateiname',
+    content: 'Inhalt (Heuristik)',
+    none: 'Nicht erkannt',
+  };
+  const percent = Math.round(detection.confidence * 100);
+
+  return (
+    <span
+      className={cn(
+        'shrink-0 w-10 text-center text-xs font-medium rounded px-1 py-0.5',
+        detection.confidence >= 0.8
+          ? 'bg-green-50 text-green-700'
+          : detection.confidence >= 0.5
+            ? 'bg-amber-50 text-amber-700'
+            : 'bg-red-50 text-red-700'
+      )}
+      title={`Erkannt über: ${sources[detection.source]}`}
+    >
+      {percent}%
+    </span>
+  );
+}
+
+/**
+ * Revision Step - Änderungen gegenüber der bisherigen Revision
+ */
+function RevisionStep({
+  summary,
+  onConfirm,
+  onBack,
+}: {
+  summary: BoardRevisionSummary;
+  onConfirm: () => void;
+  onBack: () => void;
+}) {
+  const dw = summary.newSize.width - summary.oldSize.width;
+  const dh = summary.newSize.height - summary.oldSize.height;
+  const formatDelta = (d: number) => (Math.abs(d) < 0.005 ? '±0' : `${d > 0 ? '+' : ''}${d.toFixed(2)}`);
+
+  return (
+    <div className="space-y-6">
+      {/* Größe */}
+      <div className="text-sm text-gray-700">
+        <label className="input-label">Board-Größe</label>
+        <p>
+          {summary.oldSize.width.toFixed(2)} × {summary.oldSize.height.toFixed(2)} mm →{' '}
+          <strong>
+            {summary.newSize.width.toFixed(2)} × {summary.newSize.height.toFixed(2)} mm
+          </strong>{' '}
+          <span className="text-gray-500">
+            ({formatDelta(dw)} / {formatDelta(dh)} mm)
+          </span>
+        </p>
+      </div>
+
+      {/* Layer */}
+      <div className="text-sm text-gray-700">
+        <label className="input-label">Layer</label>
+        {summary.addedLayers.length === 0 && summary.removedLayers.length === 0 && (
+          <p>Gleiche Layer wie bisher.</p>
+        )}
+        {summary.addedLayers.length > 0 && (
+          <p className="text-green-700">Neu: {summary.addedLayers.map(getLayerLabel).join(', ')}</p>
+        )}
+        {summary.removedLayers.length > 0 && (
+          <p className="text-red-600">Entfallen: {summary.removedLayers.map(getLayerLabel).join(', ')}</p>
+        )}
+      </div>
+
+      {/* Elemente, die nicht mehr passen */}
+      {summary.issues.length > 0 ? (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <div className="flex gap-3">
+            <AlertCircle className="w-5 h-5 text-amber-500 shrink-0" />
+            <div className="text-sm text-amber-800 space-y-1">
+              <p className="font-medium">Bitte nach dem Ersetzen prüfen:</p>
+              {summary.issues.map((issue) => (
+                <p key={`${issue.kind}-${issue.id}`}>{issue.message}</p>
+              ))}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Alle Tabs, Fräskonturen, Fiducials und Badmarks passen zur neuen Kontur
+          {summary.instanceCount > 1 ? ` (${summary.instanceCount} Instanzen)` : ''}.
+        </p>
+      )}
+
+      {/* Aktionen */}
+      <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+        <button onClick={onBack} className="btn-secondary">
+          Zurück
+        </button>
+        <button onClick={onConfirm} className="btn-primary">
+          Board ersetzen
         </button>
       </div>
     </div>
@@ -588,13 +1371,16 @@ function ReviewStep({
 /**
  * Success Step - Erfolgsbestätigung
  */
-function SuccessStep({ boardName }: { boardName: string }) {
+function SuccessStep({ boardNames, replaced }: { boardNames: string[]; replaced: boolean }) {
   return (
     <div className="py-12 text-center">
       <CheckCircle className="w-16 h-16 mx-auto mb-4 text-green-500" />
       <p className="text-lg font-medium text-gray-700">Import erfolgreich!</p>
       <p className="text-sm text-gray-500 mt-2">
-        &quot;{boardName}&quot; wurde importiert und im Panel platziert.
+        {boardNames.map((n) => `"${n}"`).join(', ')}{' '}
+        {replaced
+          ? 'wurde auf die neue Revision aktualisiert.'
+          : `${boardNames.length > 1 ? 'wurden' : 'wurde'} importiert und im Panel platziert.`}
       </p>
     </div>
   );
@@ -3,3 +3,5 @@
  */
 
 export { ImportDialog } from './import-dialog';
+export { DxfOutlineDialog, DxfOutlineOptions, describeDxfDrawing } from './dxf-outline-dialog';
+export { LayerRulesDialog } from './layer-rules-dialog';
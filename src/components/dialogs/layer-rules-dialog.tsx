@@ -0,0 +1,297 @@
+/**
+ * Layer-Regeln Dialog - Benutzerdefinierte Zuordnung über den Dateinamen
+ *
+ * Für Kunden mit eigenen Dateinamen (z.B. "*.art1" für Top Copper):
+ * 1. Regeln anlegen, sortieren und einem Kundenprofil zuordnen
+ * 2. Mit einem Beispiel-Dateinamen testen
+ * 3. Als JSON-Datei exportieren bzw. importieren (Regeln im Team teilen)
+ *
+ * Gespeichert wird im localStorage, unabhängig vom Projekt.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { X, Plus, Trash2, ChevronUp, ChevronDown, Download, FileUp, AlertCircle } from 'lucide-react';
+import { saveAs } from 'file-saver';
+import { getAllLayerTypes, getLayerLabel, detectLayerType, matchLayerMappingRule } from '@/lib/gerber';
+import {
+  getLayerMappingRules,
+  saveLayerMappingRules,
+  getLayerRuleProfiles,
+  validateLayerRulePattern,
+  exportLayerMappingRules,
+  parseLayerMappingRulesFile,
+} from '@/lib/utils/layer-mapping-rules';
+import { cn, generateId } from '@/lib/utils';
+import type { GerberLayerType, LayerMappingRule } from '@/types';
+
+interface LayerRulesDialogProps {
+  /** Ob der Dialog geöffnet ist */
+  isOpen: boolean;
+  /** Callback zum Schließen des Dialogs (nach Speichern oder Abbrechen) */
+  onClose: () => void;
+}
+
+export function LayerRulesDialog({ isOpen, onClose }: LayerRulesDialogProps) {
+  const [rules, setRules] = useState<LayerMappingRule[]>([]);
+  const [testName, setTestName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Beim Öffnen die gespeicherten Regeln laden (Änderungen erst beim Speichern übernehmen)
+  useEffect(() => {
+    if (isOpen) {
+      setRules(getLayerMappingRules());
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const layerTypes = getAllLayerTypes();
+  const profiles = getLayerRuleProfiles(rules);
+  const errors = rules.map((rule) => validateLayerRulePattern(rule));
+  const isValid = errors.every((e) => e === null);
+
+  const updateRule = (id: string, changes: Partial<LayerMappingRule>) => {
+    setRules((prev) => prev.map((r) => (r.id === id ? { ...r, ...changes } : r)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    setRules((prev) => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    setRules((prev) => [...prev, { id: generateId(), pattern: '', syntax: 'glob', type: 'top-copper' }]);
+  };
+
+  const handleSave = () => {
+    saveLayerMappingRules(rules.map((r) => ({ ...r, profile: r.profile?.trim() || undefined })));
+    onClose();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportLayerMappingRules(rules)], { type: 'application/json;charset=utf-8' });
+    saveAs(blob, 'Layer-Zuordnungsregeln.json');
+  };
+
+  // Importierte Regeln werden hinten angehängt (bestehende haben Vorrang)
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseLayerMappingRulesFile(await file.text());
+      setRules((prev) => [
+        ...prev,
+        ...imported.filter((r) => !prev.some((p) => p.pattern === r.pattern && p.syntax === r.syntax && p.profile === r.profile)),
+      ]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Datei konnte nicht gelesen werden.');
+    }
+  };
+
+  // Test: welche Regel bzw. welches eingebaute Muster greift
+  const validRules = rules.filter((_, i) => errors[i] === null);
+  const testRule = testName ? matchLayerMappingRule(testName, validRules) : null;
+  const testResult = !testName
+    ? null
+    : testRule
+      ? `${getLayerLabel(testRule.type)} (Regel "${testRule.pattern}"${testRule.profile ? `, Profil ${testRule.profile}` : ''})`
+      : `${getLayerLabel(detectLayerType(testName))} (eingebautes Muster)`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Hintergrund-Overlay */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Dialog-Box */}
+      <div className="relative bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden animate-slide-in">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Layer-Zuordnungsregeln</h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(90vh-140px)]">
+          <p className="text-sm text-gray-600">
+            Regeln werden beim Import von oben nach unten geprüft, vor den eingebauten Mustern.
+            Gerber X2 Attribute und die Jobdatei haben Vorrang.
+            Glob: <code>*</code> und <code>?</code> als Platzhalter für den ganzen Dateinamen
+            (z.B. <code>*.art1</code>). Regex: Teil des Dateinamens (z.B. <code>_top_cu</code>).
+            Regeln mit Kundenprofil gelten nur, wenn das Profil beim Import gewählt ist.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex gap-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+              {error}
+            </div>
+          )}
+
+          {/* Regel-Liste */}
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">Noch keine Regeln angelegt.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-2 py-2 w-14" />
+                    <th className="px-2 py-2 text-left font-medium text-gray-600">Muster</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-600">Art</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-600">Layer-Typ</th>
+                    <th className="px-2 py-2 text-left font-medium text-gray-600">Kundenprofil</th>
+                    <th className="px-2 py-2 w-10" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rules.map((rule, index) => (
+                    <tr key={rule.id}>
+                      <td className="px-2 py-1.5">
+                        <div className="flex">
+                          <button
+                            onClick={() => moveRule(index, -1)}
+                            disabled={index === 0}
+                            className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                            title="Nach oben (höhere Priorität)"
+                          >
+                            <ChevronUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => moveRule(index, 1)}
+                            disabled={index === rules.length - 1}
+                            className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                            title="Nach unten"
+                          >
+                            <ChevronDown className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <input
+                          type="text"
+                          value={rule.pattern}
+                          onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                          className={cn('input-field font-mono', errors[index] && 'border-red-400')}
+                          placeholder={rule.syntax === 'glob' ? '*.art1' : '_top_cu'}
+                          title={errors[index] || undefined}
+                        />
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <select
+                          value={rule.syntax}
+                          onChange={(e) => updateRule(rule.id, { syntax: e.target.value as LayerMappingRule['syntax'] })}
+                          className="input-field"
+                        >
+                          <option value="glob">Glob</option>
+                          <option value="regex">Regex</option>
+                        </select>
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <select
+                          value={rule.type}
+                          onChange={(e) => updateRule(rule.id, { type: e.target.value as GerberLayerType })}
+                          className="input-field"
+                        >
+                          {layerTypes.map(({ type, label }) => (
+                            <option key={type} value={type}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <input
+                          type="text"
+                          value={rule.profile || ''}
+                          onChange={(e) => updateRule(rule.id, { profile: e.target.value })}
+                          className="input-field"
+                          placeholder="Alle"
+                          list="layer-rule-profiles"
+                        />
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <button
+                          onClick={() => setRules((prev) => prev.filter((r) => r.id !== rule.id))}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Regel löschen"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <datalist id="layer-rule-profiles">
+                {profiles.map((p) => (
+                  <option key={p} value={p} />
+                ))}
+              </datalist>
+            </div>
+          )}
+
+          <button onClick={handleAdd} className="btn-secondary flex items-center gap-2 text-sm">
+            <Plus className="w-4 h-4" />
+            Regel hinzufügen
+          </button>
+
+          {/* Test mit Beispiel-Dateiname */}
+          <div>
+            <label className="input-label">Dateiname testen</label>
+            <input
+              type="text"
+              value={testName}
+              onChange={(e) => setTestName(e.target.value)}
+              className="input-field font-mono"
+              placeholder="z.B. board.art1"
+            />
+            {testResult && <p className="text-xs text-gray-500 mt-1">→ {testResult}</p>}
+          </div>
+        </div>
+
+        {/* Aktionen */}
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-gray-200">
+          <div className="flex gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="btn-secondary flex items-center gap-2 text-sm"
+              title="Regeln aus einer JSON-Datei hinzufügen"
+            >
+              <FileUp className="w-4 h-4" />
+              Importieren
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={rules.length === 0}
+              className="btn-secondary flex items-center gap-2 text-sm disabled:opacity-50"
+              title="Regeln als JSON-Datei speichern"
+            >
+              <Download className="w-4 h-4" />
+              Exportieren
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="btn-secondary">
+              Abbrechen
+            </button>
+            <button onClick={handleSave} disabled={!isValid} className="btn-primary disabled:opacity-50">
+              Speichern
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  *
  * Enthält:
  * - Logo und App-Name
- * - Hauptaktionen (Import, Speichern, Speichern unter, Export)
+ * - Hauptaktionen (Import, Speichern, Speichern unter, Export, Fertigungspaket)
  * - Projekt-Name (editierbar)
  * - Dateiname-Anzeige (wie in Word/Excel)
  * - "Gespeichert"-Bestätigung nach erfolgreichem Speichern
@@ -24,11 +24,21 @@ import {
   Redo2,
   FilePlus2,
   Check,
+  Layers,
+  Package,
+  SlidersHorizontal,
 } from 'lucide-react';
 import { usePanelStore, usePanel, useBoards, useInstances } from '@/stores/panel-store';
-import { ImportDialog } from '@/components/dialogs';
+import { ImportDialog, LayerRulesDialog } from '@/components/dialogs';
 import { generateDimensionDrawing } from '@/lib/export/dimension-drawing';
+import { generatePanelGerbers } from '@/lib/export/gerber-export';
+import { generatePanelDrills } from '@/lib/export/drill-export';
+import { generateRoutingProfileGerber, generateRouterProgram } from '@/lib/export/routing-export';
+import { generateVScoreGerber, generateVScoreProgram } from '@/lib/export/vscore-export';
+import { generateFabPackage, getDrawingPdfFilename } from '@/lib/export/fab-package';
+import { getJobDrawingSpecs } from '@/lib/gerber';
 import { saveAs } from 'file-saver';
+import JSZip from 'jszip';
 import {
   serializeProject,
   deserializeProject,
@@ -58,6 +68,7 @@ export function Header() {
 
   // Import-Dialog State
   const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isLayerRulesOpen, setIsLayerRulesOpen] = useState(false);
 
   // Undo/Redo
   const undo = usePanelStore((state) => state.undo);
@@ -72,6 +83,9 @@ export function Header() {
   const unit = usePanelStore((state) => state.unit);
   const setGrid = usePanelStore((state) => state.setGrid);
   const setUnit = usePanelStore((state) => state.setUnit);
+  const routerConfig = usePanelStore((state) => state.routerConfig);
+  const vscoreExportConfig = usePanelStore((state) => state.vscoreExportConfig);
+  const panelFeatureConfig = usePanelStore((state) => state.panelFeatureConfig);
   const [isLoadingProject, setIsLoadingProject] = useState(false);
 
   // Verstecktes File-Input Element für "Projekt öffnen" (Fallback)
@@ -80,6 +94,12 @@ export function Header() {
   // PDF-Export State
   const [isExportingPdf, setIsExportingPdf] = useState(false);
 
+  // Gerber-Export State
+  const [isExportingGerber, setIsExportingGerber] = useState(false);
+
+  // Fertigungspaket-Export State
+  const [isExportingFabPackage, setIsExportingFabPackage] = useState(false);
+
   // Logo-Bytes für PDF-Export (wird einmalig beim Start geladen)
   const logoBytes = useRef<Uint8Array | null>(null);
 
@@ -270,10 +290,10 @@ export function Header() {
   }, [handleSaveProject, handleSaveProjectAs]);
 
   /**
-   * Exportiert die Maßzeichnung als PDF
-   * Enthält: Panel-Layout, Bemaßungen, Positionen aller Elemente
+   * Prüft das 4-Augen-Prinzip vor einem Export mit Zeichnung
+   * @returns false, wenn der Benutzer den Export abbricht
    */
-  const handleExportDrawing = async () => {
+  const confirmApproval = (): boolean => {
     // ---- Validierung: 4-Augen-Prinzip prüfen ----
     const drawnBy = panel.drawnBy || '';
     const approvedBy = panel.approvedBy || '';
@@ -286,7 +306,7 @@ export function Header() {
         'Das verstößt gegen das 4-Augen-Prinzip.\n\n' +
         'Trotzdem exportieren?'
       );
-      if (!proceed) return;
+      if (!proceed) return false;
     }
 
     // Hinweis: Zeichner oder Freigeber fehlt (kein Blocker, nur Info)
@@ -299,43 +319,63 @@ export function Header() {
         'Der Titelblock wird ohne diese Angabe(n) erstellt.\n\n' +
         'Trotzdem exportieren?'
       );
-      if (!proceed) return;
+      if (!proceed) return false;
     }
 
+    return true;
+  };
+
+  /**
+   * Erzeugt die Maßzeichnung als PDF-Bytes (A3 Querformat, IFTEST-Stil mit SMTEC Branding)
+   */
+  const createDrawingPdf = () => {
+    // Leiterplatten-Spezifikation aus der Gerber-Jobdatei (erstes Board mit Jobdatei)
+    const job = boards.find((b) => b.gerberJob)?.gerberJob;
+    const jobSpecs = job ? getJobDrawingSpecs(job) : {};
+
+    return generateDimensionDrawing(
+      panel,
+      boards,
+      instances,
+      {
+        // Basis-Felder
+        title: panel.name,
+        projectName: panel.name,
+        author: 'SMTEC',
+        date: new Date().toLocaleDateString('de-CH'),
+        revision: '1.0',
+        // ISO-Titelblock Felder
+        drawnBy: panel.drawnBy || '',
+        approvedBy: panel.approvedBy || '',
+        issueNumber: '01',
+        drawingNumber: panel.drawingNumber || '',
+        // Logo als PNG-Bytes (beim Start geladen)
+        logoImageBytes: logoBytes.current || undefined,
+        // PCB-Spezifikationen (aus der Jobdatei, sonst Standardwerte)
+        pcbThickness: jobSpecs.pcbThickness || '1.6',
+        copperWeight: jobSpecs.copperWeight || '0.3 ±0.1',
+        viaType: '30-45°',
+        // Eckenradius aus Panel-Rahmendaten übernehmen
+        cornerRadius: panel.frame.cornerRadius || 0,
+      }
+    );
+  };
+
+  /**
+   * Exportiert die Maßzeichnung als PDF
+   * Enthält: Panel-Layout, Bemaßungen, Positionen aller Elemente
+   */
+  const handleExportDrawing = async () => {
+    if (!confirmApproval()) return;
+
     setIsExportingPdf(true);
 
     try {
-      // PDF generieren (A3 Querformat, IFTEST-Stil mit SMTEC Branding)
-      const pdfBytes = await generateDimensionDrawing(
-        panel,
-        boards,
-        instances,
-        {
-          // Basis-Felder
-          title: panel.name,
-          projectName: panel.name,
-          author: 'SMTEC',
-          date: new Date().toLocaleDateString('de-CH'),
-          revision: '1.0',
-          // ISO-Titelblock Felder
-          drawnBy: panel.drawnBy || '',
-          approvedBy: panel.approvedBy || '',
-          issueNumber: '01',
-          drawingNumber: panel.drawingNumber || '',
-          // Logo als PNG-Bytes (beim Start geladen)
-          logoImageBytes: logoBytes.current || undefined,
-          // PCB-Spezifikationen (Standardwerte)
-          pcbThickness: '1.6',
-          copperWeight: '0.3 ±0.1',
-          viaType: '30-45°',
-          // Eckenradius aus Panel-Rahmendaten übernehmen
-          cornerRadius: panel.frame.cornerRadius || 0,
-        }
-      );
+      const pdfBytes = await createDrawingPdf();
 
       // Als Datei speichern
       const blob = new Blob([pdfBytes as unknown as BlobPart], { type: 'application/pdf' });
-      const filename = `${panel.name.replace(/[^a-zA-Z0-9]/g, '_')}_Zeichnung.pdf`;
+      const filename = getDrawingPdfFilename(panel);
       saveAs(blob, filename);
 
       console.log('PDF Maßzeichnung exportiert:', filename);
@@ -347,6 +387,91 @@ export function Header() {
     }
   };
 
+  /**
+   * Erzeugt alle Fertigungsdateien (Gerber, Bohrdaten, Fräs- und V-Cut-Programm)
+   * mit den aktuellen Export-Einstellungen aus dem Store
+   */
+  const createManufacturingFiles = () => ({
+    gerbers: generatePanelGerbers(panel, { panelFeatures: panelFeatureConfig }),
+    profile: generateRoutingProfileGerber(panel),
+    vscore: generateVScoreGerber(panel, vscoreExportConfig),
+    drills: generatePanelDrills(panel),
+    routerProgram: generateRouterProgram(panel, routerConfig),
+    vscoreProgram: generateVScoreProgram(panel, vscoreExportConfig),
+  });
+
+  /**
+   * Exportiert die zusammengeführten Panel-Gerber als ZIP
+   * (eine Datei pro Layer-Typ, alle Board-Instanzen platziert)
+   * inkl. Excellon-Bohrdaten (PTH/NPTH mit Tooling- und Mousebite-Bohrungen)
+   * und Fräskonturen als Profil-Layer
+   */
+  const handleExportGerber = async () => {
+    if (instances.length === 0) {
+      alert('Keine Boards im Panel platziert. Bitte zuerst Boards hinzufügen.');
+      return;
+    }
+
+    setIsExportingGerber(true);
+
+    try {
+      const { gerbers, profile, vscore, drills, routerProgram, vscoreProgram } = createManufacturingFiles();
+      const files = [...gerbers, ...drills];
+      if (profile) files.push(profile);
+      if (vscore) files.push(vscore);
+
+      const zip = new JSZip();
+      for (const file of files) {
+        zip.file(file.filename, file.content);
+      }
+      for (const program of [routerProgram, vscoreProgram]) {
+        if (program) zip.file(program.filename, program.content);
+      }
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const filename = `${panel.name.replace(/[^a-zA-Z0-9]/g, '_')}_Gerber.zip`;
+      saveAs(blob, filename);
+
+      console.log(`Panel-Gerber exportiert: ${files.length} Dateien`);
+    } catch (error) {
+      console.error('Fehler beim Gerber-Export:', error);
+      alert('Fehler beim Erstellen der Gerber-Dateien. Siehe Konsole für Details.');
+    } finally {
+      setIsExportingGerber(false);
+    }
+  };
+
+  /**
+   * Exportiert das komplette Fertigungspaket als ZIP:
+   * Gerber, Bohrdaten, Fräs-/V-Cut-Programm, PDF-Zeichnung, Projektdatei und README
+   */
+  const handleExportFabPackage = async () => {
+    if (instances.length === 0) {
+      alert('Keine Boards im Panel platziert. Bitte zuerst Boards hinzufügen.');
+      return;
+    }
+    if (!confirmApproval()) return;
+
+    setIsExportingFabPackage(true);
+
+    try {
+      const blob = await generateFabPackage(panel, {
+        ...createManufacturingFiles(),
+        drawingPdf: await createDrawingPdf(),
+        projectJson: serializeProject(panel, { unit, grid }),
+      });
+      const filename = `${panel.name.replace(/[^a-zA-Z0-9]/g, '_')}_Fertigung.zip`;
+      saveAs(blob, filename);
+
+      console.log('Fertigungspaket exportiert:', filename);
+    } catch (error) {
+      console.error('Fehler beim Export des Fertigungspakets:', error);
+      alert('Fehler beim Erstellen des Fertigungspakets. Siehe Konsole für Details.');
+    } finally {
+      setIsExportingFabPackage(false);
+    }
+  };
+
   return (
     <header className="h-14 bg-white border-b border-gray-200 flex items-center justify-between px-4">
       {/* ----------------------------------------------------------------
@@ -503,6 +628,15 @@ export function Header() {
           <span>Import</span>
         </button>
 
+        {/* Layer-Zuordnungsregeln für den Import */}
+        <button
+          onClick={() => setIsLayerRulesOpen(true)}
+          className="btn-icon"
+          title="Layer-Zuordnungsregeln"
+        >
+          <SlidersHorizontal className="w-5 h-5" />
+        </button>
+
         {/* Trennlinie */}
         <div className="w-px h-6 bg-gray-200 mx-1" />
 
@@ -543,6 +677,36 @@ export function Header() {
           )}
           <span>{isExportingPdf ? 'Erstelle...' : 'Zeichnung'}</span>
         </button>
+
+        {/* Fertigungspaket exportieren (alles für die Fab in einer ZIP) */}
+        <button
+          onClick={handleExportFabPackage}
+          disabled={isExportingFabPackage}
+          className="btn-secondary flex items-center gap-2"
+          title="Fertigungspaket als ZIP: Gerber, Bohrdaten, Fräs- und V-Cut-Programm, PDF-Zeichnung, Projektdatei und README"
+        >
+          {isExportingFabPackage ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Package className="w-4 h-4" />
+          )}
+          <span>{isExportingFabPackage ? 'Erstelle...' : 'Fertigung'}</span>
+        </button>
+
+        {/* Panel-Gerber exportieren */}
+        <button
+          onClick={handleExportGerber}
+          disabled={isExportingGerber}
+          className="btn-secondary flex items-center gap-2"
+          title="Panel-Gerber, Bohrdaten (PTH/NPTH), Fräskonturen, Fräs- und V-Cut-Programm als ZIP exportieren"
+        >
+          {isExportingGerber ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Layers className="w-4 h-4" />
+          )}
+          <span>{isExportingGerber ? 'Erstelle...' : 'Gerber'}</span>
+        </button>
       </div>
 
       {/* ----------------------------------------------------------------
@@ -571,6 +735,12 @@ export function Header() {
         isOpen={isImportOpen}
         onClose={() => setIsImportOpen(false)}
       />
+
+      {/* Layer-Zuordnungsregeln */}
+      <LayerRulesDialog
+        isOpen={isLayerRulesOpen}
+        onClose={() => setIsLayerRulesOpen(false)}
+      />
     </header>
   );
 }
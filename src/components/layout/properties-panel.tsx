@@ -7,6 +7,7 @@
  * - Tab-Konfiguration
  * - Fiducial-Einstellungen
  * - Tooling-Einstellungen
+ * - Beschriftung (Panel-Texte)
  * - Dimensionen & Info
  */
 
@@ -32,10 +33,15 @@ import {
   X,
   FileText,
   Users,
+  Hash,
+  Type,
 } from 'lucide-react';
-import { usePanelStore, usePanel, useGrid, useActiveTool, useSelectedTabId, useSelectedFreeMousebiteId, useSelectedVScoreLineId, useSelectedRoutingContourId, useSelectedBadmarkId, useShowVScoreLines, useShowRoutingContours, countArcsInBoard, useRouteSegmentSelectState } from '@/stores/panel-store';
-import { cn, formatMM } from '@/lib/utils';
-import type { Tab, VScoreLine, RoutingContour, Badmark } from '@/types';
+import { usePanelStore, usePanel, useGrid, useActiveTool, useSelectedTabId, useSelectedFreeMousebiteId, useSelectedVScoreLineId, useSelectedRoutingContourId, useSelectedBadmarkId, useShowVScoreLines, useShowRoutingContours, useShowCopperThieving, countArcsInBoard, useRouteSegmentSelectState } from '@/stores/panel-store';
+import { cn, formatMM, downloadFile } from '@/lib/utils';
+import { generateRouterProgram } from '@/lib/export/routing-export';
+import { generateVScoreProgram } from '@/lib/export/vscore-export';
+import type { Tab, VScoreLine, RoutingContour, Badmark, PanelText } from '@/types';
+import { DEFAULT_COPPER_THIEVING_CONFIG } from '@/lib/utils/copper-thieving';
 import { getUsers, addUser, removeUser, type User } from '@/lib/utils/user-management';
 
 // ============================================================================
@@ -53,6 +59,8 @@ export function PropertiesPanel() {
     fiducials: false,
     badmarks: false,
     tooling: false,
+    panelTexts: false,
+    thieving: false,
     drawingHead: false,
     dimensions: false,
   });
@@ -86,6 +94,8 @@ export function PropertiesPanel() {
         fiducials: false,
         badmarks: false,
         tooling: false,
+        panelTexts: false,
+        thieving: false,
         drawingHead: false,
         dimensions: false,
         [section]: true,
@@ -107,6 +117,8 @@ export function PropertiesPanel() {
         fiducials: false,
         badmarks: false,
         tooling: false,
+        panelTexts: false,
+        thieving: false,
         drawingHead: false,
         dimensions: false,
       };
@@ -198,6 +210,26 @@ export function PropertiesPanel() {
         <ToolingConfig />
       </PropertySection>
 
+      {/* Beschriftung (Panel-Texte auf dem Nutzenrand) */}
+      <PropertySection
+        title="Beschriftung"
+        icon={<Type className="w-4 h-4" />}
+        expanded={expandedSections.panelTexts}
+        onToggle={() => toggleSection('panelTexts')}
+      >
+        <PanelTextsConfig />
+      </PropertySection>
+
+      {/* Kupfer-Thieving */}
+      <PropertySection
+        title="Kupfer-Thieving"
+        icon={<Hash className="w-4 h-4" />}
+        expanded={expandedSections.thieving}
+        onToggle={() => toggleSection('thieving')}
+      >
+        <CopperThievingConfig />
+      </PropertySection>
+
       {/* Zeichnungskopf (PDF-Titelblock) */}
       <PropertySection
         title="Zeichnungskopf"
@@ -1063,6 +1095,8 @@ function VScoreConfig() {
   const updateVScoreLinePosition = usePanelStore((state) => state.updateVScoreLinePosition);
   const autoDistributeVScoreLines = usePanelStore((state) => state.autoDistributeVScoreLines);
   const selectedVScoreLineId = useSelectedVScoreLineId();
+  const vscoreExportConfig = usePanelStore((state) => state.vscoreExportConfig);
+  const setVScoreExportConfig = usePanelStore((state) => state.setVScoreExportConfig);
 
   const lineCount = panel.vscoreLines.length;
   const instanceCount = panel.instances.length;
@@ -1194,6 +1228,53 @@ function VScoreConfig() {
         </button>
       </div>
 
+      {/* V-Cut-Programm für den Ritz-Dienstleister */}
+      {lineCount > 0 && (
+        <div className="border-t pt-3 mt-3 space-y-2">
+          <span className="text-xs font-medium text-gray-700">V-Cut-Programm:</span>
+
+          <div className="grid grid-cols-2 gap-2">
+            <NumberInput
+              label="LP-Dicke"
+              value={vscoreExportConfig.boardThickness}
+              onChange={(v) => setVScoreExportConfig({ boardThickness: v })}
+              min={0.2}
+              max={6.0}
+              step={0.1}
+              decimals={2}
+            />
+            <div>
+              <label className="text-xs text-gray-500">Format</label>
+              <select
+                value={vscoreExportConfig.format}
+                onChange={(e) => setVScoreExportConfig({ format: e.target.value as 'csv' | 'text' })}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded
+                           focus:outline-none focus:ring-1 focus:ring-primary-500 mt-1"
+              >
+                <option value="csv">CSV</option>
+                <option value="text">Text</option>
+              </select>
+            </div>
+          </div>
+
+          <button
+            onClick={() => {
+              const program = generateVScoreProgram(panel, vscoreExportConfig);
+              if (program) {
+                downloadFile(
+                  program.content,
+                  program.filename,
+                  vscoreExportConfig.format === 'csv' ? 'text/csv' : 'text/plain'
+                );
+              }
+            }}
+            className="w-full btn-secondary text-sm"
+          >
+            V-Cut-Programm exportieren
+          </button>
+        </div>
+      )}
+
       {/* Liste der V-Score Linien */}
       {lineCount > 0 && (
         <div className="border-t pt-3 mt-3 space-y-2">
@@ -1347,6 +1428,8 @@ function RoutingContoursConfig() {
   const segState = useRouteSegmentSelectState();
   const finalizeSegmentSelection = usePanelStore((state) => state.finalizeSegmentSelection);
   const setActiveTool = usePanelStore((state) => state.setActiveTool);
+  const routerConfig = usePanelStore((state) => state.routerConfig);
+  const setRouterConfig = usePanelStore((state) => state.setRouterConfig);
 
   const { routingConfig, routingContours } = panel;
   const contourCount = routingContours.length;
@@ -1530,6 +1613,89 @@ function RoutingContoursConfig() {
         </div>
       )}
 
+      {/* Fräsprogramm für den Depaneling-Router */}
+      {contourCount > 0 && (
+        <div className="border-t pt-3 mt-3 space-y-2">
+          <span className="text-xs font-medium text-gray-700">Fräsprogramm:</span>
+
+          <div>
+            <label className="text-xs text-gray-500">Format</label>
+            <select
+              value={routerConfig.format}
+              onChange={(e) => setRouterConfig({ format: e.target.value as 'excellon' | 'gcode' })}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded
+                         focus:outline-none focus:ring-1 focus:ring-primary-500 mt-1"
+            >
+              <option value="excellon">Excellon Rout (M15/M16)</option>
+              <option value="gcode">G-Code</option>
+            </select>
+          </div>
+
+          <NumberInput
+            label="Vorschub"
+            value={routerConfig.feedRate}
+            onChange={(v) => setRouterConfig({ feedRate: v })}
+            unit="mm/min"
+            min={10}
+            max={20000}
+            step={50}
+            decimals={0}
+          />
+          <NumberInput
+            label="Drehzahl"
+            value={routerConfig.spindleSpeed}
+            onChange={(v) => setRouterConfig({ spindleSpeed: v })}
+            unit="U/min"
+            min={1000}
+            max={100000}
+            step={1000}
+            decimals={0}
+          />
+
+          {/* Z-Parameter werden nur im G-Code verwendet */}
+          {routerConfig.format === 'gcode' && (
+            <>
+              <NumberInput
+                label="Eintauchen"
+                value={routerConfig.plungeRate}
+                onChange={(v) => setRouterConfig({ plungeRate: v })}
+                unit="mm/min"
+                min={10}
+                max={10000}
+                step={50}
+                decimals={0}
+              />
+              <NumberInput
+                label="Sichere Höhe"
+                value={routerConfig.safeZ}
+                onChange={(v) => setRouterConfig({ safeZ: v })}
+                min={0.5}
+                max={50}
+                step={0.5}
+              />
+              <NumberInput
+                label="Frästiefe"
+                value={routerConfig.cutDepth}
+                onChange={(v) => setRouterConfig({ cutDepth: v })}
+                min={0.1}
+                max={10}
+                step={0.1}
+              />
+            </>
+          )}
+
+          <button
+            onClick={() => {
+              const program = generateRouterProgram(panel, routerConfig);
+              if (program) downloadFile(program.content, program.filename);
+            }}
+            className="w-full btn-secondary text-sm"
+          >
+            Fräsprogramm exportieren
+          </button>
+        </div>
+      )}
+
       {/* Liste der Fräskonturen */}
       {contourCount > 0 && (
         <div className="border-t pt-3 mt-3 space-y-2">
@@ -1963,6 +2129,82 @@ function FiducialsConfig() {
           </button>
         </div>
       </div>
+
+      <PanelFeatureExportSettings />
+    </div>
+  );
+}
+
+// ============================================================================
+// Gerber-Export der Panel-Elemente (Fiducials, Badmarks, Tooling)
+// ============================================================================
+
+function PanelFeatureExportSettings() {
+  const config = usePanelStore((state) => state.panelFeatureConfig);
+  const setConfig = usePanelStore((state) => state.setPanelFeatureConfig);
+
+  return (
+    <div className="border-t pt-3 space-y-2">
+      <span className="text-xs font-medium text-gray-700">Gerber-Export:</span>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="exportPanelFeatures"
+          className="rounded"
+          checked={config.enabled}
+          onChange={(e) => setConfig({ enabled: e.target.checked })}
+        />
+        <label htmlFor="exportPanelFeatures" className="text-xs text-gray-600">
+          Fiducials, Badmarks, Tooling in Kupfer/Lötstopp
+        </label>
+      </div>
+
+      {config.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <NumberInput
+              label="Maske +"
+              value={config.maskExpansion}
+              onChange={(v) => setConfig({ maskExpansion: v })}
+              max={1.0}
+              step={0.01}
+              decimals={2}
+            />
+            <NumberInput
+              label="Restring PTH"
+              value={config.toolingAnnularRing}
+              onChange={(v) => setConfig({ toolingAnnularRing: v })}
+              max={2.0}
+              step={0.05}
+              decimals={2}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="copperKeepOut"
+              className="rounded"
+              checked={config.copperKeepOut}
+              onChange={(e) => setConfig({ copperKeepOut: e.target.checked })}
+            />
+            <label htmlFor="copperKeepOut" className="text-xs text-gray-600">
+              Kupfer-Sperrring
+            </label>
+          </div>
+
+          {config.copperKeepOut && (
+            <NumberInput
+              label="Sperrring-Breite"
+              value={config.keepOutClearance}
+              onChange={(v) => setConfig({ keepOutClearance: v })}
+              max={5.0}
+              step={0.1}
+            />
+          )}
+        </>
+      )}
     </div>
   );
 }
@@ -2581,6 +2823,275 @@ function ToolingHoleItem({ index, hole, isSelected, onSelect, onUpdatePosition,
   );
 }
 
+// ============================================================================
+// Beschriftung (Panel-Texte)
+// ============================================================================
+
+function PanelTextsConfig() {
+  const [height, setHeight] = useState(1.5);
+  const [strokeWidth, setStrokeWidth] = useState(0.2);
+
+  const addPanelText = usePanelStore((state) => state.addPanelText);
+  const removePanelText = usePanelStore((state) => state.removePanelText);
+  const updatePanelText = usePanelStore((state) => state.updatePanelText);
+  const updatePanelTextPosition = usePanelStore((state) => state.updatePanelTextPosition);
+  const selectPanelText = usePanelStore((state) => state.selectPanelText);
+  const selectedPanelTextId = usePanelStore((state) => state.selectedPanelTextId);
+  const panel = usePanel();
+
+  /**
+   * Fügt eine neue Beschriftung mittig auf dem unteren Nutzenrand hinzu.
+   * Standardtext: Zeichnungsnummer und Datum (Platzhalter).
+   */
+  const addText = () => {
+    addPanelText({
+      text: '{drawingNumber} {date}',
+      position: { x: panel.width / 2, y: panel.height - panel.frame.bottom / 2 },
+      height,
+      strokeWidth,
+      rotation: 0,
+      layer: 'silkscreen',
+      side: 'top',
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Texte auf dem Nutzenrand, als Vektor-Striche im Bestückungsdruck oder Kupfer.
+        Platzhalter: {'{name}'}, {'{drawingNumber}'}, {'{date}'}, {'{revision}'}
+      </p>
+
+      {/* Liste der vorhandenen Beschriftungen */}
+      {panel.panelTexts.length > 0 && (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {panel.panelTexts.map((text, index) => (
+            <PanelTextItem
+              key={text.id}
+              index={index + 1}
+              text={text}
+              isSelected={text.id === selectedPanelTextId}
+              onSelect={() => selectPanelText(text.id)}
+              onUpdatePosition={(pos) => updatePanelTextPosition(text.id, pos)}
+              onUpdate={(data) => updatePanelText(text.id, data)}
+              onRemove={() => removePanelText(text.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Neue Beschriftung hinzufügen */}
+      <div className={cn(panel.panelTexts.length > 0 ? "border-t pt-3 mt-3" : "")}>
+        <div className="grid grid-cols-2 gap-2">
+          <NumberInput
+            label="Schrifthöhe"
+            value={height}
+            onChange={setHeight}
+            min={0.5}
+            max={20}
+          />
+          <NumberInput
+            label="Strichbreite"
+            value={strokeWidth}
+            onChange={setStrokeWidth}
+            min={0.05}
+            max={2}
+            step={0.05}
+            decimals={2}
+          />
+        </div>
+
+        <button
+          onClick={addText}
+          className="w-full btn-secondary text-sm mt-2"
+        >
+          Beschriftung hinzufügen
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Einzelne Beschriftung mit Text, Position, Drehung, Layer und Seite
+interface PanelTextItemProps {
+  index: number;
+  text: PanelText;
+  isSelected: boolean;
+  onSelect: () => void;
+  onUpdatePosition: (position: { x: number; y: number }) => void;
+  onUpdate: (data: Partial<Omit<PanelText, 'id'>>) => void;
+  onRemove: () => void;
+}
+
+function PanelTextItem({ index, text, isSelected, onSelect, onUpdatePosition, onUpdate, onRemove }: PanelTextItemProps) {
+  const [textValue, setTextValue] = useState(text.text);
+  const [xValue, setXValue] = useState(text.position.x.toFixed(2));
+  const [yValue, setYValue] = useState(text.position.y.toFixed(2));
+  const [heightValue, setHeightValue] = useState(text.height.toFixed(2));
+
+  // Synchronisiert lokale Werte wenn sich die Daten ändern (z.B. durch Drag&Drop)
+  useEffect(() => {
+    setXValue(text.position.x.toFixed(2));
+    setYValue(text.position.y.toFixed(2));
+  }, [text.position]);
+
+  useEffect(() => {
+    setTextValue(text.text);
+  }, [text.text]);
+
+  useEffect(() => {
+    setHeightValue(text.height.toFixed(2));
+  }, [text.height]);
+
+  const handleTextBlur = () => {
+    if (textValue !== text.text) {
+      onUpdate({ text: textValue });
+    }
+  };
+
+  const handleXBlur = () => {
+    const x = parseFloat(xValue);
+    if (!isNaN(x)) {
+      onUpdatePosition({ x, y: text.position.y });
+    }
+  };
+
+  const handleYBlur = () => {
+    const y = parseFloat(yValue);
+    if (!isNaN(y)) {
+      onUpdatePosition({ x: text.position.x, y });
+    }
+  };
+
+  const handleHeightBlur = () => {
+    const h = parseFloat(heightValue);
+    if (!isNaN(h) && h > 0) {
+      onUpdate({ height: h });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, handler: () => void) => {
+    if (e.key === 'Enter') handler();
+  };
+
+  return (
+    <div
+      onClick={onSelect}
+      className={cn(
+        "rounded p-2 text-xs cursor-pointer transition-all",
+        isSelected
+          ? "bg-orange-100 ring-2 ring-orange-400 shadow-lg shadow-orange-200"
+          : "bg-gray-50 hover:bg-gray-100"
+      )}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span className={cn(
+          "font-medium",
+          isSelected ? "text-orange-700" : "text-gray-700"
+        )}>
+          Text {index} {isSelected && "✓"}
+        </span>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="text-red-400 hover:text-red-600 text-xs"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Text inkl. Platzhalter */}
+      <input
+        type="text"
+        value={textValue}
+        onChange={(e) => setTextValue(e.target.value)}
+        onBlur={handleTextBlur}
+        onKeyDown={(e) => handleKeyDown(e, handleTextBlur)}
+        className="w-full px-1 py-0.5 border border-gray-300 rounded text-xs font-mono"
+      />
+
+      {/* Position: X und Y */}
+      <div className="grid grid-cols-2 gap-2 mt-1.5">
+        <div className="flex items-center gap-1">
+          <span className="text-gray-500 w-4">X:</span>
+          <input
+            type="text"
+            value={xValue}
+            onChange={(e) => setXValue(e.target.value)}
+            onBlur={handleXBlur}
+            onKeyDown={(e) => handleKeyDown(e, handleXBlur)}
+            className="flex-1 px-1 py-0.5 border border-gray-300 rounded text-xs w-full"
+          />
+          <span className="text-gray-400">mm</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-gray-500 w-4">Y:</span>
+          <input
+            type="text"
+            value={yValue}
+            onChange={(e) => setYValue(e.target.value)}
+            onBlur={handleYBlur}
+            onKeyDown={(e) => handleKeyDown(e, handleYBlur)}
+            className="flex-1 px-1 py-0.5 border border-gray-300 rounded text-xs w-full"
+          />
+          <span className="text-gray-400">mm</span>
+        </div>
+      </div>
+
+      {/* Schrifthöhe und Drehung */}
+      <div className="grid grid-cols-2 gap-2 mt-1.5">
+        <div className="flex items-center gap-1">
+          <span className="text-gray-500 w-4">H:</span>
+          <input
+            type="text"
+            value={heightValue}
+            onChange={(e) => setHeightValue(e.target.value)}
+            onBlur={handleHeightBlur}
+            onKeyDown={(e) => handleKeyDown(e, handleHeightBlur)}
+            className="flex-1 px-1 py-0.5 border border-gray-300 rounded text-xs w-full"
+          />
+          <span className="text-gray-400">mm</span>
+        </div>
+        <select
+          value={text.rotation}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => onUpdate({ rotation: Number(e.target.value) as PanelText['rotation'] })}
+          className="px-1 py-0.5 border border-gray-300 rounded text-xs"
+        >
+          <option value={0}>0°</option>
+          <option value={90}>90°</option>
+          <option value={180}>180°</option>
+          <option value={270}>270°</option>
+        </select>
+      </div>
+
+      {/* Layer und Seite */}
+      <div className="grid grid-cols-2 gap-2 mt-1.5">
+        <select
+          value={text.layer}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => onUpdate({ layer: e.target.value as PanelText['layer'] })}
+          className="px-1 py-0.5 border border-gray-300 rounded text-xs"
+        >
+          <option value="silkscreen">Bestückungsdruck</option>
+          <option value="copper">Kupfer</option>
+        </select>
+        <select
+          value={text.side}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => onUpdate({ side: e.target.value as PanelText['side'] })}
+          className="px-1 py-0.5 border border-gray-300 rounded text-xs"
+        >
+          <option value="top">Oben</option>
+          <option value="bottom">Unten (gespiegelt)</option>
+        </select>
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // Freigabeprozess: Zeichner & Freigeber Dropdowns + Benutzerverwaltung
 // ============================================================================
@@ -2979,6 +3490,131 @@ function DimensionsInfo() {
   );
 }
 
+// ============================================================================
+// Kupfer-Thieving Konfiguration
+// ============================================================================
+
+function CopperThievingConfig() {
+  const panel = usePanel();
+  const setThievingConfig = usePanelStore((state) => state.setThievingConfig);
+  const config = { ...DEFAULT_COPPER_THIEVING_CONFIG, ...panel.thievingConfig };
+
+  return (
+    <div className="space-y-3">
+      {/* Info-Text */}
+      <p className="text-xs text-gray-500">
+        Füllt Nutzenrand und Zwischenräume auf allen Kupferlagen für eine
+        gleichmässige Galvanik.
+      </p>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="thievingEnabled"
+            className="rounded"
+            checked={config.enabled}
+            onChange={(e) => setThievingConfig({ enabled: e.target.checked })}
+          />
+          <label htmlFor="thievingEnabled" className="text-xs text-gray-600">
+            Thieving erzeugen
+          </label>
+        </div>
+        <CopperThievingVisibilityToggle />
+      </div>
+
+      {/* Füllmuster */}
+      <div>
+        <label className="text-xs text-gray-500">Muster</label>
+        <select
+          value={config.pattern}
+          onChange={(e) => setThievingConfig({ pattern: e.target.value as 'solid' | 'hatch' | 'dots' })}
+          className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded
+                     focus:outline-none focus:ring-1 focus:ring-primary-500 mt-1"
+        >
+          <option value="dots">Punkte</option>
+          <option value="hatch">Schraffur (45°)</option>
+          <option value="solid">Vollfläche</option>
+        </select>
+      </div>
+
+      {config.pattern === 'hatch' && (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberInput
+            label="Linienbreite"
+            value={config.hatchWidth}
+            onChange={(v) => setThievingConfig({ hatchWidth: v })}
+            min={0.1}
+            max={5.0}
+            step={0.05}
+            decimals={2}
+          />
+          <NumberInput
+            label="Abstand"
+            value={config.hatchPitch}
+            onChange={(v) => setThievingConfig({ hatchPitch: v })}
+            min={0.2}
+            max={10.0}
+            step={0.1}
+          />
+        </div>
+      )}
+
+      {config.pattern === 'dots' && (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberInput
+            label="Punkt-Ø"
+            value={config.dotDiameter}
+            onChange={(v) => setThievingConfig({ dotDiameter: v })}
+            min={0.2}
+            max={5.0}
+            step={0.1}
+          />
+          <NumberInput
+            label="Raster"
+            value={config.dotPitch}
+            onChange={(v) => setThievingConfig({ dotPitch: v })}
+            min={0.4}
+            max={10.0}
+            step={0.1}
+          />
+        </div>
+      )}
+
+      {/* Abstände */}
+      <div className="border-t pt-3 space-y-2">
+        <span className="text-xs font-medium text-gray-700">Abstände:</span>
+        <div className="grid grid-cols-2 gap-2">
+          <NumberInput
+            label="Boards"
+            value={config.boardClearance}
+            onChange={(v) => setThievingConfig({ boardClearance: v })}
+            max={10.0}
+          />
+          <NumberInput
+            label="Bohrungen/Marken"
+            value={config.featureClearance}
+            onChange={(v) => setThievingConfig({ featureClearance: v })}
+            max={10.0}
+          />
+          <NumberInput
+            label="V-Score"
+            value={config.vscoreClearance}
+            onChange={(v) => setThievingConfig({ vscoreClearance: v })}
+            max={10.0}
+          />
+          <NumberInput
+            label="Panel-Rand"
+            value={config.edgeClearance}
+            onChange={(v) => setThievingConfig({ edgeClearance: v })}
+            max={10.0}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // Sichtbarkeits-Toggles (Auge ein/aus)
 // ============================================================================
@@ -3009,6 +3645,32 @@ function VScoreVisibilityToggle() {
   );
 }
 
+/**
+ * Auge-Button zum Ein-/Ausblenden des Kupfer-Thievings im Canvas.
+ */
+function CopperThievingVisibilityToggle() {
+  const showCopperThieving = useShowCopperThieving();
+  const toggleCopperThieving = usePanelStore((state) => state.toggleCopperThieving);
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        toggleCopperThieving();
+      }}
+      className={cn(
+        'p-0.5 rounded transition-colors',
+        showCopperThieving
+          ? 'text-amber-700 hover:text-amber-900'
+          : 'text-gray-300 hover:text-gray-500'
+      )}
+      title={showCopperThieving ? 'Kupfer-Thieving ausblenden' : 'Kupfer-Thieving einblenden'}
+    >
+      {showCopperThieving ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+    </button>
+  );
+}
+
 /**
  * Auge-Button zum Ein-/Ausblenden der Fräskonturen im Canvas.
  */
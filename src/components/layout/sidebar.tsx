@@ -32,11 +32,13 @@ import {
   Pencil,
   RotateCw,
   FileText,
+  FileUp,
 } from 'lucide-react';
 import { usePanelStore, useBoards, useActiveTool, useShowDimensions, useShowDrawingPreview, useOutlineDefineState } from '@/stores/panel-store';
 import { cn } from '@/lib/utils';
 import { getAllLayerTypes, getLayerColor } from '@/lib/gerber';
-import type { Tool, GerberLayerType } from '@/types';
+import { ImportDialog, DxfOutlineDialog } from '@/components/dialogs';
+import type { Tool, GerberLayerType, DrillData } from '@/types';
 import { Target, X, Check } from 'lucide-react';
 
 // ============================================================================
@@ -137,6 +139,22 @@ function SidebarSection({
 // Layer-Panel
 // ============================================================================
 
+/**
+ * Kurzinfo zu einer Bohrdatei, z.B. "42 Bohrungen · 3 Werkzeuge (Ø0.30–3.20)"
+ */
+function formatDrillSummary(drill: DrillData): string {
+  const holes = drill.tools.reduce((sum, t) => sum + t.holes.length, 0);
+  const slots = drill.tools.reduce((sum, t) => sum + t.slots.length, 0);
+  const diameters = drill.tools.map((t) => t.diameter);
+  const min = Math.min(...diameters).toFixed(2);
+  const max = Math.max(...diameters).toFixed(2);
+
+  const parts = [`${holes} Bohrungen`];
+  if (slots > 0) parts.push(`${slots} Langlöcher`);
+  parts.push(`${drill.tools.length} Werkzeuge (Ø${min === max ? min : `${min}–${max}`})`);
+  return parts.join(' · ');
+}
+
 function LayerPanel() {
   const boards = useBoards();
   const toggleLayerVisibility = usePanelStore((state) => state.toggleLayerVisibility);
@@ -149,6 +167,9 @@ function LayerPanel() {
   const deselectAllLayerCommands = usePanelStore((state) => state.deselectAllLayerCommands);
   const applyOutlineDefinition = usePanelStore((state) => state.applyOutlineDefinition);
 
+  // Dialog: Outline aus DXF übernehmen
+  const [isDxfOpen, setIsDxfOpen] = useState(false);
+
   // Alle verfügbaren Layer-Typen für das Dropdown
   const layerTypes = getAllLayerTypes();
 
@@ -272,6 +293,20 @@ function LayerPanel() {
           })}
         </div>
 
+        {/* Alternative: Kontur aus DXF-Zeichnung */}
+        <button
+          onClick={() => setIsDxfOpen(true)}
+          className="w-full flex items-center gap-2 px-3 py-2 text-xs rounded bg-orange-50 text-orange-700 border border-orange-200 hover:bg-orange-100 transition-colors"
+        >
+          <FileUp className="w-4 h-4" />
+          Outline aus DXF laden...
+        </button>
+        <DxfOutlineDialog
+          isOpen={isDxfOpen}
+          onClose={() => setIsDxfOpen(false)}
+          boardId={sourceBoard.id}
+        />
+
         {/* Aktions-Buttons */}
         <div className="flex gap-2 pt-2 border-t border-gray-200">
           <button
@@ -416,6 +451,13 @@ function LayerPanel() {
           <div className="text-xs text-gray-400 mt-0.5 ml-5 truncate" title={layer.filename}>
             {layer.filename}
           </div>
+
+          {/* Bohrdateien: Anzahl Bohrungen und Durchmesserbereich */}
+          {layer.parsedData?.drill && layer.parsedData.drill.tools.length > 0 && (
+            <div className="text-xs text-gray-500 mt-0.5 ml-5 truncate">
+              {formatDrillSummary(layer.parsedData.drill)}
+            </div>
+          )}
         </div>
       ))}
 
@@ -447,6 +489,9 @@ function BoardsPanel() {
   const showBoardLabels = usePanelStore((state) => state.showBoardLabels);
   const toggleBoardLabels = usePanelStore((state) => state.toggleBoardLabels);
 
+  // Board, für das gerade eine neue Revision importiert wird
+  const [revisionBoardId, setRevisionBoardId] = useState<string | null>(null);
+
   // Wenn keine Boards: Hinweis anzeigen
   if (boards.length === 0) {
     return (
@@ -472,14 +517,25 @@ function BoardsPanel() {
             <span className="font-medium text-sm text-gray-800 truncate">
               {board.name}
             </span>
-            {/* Löschen-Button */}
-            <button
-              className="p-1 text-gray-400 hover:text-red-500 opacity-0
-                         group-hover:opacity-100 transition-all"
-              title="Board entfernen"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
+            <div className="flex items-center">
+              {/* Neue Revision importieren (Panel-Layout bleibt erhalten) */}
+              <button
+                onClick={() => setRevisionBoardId(board.id)}
+                className="p-1 text-gray-400 hover:text-primary-600 opacity-0
+                           group-hover:opacity-100 transition-all"
+                title="Neue Revision importieren"
+              >
+                <FileUp className="w-4 h-4" />
+              </button>
+              {/* Löschen-Button */}
+              <button
+                className="p-1 text-gray-400 hover:text-red-500 opacity-0
+                           group-hover:opacity-100 transition-all"
+                title="Board entfernen"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
           </div>
 
           {/* Board-Größe */}
@@ -564,6 +620,13 @@ function BoardsPanel() {
           <span className="text-sm text-gray-700">Board-Beschriftung</span>
         </label>
       )}
+
+      {/* Import-Dialog für neue Revisionen */}
+      <ImportDialog
+        isOpen={revisionBoardId !== null}
+        onClose={() => setRevisionBoardId(null)}
+        replaceBoardId={revisionBoardId ?? undefined}
+      />
     </div>
   );
 }
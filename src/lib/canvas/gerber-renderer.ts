@@ -9,6 +9,7 @@
  * - Flash: Werkzeug an einer Position "stempeln" (z.B. Pad)
  * - Line: Mit dem Werkzeug eine Linie zeichnen (z.B. Leiterbahn)
  * - Arc: Bogen zeichnen
+ * - Region: Gefüllte Fläche (z.B. Kupferfläche / Zone)
  */
 
 import type {
@@ -18,6 +19,7 @@ import type {
   Point,
   BoundingBox,
 } from '@/types';
+import { calculateCombinedBoundingBox, getCommandPolarity } from '@/lib/gerber/parser';
 
 // ============================================================================
 // Typen für das Rendering
@@ -28,7 +30,7 @@ import type {
  */
 export interface RenderShape {
   /** Art der Form */
-  type: 'circle' | 'rect' | 'line' | 'path' | 'polygon';
+  type: 'circle' | 'rect' | 'line' | 'path' | 'polygon' | 'group';
   /** Position (für circle, rect) */
   x?: number;
   y?: number;
@@ -45,6 +47,10 @@ export interface RenderShape {
   strokeWidth?: number;
   /** Ist es gefüllt oder nur Umriss? */
   fill?: boolean;
+  /** Löschendes Objekt (LPC / negativer Layer): radiert statt zu zeichnen */
+  clear?: boolean;
+  /** Für Gruppen: Makro-Pad, dessen löschende Primitive nur das Pad selbst radieren */
+  shapes?: RenderShape[];
 }
 
 /**
@@ -92,11 +98,13 @@ export function renderGerberLayers(
   scale: number = PIXELS_PER_MM
 ): RenderedLayer[] {
   const renderedLayers: RenderedLayer[] = [];
+  // Ausdehnung des ganzen Boards (Hintergrund negativer Layer, wie Canvas und Export)
+  const boardBounds = calculateCombinedBoundingBox(layers);
 
   for (const layer of layers) {
     if (!layer.visible) continue;
 
-    const shapes = renderLayer(layer, offsetX, offsetY, scale);
+    const shapes = renderLayer(layer, boardBounds, offsetX, offsetY, scale);
 
     renderedLayers.push({
       id: layer.id,
@@ -118,9 +126,12 @@ export function renderGerberLayers(
 
 /**
  * Rendert einen einzelnen Layer
+ *
+ * @param boardBounds - Ausdehnung des Boards in Gerber-Koordinaten (Hintergrund negativer Layer)
  */
 function renderLayer(
   layer: GerberFile,
+  boardBounds: BoundingBox,
   offsetX: number,
   offsetY: number,
   scale: number
@@ -131,13 +142,33 @@ function renderLayer(
     return shapes;
   }
 
-  const { commands, apertures } = layer.parsedData;
+  const data = layer.parsedData;
+  const { commands, apertures } = data;
+
+  // Negativer Layer (IPNEG): Board-Fläche füllen, die Objekte sparen daraus aus
+  if (data.imagePolarity === 'negative') {
+    const bbox = boardBounds;
+    shapes.push({
+      type: 'rect',
+      x: (bbox.minX + offsetX) * scale,
+      y: (bbox.minY + offsetY) * scale,
+      width: (bbox.maxX - bbox.minX) * scale,
+      height: (bbox.maxY - bbox.minY) * scale,
+      fill: true,
+    });
+  }
 
   // Durch alle Befehle iterieren
   for (const command of commands) {
-    const shape = renderCommand(command, apertures, offsetX, offsetY, scale);
-    if (shape) {
-      shapes.push(shape);
+    const rendered = renderCommand(command, apertures, offsetX, offsetY, scale);
+    const clear = getCommandPolarity(command, data) === 'clear';
+    for (const shape of Array.isArray(rendered) ? rendered : rendered ? [rendered] : []) {
+      if (clear && shape.type === 'group') {
+        // Löschendes Makro-Pad: die belichteten Primitive radieren (Aussparungen darin vereinfacht)
+        shapes.push(...(shape.shapes || []).filter((s) => !s.clear).map((s) => ({ ...s, clear })));
+      } else {
+        shapes.push(clear ? { ...shape, clear } : shape);
+      }
     }
   }
 
@@ -153,7 +184,7 @@ function renderCommand(
   offsetX: number,
   offsetY: number,
   scale: number
-): RenderShape | null {
+): RenderShape | RenderShape[] | null {
   // Aperture für diesen Befehl holen
   const aperture = command.apertureId
     ? apertures.get(command.apertureId) ?? null
@@ -169,6 +200,9 @@ function renderCommand(
     case 'arc':
       return renderArc(command, aperture, offsetX, offsetY, scale);
 
+    case 'region':
+      return renderRegion(command, offsetX, offsetY, scale);
+
     default:
       return null;
   }
@@ -178,7 +212,7 @@ function renderCommand(
  * Rendert einen Flash-Befehl (Pad/Via)
  *
  * Ein Flash "stempelt" die Aperture an einer Position.
- * Typisch für Pads und Vias.
+ * Typisch für Pads und Vias. Makro-Apertures ergeben mehrere Formen.
  */
 function renderFlash(
   command: GerberCommand,
@@ -186,7 +220,7 @@ function renderFlash(
   offsetX: number,
   offsetY: number,
   scale: number
-): RenderShape | null {
+): RenderShape | RenderShape[] | null {
   if (!command.endPoint) return null;
 
   const x = (command.endPoint.x + offsetX) * scale;
@@ -236,6 +270,31 @@ function renderFlash(
         fill: true,
       };
 
+    case 'macro': {
+      // Primitive mit Belichtung aus radieren nur die vorherigen Primitive
+      // desselben Pads (z.B. Thermal) - dafür als eigene Gruppe zurückgeben
+      const pad = (aperture.primitives || []).map((primitive): RenderShape => {
+        const clear = primitive.exposure ? undefined : true;
+        if (primitive.type === 'circle') {
+          return {
+            type: 'circle',
+            x: x + (primitive.center?.x || 0) * scale,
+            y: y + (primitive.center?.y || 0) * scale,
+            radius: ((primitive.diameter || 0) / 2) * scale,
+            fill: true,
+            clear,
+          };
+        }
+        return {
+          type: 'polygon',
+          points: (primitive.points || []).flatMap((p) => [x + p.x * scale, y + p.y * scale]),
+          fill: true,
+          clear,
+        };
+      });
+      return pad.some((shape) => shape.clear) ? { type: 'group', shapes: pad, fill: true } : pad;
+    }
+
     default:
       return {
         type: 'circle',
@@ -368,6 +427,33 @@ function renderArc(
   };
 }
 
+/**
+ * Rendert einen Region-Befehl (gefüllte Fläche)
+ *
+ * Regionen haben keine Aperture - die Kontur wird als gefülltes Polygon
+ * gezeichnet. Bögen sind bereits beim Parsen in Punkte aufgelöst.
+ */
+function renderRegion(
+  command: GerberCommand,
+  offsetX: number,
+  offsetY: number,
+  scale: number
+): RenderShape | null {
+  if (!command.points || command.points.length < 3) return null;
+
+  const points: number[] = [];
+  for (const p of command.points) {
+    points.push((p.x + offsetX) * scale);
+    points.push((p.y + offsetY) * scale);
+  }
+
+  return {
+    type: 'polygon',
+    points,
+    fill: true,
+  };
+}
+
 // ============================================================================
 // Hilfsfunktionen für die Vorschau
 // ============================================================================
@@ -446,6 +532,11 @@ export function createBoardPreviewSVG(
         elements.push(
           `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="1"/>`
         );
+      } else if (cmd.type === 'region' && cmd.points && cmd.points.length >= 3) {
+        const points = cmd.points
+          .map((p) => `${(p.x - minX) * scale},${(height - (p.y - minY)) * scale}`)
+          .join(' ');
+        elements.push(`<polygon points="${points}" fill="${color}"/>`);
       }
     }
   }
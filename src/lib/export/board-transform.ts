@@ -0,0 +1,94 @@
+/**
+ * Board-Transformation - Gerber-Koordinaten → Panel-Koordinaten
+ *
+ * Gemeinsame Transformation für alle Exporte (PDF-Zeichnung, Gerber, Excellon).
+ * Dadurch landen die Board-Daten in jeder Ausgabe exakt dort,
+ * wo sie auch im Canvas gezeichnet werden.
+ */
+
+import type { Board, BoardInstance, Point } from '@/types';
+
+/**
+ * Transformiert einen Gerber-Punkt (mm, Y-up) in Panel-Koordinaten (Y-down)
+ * unter Berücksichtigung von Layer-Rotation, Spiegelung und Instanz-Rotation.
+ *
+ * Wichtig: Gerber-Daten verwenden Y-aufwärts (0 = unten), aber alle Panel-Elemente
+ * (Fräskonturen, V-Scores, Fiducials) verwenden Y-abwärts (0 = oben).
+ *
+ * Die Reihenfolge stimmt EXAKT mit dem Canvas überein (pixi-panel-canvas.tsx):
+ * 0. Render-Offset (offsetContainer): Verschiebt Gerber-Daten damit sichtbarer Inhalt bei (0,0) startet
+ * 1. Layer-Rotation (rotationContainer): Dreht die Gerber-Daten CCW im Y-up Raum
+ * 2. Y-Flip (gerberContainer): Gerber Y-up → Canvas Y-down
+ * 3. Spiegelung (mirrorContainer): Spiegelt im Y-down Raum
+ * 4. Instanz-Rotation (boardContainer): Dreht die Board-Instanz CW im Y-down Raum
+ * 5. Positions-Offset (instance.position): Verschiebt zum Board-Platz im Panel
+ */
+export function transformGerberPoint(
+  gx: number, gy: number,
+  board: Board,
+  instance: BoardInstance
+): Point {
+  let x = gx;
+  let y = gy;
+
+  // Schritt 0: Render-Offset abziehen (wie offsetContainer im Canvas)
+  // Wenn nur bestimmte Layer sichtbar sind, startet deren Bounding-Box
+  // nicht bei (0,0) im Gerber-Raum. Der Offset verschiebt die Daten
+  // damit der sichtbare Inhalt bei (0,0) des Boards beginnt.
+  const renderOffX = board.renderOffsetX || 0;
+  const renderOffY = board.renderOffsetY || 0;
+  x -= renderOffX;
+  y -= renderOffY;
+
+  // Originale Board-Dimensionen (vor jeder Rotation)
+  const origW = board.width;
+  const origH = board.height;
+  const layerRot = board.layerRotation || 0;
+
+  // Schritt 1: Layer-Rotation (CCW im Gerber Y-up Koordinatensystem)
+  // Entspricht dem rotationContainer im Canvas
+  switch (layerRot) {
+    case 90:
+      { const nx = origH - y; const ny = x; x = nx; y = ny; }
+      break;
+    case 180:
+      { const nx = origW - x; const ny = origH - y; x = nx; y = ny; }
+      break;
+    case 270:
+      { const nx = y; const ny = origW - x; x = nx; y = ny; }
+      break;
+  }
+
+  // Effektive Dimensionen nach Layer-Rotation
+  const effW = (layerRot === 90 || layerRot === 270) ? origH : origW;
+  const effH = (layerRot === 90 || layerRot === 270) ? origW : origH;
+
+  // Schritt 2: Y-Flip – Gerber Y-up → Canvas/Panel Y-down
+  // Entspricht gerberContainer (scale.y = -1, position.y = localH) im Canvas
+  // MUSS vor Spiegelung und Instanz-Rotation passieren (gleiche Reihenfolge wie Canvas)!
+  y = effH - y;
+
+  // Schritt 3: Spiegelung (im Y-down Raum, wie mirrorContainer im Canvas)
+  if (board.mirrorX) y = effH - y;  // scale.y = -1, offset +localH
+  if (board.mirrorY) x = effW - x;  // scale.x = -1, offset +localW
+
+  // Schritt 4: Instanz-Rotation (CW im Y-down Raum, wie boardContainer im Canvas)
+  // Formeln sind identisch zu Y-up CCW, da der Achsenflip die Richtung umkehrt
+  switch (instance.rotation) {
+    case 90:
+      { const nx = effH - y; const ny = x; x = nx; y = ny; }
+      break;
+    case 180:
+      { const nx = effW - x; const ny = effH - y; x = nx; y = ny; }
+      break;
+    case 270:
+      { const nx = y; const ny = effW - x; x = nx; y = ny; }
+      break;
+  }
+
+  // Schritt 5: Board-Position im Panel addieren (Panel Y-down Koordinaten)
+  x += instance.position.x;
+  y += instance.position.y;
+
+  return { x, y };
+}
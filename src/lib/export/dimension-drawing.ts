@@ -8,11 +8,31 @@
  * - Element-Beschreibungen direkt am Panel
  * - V-Score Detail-Querschnittsansicht
  * - PCB-Dicken-Tabelle
- * - Panel-Umriss mit Bemaßungen, Boards, Fiducials, Tooling Holes, V-Scores, Tabs
+ * - Panel-Umriss mit Bemaßungen, Boards, Fiducials, Tooling Holes, V-Scores, Tabs,
+ *   Panel-Beschriftungen (Strichschrift)
  */
 
-import { PDFDocument, PDFPage, PDFFont, PDFImage, rgb, StandardFonts } from 'pdf-lib';
-import type { Panel, BoardInstance, Board, RoutingSegment } from '@/types';
+import {
+  PDFDocument,
+  PDFPage,
+  PDFFont,
+  PDFImage,
+  rgb,
+  StandardFonts,
+  LineCapStyle,
+  pushGraphicsState,
+  popGraphicsState,
+  moveTo,
+  lineTo,
+  closePath,
+  clipEvenOdd,
+  endPath,
+  type RGB,
+} from 'pdf-lib';
+import type { Panel, BoardInstance, Board, RoutingSegment, Point } from '@/types';
+import { transformGerberPoint } from './board-transform';
+import { calculateCombinedBoundingBox, getCommandPolarity } from '@/lib/gerber/parser';
+import { getPanelTextStrokes } from '@/lib/utils/stroke-font';
 
 // ============================================================================
 // Konstanten für die Zeichnung - A4 Querformat
@@ -61,6 +81,7 @@ let DRAWING_AREA = {
 const COLORS = {
   // Grundfarben
   black: rgb(0, 0, 0),
+  white: rgb(1, 1, 1),
   gray: rgb(0.5, 0.5, 0.5),
   lightGray: rgb(0.8, 0.8, 0.8),
   dimGray: rgb(0.6, 0.6, 0.6),
@@ -74,6 +95,7 @@ const COLORS = {
   vscore: rgb(1.0, 0.412, 0.706),       // 0xff69b4 — V-Score (Canvas-Farbe)
   orange: rgb(0.9, 0.5, 0.0),
   cyan: rgb(0.0, 0.7, 0.9),
+  copper: rgb(0.722, 0.451, 0.2),        // 0xb87333 — Kupfer (Canvas-Farbe)
   // Fräskonturen und Mousebites
   routingCyan: rgb(0, 0.9, 1),
   routingOrange: rgb(1, 0.57, 0),
@@ -134,93 +156,150 @@ function hexToRgbColor(hex: string) {
 }
 
 /**
- * Transformiert einen Gerber-Punkt (mm, Y-up) in Panel-Koordinaten (Y-down)
- * unter Berücksichtigung von Layer-Rotation, Spiegelung und Instanz-Rotation.
- *
- * Wichtig: Gerber-Daten verwenden Y-aufwärts (0 = unten), aber alle Panel-Elemente
- * (Fräskonturen, V-Scores, Fiducials) verwenden Y-abwärts (0 = oben).
- *
- * Die Reihenfolge stimmt EXAKT mit dem Canvas überein (pixi-panel-canvas.tsx):
- * 0. Render-Offset (offsetContainer): Verschiebt Gerber-Daten damit sichtbarer Inhalt bei (0,0) startet
- * 1. Layer-Rotation (rotationContainer): Dreht die Gerber-Daten CCW im Y-up Raum
- * 2. Y-Flip (gerberContainer): Gerber Y-up → Canvas Y-down
- * 3. Spiegelung (mirrorContainer): Spiegelt im Y-down Raum
- * 4. Instanz-Rotation (boardContainer): Dreht die Board-Instanz CW im Y-down Raum
- * 5. Positions-Offset (instance.position): Verschiebt zum Board-Platz im Panel
+ * Form eines Gerber-Objekts in PDF-Koordinaten (Punkte, Y aufwärts)
  */
-function transformGerberPoint(
-  gx: number, gy: number,
-  board: Board,
-  instance: BoardInstance
-): { x: number; y: number } {
-  let x = gx;
-  let y = gy;
-
-  // Schritt 0: Render-Offset abziehen (wie offsetContainer im Canvas)
-  // Wenn nur bestimmte Layer sichtbar sind, startet deren Bounding-Box
-  // nicht bei (0,0) im Gerber-Raum. Der Offset verschiebt die Daten
-  // damit der sichtbare Inhalt bei (0,0) des Boards beginnt.
-  const renderOffX = board.renderOffsetX || 0;
-  const renderOffY = board.renderOffsetY || 0;
-  x -= renderOffX;
-  y -= renderOffY;
-
-  // Originale Board-Dimensionen (vor jeder Rotation)
-  const origW = board.width;
-  const origH = board.height;
-  const layerRot = board.layerRotation || 0;
-
-  // Schritt 1: Layer-Rotation (CCW im Gerber Y-up Koordinatensystem)
-  // Entspricht dem rotationContainer im Canvas
-  switch (layerRot) {
-    case 90:
-      { const nx = origH - y; const ny = x; x = nx; y = ny; }
+type PdfShape =
+  | { kind: 'circle'; x: number; y: number; r: number }
+  | { kind: 'rect'; x: number; y: number; w: number; h: number }
+  | { kind: 'polygon'; points: Point[] }
+  | { kind: 'stroke'; start: Point; end: Point; thickness: number }
+  /** Makro-Pad mit ausgesparten Primitiven (Aussparung nur innerhalb des Pads) */
+  | { kind: 'group'; items: PdfLayerItem[] };
+
+/**
+ * Ein Objekt eines Gerber-Layers mit seiner Polarität
+ * (löschend = LPC, negatives Bild oder Makro-Primitiv mit Belichtung aus)
+ */
+interface PdfLayerItem {
+  shape: PdfShape;
+  clear: boolean;
+}
+
+/**
+ * Zeichnet eine Form gefüllt bzw. als Linie
+ */
+function drawPdfShape(page: PDFPage, shape: PdfShape, color: RGB, opacity: number): void {
+  switch (shape.kind) {
+    case 'circle':
+      page.drawCircle({ x: shape.x, y: shape.y, size: shape.r, color, opacity });
       break;
-    case 180:
-      { const nx = origW - x; const ny = origH - y; x = nx; y = ny; }
+    case 'rect':
+      page.drawRectangle({ x: shape.x, y: shape.y, width: shape.w, height: shape.h, color, opacity });
       break;
-    case 270:
-      { const nx = y; const ny = origW - x; x = nx; y = ny; }
+    case 'polygon': {
+      if (shape.points.length < 3) break;
+      // drawSvgPath spiegelt Y (SVG ist Y-down)
+      const path = shape.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${-p.y}`).join(' ') + ' Z';
+      page.drawSvgPath(path, { x: 0, y: 0, color, opacity });
+      break;
+    }
+    case 'stroke':
+      page.drawLine({
+        start: shape.start, end: shape.end, thickness: shape.thickness,
+        lineCap: LineCapStyle.Round, color, opacity,
+      });
+      break;
+    case 'group':
+      drawPdfLayerItems(page, shape.items, color, opacity);
       break;
   }
+}
 
-  // Effektive Dimensionen nach Layer-Rotation
-  const effW = (layerRot === 90 || layerRot === 270) ? origH : origW;
-  const effH = (layerRot === 90 || layerRot === 270) ? origW : origH;
-
-  // Schritt 2: Y-Flip – Gerber Y-up → Canvas/Panel Y-down
-  // Entspricht gerberContainer (scale.y = -1, position.y = localH) im Canvas
-  // MUSS vor Spiegelung und Instanz-Rotation passieren (gleiche Reihenfolge wie Canvas)!
-  y = effH - y;
-
-  // Schritt 3: Spiegelung (im Y-down Raum, wie mirrorContainer im Canvas)
-  if (board.mirrorX) y = effH - y;  // scale.y = -1, offset +localH
-  if (board.mirrorY) x = effW - x;  // scale.x = -1, offset +localW
+/**
+ * Umriss einer Form als Polygon (Kreise und Linienenden angenähert)
+ */
+function pdfShapeOutline(shape: PdfShape): Point[] {
+  const arcPoints = (cx: number, cy: number, r: number, from: number, sweep: number, steps: number) =>
+    Array.from({ length: steps + 1 }, (_, i) => {
+      const a = from + (sweep * i) / steps;
+      return { x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) };
+    });
 
-  // Schritt 4: Instanz-Rotation (CW im Y-down Raum, wie boardContainer im Canvas)
-  // Formeln sind identisch zu Y-up CCW, da der Achsenflip die Richtung umkehrt
-  switch (instance.rotation) {
-    case 90:
-      { const nx = effH - y; const ny = x; x = nx; y = ny; }
-      break;
-    case 180:
-      { const nx = effW - x; const ny = effH - y; x = nx; y = ny; }
-      break;
-    case 270:
-      { const nx = y; const ny = effW - x; x = nx; y = ny; }
-      break;
+  switch (shape.kind) {
+    case 'circle':
+      return arcPoints(shape.x, shape.y, shape.r, 0, 2 * Math.PI, 32).slice(1);
+    case 'rect':
+      return [
+        { x: shape.x, y: shape.y },
+        { x: shape.x + shape.w, y: shape.y },
+        { x: shape.x + shape.w, y: shape.y + shape.h },
+        { x: shape.x, y: shape.y + shape.h },
+      ];
+    case 'polygon':
+      return shape.points;
+    case 'group':
+      // Nur belichtende Gruppen (siehe Makro-Flash), kein eigener Umriss
+      return [];
+    case 'stroke': {
+      // Linie mit runden Enden als Kapsel
+      const { start, end } = shape;
+      const r = shape.thickness / 2;
+      const dir = Math.atan2(end.y - start.y, end.x - start.x);
+      return [
+        ...arcPoints(end.x, end.y, r, dir - Math.PI / 2, Math.PI, 8),
+        ...arcPoints(start.x, start.y, r, dir + Math.PI / 2, Math.PI, 8),
+      ];
+    }
   }
+}
 
-  // Schritt 5: Board-Position im Panel addieren (Panel Y-down Koordinaten)
-  x += instance.position.x;
-  y += instance.position.y;
+/**
+ * Schränkt den Zeichenbereich auf alles ausserhalb der Umrisse ein
+ *
+ * Pro Umriss ein Clip-Pfad "Seite minus Umriss" (Even-Odd); mehrere Clips
+ * schneiden sich, das Ergebnis spart also die Vereinigung aller Umrisse aus.
+ */
+function clipOutsideShapes(page: PDFPage, shapes: PdfShape[]): void {
+  const { width, height } = page.getSize();
+  for (const shape of shapes) {
+    const outline = pdfShapeOutline(shape);
+    if (outline.length < 3) continue;
+    page.pushOperators(
+      moveTo(0, 0),
+      lineTo(width, 0),
+      lineTo(width, height),
+      lineTo(0, height),
+      closePath(),
+      moveTo(outline[0].x, outline[0].y),
+      ...outline.slice(1).map((p) => lineTo(p.x, p.y)),
+      closePath(),
+      clipEvenOdd(),
+      endPath(),
+    );
+  }
+}
 
-  return { x, y };
+/**
+ * Zeichnet die Objekte eines Layers mit Polarität
+ *
+ * PDF kennt kein Radieren: Löschende Objekte werden nicht gezeichnet, sondern
+ * sparen über Clip-Pfade die vorher gezeichneten Objekte DIESES Layers aus.
+ * Dazu wird rückwärts gearbeitet: Jeder löschende Abschnitt legt einen Clip
+ * an, der für alle davor liegenden belichtenden Abschnitte gilt. Andere Layer,
+ * Outline und Bemaßung liegen ausserhalb des Grafik-Zustands und bleiben sichtbar.
+ */
+function drawPdfLayerItems(page: PDFPage, items: PdfLayerItem[], color: RGB, opacity: number): void {
+  let depth = 0;
+  let i = items.length - 1;
+  while (i >= 0) {
+    const clear = items[i].clear;
+    const run: PdfShape[] = [];
+    while (i >= 0 && items[i].clear === clear) run.push(items[i--].shape);
+
+    if (clear) {
+      page.pushOperators(pushGraphicsState());
+      depth++;
+      clipOutsideShapes(page, run);
+    } else {
+      for (const shape of run) drawPdfShape(page, shape, color, opacity);
+    }
+  }
+  for (; depth > 0; depth--) page.pushOperators(popGraphicsState());
 }
 
 /**
  * Zeichnet die sichtbaren Gerber-Layer eines Boards in die PDF-Zeichnung.
- * Unterstützt Flash (Pads), Line (Leiterbahnen) und Arc (Bögen).
+ * Unterstützt Flash (Pads), Line (Leiterbahnen), Arc (Bögen) und Region (Flächen).
  */
 function drawGerberLayersOnBoard(
   page: PDFPage,
@@ -234,34 +313,65 @@ function drawGerberLayersOnBoard(
   const visibleLayers = board.layers.filter(l => l.visible && l.parsedData);
   if (visibleLayers.length === 0) return;
 
+  // Gerber-Punkt → PDF-Punkt
+  const toPdf = (x: number, y: number): Point => {
+    const p = transformGerberPoint(x, y, board, instance);
+    return { x: toX(p.x), y: toY(p.y) };
+  };
+
   for (const layer of visibleLayers) {
     // In der PDF-Zeichnung alle Gerber-Layer schwarz darstellen (nicht Canvas-Farben)
     const layerColor = rgb(0, 0, 0);
     // Outline-Layer mit voller Deckkraft, andere Layer mit 70%
-    const opacity = layer.type === 'outline' ? 1.0 : 0.7;
-    const { commands, apertures } = layer.parsedData!;
+    const layerOpacity = layer.type === 'outline' ? 1.0 : 0.7;
+    const data = layer.parsedData!;
+    const { commands, apertures } = data;
+    const items: PdfLayerItem[] = [];
+
+    // Negativer Layer (IPNEG): Board-Fläche füllen, die Objekte sparen daraus aus
+    if (data.imagePolarity === 'negative') {
+      const bounds = calculateCombinedBoundingBox(board.layers);
+      items.push({
+        clear: false,
+        shape: {
+          kind: 'polygon',
+          points: [
+            toPdf(bounds.minX, bounds.minY),
+            toPdf(bounds.maxX, bounds.minY),
+            toPdf(bounds.maxX, bounds.maxY),
+            toPdf(bounds.minX, bounds.maxY),
+          ],
+        },
+      });
+    }
 
     for (const command of commands) {
       const aperture = command.apertureId
         ? apertures.get(command.apertureId) ?? null
         : null;
 
+      // Löschende Objekte (LPC) sparen die vorherigen Objekte des Layers aus
+      const clear = getCommandPolarity(command, data) === 'clear';
+      const add = (shape: PdfShape) => items.push({ shape, clear });
+
+      // Strichstärke aus Aperture (Mindestbreite damit dünne Linien sichtbar bleiben)
+      let strokeWidth = 0.2 * scale;
+      if (aperture?.type === 'circle' && aperture.diameter) {
+        strokeWidth = aperture.diameter * scale;
+      } else if (aperture?.width) {
+        strokeWidth = aperture.width * scale;
+      }
+      strokeWidth = Math.max(strokeWidth, 0.3);
+
       switch (command.type) {
         // ---- Flash: Pad/Via an einer Position "stempeln" ----
         case 'flash': {
           if (!command.endPoint) break;
-          const p = transformGerberPoint(
-            command.endPoint.x, command.endPoint.y, board, instance
-          );
+          const p = toPdf(command.endPoint.x, command.endPoint.y);
 
           if (aperture?.type === 'circle' && aperture.diameter) {
             // Kreisförmiges Pad
-            const radius = (aperture.diameter / 2) * scale;
-            page.drawCircle({
-              x: toX(p.x), y: toY(p.y),
-              size: radius,
-              color: layerColor, opacity,
-            });
+            add({ kind: 'circle', x: p.x, y: p.y, r: (aperture.diameter / 2) * scale });
           } else if (
             (aperture?.type === 'rectangle' || aperture?.type === 'obround') &&
             aperture.width && aperture.height
@@ -269,20 +379,30 @@ function drawGerberLayersOnBoard(
             // Rechteckiges/ovales Pad
             const w = aperture.width * scale;
             const h = aperture.height * scale;
-            page.drawRectangle({
-              x: toX(p.x) - w / 2,
-              y: toY(p.y) - h / 2,
-              width: w, height: h,
-              color: layerColor, opacity,
-            });
+            add({ kind: 'rect', x: p.x - w / 2, y: p.y - h / 2, w, h });
+          } else if (aperture?.type === 'macro' && aperture.primitives) {
+            // Makro-Aperture: Primitive relativ zum Flash-Punkt.
+            // Primitive mit Belichtung aus sparen nur aus den vorherigen Primitiven
+            // desselben Pads aus (z.B. Thermal), nicht aus dem übrigen Layer.
+            const { x: fx, y: fy } = command.endPoint;
+            const pad: PdfLayerItem[] = [];
+            for (const primitive of aperture.primitives) {
+              if (primitive.type === 'circle' && primitive.center && primitive.diameter) {
+                const c = toPdf(fx + primitive.center.x, fy + primitive.center.y);
+                pad.push({ clear: !primitive.exposure, shape: { kind: 'circle', x: c.x, y: c.y, r: (primitive.diameter / 2) * scale } });
+              } else if (primitive.points) {
+                pad.push({ clear: !primitive.exposure, shape: { kind: 'polygon', points: primitive.points.map((pp) => toPdf(fx + pp.x, fy + pp.y)) } });
+              }
+            }
+            if (clear || !pad.some((item) => item.clear)) {
+              // Löschendes Pad: die belichteten Primitive sparen aus (Aussparungen darin vereinfacht)
+              pad.filter((item) => !item.clear).forEach((item) => add(item.shape));
+            } else {
+              add({ kind: 'group', items: pad });
+            }
           } else {
             // Fallback: kleiner Kreis
-            const radius = 0.1 * scale;
-            page.drawCircle({
-              x: toX(p.x), y: toY(p.y),
-              size: radius,
-              color: layerColor, opacity,
-            });
+            add({ kind: 'circle', x: p.x, y: p.y, r: 0.1 * scale });
           }
           break;
         }
@@ -290,28 +410,11 @@ function drawGerberLayersOnBoard(
         // ---- Line: Leiterbahn zwischen zwei Punkten ----
         case 'line': {
           if (!command.startPoint || !command.endPoint) break;
-          const pStart = transformGerberPoint(
-            command.startPoint.x, command.startPoint.y, board, instance
-          );
-          const pEnd = transformGerberPoint(
-            command.endPoint.x, command.endPoint.y, board, instance
-          );
-
-          // Strichstärke aus Aperture berechnen
-          let strokeWidth = 0.2 * scale;
-          if (aperture?.type === 'circle' && aperture.diameter) {
-            strokeWidth = aperture.diameter * scale;
-          } else if (aperture?.width) {
-            strokeWidth = aperture.width * scale;
-          }
-          // Mindestbreite damit dünne Linien sichtbar bleiben
-          strokeWidth = Math.max(strokeWidth, 0.3);
-
-          page.drawLine({
-            start: { x: toX(pStart.x), y: toY(pStart.y) },
-            end: { x: toX(pEnd.x), y: toY(pEnd.y) },
+          add({
+            kind: 'stroke',
+            start: toPdf(command.startPoint.x, command.startPoint.y),
+            end: toPdf(command.endPoint.x, command.endPoint.y),
             thickness: strokeWidth,
-            color: layerColor, opacity,
           });
           break;
         }
@@ -319,105 +422,59 @@ function drawGerberLayersOnBoard(
         // ---- Arc: Bogen als Liniensegmente approximiert ----
         case 'arc': {
           if (!command.startPoint || !command.endPoint) break;
-
-          // Strichstärke aus Aperture
-          let arcStrokeWidth = 0.2 * scale;
-          if (aperture?.type === 'circle' && aperture.diameter) {
-            arcStrokeWidth = aperture.diameter * scale;
-          } else if (aperture?.width) {
-            arcStrokeWidth = aperture.width * scale;
+          const sx = command.startPoint.x, sy = command.startPoint.y;
+          const ex = command.endPoint.x, ey = command.endPoint.y;
+          const straight = () => add({ kind: 'stroke', start: toPdf(sx, sy), end: toPdf(ex, ey), thickness: strokeWidth });
+
+          // Kein Mittelpunkt: als gerade Linie zeichnen
+          if (!command.centerPoint) {
+            straight();
+            break;
           }
-          arcStrokeWidth = Math.max(arcStrokeWidth, 0.3);
-
-          if (command.centerPoint) {
-            // Bogen mit Mittelpunkt: als Liniensegmente zeichnen
-            const sx = command.startPoint.x, sy = command.startPoint.y;
-            const ex = command.endPoint.x, ey = command.endPoint.y;
-            const cx = command.centerPoint.x, cy = command.centerPoint.y;
-
-            const radius = Math.sqrt((sx - cx) ** 2 + (sy - cy) ** 2);
-
-            // Ungültiger Radius: als gerade Linie zeichnen
-            if (radius < 0.001 || !isFinite(radius)) {
-              const pS = transformGerberPoint(sx, sy, board, instance);
-              const pE = transformGerberPoint(ex, ey, board, instance);
-              page.drawLine({
-                start: { x: toX(pS.x), y: toY(pS.y) },
-                end: { x: toX(pE.x), y: toY(pE.y) },
-                thickness: arcStrokeWidth,
-                color: layerColor, opacity,
-              });
-              break;
-            }
-
-            // Winkel berechnen
-            const startAngle = Math.atan2(sy - cy, sx - cx);
-            const endAngle = Math.atan2(ey - cy, ex - cx);
-
-            if (!isFinite(startAngle) || !isFinite(endAngle)) {
-              const pS = transformGerberPoint(sx, sy, board, instance);
-              const pE = transformGerberPoint(ex, ey, board, instance);
-              page.drawLine({
-                start: { x: toX(pS.x), y: toY(pS.y) },
-                end: { x: toX(pE.x), y: toY(pE.y) },
-                thickness: arcStrokeWidth,
-                color: layerColor, opacity,
-              });
-              break;
-            }
-
-            // Sweep-Winkel (Bogenrichtung)
-            let sweep = endAngle - startAngle;
-            if (command.clockwise) {
-              if (sweep > 0) sweep -= 2 * Math.PI;
-              if (sweep === 0) sweep = -2 * Math.PI;
-            } else {
-              if (sweep < 0) sweep += 2 * Math.PI;
-              if (sweep === 0) sweep = 2 * Math.PI;
-            }
 
-            // Bogen als Liniensegmente approximieren
-            const segments = Math.max(16, Math.ceil(Math.abs(sweep) * 32 / Math.PI));
+          const cx = command.centerPoint.x, cy = command.centerPoint.y;
+          const radius = Math.sqrt((sx - cx) ** 2 + (sy - cy) ** 2);
+          const startAngle = Math.atan2(sy - cy, sx - cx);
+          const endAngle = Math.atan2(ey - cy, ex - cx);
 
-            let prevGerber = { x: sx, y: sy };
-            for (let si = 1; si <= segments; si++) {
-              const angle = startAngle + (sweep * si) / segments;
-              const nextGerber = {
-                x: cx + radius * Math.cos(angle),
-                y: cy + radius * Math.sin(angle),
-              };
-
-              const pPrev = transformGerberPoint(prevGerber.x, prevGerber.y, board, instance);
-              const pNext = transformGerberPoint(nextGerber.x, nextGerber.y, board, instance);
-
-              page.drawLine({
-                start: { x: toX(pPrev.x), y: toY(pPrev.y) },
-                end: { x: toX(pNext.x), y: toY(pNext.y) },
-                thickness: arcStrokeWidth,
-                color: layerColor, opacity,
-              });
+          // Ungültiger Radius oder Winkel: als gerade Linie zeichnen
+          if (radius < 0.001 || !isFinite(radius) || !isFinite(startAngle) || !isFinite(endAngle)) {
+            straight();
+            break;
+          }
 
-              prevGerber = nextGerber;
-            }
+          // Sweep-Winkel (Bogenrichtung)
+          let sweep = endAngle - startAngle;
+          if (command.clockwise) {
+            if (sweep > 0) sweep -= 2 * Math.PI;
+            if (sweep === 0) sweep = -2 * Math.PI;
           } else {
-            // Kein Mittelpunkt: als gerade Linie zeichnen
-            const pS = transformGerberPoint(
-              command.startPoint.x, command.startPoint.y, board, instance
-            );
-            const pE = transformGerberPoint(
-              command.endPoint.x, command.endPoint.y, board, instance
-            );
-            page.drawLine({
-              start: { x: toX(pS.x), y: toY(pS.y) },
-              end: { x: toX(pE.x), y: toY(pE.y) },
-              thickness: arcStrokeWidth,
-              color: layerColor, opacity,
-            });
+            if (sweep < 0) sweep += 2 * Math.PI;
+            if (sweep === 0) sweep = 2 * Math.PI;
+          }
+
+          // Bogen als Liniensegmente approximieren
+          const segments = Math.max(16, Math.ceil(Math.abs(sweep) * 32 / Math.PI));
+          let prev = toPdf(sx, sy);
+          for (let si = 1; si <= segments; si++) {
+            const angle = startAngle + (sweep * si) / segments;
+            const next = toPdf(cx + radius * Math.cos(angle), cy + radius * Math.sin(angle));
+            add({ kind: 'stroke', start: prev, end: next, thickness: strokeWidth });
+            prev = next;
           }
           break;
         }
+
+        // ---- Region: gefüllte Fläche (Kupferfläche / Zone) ----
+        case 'region': {
+          if (!command.points) break;
+          add({ kind: 'polygon', points: command.points.map((gp) => toPdf(gp.x, gp.y)) });
+          break;
+        }
       }
     }
+
+    drawPdfLayerItems(page, items, layerColor, layerOpacity);
   }
 }
 
@@ -893,6 +950,27 @@ export async function generateDimensionDrawing(
     page.drawLine({ start: { x, y: y - radius }, end: { x, y: y + radius }, color: COLORS.red, thickness: 0.3 });
   }
 
+  // ----------------------------------------------------------------
+  // 7b. Panel-Beschriftungen (Strichschrift, Unterseite gespiegelt)
+  // Bestückungsdruck schwarz, Kupfer in Kupferfarbe, Unterseite halbtransparent
+  // ----------------------------------------------------------------
+  for (const text of panel.panelTexts) {
+    const color = text.layer === 'copper' ? COLORS.copper : COLORS.black;
+    const thickness = Math.max(0.2, text.strokeWidth * scale);
+    for (const stroke of getPanelTextStrokes(text, panel)) {
+      for (let i = 1; i < stroke.length; i++) {
+        page.drawLine({
+          start: { x: toX(stroke[i - 1].x), y: toY(stroke[i - 1].y) },
+          end: { x: toX(stroke[i].x), y: toY(stroke[i].y) },
+          color,
+          thickness,
+          opacity: text.side === 'bottom' ? 0.5 : 1.0,
+          lineCap: LineCapStyle.Round,
+        });
+      }
+    }
+  }
+
   // ----------------------------------------------------------------
   // 8. Ordinatenbemaßung (VSM/ISO 129) — identisch zum Canvas
   // ----------------------------------------------------------------
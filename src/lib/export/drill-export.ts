@@ -0,0 +1,322 @@
+/**
+ * Excellon Export - Panel-Bohrdaten (PTH und NPTH)
+ *
+ * Führt alle Bohrungen des Panels in zwei Excellon-Dateien zusammen:
+ * - PTH  (durchkontaktiert): Board-Bohrlayer 'drill' + plated Tooling-Bohrungen
+ * - NPTH (nicht durchkontaktiert): Board-Bohrlayer 'drill-npth',
+ *   nicht-plated Tooling-Bohrungen, Mousebite-Bohrungen (Tabs + Rundungen)
+ *
+ * Board-Bohrungen werden wie die Gerber-Layer mit transformGerberPoint()
+ * platziert, Mousebite-Positionen kommen aus denselben Hilfsfunktionen
+ * wie im Canvas (mousebite-holes.ts).
+ *
+ * X2-Attribute stehen wie bei KiCad als Kommentare im Kopf ("; #@! TF..."),
+ * Tooling- und Mousebite-Werkzeuge tragen ihre Bohrfunktion ("; #@! TA...").
+ */
+
+import type { DrillExportOptions, Panel, Point } from '@/types';
+import { getTabMousebiteHoles, getFreeMousebiteHoles } from '@/lib/utils/mousebite-holes';
+import { transformGerberPoint } from './board-transform';
+import { getGerberFileAttributes, getPanelCopperLayerCount, panelToGerberPoint } from './gerber-export';
+
+// ============================================================================
+// Typen und Konstanten
+// ============================================================================
+
+/**
+ * Eine einzelne Bohrung bzw. ein Langloch im Panel
+ */
+export interface DrillHole {
+  /** Bohrungsmittelpunkt (bei Langlöchern: Startpunkt) in Gerber-Koordinaten (mm, Y-up) */
+  position: Point;
+  /** Bei Langlöchern: Endpunkt in Gerber-Koordinaten (mm, Y-up) */
+  slotEnd?: Point;
+  /** Bohrungsdurchmesser in mm */
+  diameter: number;
+  /** Durchkontaktiert oder nicht */
+  plated: boolean;
+  /** Herkunft (für Statistik/README) */
+  source: 'board' | 'tooling' | 'mousebite';
+}
+
+/**
+ * Eine exportierte Excellon-Datei
+ */
+export interface DrillExportFile {
+  /** true = PTH-Datei, false = NPTH-Datei */
+  plated: boolean;
+  /** Vorgeschlagener Dateiname */
+  filename: string;
+  /** Dateiinhalt (Excellon) */
+  content: string;
+  /** Anzahl Bohrungen + Langlöcher in dieser Datei */
+  holeCount: number;
+}
+
+/**
+ * Standard-Exportoptionen: Metrisch
+ */
+export const DEFAULT_DRILL_EXPORT_OPTIONS: DrillExportOptions = {
+  units: 'mm',
+};
+
+/** Durchmesser gleicher Werkzeuge werden auf diese Auflösung (mm) gerundet */
+const TOOL_DIAMETER_RESOLUTION = 0.001;
+
+/** X2-Bohrfunktion pro Herkunft (Board-Bohrungen: unbekannt, daher ohne Attribut) */
+const DRILL_APERTURE_FUNCTIONS: Record<DrillHole['source'], string | undefined> = {
+  board: undefined,
+  tooling: 'MechanicalDrill,Tooling',
+  mousebite: 'MechanicalDrill,BreakOut',
+};
+
+// ============================================================================
+// Bohrungen sammeln
+// ============================================================================
+
+/**
+ * Sammelt alle Bohrungen des Panels (Boards, Tooling-Bohrungen, Mousebites)
+ *
+ * @param panel - Das Panel
+ * @returns Alle Bohrungen in Gerber-Koordinaten (mm, Y-up, Ursprung unten links)
+ */
+export function collectPanelDrillHoles(panel: Panel): DrillHole[] {
+  const holes: DrillHole[] = [];
+
+  // 1. Bohrlayer aller platzierten Boards
+  for (const instance of panel.instances) {
+    const board = panel.boards.find(b => b.id === instance.boardId);
+    if (!board) continue;
+
+    const toGerber = (p: Point) =>
+      panelToGerberPoint(transformGerberPoint(p.x, p.y, board, instance), panel);
+
+    for (const layer of board.layers) {
+      if (layer.type !== 'drill' && layer.type !== 'drill-npth') continue;
+      if (!layer.parsedData) continue;
+
+      const layerPlated = layer.type === 'drill';
+
+      // Excellon-Dateien: Bohrliste pro Werkzeug (Plated-Attribut der Datei hat Vorrang)
+      if (layer.parsedData.drill) {
+        for (const tool of layer.parsedData.drill.tools) {
+          if (!tool.diameter) continue;
+          const plated = tool.plated ?? layerPlated;
+          for (const hole of tool.holes) {
+            holes.push({ position: toGerber(hole), diameter: tool.diameter, plated, source: 'board' });
+          }
+          for (const slot of tool.slots) {
+            holes.push({
+              position: toGerber(slot.start),
+              slotEnd: toGerber(slot.end),
+              diameter: tool.diameter,
+              plated,
+              source: 'board',
+            });
+          }
+        }
+        continue;
+      }
+
+      const plated = layerPlated;
+      const { commands, apertures } = layer.parsedData;
+
+      for (const command of commands) {
+        const diameter = command.apertureId
+          ? apertures.get(command.apertureId)?.diameter
+          : undefined;
+        if (!diameter) continue;
+
+        if (command.type === 'flash' && command.endPoint) {
+          holes.push({ position: toGerber(command.endPoint), diameter, plated, source: 'board' });
+        } else if (command.type === 'line' && command.startPoint && command.endPoint) {
+          // Langloch (Slot)
+          holes.push({
+            position: toGerber(command.startPoint),
+            slotEnd: toGerber(command.endPoint),
+            diameter,
+            plated,
+            source: 'board',
+          });
+        }
+      }
+    }
+  }
+
+  // 2. Tooling-Bohrungen (nach plated aufgeteilt)
+  for (const hole of panel.toolingHoles) {
+    holes.push({
+      position: panelToGerberPoint(hole.position, panel),
+      diameter: hole.diameter,
+      plated: hole.plated,
+      source: 'tooling',
+    });
+  }
+
+  // 3. Mousebite-Bohrungen der Tabs (immer NPTH)
+  for (const tab of panel.tabs) {
+    if (tab.type !== 'mousebites' || !tab.holeDiameter) continue;
+    const instance = panel.instances.find(i => i.id === tab.boardInstanceId);
+    const board = instance ? panel.boards.find(b => b.id === instance.boardId) : undefined;
+    if (!instance || !board) continue;
+
+    for (const p of getTabMousebiteHoles(tab, instance, board)) {
+      holes.push({
+        position: panelToGerberPoint(p, panel),
+        diameter: tab.holeDiameter,
+        plated: false,
+        source: 'mousebite',
+      });
+    }
+  }
+
+  // 4. Rundungs-Mousebites (immer NPTH)
+  for (const mousebite of panel.freeMousebites) {
+    for (const p of getFreeMousebiteHoles(mousebite)) {
+      holes.push({
+        position: panelToGerberPoint(p, panel),
+        diameter: mousebite.holeDiameter,
+        plated: false,
+        source: 'mousebite',
+      });
+    }
+  }
+
+  return holes;
+}
+
+// ============================================================================
+// Excellon schreiben
+// ============================================================================
+
+/**
+ * Formatiert eine Koordinate mit Dezimalpunkt (eindeutig, unabhängig von
+ * Nullenunterdrückung): mm mit 3, Zoll mit 4 Nachkommastellen
+ */
+function formatDrillValue(mm: number, units: 'mm' | 'inch'): string {
+  const value = units === 'inch' ? mm / 25.4 : mm;
+  const text = value.toFixed(units === 'inch' ? 4 : 3);
+  return text === '-0.000' || text === '-0.0000' ? text.slice(1) : text;
+}
+
+/**
+ * Schreibt eine Excellon-Datei aus einer Liste von Bohrungen
+ *
+ * Werkzeuge werden über den (gerundeten) Durchmesser und die X2-Bohrfunktion
+ * dedupliziert und aufsteigend nummeriert (T1 = kleinster Durchmesser).
+ *
+ * @param holes - Die Bohrungen dieser Datei
+ * @param options - Exportoptionen (Einheit)
+ * @param comments - Kommentarzeilen für den Dateikopf
+ * @param attributes - X2-Dateiattribute ohne "TF" (z.B. ".FileFunction,Plated,1,2,PTH")
+ */
+export function writeExcellon(
+  holes: DrillHole[],
+  options: DrillExportOptions,
+  comments: string[],
+  attributes: string[] = []
+): string {
+  const { units } = options;
+
+  // Werkzeugtabelle: gerundeter Durchmesser + Bohrfunktion → Bohrungen
+  const toolMap = new Map<string, { diameter: number; aperFunction?: string; holes: DrillHole[] }>();
+  for (const hole of holes) {
+    const diameter = Math.round(hole.diameter / TOOL_DIAMETER_RESOLUTION) * TOOL_DIAMETER_RESOLUTION;
+    const aperFunction = DRILL_APERTURE_FUNCTIONS[hole.source];
+    const key = `${diameter}|${aperFunction || ''}`;
+    const tool = toolMap.get(key);
+    if (tool) {
+      tool.holes.push(hole);
+    } else {
+      toolMap.set(key, { diameter, aperFunction, holes: [hole] });
+    }
+  }
+  const tools = Array.from(toolMap.values()).sort((a, b) => a.diameter - b.diameter);
+
+  const xy = (p: Point) => `X${formatDrillValue(p.x, units)}Y${formatDrillValue(p.y, units)}`;
+
+  const lines: string[] = ['M48'];
+  for (const comment of comments) {
+    lines.push(`; ${comment}`);
+  }
+  for (const attribute of attributes) {
+    lines.push(`; #@! TF${attribute}`);
+  }
+  lines.push('FMAT,2');
+  lines.push(units === 'inch' ? 'INCH,TZ' : 'METRIC,TZ');
+
+  tools.forEach(({ diameter, aperFunction }, index) => {
+    if (aperFunction) lines.push(`; #@! TA.AperFunction,${aperFunction}`);
+    lines.push(`T${index + 1}C${formatDrillValue(diameter, units)}`);
+  });
+  lines.push('%');
+  lines.push('G90');
+  lines.push('G05');
+
+  tools.forEach(({ holes: toolHoles }, index) => {
+    lines.push(`T${index + 1}`);
+    for (const hole of toolHoles) {
+      if (hole.slotEnd) {
+        // Langloch: Start G85 Ende
+        lines.push(`${xy(hole.position)}G85${xy(hole.slotEnd)}`);
+      } else {
+        lines.push(xy(hole.position));
+      }
+    }
+  });
+
+  lines.push('T0');
+  lines.push('M30');
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// Hauptfunktion
+// ============================================================================
+
+/**
+ * Erzeugt die Panel-Bohrdateien (PTH und NPTH)
+ *
+ * Dateien ohne Bohrungen werden weggelassen.
+ *
+ * @param panel - Das Panel
+ * @param options - Exportoptionen (Einheit)
+ * @returns PTH- und/oder NPTH-Datei
+ */
+export function generatePanelDrills(
+  panel: Panel,
+  options: Partial<DrillExportOptions> = {}
+): DrillExportFile[] {
+  const opts: DrillExportOptions = { ...DEFAULT_DRILL_EXPORT_OPTIONS, ...options };
+  const holes = collectPanelDrillHoles(panel);
+  const base = panel.name.replace(/[^a-zA-Z0-9]/g, '_') || 'panel';
+  const copperLayerCount = getPanelCopperLayerCount(panel);
+  const files: DrillExportFile[] = [];
+
+  for (const plated of [true, false]) {
+    const fileHoles = holes.filter(h => h.plated === plated);
+    if (fileHoles.length === 0) continue;
+
+    const kind = plated ? 'PTH' : 'NPTH';
+    files.push({
+      plated,
+      filename: `${base}-${kind}.drl`,
+      holeCount: fileHoles.length,
+      content: writeExcellon(
+        fileHoles,
+        opts,
+        [
+          `PCB Panelizer - Panel ${panel.name}`,
+          `${kind} drill file, ${fileHoles.length} holes`,
+        ],
+        getGerberFileAttributes(
+          panel,
+          `${plated ? 'Plated' : 'NonPlated'},1,${copperLayerCount},${kind}`
+        )
+      ),
+    });
+  }
+
+  return files;
+}
@@ -0,0 +1,219 @@
+/**
+ * Fertigungspaket - Alle Fertigungsdaten eines Panels in einer ZIP-Datei
+ *
+ * Fasst die bestehenden Exporte zusammen, damit an die Fab immer derselbe,
+ * zueinander passende Stand geht:
+ * - Panel-Gerber (alle Layer, Fräskontur-Profil, V-Score Layer)
+ * - Excellon-Bohrdateien (PTH/NPTH)
+ * - Fräsprogramm und V-Cut-Programm
+ * - PDF-Maßzeichnung
+ * - Projektdatei (.panelizer.json)
+ * - README mit Zuordnung Datei → Layer und Panel-Kennzahlen
+ *
+ * Die Dateien selbst werden vom Aufrufer erzeugt (header.tsx), dieses Modul
+ * baut nur README und ZIP.
+ */
+
+import JSZip from 'jszip';
+import type { GerberLayerType, Panel } from '@/types';
+import type { GerberExportFile } from './gerber-export';
+import type { DrillExportFile } from './drill-export';
+
+// ============================================================================
+// Typen und Konstanten
+// ============================================================================
+
+/**
+ * Eine Programmdatei (Fräsprogramm, V-Cut-Programm)
+ */
+interface ProgramFile {
+  filename: string;
+  content: string;
+}
+
+/**
+ * Inhalt des Fertigungspakets (alle Dateien bereits erzeugt)
+ */
+export interface FabPackageFiles {
+  /** Panel-Gerber pro Layer-Typ */
+  gerbers: GerberExportFile[];
+  /** Fräskonturen als Profil-Layer */
+  profile: GerberExportFile | null;
+  /** V-Score Linien als Gerber-Layer */
+  vscore: GerberExportFile | null;
+  /** Excellon-Bohrdateien */
+  drills: DrillExportFile[];
+  /** Fräsprogramm (Excellon-Rout oder G-Code) */
+  routerProgram: ProgramFile | null;
+  /** V-Cut-Programm (CSV oder Text) */
+  vscoreProgram: ProgramFile | null;
+  /** PDF-Maßzeichnung */
+  drawingPdf: Uint8Array;
+  /** Projektdatei (serializeProject) */
+  projectJson: string;
+}
+
+/**
+ * Eine Zeile der Dateiliste im README
+ */
+interface FabPackageEntry {
+  filename: string;
+  description: string;
+}
+
+/** Dateiname des README im Paket */
+const README_FILENAME = 'README.txt';
+
+/** Layer-Bezeichnungen für das README (englisch, wie die Kommentare in den Gerber-Dateien) */
+const LAYER_DESCRIPTIONS: Partial<Record<GerberLayerType, string>> = {
+  'top-copper': 'Top copper',
+  'inner-copper': 'Inner copper',
+  'bottom-copper': 'Bottom copper',
+  'top-soldermask': 'Top solder mask',
+  'bottom-soldermask': 'Bottom solder mask',
+  'top-silkscreen': 'Top silkscreen',
+  'bottom-silkscreen': 'Bottom silkscreen',
+  'top-paste': 'Top paste',
+  'bottom-paste': 'Bottom paste',
+  'outline': 'Board outlines',
+};
+
+// ============================================================================
+// Hilfsfunktionen
+// ============================================================================
+
+/**
+ * Bereinigter Basis-Dateiname (wie in allen Exporten)
+ */
+function getBaseName(panel: Panel): string {
+  return panel.name.replace(/[^a-zA-Z0-9]/g, '_') || 'panel';
+}
+
+/**
+ * Dateiname der PDF-Zeichnung (identisch mit dem Einzel-Export "Zeichnung")
+ */
+export function getDrawingPdfFilename(panel: Panel): string {
+  return `${getBaseName(panel)}_Zeichnung.pdf`;
+}
+
+/**
+ * Dateiname der Projektdatei (identisch mit "Speichern unter")
+ */
+function getProjectFilename(panel: Panel): string {
+  const safeName = panel.name.replace(/[^a-zA-Z0-9äöüÄÖÜß_\-]/g, '_');
+  return `${safeName}.panelizer.json`;
+}
+
+/**
+ * Stellt die Dateiliste in Paket-Reihenfolge zusammen
+ */
+function collectEntries(panel: Panel, files: FabPackageFiles): FabPackageEntry[] {
+  const entries: FabPackageEntry[] = [];
+
+  let innerIndex = 0;
+  for (const file of files.gerbers) {
+    const label = LAYER_DESCRIPTIONS[file.layerType] || file.layerType;
+    const description = file.layerType === 'inner-copper' ? `${label} ${++innerIndex}` : label;
+    entries.push({ filename: file.filename, description: `Gerber - ${description}` });
+  }
+  if (files.profile) {
+    entries.push({ filename: files.profile.filename, description: 'Gerber - Profile (routing contours, tool center line)' });
+  }
+  if (files.vscore) {
+    entries.push({ filename: files.vscore.filename, description: 'Gerber - V-score lines' });
+  }
+  for (const drill of files.drills) {
+    entries.push({
+      filename: drill.filename,
+      description: `Excellon - ${drill.plated ? 'Plated' : 'Non-plated'} holes (${drill.holeCount})`,
+    });
+  }
+  if (files.routerProgram) {
+    entries.push({ filename: files.routerProgram.filename, description: 'Router program' });
+  }
+  if (files.vscoreProgram) {
+    entries.push({ filename: files.vscoreProgram.filename, description: 'V-cut program' });
+  }
+  entries.push({ filename: getDrawingPdfFilename(panel), description: 'Panel drawing (PDF)' });
+  entries.push({ filename: getProjectFilename(panel), description: 'PCB Panelizer project file' });
+
+  return entries;
+}
+
+// ============================================================================
+// README
+// ============================================================================
+
+/**
+ * Erzeugt das README des Fertigungspakets
+ *
+ * Enthält Panel-Kennzahlen (Grösse, Nutzen, Bohrungen, Fräsen, V-Scores)
+ * und die Zuordnung Datei → Layer.
+ *
+ * @param panel - Das exportierte Panel
+ * @param files - Die Dateien des Pakets
+ * @param date - Erstellungsdatum (Standard: jetzt)
+ */
+export function generateFabReadme(panel: Panel, files: FabPackageFiles, date: Date = new Date()): string {
+  const entries = collectEntries(panel, files);
+  const width = Math.max(...entries.map((e) => e.filename.length));
+
+  const boardNames = panel.boards.map((board) => {
+    const count = panel.instances.filter((i) => i.boardId === board.id).length;
+    return `${board.name} (${board.width.toFixed(2)} x ${board.height.toFixed(2)} mm) x ${count}`;
+  });
+  const holeCount = files.drills.reduce((sum, d) => sum + d.holeCount, 0);
+  const visibleContours = panel.routingContours.filter((c) => c.visible);
+
+  const lines = [
+    `PCB Panelizer - Fabrication package, panel ${panel.name}`,
+    `Created: ${date.toLocaleString('de-CH')}`,
+    ...(panel.drawingNumber ? [`Drawing number: ${panel.drawingNumber}`] : []),
+    '',
+    'PANEL',
+    `  Size:            ${panel.width.toFixed(3)} x ${panel.height.toFixed(3)} mm`,
+    `  Frame (L/R/T/B): ${panel.frame.left} / ${panel.frame.right} / ${panel.frame.top} / ${panel.frame.bottom} mm, corner radius ${panel.frame.cornerRadius} mm`,
+    `  Boards:          ${panel.instances.length} placed`,
+    ...boardNames.map((name) => `                   ${name}`),
+    `  Drill holes:     ${holeCount}`,
+    `  Routing:         ${visibleContours.length} contour(s)${visibleContours.length > 0 ? `, tool ${visibleContours[0].toolDiameter} mm` : ''}`,
+    `  V-score lines:   ${panel.vscoreLines.length}`,
+    `  Fiducials:       ${panel.fiducials.length}`,
+    `  Tooling holes:   ${panel.toolingHoles.length}`,
+    '',
+    'COORDINATES',
+    '  Units mm, origin at the bottom left corner of the panel.',
+    '',
+    'FILES',
+    ...entries.map((e) => `  ${e.filename.padEnd(width)}  ${e.description}`),
+  ];
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// ZIP
+// ============================================================================
+
+/**
+ * Erzeugt das Fertigungspaket als ZIP
+ *
+ * @param panel - Das exportierte Panel
+ * @param files - Alle Dateien des Pakets
+ * @returns ZIP-Datei als Blob
+ */
+export async function generateFabPackage(panel: Panel, files: FabPackageFiles): Promise<Blob> {
+  const zip = new JSZip();
+
+  zip.file(README_FILENAME, generateFabReadme(panel, files));
+  for (const file of [...files.gerbers, files.profile, files.vscore, ...files.drills]) {
+    if (file) zip.file(file.filename, file.content);
+  }
+  for (const program of [files.routerProgram, files.vscoreProgram]) {
+    if (program) zip.file(program.filename, program.content);
+  }
+  zip.file(getDrawingPdfFilename(panel), files.drawingPdf);
+  zip.file(getProjectFilename(panel), files.projectJson);
+
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,988 @@
+/**
+ * Gerber Export - Zusammengeführte Panel-Gerber (RS-274X) pro Layer-Typ
+ *
+ * Setzt alle Board-Instanzen eines Panels zu je einer Gerber-Datei pro
+ * GerberLayerType zusammen (z.B. eine Top-Kupfer-Datei für das ganze Panel).
+ *
+ * Ablauf pro Board-Instanz und Layer:
+ * 1. Jeder Befehl wird mit transformGerberPoint() ins Panel transformiert
+ *    (Render-Offset, Layer-Rotation, Spiegelung, Instanz-Rotation, Position)
+ * 2. Panel-Koordinaten (Y-down) werden zurück in Gerber-Koordinaten (Y-up)
+ *    umgerechnet, Ursprung = linke untere Panel-Ecke
+ * 3. Apertures werden mitgedreht/gespiegelt und in eine gemeinsame D-Code-Tabelle
+ *    eingetragen (gleiche Form = gleicher D-Code, keine Kollisionen zwischen Boards)
+ *
+ * Jede Datei trägt X2-Attribute (%TF: Software, Funktion, Polarität, Projekt,
+ * gemeinsames Koordinatensystem), Panel-Apertures zusätzlich ihre Funktion
+ * (%TA.AperFunction, z.B. FiducialPad, Profile), damit CAM-Stationen die
+ * Layer automatisch zuordnen.
+ *
+ * Auf Kupferlagen wird vor den Boards das Kupfer-Thieving geschrieben
+ * (siehe writeCopperThieving). Danach werden die Panel-Elemente (Fiducials,
+ * Badmarks, Tooling-Bohrungen) als Pads in Kupfer und Lötstopp eingefügt
+ * (siehe writePanelFeatures), zuletzt die Panel-Beschriftungen in Kupfer
+ * oder Bestückungsdruck (siehe writePanelTexts).
+ */
+
+import type {
+  Aperture,
+  ApertureMacroPrimitive,
+  Board,
+  BoardInstance,
+  GerberExportOptions,
+  GerberLayerType,
+  Panel,
+  PanelFeatureExportOptions,
+  ParsedGerber,
+  Point,
+} from '@/types';
+import { generateCopperThieving, type CopperThievingGeometry } from '@/lib/utils/copper-thieving';
+import { getPanelTextStrokes } from '@/lib/utils/stroke-font';
+import { transformGerberPoint } from './board-transform';
+import { calculateCombinedBoundingBox, getCommandPolarity } from '@/lib/gerber/parser';
+
+// ============================================================================
+// Typen und Konstanten
+// ============================================================================
+
+/**
+ * Eine exportierte Gerber-Datei
+ */
+export interface GerberExportFile {
+  /** Layer-Typ dieser Datei */
+  layerType: GerberLayerType;
+  /** Vorgeschlagener Dateiname (inkl. Endung) */
+  filename: string;
+  /** Dateiinhalt (RS-274X) */
+  content: string;
+}
+
+/**
+ * Standard-Exportoptionen: Alle Gerber-Layer, Format 4.6, Millimeter
+ * (Bohr-Layer werden als Excellon exportiert, nicht als Gerber)
+ */
+export const DEFAULT_GERBER_EXPORT_OPTIONS: GerberExportOptions = {
+  layers: [
+    'top-copper',
+    'inner-copper',
+    'bottom-copper',
+    'top-soldermask',
+    'bottom-soldermask',
+    'top-silkscreen',
+    'bottom-silkscreen',
+    'top-paste',
+    'bottom-paste',
+    'outline',
+  ],
+  coordinateFormat: [4, 6],
+  units: 'mm',
+  panelFeatures: {
+    enabled: true,
+    maskExpansion: 0.05,
+    toolingAnnularRing: 0.3,
+    copperKeepOut: true,
+    keepOutClearance: 0.5,
+  },
+};
+
+/**
+ * Dateiendungen pro Layer-Typ (Protel-Konvention, wird von allen Fabs erkannt)
+ * Innenlagen bekommen .G1, .G2, ... (siehe getGerberFilename)
+ */
+const LAYER_EXTENSIONS: Partial<Record<GerberLayerType, string>> = {
+  'top-copper': 'GTL',
+  'bottom-copper': 'GBL',
+  'top-soldermask': 'GTS',
+  'bottom-soldermask': 'GBS',
+  'top-silkscreen': 'GTO',
+  'bottom-silkscreen': 'GBO',
+  'top-paste': 'GTP',
+  'bottom-paste': 'GBP',
+  'outline': 'GKO',
+};
+
+/** Erster frei verwendbarer D-Code (D00-D09 sind reserviert) */
+const FIRST_APERTURE_CODE = 10;
+
+/** X2-Attribut .GenerationSoftware (Hersteller, Programm, Version aus next.config.js) */
+export const GERBER_GENERATION_SOFTWARE = `SMTEC,PCB Panelizer,${process.env.APP_VERSION || '0.0.0'}`;
+
+// ============================================================================
+// Gerber-Writer (zustandsbehafteter Ausgabe-Puffer für eine Datei)
+// ============================================================================
+
+/**
+ * Ausgabe-Puffer für eine Gerber-Datei
+ *
+ * Alle Koordinaten werden in mm (Gerber-Raum, Y-up) übergeben und erst beim
+ * Schreiben ins Zielformat (Einheit + Koordinatenformat) umgerechnet.
+ */
+export interface GerberWriter {
+  /** Koordinatenformat [Vorkomma, Nachkomma] */
+  coordinateFormat: [number, number];
+  /** Einheit der Ausgabe */
+  units: 'mm' | 'inch';
+  /** Aperture-Definition inkl. X2-Funktion (z.B. "C,0.2|FiducialPad,Global") → D-Code (z.B. "D10") */
+  apertureCodes: Map<string, string>;
+  /** Aperture-Definitionen in D-Code-Reihenfolge (für den Dateikopf) */
+  apertureDefinitions: Array<{ code: string; template: string; aperFunction?: string }>;
+  /** Makro-Definitionen: Primitiv-Zeilen → Makro-Name (z.B. "PM0") */
+  macroDefinitions: Map<string, string>;
+  /** Zeilen des Dateikörpers (nach den Aperture-Definitionen) */
+  body: string[];
+  /** Aktuell gewählte Aperture */
+  currentAperture: string | null;
+  /** Aktueller Interpolationsmodus */
+  currentMode: 'G01' | 'G02' | 'G03' | null;
+  /** Aktuelle Stiftposition (mm) */
+  position: Point | null;
+}
+
+/**
+ * Erstellt einen leeren Gerber-Writer
+ */
+export function createGerberWriter(
+  options: Pick<GerberExportOptions, 'coordinateFormat' | 'units'>
+): GerberWriter {
+  return {
+    coordinateFormat: options.coordinateFormat,
+    units: options.units,
+    apertureCodes: new Map(),
+    apertureDefinitions: [],
+    macroDefinitions: new Map(),
+    body: [],
+    currentAperture: null,
+    currentMode: null,
+    position: null,
+  };
+}
+
+/**
+ * Rechnet mm in die Ausgabe-Einheit des Writers um
+ */
+function toOutputUnits(writer: GerberWriter, mm: number): number {
+  return writer.units === 'inch' ? mm / 25.4 : mm;
+}
+
+/**
+ * Formatiert eine Koordinate im Format "führende Nullen weggelassen"
+ * z.B. 12.3456 mm bei [4,6] → "12345600"
+ */
+function formatCoordinate(writer: GerberWriter, mm: number): string {
+  const decimals = writer.coordinateFormat[1];
+  const value = Math.round(toOutputUnits(writer, mm) * Math.pow(10, decimals));
+  // -0 vermeiden
+  return value === 0 ? '0' : String(value);
+}
+
+/**
+ * Formatiert eine Dezimalzahl für Aperture-Definitionen (ohne überflüssige Nullen)
+ */
+function formatDecimal(writer: GerberWriter, mm: number): string {
+  const value = toOutputUnits(writer, mm);
+  const fixed = value.toFixed(writer.coordinateFormat[1]);
+  return fixed.includes('.') ? fixed.replace(/0+$/, '').replace(/\.$/, '.0') : fixed;
+}
+
+/**
+ * Liefert den Namen eines Makros mit den gegebenen Primitiven und legt es bei Bedarf an
+ *
+ * Die Primitive werden mit konkreten Werten ausgegeben (Kreis = 1,
+ * alles andere als Outline = 4), gleiche Makros werden wiederverwendet.
+ */
+function getGerberMacroName(writer: GerberWriter, primitives: ApertureMacroPrimitive[]): string | null {
+  const lines: string[] = [];
+  for (const primitive of primitives) {
+    const exposure = primitive.exposure ? 1 : 0;
+    if (primitive.type === 'circle' && primitive.center && primitive.diameter) {
+      lines.push(
+        `1,${exposure},${formatDecimal(writer, primitive.diameter)},` +
+        `${formatDecimal(writer, primitive.center.x)},${formatDecimal(writer, primitive.center.y)}*`
+      );
+    } else if (primitive.points && primitive.points.length >= 3) {
+      // Outline: Anzahl Segmente, Startpunkt, Punkte ..., Startpunkt wiederholt, Rotation 0
+      const closed = [...primitive.points, primitive.points[0]];
+      const coordinates = closed
+        .map((p) => `${formatDecimal(writer, p.x)},${formatDecimal(writer, p.y)}`)
+        .join(',');
+      lines.push(`4,${exposure},${closed.length - 1},${coordinates},0*`);
+    }
+  }
+  if (lines.length === 0) return null;
+
+  const body = lines.join('\n');
+  let name = writer.macroDefinitions.get(body);
+  if (!name) {
+    name = `PM${writer.macroDefinitions.size}`;
+    writer.macroDefinitions.set(body, name);
+  }
+  return name;
+}
+
+/**
+ * Erzeugt den Definitions-String einer Aperture (Teil nach "%ADDnn")
+ * Gibt null zurück, wenn die Aperture keine gültige Größe hat.
+ * Für Makro-Apertures wird dabei die Makro-Definition angelegt.
+ */
+function apertureTemplate(writer: GerberWriter, aperture: Aperture): string | null {
+  const hole = aperture.hole && 'diameter' in aperture.hole && aperture.hole.diameter > 0
+    ? `X${formatDecimal(writer, aperture.hole.diameter)}`
+    : '';
+
+  switch (aperture.type) {
+    case 'circle':
+      if (aperture.diameter === undefined) return null;
+      return `C,${formatDecimal(writer, aperture.diameter)}${hole}`;
+
+    case 'rectangle':
+    case 'obround':
+      if (!aperture.width || !aperture.height) return null;
+      return `${aperture.type === 'rectangle' ? 'R' : 'O'},` +
+        `${formatDecimal(writer, aperture.width)}X${formatDecimal(writer, aperture.height)}${hole}`;
+
+    case 'polygon': {
+      if (!aperture.diameter || !aperture.vertices) return null;
+      const rotation = aperture.rotation ? `X${aperture.rotation.toFixed(3)}` : (hole ? 'X0' : '');
+      return `P,${formatDecimal(writer, aperture.diameter)}X${aperture.vertices}${rotation}${hole}`;
+    }
+
+    case 'macro':
+      return aperture.primitives ? getGerberMacroName(writer, aperture.primitives) : null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Liefert den D-Code für eine Aperture und legt sie bei Bedarf neu an.
+ *
+ * Apertures werden über ihre Definition dedupliziert: Zwei Boards mit einem
+ * 0.2mm-Kreis teilen sich denselben D-Code, auch wenn sie im Original
+ * unterschiedliche Nummern hatten. Gleiche Form mit anderer X2-Funktion
+ * bekommt einen eigenen D-Code.
+ *
+ * @param aperFunction - Optionale X2-Aperture-Funktion ohne ".AperFunction," (z.B. "FiducialPad,Global")
+ */
+export function getGerberApertureCode(
+  writer: GerberWriter,
+  aperture: Aperture,
+  aperFunction?: string
+): string | null {
+  const template = apertureTemplate(writer, aperture);
+  if (!template) return null;
+
+  const key = aperFunction ? `${template}|${aperFunction}` : template;
+  let code = writer.apertureCodes.get(key);
+  if (!code) {
+    code = `D${FIRST_APERTURE_CODE + writer.apertureCodes.size}`;
+    writer.apertureCodes.set(key, code);
+    writer.apertureDefinitions.push({ code, template, aperFunction });
+  }
+  return code;
+}
+
+/**
+ * Wählt eine Aperture aus (nur wenn sie sich geändert hat)
+ */
+function selectAperture(writer: GerberWriter, code: string): void {
+  if (writer.currentAperture !== code) {
+    writer.body.push(`${code}*`);
+    writer.currentAperture = code;
+  }
+}
+
+/**
+ * Setzt den Interpolationsmodus (nur wenn er sich geändert hat)
+ */
+function selectMode(writer: GerberWriter, mode: 'G01' | 'G02' | 'G03'): void {
+  if (writer.currentMode !== mode) {
+    writer.body.push(`${mode}*`);
+    writer.currentMode = mode;
+  }
+}
+
+/**
+ * Prüft ob die Stiftposition bereits auf dem Punkt liegt (in Ausgabeauflösung)
+ */
+function isAtPosition(writer: GerberWriter, p: Point): boolean {
+  if (!writer.position) return false;
+  return formatCoordinate(writer, writer.position.x) === formatCoordinate(writer, p.x) &&
+    formatCoordinate(writer, writer.position.y) === formatCoordinate(writer, p.y);
+}
+
+/**
+ * Bewegt den Stift ohne zu zeichnen (D02), falls nötig
+ */
+function moveTo(writer: GerberWriter, p: Point): void {
+  if (isAtPosition(writer, p)) return;
+  writer.body.push(`X${formatCoordinate(writer, p.x)}Y${formatCoordinate(writer, p.y)}D02*`);
+  writer.position = p;
+}
+
+/**
+ * Schreibt einen Flash (D03) an Position p
+ */
+export function writeGerberFlash(writer: GerberWriter, code: string, p: Point): void {
+  selectAperture(writer, code);
+  writer.body.push(`X${formatCoordinate(writer, p.x)}Y${formatCoordinate(writer, p.y)}D03*`);
+  writer.position = p;
+}
+
+/**
+ * Schreibt eine gerade Linie (G01 + D01)
+ */
+export function writeGerberLine(writer: GerberWriter, code: string, start: Point, end: Point): void {
+  selectAperture(writer, code);
+  moveTo(writer, start);
+  selectMode(writer, 'G01');
+  writer.body.push(`X${formatCoordinate(writer, end.x)}Y${formatCoordinate(writer, end.y)}D01*`);
+  writer.position = end;
+}
+
+/**
+ * Schreibt einen Kreisbogen (G02/G03 + D01, Multi-Quadrant mit I/J-Offset)
+ */
+export function writeGerberArc(
+  writer: GerberWriter,
+  code: string,
+  start: Point,
+  end: Point,
+  center: Point,
+  clockwise: boolean
+): void {
+  selectAperture(writer, code);
+  moveTo(writer, start);
+  selectMode(writer, clockwise ? 'G02' : 'G03');
+  writer.body.push(
+    `X${formatCoordinate(writer, end.x)}Y${formatCoordinate(writer, end.y)}` +
+    `I${formatCoordinate(writer, center.x - start.x)}J${formatCoordinate(writer, center.y - start.y)}D01*`
+  );
+  writer.position = end;
+}
+
+/**
+ * Schreibt eine gefüllte Region (G36/G37) aus einer Punktliste
+ */
+export function writeGerberRegion(writer: GerberWriter, points: Point[]): void {
+  if (points.length < 3) return;
+
+  writer.body.push('G36*');
+  writer.position = null;
+  moveTo(writer, points[0]);
+  selectMode(writer, 'G01');
+  for (let i = 1; i < points.length; i++) {
+    writer.body.push(`X${formatCoordinate(writer, points[i].x)}Y${formatCoordinate(writer, points[i].y)}D01*`);
+  }
+  // Kontur schliessen, falls nicht bereits geschlossen
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (Math.abs(first.x - last.x) > 1e-6 || Math.abs(first.y - last.y) > 1e-6) {
+    writer.body.push(`X${formatCoordinate(writer, first.x)}Y${formatCoordinate(writer, first.y)}D01*`);
+  }
+  writer.body.push('G37*');
+  writer.position = first;
+}
+
+/**
+ * Setzt die Polarität für die folgenden Objekte (%LPD% dunkel, %LPC% löschen)
+ */
+export function writeGerberPolarity(writer: GerberWriter, polarity: 'dark' | 'clear'): void {
+  writer.body.push(polarity === 'dark' ? '%LPD*%' : '%LPC*%');
+}
+
+/**
+ * Prüft ob der Writer bereits Grafikbefehle enthält
+ */
+export function hasGerberContent(writer: GerberWriter): boolean {
+  return writer.body.length > 0;
+}
+
+/**
+ * Baut die komplette Gerber-Datei zusammen (Header, Apertures, Körper, M02)
+ *
+ * @param writer - Der befüllte Writer
+ * @param comments - Kommentarzeilen für den Dateikopf (G04)
+ * @param attributes - X2-Dateiattribute ohne "%TF" (z.B. ".FileFunction,Profile,NP")
+ */
+export function finalizeGerber(writer: GerberWriter, comments: string[], attributes: string[] = []): string {
+  const [intDigits, decDigits] = writer.coordinateFormat;
+  const lines: string[] = [];
+
+  for (const comment of comments) {
+    lines.push(`G04 ${comment.replace(/\*/g, '')}*`);
+  }
+
+  for (const attribute of attributes) {
+    lines.push(`%TF${attribute}*%`);
+  }
+
+  lines.push(`%FSLAX${intDigits}${decDigits}Y${intDigits}${decDigits}*%`);
+  lines.push(writer.units === 'inch' ? '%MOIN*%' : '%MOMM*%');
+  lines.push('%LPD*%');
+
+  // Makros müssen vor ihrer Verwendung in %AD definiert sein
+  for (const [body, name] of Array.from(writer.macroDefinitions)) {
+    lines.push(`%AM${name}*`);
+    lines.push(`${body}%`);
+  }
+
+  // Aperture-Funktion gilt für alle folgenden Definitionen, bis sie geändert oder gelöscht wird
+  let currentFunction: string | undefined;
+  for (const { code, template, aperFunction } of writer.apertureDefinitions) {
+    if (aperFunction !== currentFunction) {
+      lines.push(aperFunction ? `%TA.AperFunction,${aperFunction}*%` : '%TD.AperFunction*%');
+      currentFunction = aperFunction;
+    }
+    lines.push(`%AD${code}${template}*%`);
+  }
+  if (currentFunction) lines.push('%TD.AperFunction*%');
+
+  // Multi-Quadrant-Modus für Bögen
+  lines.push('G75*');
+  lines.push(...writer.body);
+  lines.push('M02*');
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// X2-Dateiattribute
+// ============================================================================
+
+/**
+ * Maskiert ein Feld für X2-Attribute (Komma trennt Felder, * und % beenden Befehle)
+ */
+function escapeAttributeField(value: string): string {
+  return value.replace(/[,*%]/g, '_').trim();
+}
+
+/**
+ * Anzahl Kupferlagen des Panels: Top + Bottom + meiste Innenlagen eines Boards
+ */
+export function getPanelCopperLayerCount(panel: Panel): number {
+  const innerCount = Math.max(0, ...panel.boards.map(b => b.layers.filter(l => l.type === 'inner-copper').length));
+  return 2 + innerCount;
+}
+
+/**
+ * Liefert .FileFunction und .FilePolarity für einen Layer-Typ
+ *
+ * Kupferlagen werden von oben nach unten nummeriert (L1 = Top, Ln = Bottom),
+ * Lötstopp ist wie üblich negativ (gezeichnet = Öffnung im Lack).
+ *
+ * @param layerType - Layer-Typ der Datei
+ * @param copperLayerCount - Anzahl Kupferlagen des Panels
+ * @param innerIndex - Bei Innenlagen: 1-basierter Index
+ */
+export function getGerberFileFunction(
+  layerType: GerberLayerType,
+  copperLayerCount: number,
+  innerIndex?: number
+): { fileFunction: string; polarity: 'Positive' | 'Negative' } {
+  switch (layerType) {
+    case 'top-copper':
+      return { fileFunction: 'Copper,L1,Top', polarity: 'Positive' };
+    case 'inner-copper':
+      return { fileFunction: `Copper,L${(innerIndex || 1) + 1},Inr`, polarity: 'Positive' };
+    case 'bottom-copper':
+      return { fileFunction: `Copper,L${copperLayerCount},Bot`, polarity: 'Positive' };
+    case 'top-soldermask':
+      return { fileFunction: 'Soldermask,Top', polarity: 'Negative' };
+    case 'bottom-soldermask':
+      return { fileFunction: 'Soldermask,Bot', polarity: 'Negative' };
+    case 'top-silkscreen':
+      return { fileFunction: 'Legend,Top', polarity: 'Positive' };
+    case 'bottom-silkscreen':
+      return { fileFunction: 'Legend,Bot', polarity: 'Positive' };
+    case 'top-paste':
+      return { fileFunction: 'Paste,Top', polarity: 'Positive' };
+    case 'bottom-paste':
+      return { fileFunction: 'Paste,Bot', polarity: 'Positive' };
+    case 'outline':
+      // Einzelne Board-Konturen; das Panel-Profil ist die Fräskontur (.GM1)
+      return { fileFunction: 'Other,BoardOutlines', polarity: 'Positive' };
+    default:
+      return { fileFunction: 'Other,Unknown', polarity: 'Positive' };
+  }
+}
+
+/**
+ * Erzeugt die X2-Dateiattribute (ohne "%TF") für eine Panel-Datei
+ *
+ * - .GenerationSoftware: PCB Panelizer inkl. Version
+ * - .ProjectId: Zeichnungsnummer (ohne Revision) bzw. Panel-Name, Panel-ID, Revision
+ * - .SameCoordinates: alle Dateien eines Panels teilen das Koordinatensystem
+ * - .FileFunction / .FilePolarity: je nach Datei
+ *
+ * @param panel - Das exportierte Panel
+ * @param fileFunction - Wert für .FileFunction (z.B. "Copper,L1,Top")
+ * @param polarity - Wert für .FilePolarity (weglassen für Dateien ohne Polarität)
+ */
+export function getGerberFileAttributes(
+  panel: Panel,
+  fileFunction: string,
+  polarity?: 'Positive' | 'Negative'
+): string[] {
+  const drawingNumber = panel.drawingNumber || '';
+  const revisionMatch = drawingNumber.match(/^(.*)\.(\d+)$/);
+  const projectName = escapeAttributeField(revisionMatch ? revisionMatch[1] : drawingNumber || panel.name) || 'panel';
+  const revision = revisionMatch ? revisionMatch[2] : '1';
+
+  return [
+    `.GenerationSoftware,${GERBER_GENERATION_SOFTWARE}`,
+    `.ProjectId,${projectName},${panel.id},${revision}`,
+    `.SameCoordinates,${panel.id}`,
+    `.FileFunction,${fileFunction}`,
+    ...(polarity ? [`.FilePolarity,${polarity}`] : []),
+  ];
+}
+
+// ============================================================================
+// Koordinaten-Umrechnung
+// ============================================================================
+
+/**
+ * Rechnet einen Panel-Punkt (Y-down, Ursprung oben links) in
+ * Gerber-Koordinaten (Y-up, Ursprung unten links) um.
+ */
+export function panelToGerberPoint(p: Point, panel: Panel): Point {
+  return { x: p.x, y: panel.height - p.y };
+}
+
+/**
+ * Lineare Abbildung einer Board-Instanz (Gerber-Raum Board → Gerber-Raum Panel)
+ *
+ * Wird gebraucht, um Apertures mitzudrehen und die Bogenrichtung
+ * bei Spiegelung umzukehren.
+ */
+interface InstanceTransform {
+  /** Bild des Einheitsvektors (1,0) */
+  ex: Point;
+  /** Bild des Einheitsvektors (0,1) */
+  ey: Point;
+  /** true = Abbildung spiegelt (Determinante < 0) → Bogenrichtung umkehren */
+  mirrored: boolean;
+  /** Transformiert einen Board-Gerber-Punkt in Panel-Gerber-Koordinaten */
+  point: (p: Point) => Point;
+}
+
+/**
+ * Erstellt die Transformation Board-Gerber → Panel-Gerber für eine Instanz
+ */
+function createInstanceTransform(board: Board, instance: BoardInstance, panel: Panel): InstanceTransform {
+  const point = (p: Point) =>
+    panelToGerberPoint(transformGerberPoint(p.x, p.y, board, instance), panel);
+
+  const origin = point({ x: 0, y: 0 });
+  const px = point({ x: 1, y: 0 });
+  const py = point({ x: 0, y: 1 });
+  const ex = { x: px.x - origin.x, y: px.y - origin.y };
+  const ey = { x: py.x - origin.x, y: py.y - origin.y };
+
+  return {
+    ex,
+    ey,
+    mirrored: ex.x * ey.y - ex.y * ey.x < 0,
+    point,
+  };
+}
+
+/**
+ * Passt eine Aperture an die Instanz-Transformation an
+ * (Rechtecke bei 90°/270° tauschen Breite und Höhe, Polygone drehen mit)
+ */
+function transformAperture(aperture: Aperture, xf: InstanceTransform): Aperture {
+  switch (aperture.type) {
+    case 'rectangle':
+    case 'obround': {
+      // X-Achse wird auf die Y-Achse abgebildet → Breite/Höhe tauschen
+      const swapped = Math.abs(xf.ex.y) > 0.5;
+      return swapped
+        ? { ...aperture, width: aperture.height, height: aperture.width }
+        : aperture;
+    }
+
+    case 'polygon': {
+      // Richtung der ersten Ecke transformieren und neuen Winkel bestimmen
+      const rad = ((aperture.rotation || 0) * Math.PI) / 180;
+      const dx = Math.cos(rad) * xf.ex.x + Math.sin(rad) * xf.ey.x;
+      const dy = Math.cos(rad) * xf.ex.y + Math.sin(rad) * xf.ey.y;
+      let rotation = (Math.atan2(dy, dx) * 180) / Math.PI;
+      if (rotation < 0) rotation += 360;
+      if (Math.abs(rotation) < 1e-6 || Math.abs(rotation - 360) < 1e-6) rotation = 0;
+      return { ...aperture, rotation };
+    }
+
+    case 'macro': {
+      // Primitive mit dem linearen Anteil der Transformation abbilden
+      const map = (p: Point): Point => ({
+        x: p.x * xf.ex.x + p.y * xf.ey.x,
+        y: p.x * xf.ex.y + p.y * xf.ey.y,
+      });
+      return {
+        ...aperture,
+        primitives: aperture.primitives?.map((primitive) => ({
+          ...primitive,
+          center: primitive.center && map(primitive.center),
+          points: primitive.points?.map(map),
+        })),
+      };
+    }
+
+    default:
+      return aperture;
+  }
+}
+
+// ============================================================================
+// Board-Layer ins Panel schreiben
+// ============================================================================
+
+/**
+ * Schreibt alle Befehle eines Board-Layers für eine Instanz in den Writer
+ *
+ * Die Polarität (LPD/LPC) wird pro Befehl übernommen. Negative Layer (IPNEG)
+ * werden positiv ausgegeben: Board-Fläche als dunkle Region, die Objekte
+ * mit invertierter Polarität darüber. Am Ende steht immer wieder LPD.
+ */
+export function writeBoardLayer(
+  writer: GerberWriter,
+  data: ParsedGerber,
+  board: Board,
+  instance: BoardInstance,
+  panel: Panel
+): void {
+  const xf = createInstanceTransform(board, instance, panel);
+
+  // D-Codes pro Original-Aperture cachen (gleiche Instanz = gleiche Transformation)
+  const codeCache = new Map<string, string | null>();
+  const codeFor = (apertureId?: string): string | null => {
+    if (!apertureId) return null;
+    if (!codeCache.has(apertureId)) {
+      const aperture = data.apertures.get(apertureId);
+      codeCache.set(
+        apertureId,
+        aperture ? getGerberApertureCode(writer, transformAperture(aperture, xf)) : null
+      );
+    }
+    return codeCache.get(apertureId) ?? null;
+  };
+
+  if (data.imagePolarity === 'negative') {
+    const bounds = calculateCombinedBoundingBox(board.layers);
+    writeGerberRegion(writer, [
+      { x: bounds.minX, y: bounds.minY },
+      { x: bounds.maxX, y: bounds.minY },
+      { x: bounds.maxX, y: bounds.maxY },
+      { x: bounds.minX, y: bounds.maxY },
+    ].map(xf.point));
+  }
+
+  let polarity: 'dark' | 'clear' = 'dark';
+  for (const command of data.commands) {
+    const commandPolarity = getCommandPolarity(command, data);
+    if (commandPolarity !== polarity && command.type !== 'move') {
+      writeGerberPolarity(writer, commandPolarity);
+      polarity = commandPolarity;
+    }
+
+    switch (command.type) {
+      case 'flash': {
+        const code = codeFor(command.apertureId);
+        if (!code || !command.endPoint) break;
+        writeGerberFlash(writer, code, xf.point(command.endPoint));
+        break;
+      }
+
+      case 'line': {
+        const code = codeFor(command.apertureId);
+        if (!code || !command.startPoint || !command.endPoint) break;
+        writeGerberLine(writer, code, xf.point(command.startPoint), xf.point(command.endPoint));
+        break;
+      }
+
+      case 'arc': {
+        const code = codeFor(command.apertureId);
+        if (!code || !command.startPoint || !command.endPoint) break;
+        if (!command.centerPoint) {
+          // Bogen ohne Mittelpunkt: als Linie ausgeben (wie im Canvas)
+          writeGerberLine(writer, code, xf.point(command.startPoint), xf.point(command.endPoint));
+          break;
+        }
+        // Spiegelung kehrt die Drehrichtung um
+        const clockwise = !!command.clockwise !== xf.mirrored;
+        writeGerberArc(
+          writer,
+          code,
+          xf.point(command.startPoint),
+          xf.point(command.endPoint),
+          xf.point(command.centerPoint),
+          clockwise
+        );
+        break;
+      }
+
+      case 'region': {
+        if (!command.points) break;
+        writeGerberRegion(writer, command.points.map(xf.point));
+        break;
+      }
+    }
+  }
+
+  // Folgende Instanzen und Panel-Elemente wieder dunkel
+  if (polarity === 'clear') {
+    writeGerberPolarity(writer, 'dark');
+  }
+}
+
+// ============================================================================
+// Kupfer-Thieving
+// ============================================================================
+
+/**
+ * Schreibt die Thieving-Geometrie in einen Kupfer-Layer
+ *
+ * Vollflächen-Streifen als Regionen, Schraffur als Linien mit runder
+ * Aperture, Punkte als Flashes.
+ */
+function writeCopperThieving(writer: GerberWriter, panel: Panel, geometry: CopperThievingGeometry): void {
+  // Regionen haben keine Aperture, ihre Funktion wird per Objekt-Attribut gesetzt
+  if (geometry.strips.length > 0) writer.body.push('%TA.AperFunction,CopperBalancing*%');
+  for (const strip of geometry.strips) {
+    writeGerberRegion(writer, [
+      panelToGerberPoint({ x: strip.x, y: strip.y }, panel),
+      panelToGerberPoint({ x: strip.x + strip.width, y: strip.y }, panel),
+      panelToGerberPoint({ x: strip.x + strip.width, y: strip.y + strip.height }, panel),
+      panelToGerberPoint({ x: strip.x, y: strip.y + strip.height }, panel),
+    ]);
+  }
+  if (geometry.strips.length > 0) writer.body.push('%TD.AperFunction*%');
+
+  if (geometry.lines.length > 0) {
+    const code = getGerberApertureCode(writer, { id: '', type: 'circle', diameter: geometry.lineWidth }, 'CopperBalancing');
+    if (code) {
+      for (const line of geometry.lines) {
+        writeGerberLine(writer, code, panelToGerberPoint(line.start, panel), panelToGerberPoint(line.end, panel));
+      }
+    }
+  }
+
+  if (geometry.dots.length > 0) {
+    const code = getGerberApertureCode(writer, { id: '', type: 'circle', diameter: geometry.dotDiameter }, 'CopperBalancing');
+    if (code) {
+      for (const dot of geometry.dots) {
+        writeGerberFlash(writer, code, panelToGerberPoint(dot, panel));
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Panel-Elemente (Fiducials, Badmarks, Tooling-Bohrungen)
+// ============================================================================
+
+/**
+ * Fügt Fiducials, Badmarks und Tooling-Bohrungen in einen Kupfer- oder
+ * Lötstopp-Layer ein
+ *
+ * - Kupfer (Top + Bottom): Fiducial-Pads, Badmark-Quadrate, Restring der
+ *   plated Tooling-Bohrungen; optional vorher ein Sperrring (%LPC%), der
+ *   Board-Kupfer unter dem Element entfernt
+ * - Innenlagen: nur die Sperrringe (schützen auch dort Thieving und Board-Kupfer)
+ * - Lötstopp (Top + Bottom): Masköffnungen (Fiducial: maskDiameter,
+ *   sonst Pad + maskExpansion pro Seite)
+ *
+ * Board-Fiducials werden vom Store mit ihrer Instanz verschoben, ihre
+ * Position ist deshalb wie bei Panel-Fiducials direkt in Panel-Koordinaten.
+ */
+function writePanelFeatures(
+  writer: GerberWriter,
+  panel: Panel,
+  layerType: GerberLayerType,
+  options: PanelFeatureExportOptions
+): void {
+  if (!options.enabled) return;
+
+  const isCopper = layerType === 'top-copper' || layerType === 'bottom-copper';
+  const isInner = layerType === 'inner-copper';
+  const isMask = layerType === 'top-soldermask' || layerType === 'bottom-soldermask';
+  if (!isCopper && !isInner && !isMask) return;
+
+  const circle = (diameter: number, aperFunction?: string) =>
+    getGerberApertureCode(writer, { id: '', type: 'circle', diameter }, aperFunction);
+  const square = (size: number, aperFunction?: string) =>
+    getGerberApertureCode(writer, { id: '', type: 'rectangle', width: size, height: size }, aperFunction);
+  const flash = (code: string | null, p: Point) => {
+    if (code) writeGerberFlash(writer, code, panelToGerberPoint(p, panel));
+  };
+
+  // Kupfer-Pad der Tooling-Bohrung (nur plated, NPTH hat kein Kupfer)
+  const toolingPad = (hole: Panel['toolingHoles'][number]) =>
+    hole.plated ? hole.diameter + 2 * options.toolingAnnularRing : 0;
+
+  if (isMask) {
+    for (const fiducial of panel.fiducials) {
+      flash(circle(fiducial.maskDiameter), fiducial.position);
+    }
+    for (const badmark of panel.badmarks) {
+      flash(square(badmark.size + 2 * options.maskExpansion), badmark.position);
+    }
+    for (const hole of panel.toolingHoles) {
+      const base = hole.plated ? toolingPad(hole) : hole.diameter;
+      flash(circle(base + 2 * options.maskExpansion), hole.position);
+    }
+    return;
+  }
+
+  // 1. Sperrringe: Kupfer rund um Fiducials und Tooling-Bohrungen löschen
+  if (options.copperKeepOut && (panel.fiducials.length > 0 || panel.toolingHoles.length > 0)) {
+    writeGerberPolarity(writer, 'clear');
+    for (const fiducial of panel.fiducials) {
+      flash(circle(fiducial.maskDiameter + 2 * options.keepOutClearance), fiducial.position);
+    }
+    for (const hole of panel.toolingHoles) {
+      const base = hole.plated ? toolingPad(hole) : hole.diameter;
+      flash(circle(base + 2 * options.keepOutClearance), hole.position);
+    }
+    writeGerberPolarity(writer, 'dark');
+  }
+  if (isInner) return;
+
+  // 2. Kupfer-Pads (X2: Panel-Fiducials global, Board-Fiducials lokal, Tooling-Ring als WasherPad)
+  for (const fiducial of panel.fiducials) {
+    const aperFunction = fiducial.type === 'panel' ? 'FiducialPad,Global' : 'FiducialPad,Local';
+    flash(circle(fiducial.padDiameter, aperFunction), fiducial.position);
+  }
+  for (const badmark of panel.badmarks) {
+    flash(square(badmark.size, 'OtherPad,Badmark'), badmark.position);
+  }
+  for (const hole of panel.toolingHoles) {
+    if (hole.plated) flash(circle(toolingPad(hole), 'WasherPad'), hole.position);
+  }
+}
+
+// ============================================================================
+// Panel-Beschriftungen
+// ============================================================================
+
+/**
+ * Schreibt die Panel-Beschriftungen eines Layers als Striche
+ *
+ * Jeder Strich der Strichschrift wird mit einer runden Aperture
+ * (Durchmesser = Strichbreite) abgefahren. Texte auf der Unterseite sind
+ * bereits von getPanelTextStrokes() gespiegelt.
+ */
+function writePanelTexts(writer: GerberWriter, panel: Panel, layerType: GerberLayerType): void {
+  for (const text of panel.panelTexts) {
+    if (`${text.side}-${text.layer}` !== layerType) continue;
+
+    // X2: Kupfer-Text leitet nicht
+    const aperFunction = text.layer === 'copper' ? 'NonConductor' : undefined;
+    const code = getGerberApertureCode(writer, { id: '', type: 'circle', diameter: text.strokeWidth }, aperFunction);
+    if (!code) continue;
+
+    for (const stroke of getPanelTextStrokes(text, panel)) {
+      for (let i = 1; i < stroke.length; i++) {
+        writeGerberLine(writer, code, panelToGerberPoint(stroke[i - 1], panel), panelToGerberPoint(stroke[i], panel));
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Hauptfunktion
+// ============================================================================
+
+/**
+ * Erzeugt einen Dateinamen für eine Panel-Gerber-Datei
+ *
+ * @param panelName - Name des Panels (wird bereinigt)
+ * @param layerType - Layer-Typ
+ * @param innerIndex - Bei Innenlagen: 1-basierter Index
+ */
+export function getGerberFilename(panelName: string, layerType: GerberLayerType, innerIndex?: number): string {
+  const base = panelName.replace(/[^a-zA-Z0-9]/g, '_') || 'panel';
+  if (layerType === 'inner-copper') {
+    return `${base}.G${innerIndex || 1}`;
+  }
+  return `${base}.${LAYER_EXTENSIONS[layerType] || 'GBR'}`;
+}
+
+/**
+ * Erzeugt die zusammengeführten Panel-Gerber-Dateien
+ *
+ * Für jeden gewünschten Layer-Typ werden die passenden Layer aller
+ * Board-Instanzen in eine Datei geschrieben. Innenlagen werden pro Board
+ * in Datei-Reihenfolge durchnummeriert (1. Innenlage → .G1, 2. → .G2, ...).
+ * Layer-Typen ohne Daten erzeugen keine Datei.
+ *
+ * @param panel - Das Panel mit Boards und Instanzen
+ * @param options - Exportoptionen (Layer, Koordinatenformat, Einheit)
+ * @returns Liste der erzeugten Dateien
+ */
+export function generatePanelGerbers(
+  panel: Panel,
+  options: Partial<GerberExportOptions> = {}
+): GerberExportFile[] {
+  const opts: GerberExportOptions = { ...DEFAULT_GERBER_EXPORT_OPTIONS, ...options };
+  const files: GerberExportFile[] = [];
+  const thieving = generateCopperThieving(panel);
+  const copperLayerCount = getPanelCopperLayerCount(panel);
+
+  for (const layerType of opts.layers) {
+    // Bohr-Layer gehören in die Excellon-Dateien
+    if (layerType === 'drill' || layerType === 'drill-npth' || layerType === 'unknown') continue;
+
+    // Anzahl Ausgabedateien: Innenlagen nach Index getrennt, sonst genau eine
+    const passCount = layerType === 'inner-copper' ? copperLayerCount - 2 : 1;
+
+    for (let pass = 0; pass < passCount; pass++) {
+      const writer = createGerberWriter(opts);
+
+      // Thieving zuerst: Sperrringe der Panel-Elemente (%LPC%) löschen es später mit
+      if (layerType === 'top-copper' || layerType === 'inner-copper' || layerType === 'bottom-copper') {
+        writeCopperThieving(writer, panel, thieving);
+      }
+
+      for (const instance of panel.instances) {
+        const board = panel.boards.find(b => b.id === instance.boardId);
+        if (!board) continue;
+
+        const layers = board.layers.filter(l => l.type === layerType);
+        const selected = layerType === 'inner-copper' ? [layers[pass]] : layers;
+
+        for (const layer of selected) {
+          if (!layer?.parsedData) continue;
+          writeBoardLayer(writer, layer.parsedData, board, instance, panel);
+        }
+      }
+
+      writePanelFeatures(writer, panel, layerType, opts.panelFeatures);
+      if (layerType !== 'inner-copper') {
+        writePanelTexts(writer, panel, layerType);
+      }
+
+      if (!hasGerberContent(writer)) continue;
+
+      const innerIndex = layerType === 'inner-copper' ? pass + 1 : undefined;
+      const { fileFunction, polarity } = getGerberFileFunction(layerType, copperLayerCount, innerIndex);
+      files.push({
+        layerType,
+        filename: getGerberFilename(panel.name, layerType, innerIndex),
+        content: finalizeGerber(
+          writer,
+          [
+            `PCB Panelizer - Panel ${panel.name}`,
+            `Layer: ${layerType}${innerIndex ? ` ${innerIndex}` : ''}`,
+            `Panel size: ${panel.width.toFixed(3)} x ${panel.height.toFixed(3)} mm`,
+          ],
+          getGerberFileAttributes(panel, fileFunction, polarity)
+        ),
+      });
+    }
+  }
+
+  return files;
+}
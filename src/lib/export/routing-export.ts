@@ -0,0 +1,299 @@
+/**
+ * Fräskonturen-Export - Profil-/Mechanik-Layer als Gerber
+ *
+ * Gibt alle Fräskonturen (RoutingContour) als Gerber-Profil aus:
+ * - Jede Kontur wird mit einer Kreis-Aperture in Fräserdurchmesser gezeichnet
+ * - Bögen bleiben echte Bögen (G02/G03), keine Polyline-Approximation
+ * - Lücken zwischen Segmenten (Tabs) bleiben erhalten
+ *
+ * Zusätzlich erzeugt generateRouterProgram() ein Fräsprogramm für den
+ * Depaneling-Router (Excellon Rout-Modus oder G-Code).
+ *
+ * Die Segmente einer Kontur sind bereits die Fräser-Mittellinie:
+ * Auto-Konturen werden um den Fräserradius versetzt generiert, und
+ * setRoutingContourOffsetSide() rechnet den Links/Rechts-Offset direkt
+ * in die Segmente ein. Der Export übernimmt sie deshalb unverändert.
+ */
+
+import type {
+  GerberExportOptions,
+  Panel,
+  Point,
+  RouterExportOptions,
+  RoutingContour,
+  RoutingSegment,
+} from '@/types';
+import {
+  DEFAULT_GERBER_EXPORT_OPTIONS,
+  createGerberWriter,
+  finalizeGerber,
+  getGerberApertureCode,
+  getGerberFileAttributes,
+  hasGerberContent,
+  panelToGerberPoint,
+  writeGerberArc,
+  writeGerberLine,
+  type GerberExportFile,
+  type GerberWriter,
+} from './gerber-export';
+
+/**
+ * Standard-Maschinenparameter für das Fräsprogramm
+ */
+export const DEFAULT_ROUTER_EXPORT_OPTIONS: RouterExportOptions = {
+  format: 'excellon',
+  units: 'mm',
+  feedRate: 1000,
+  plungeRate: 300,
+  spindleSpeed: 30000,
+  safeZ: 5,
+  cutDepth: 2.0,
+};
+
+/** Segmente, deren Enden näher als diese Toleranz (mm) liegen, werden ohne Abheben verbunden */
+const CHAIN_TOLERANCE_MM = 0.001;
+
+/**
+ * Schreibt ein Fräskontur-Segment (Panel-Koordinaten, Y-down) in den Writer
+ */
+function writeRoutingSegment(
+  writer: GerberWriter,
+  code: string,
+  seg: RoutingSegment,
+  panel: Panel
+): void {
+  const start = panelToGerberPoint(seg.start, panel);
+  const end = panelToGerberPoint(seg.end, panel);
+
+  if (seg.arc) {
+    // Y-Flip (Panel Y-down → Gerber Y-up) kehrt die Drehrichtung um
+    writeGerberArc(
+      writer,
+      code,
+      start,
+      end,
+      panelToGerberPoint(seg.arc.center, panel),
+      !seg.arc.clockwise
+    );
+  } else {
+    writeGerberLine(writer, code, start, end);
+  }
+}
+
+/**
+ * Erzeugt den Gerber-Profil-Layer mit allen sichtbaren Fräskonturen
+ *
+ * Ausgeblendete Konturen werden (wie in der PDF-Zeichnung) nicht exportiert.
+ *
+ * @param panel - Das Panel mit den Fräskonturen
+ * @param options - Koordinatenformat und Einheit (Layer-Auswahl wird ignoriert)
+ * @returns Die Profil-Datei oder null, wenn keine Konturen vorhanden sind
+ */
+export function generateRoutingProfileGerber(
+  panel: Panel,
+  options: Partial<GerberExportOptions> = {}
+): GerberExportFile | null {
+  const opts: GerberExportOptions = { ...DEFAULT_GERBER_EXPORT_OPTIONS, ...options };
+  const writer = createGerberWriter(opts);
+
+  for (const contour of panel.routingContours) {
+    if (!contour.visible || contour.toolDiameter <= 0) continue;
+
+    const code = getGerberApertureCode(writer, {
+      id: contour.id,
+      type: 'circle',
+      diameter: contour.toolDiameter,
+    }, 'Profile');
+    if (!code) continue;
+
+    for (const seg of contour.segments) {
+      writeRoutingSegment(writer, code, seg, panel);
+    }
+  }
+
+  if (!hasGerberContent(writer)) return null;
+
+  const base = panel.name.replace(/[^a-zA-Z0-9]/g, '_') || 'panel';
+  return {
+    layerType: 'outline',
+    filename: `${base}.GM1`,
+    content: finalizeGerber(
+      writer,
+      [
+        `PCB Panelizer - Panel ${panel.name}`,
+        'Layer: routing profile (tool center path, aperture = tool diameter)',
+      ],
+      getGerberFileAttributes(panel, 'Profile,NP', 'Positive')
+    ),
+  };
+}
+
+// ============================================================================
+// Fräsprogramm (Excellon Rout / G-Code)
+// ============================================================================
+
+/**
+ * Ein Fräsweg ohne Abheben: zusammenhängende Segmente einer Kontur
+ */
+interface RouterChain {
+  /** Segmente in Gerber-Koordinaten (mm, Y-up), Bögen mit korrigierter Drehrichtung */
+  moves: Array<{ start: Point; end: Point; center?: Point; clockwise?: boolean }>;
+}
+
+/**
+ * Zerlegt eine Kontur in zusammenhängende Fräswege
+ *
+ * Lücken zwischen Segmenten (Tabs) führen zu einem neuen Fräsweg,
+ * d.h. der Fräser hebt dort ab.
+ */
+function buildRouterChains(contour: RoutingContour, panel: Panel): RouterChain[] {
+  const chains: RouterChain[] = [];
+  let current: RouterChain | null = null;
+  let lastEnd: Point | null = null;
+
+  for (const seg of contour.segments) {
+    const start = panelToGerberPoint(seg.start, panel);
+    const end = panelToGerberPoint(seg.end, panel);
+
+    const connected =
+      lastEnd !== null &&
+      Math.hypot(start.x - lastEnd.x, start.y - lastEnd.y) < CHAIN_TOLERANCE_MM;
+    if (!current || !connected) {
+      current = { moves: [] };
+      chains.push(current);
+    }
+
+    current.moves.push(
+      seg.arc
+        ? {
+            start,
+            end,
+            center: panelToGerberPoint(seg.arc.center, panel),
+            // Y-Flip kehrt die Drehrichtung um (wie im Gerber-Profil)
+            clockwise: !seg.arc.clockwise,
+          }
+        : { start, end }
+    );
+    lastEnd = end;
+  }
+
+  return chains;
+}
+
+/**
+ * Formatiert einen Wert mit Dezimalpunkt: mm mit 3, Zoll mit 4 Nachkommastellen
+ */
+function formatRouterValue(mm: number, units: 'mm' | 'inch'): string {
+  const value = units === 'inch' ? mm / 25.4 : mm;
+  const text = value.toFixed(units === 'inch' ? 4 : 3);
+  return text === '-0.000' || text === '-0.0000' ? text.slice(1) : text;
+}
+
+/**
+ * Erzeugt das Fräsprogramm für den Depaneling-Router
+ *
+ * Sichtbare Konturen werden nach Fräserdurchmesser gruppiert (T1 = kleinster
+ * Fräser). Innerhalb einer Kontur fährt der Fräser zusammenhängende Segmente
+ * ohne Abheben ab, an Tab-Lücken wird abgehoben und neu eingetaucht.
+ *
+ * - Excellon: Rout-Modus mit G00 (Positionieren), M15 (Absenken), G01/G02/G03, M16 (Abheben)
+ * - G-Code: Z-Zustellung über safeZ / cutDepth, Vorschübe aus den Maschinenparametern
+ *
+ * @param panel - Das Panel mit den Fräskonturen
+ * @param options - Maschinenparameter und Ausgabeformat
+ * @returns Das Fräsprogramm oder null, wenn keine Konturen vorhanden sind
+ */
+export function generateRouterProgram(
+  panel: Panel,
+  options: Partial<RouterExportOptions> = {}
+): { filename: string; content: string } | null {
+  const opts: RouterExportOptions = { ...DEFAULT_ROUTER_EXPORT_OPTIONS, ...options };
+  const { units } = opts;
+
+  // Werkzeuge: Fräserdurchmesser → Fräswege
+  const toolMap = new Map<number, RouterChain[]>();
+  for (const contour of panel.routingContours) {
+    if (!contour.visible || contour.toolDiameter <= 0) continue;
+    const chains = buildRouterChains(contour, panel);
+    if (chains.length === 0) continue;
+
+    const key = Math.round(contour.toolDiameter * 1000) / 1000;
+    toolMap.set(key, [...(toolMap.get(key) ?? []), ...chains]);
+  }
+  if (toolMap.size === 0) return null;
+
+  const tools = Array.from(toolMap.entries()).sort((a, b) => a[0] - b[0]);
+  const v = (mm: number) => formatRouterValue(mm, units);
+  const xy = (p: Point) => `X${v(p.x)}Y${v(p.y)}`;
+  // Bogenmittelpunkt relativ zum Startpunkt (I/J, wie G75-Gerber)
+  const ij = (start: Point, center: Point) => `I${v(center.x - start.x)}J${v(center.y - start.y)}`;
+  const feed = (mmPerMin: number) =>
+    units === 'inch' ? (mmPerMin / 25.4).toFixed(1) : String(Math.round(mmPerMin));
+
+  const moveLine = (move: RouterChain['moves'][number]) =>
+    move.center
+      ? `${move.clockwise ? 'G02' : 'G03'}${xy(move.end)}${ij(move.start, move.center)}`
+      : `G01${xy(move.end)}`;
+
+  const base = panel.name.replace(/[^a-zA-Z0-9]/g, '_') || 'panel';
+  const lines: string[] = [];
+
+  if (opts.format === 'excellon') {
+    lines.push('M48');
+    lines.push(`; PCB Panelizer - Panel ${panel.name}`);
+    lines.push('; Rout program (tool center path)');
+    lines.push(units === 'inch' ? 'INCH,TZ' : 'METRIC,TZ');
+    tools.forEach(([diameter], index) => {
+      lines.push(
+        `T${index + 1}C${v(diameter)}F${feed(opts.feedRate)}S${Math.round(opts.spindleSpeed)}`
+      );
+    });
+    lines.push('%');
+    lines.push('G90');
+
+    tools.forEach(([, chains], index) => {
+      lines.push(`T${index + 1}`);
+      for (const chain of chains) {
+        lines.push(`G00${xy(chain.moves[0].start)}`);
+        lines.push('M15');
+        for (const move of chain.moves) {
+          lines.push(moveLine(move));
+        }
+        lines.push('M16');
+      }
+    });
+
+    lines.push('G05');
+    lines.push('M30');
+
+    return { filename: `${base}-Rout.rou`, content: lines.join('\n') + '\n' };
+  }
+
+  // G-Code
+  lines.push(`(PCB Panelizer - Panel ${panel.name})`);
+  lines.push('(Rout program, tool center path)');
+  lines.push(units === 'inch' ? 'G20' : 'G21');
+  lines.push('G90');
+  lines.push('G17');
+
+  tools.forEach(([diameter, chains], index) => {
+    lines.push(`(Tool ${index + 1}: ${v(diameter)} ${units})`);
+    lines.push(`T${index + 1} M06`);
+    lines.push(`S${Math.round(opts.spindleSpeed)} M03`);
+    lines.push(`G00 Z${v(opts.safeZ)}`);
+
+    for (const chain of chains) {
+      lines.push(`G00 ${xy(chain.moves[0].start)}`);
+      lines.push(`G01 Z${v(-opts.cutDepth)} F${feed(opts.plungeRate)}`);
+      chain.moves.forEach((move, i) => {
+        lines.push(i === 0 ? `${moveLine(move)} F${feed(opts.feedRate)}` : moveLine(move));
+      });
+      lines.push(`G00 Z${v(opts.safeZ)}`);
+    }
+  });
+
+  lines.push('M05');
+  lines.push('M30');
+
+  return { filename: `${base}.nc`, content: lines.join('\n') + '\n' };
+}
@@ -0,0 +1,204 @@
+/**
+ * V-Score Export - Ritzlinien als Gerber-Layer und V-Cut-Programm
+ *
+ * Zwei Ausgaben für den Ritz-Dienstleister:
+ * - Gerber-Layer mit allen V-Score Linien (Linienbreite = Nutbreite an der Oberfläche)
+ * - V-Cut-Programm als CSV oder Text: pro Linie Achse, Abstand zum
+ *   Panel-Ursprung, Tiefe in % und mm sowie Blattwinkel
+ *
+ * Koordinaten wie in allen Fertigungsdaten: mm, Ursprung unten links (Y-up).
+ * Die Tiefe gilt pro Seite (Ritzung von oben und von unten, wie im
+ * V-Score Detail der PDF-Zeichnung).
+ */
+
+import type { GerberExportOptions, Panel, VScoreExportOptions, VScoreLine } from '@/types';
+import {
+  DEFAULT_GERBER_EXPORT_OPTIONS,
+  createGerberWriter,
+  finalizeGerber,
+  getGerberApertureCode,
+  getGerberFileAttributes,
+  hasGerberContent,
+  panelToGerberPoint,
+  writeGerberLine,
+  type GerberExportFile,
+} from './gerber-export';
+
+/**
+ * Standard-Exportoptionen: CSV, 1.6 mm Leiterplattendicke
+ */
+export const DEFAULT_VSCORE_EXPORT_OPTIONS: VScoreExportOptions = {
+  format: 'csv',
+  boardThickness: 1.6,
+};
+
+/** Minimale Linienbreite im Gerber-Layer (mm), falls Tiefe oder Winkel 0 sind */
+const MIN_VSCORE_LINE_WIDTH = 0.05;
+
+// ============================================================================
+// Hilfsfunktionen
+// ============================================================================
+
+/**
+ * Eine V-Score Linie in Maschinensicht
+ */
+interface VScoreCut {
+  /** Laufende Nummer (1-basiert) */
+  index: number;
+  /** Schnittrichtung: 'X' = Linie parallel zur X-Achse, 'Y' = parallel zur Y-Achse */
+  axis: 'X' | 'Y';
+  /** Abstand der Linie zum Panel-Ursprung (unten links) in mm */
+  offset: number;
+  /** Ritztiefe pro Seite in % der Leiterplattendicke */
+  depthPercent: number;
+  /** Ritztiefe pro Seite in mm */
+  depthMm: number;
+  /** Verbleibender Steg in mm (Dicke minus beide Ritzungen) */
+  residualMm: number;
+  /** Blattwinkel in Grad */
+  angle: number;
+}
+
+/**
+ * Berechnet die Schnittliste aller V-Score Linien
+ *
+ * Reihenfolge: zuerst alle X-Schnitte, dann alle Y-Schnitte,
+ * jeweils aufsteigend nach Abstand zum Ursprung.
+ */
+function buildVScoreCuts(panel: Panel, boardThickness: number): VScoreCut[] {
+  const cuts: Omit<VScoreCut, 'index'>[] = panel.vscoreLines.map((line) => {
+    const start = panelToGerberPoint(line.start, panel);
+    const end = panelToGerberPoint(line.end, panel);
+    const horizontal = Math.abs(end.x - start.x) >= Math.abs(end.y - start.y);
+    const depthMm = (boardThickness * line.depth) / 100;
+
+    return {
+      axis: horizontal ? ('X' as const) : ('Y' as const),
+      offset: horizontal ? (start.y + end.y) / 2 : (start.x + end.x) / 2,
+      depthPercent: line.depth,
+      depthMm,
+      residualMm: Math.max(0, boardThickness - 2 * depthMm),
+      angle: line.angle,
+    };
+  });
+
+  cuts.sort((a, b) => (a.axis === b.axis ? a.offset - b.offset : a.axis === 'X' ? -1 : 1));
+  return cuts.map((cut, i) => ({ ...cut, index: i + 1 }));
+}
+
+/**
+ * Nutbreite an der Oberfläche: 2 × Tiefe × tan(Winkel / 2)
+ */
+function getVScoreGrooveWidth(line: VScoreLine, boardThickness: number): number {
+  const depthMm = (boardThickness * line.depth) / 100;
+  const width = 2 * depthMm * Math.tan(((line.angle / 2) * Math.PI) / 180);
+  return Math.max(MIN_VSCORE_LINE_WIDTH, Math.round(width * 1000) / 1000);
+}
+
+// ============================================================================
+// Gerber-Layer
+// ============================================================================
+
+/**
+ * Erzeugt den V-Score Gerber-Layer
+ *
+ * @param panel - Das Panel mit den V-Score Linien
+ * @param options - V-Score Optionen (Leiterplattendicke für die Nutbreite)
+ * @param gerberOptions - Koordinatenformat und Einheit
+ * @returns Die Gerber-Datei oder null, wenn keine V-Score Linien vorhanden sind
+ */
+export function generateVScoreGerber(
+  panel: Panel,
+  options: Partial<VScoreExportOptions> = {},
+  gerberOptions: Partial<GerberExportOptions> = {}
+): GerberExportFile | null {
+  const opts: VScoreExportOptions = { ...DEFAULT_VSCORE_EXPORT_OPTIONS, ...options };
+  const writer = createGerberWriter({ ...DEFAULT_GERBER_EXPORT_OPTIONS, ...gerberOptions });
+
+  for (const line of panel.vscoreLines) {
+    const code = getGerberApertureCode(writer, {
+      id: line.id,
+      type: 'circle',
+      diameter: getVScoreGrooveWidth(line, opts.boardThickness),
+    });
+    if (!code) continue;
+
+    writeGerberLine(
+      writer,
+      code,
+      panelToGerberPoint(line.start, panel),
+      panelToGerberPoint(line.end, panel)
+    );
+  }
+
+  if (!hasGerberContent(writer)) return null;
+
+  const base = panel.name.replace(/[^a-zA-Z0-9]/g, '_') || 'panel';
+  return {
+    layerType: 'outline',
+    filename: `${base}-VScore.gbr`,
+    content: finalizeGerber(
+      writer,
+      [
+        `PCB Panelizer - Panel ${panel.name}`,
+        `Layer: V-score lines (line width = groove width at surface, board thickness ${opts.boardThickness} mm)`,
+      ],
+      getGerberFileAttributes(panel, 'Vcut', 'Positive')
+    ),
+  };
+}
+
+// ============================================================================
+// V-Cut-Programm
+// ============================================================================
+
+/**
+ * Erzeugt das V-Cut-Programm (Ritzliste) für die V-Cut-Maschine
+ *
+ * Spalten: Nr, Achse, Abstand zum Ursprung, Tiefe %, Tiefe mm, Reststeg mm, Winkel.
+ *
+ * @param panel - Das Panel mit den V-Score Linien
+ * @param options - Format (CSV/Text) und Leiterplattendicke
+ * @returns Die Programmdatei oder null, wenn keine V-Score Linien vorhanden sind
+ */
+export function generateVScoreProgram(
+  panel: Panel,
+  options: Partial<VScoreExportOptions> = {}
+): { filename: string; content: string } | null {
+  const opts: VScoreExportOptions = { ...DEFAULT_VSCORE_EXPORT_OPTIONS, ...options };
+  if (panel.vscoreLines.length === 0) return null;
+
+  const cuts = buildVScoreCuts(panel, opts.boardThickness);
+  const base = panel.name.replace(/[^a-zA-Z0-9]/g, '_') || 'panel';
+
+  const header = ['No', 'Axis', 'Offset_mm', 'Depth_%', 'Depth_mm', 'Residual_mm', 'Angle_deg'];
+  const rows = cuts.map((cut) => [
+    String(cut.index),
+    cut.axis,
+    cut.offset.toFixed(3),
+    cut.depthPercent.toFixed(1),
+    cut.depthMm.toFixed(3),
+    cut.residualMm.toFixed(3),
+    cut.angle.toFixed(1),
+  ]);
+
+  if (opts.format === 'csv') {
+    const lines = [header, ...rows].map((row) => row.join(';'));
+    return { filename: `${base}-VCut.csv`, content: lines.join('\n') + '\n' };
+  }
+
+  // Text mit festen, rechtsbündigen Spalten
+  const widths = header.map((h, col) => Math.max(h.length, ...rows.map((row) => row[col].length)));
+  const formatRow = (row: string[]) => row.map((cell, col) => cell.padStart(widths[col])).join('  ');
+
+  const lines = [
+    `PCB Panelizer - V-cut program, panel ${panel.name}`,
+    `Panel ${panel.width.toFixed(3)} x ${panel.height.toFixed(3)} mm, board thickness ${opts.boardThickness.toFixed(2)} mm`,
+    'Origin: bottom left corner of the panel. Axis X = cut parallel to X (offset in Y), Axis Y = cut parallel to Y (offset in X).',
+    'Depth per side (scored from top and bottom).',
+    '',
+    formatRow(header),
+    ...rows.map(formatRow),
+  ];
+  return { filename: `${base}-VCut.txt`, content: lines.join('\n') + '\n' };
+}
@@ -0,0 +1,280 @@
+/**
+ * Aperture-Makros (AM) - Auswertung zu einfachen Primitiven
+ *
+ * Altium und KiCad definieren abgerundete Pads, Thermals und gedrehte Pads
+ * als Aperture-Makros. Ein Makro besteht aus Variablen-Zuweisungen ($n=...)
+ * und Primitiven, deren Parameter Zahlen, Variablen oder Ausdrücke sein können.
+ *
+ * Unterstützte Primitive (Gerber-Spezifikation Kap. 4.5):
+ * - 1  Kreis
+ * - 4  Outline (Polygonzug)
+ * - 5  Regelmässiges Polygon
+ * - 7  Thermal
+ * - 20 Vektor-Linie
+ * - 21 Mittellinie (Rechteck)
+ *
+ * Das Ergebnis sind Kreise und Polygone in mm relativ zum Flash-Punkt,
+ * die Canvas, PDF und Gerber-Export direkt zeichnen können.
+ */
+
+import type { ApertureMacroPrimitive, Point } from '@/types';
+
+// ============================================================================
+// Typen für den tracespace Parser (Makro-Blöcke)
+// ============================================================================
+
+/**
+ * Arithmetischer Ausdruck in einem Makro ('x' = Multiplikation)
+ */
+interface MacroExpression {
+  left: MacroValue;
+  right: MacroValue;
+  operator: '+' | '-' | 'x' | '/';
+}
+
+/**
+ * Zahl, Variable ("$1") oder Ausdruck
+ */
+type MacroValue = number | string | MacroExpression;
+
+/**
+ * Block einer Makro-Definition (Kommentar, Variable oder Primitiv)
+ */
+export interface MacroBlock {
+  type: 'macroComment' | 'macroVariable' | 'macroPrimitive';
+  /** Für Variablen: Name (z.B. "$4") */
+  name?: string;
+  /** Für Variablen: zugewiesener Wert */
+  value?: MacroValue;
+  /** Für Primitive: Primitiv-Code (z.B. "21") */
+  code?: string;
+  /** Für Primitive: Parameter */
+  modifiers?: MacroValue[];
+}
+
+/** Segmente pro Vollkreis für Thermal-Bögen */
+const ARC_SEGMENTS_PER_CIRCLE = 64;
+
+// ============================================================================
+// Ausdrücke
+// ============================================================================
+
+/**
+ * Wertet einen Makro-Wert aus (unbekannte Variablen zählen als 0)
+ */
+function evaluateValue(value: MacroValue, variables: Map<string, number>): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return variables.get(value) ?? 0;
+
+  const left = evaluateValue(value.left, variables);
+  const right = evaluateValue(value.right, variables);
+  switch (value.operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case 'x': return left * right;
+    case '/': return right !== 0 ? left / right : 0;
+  }
+}
+
+// ============================================================================
+// Geometrie
+// ============================================================================
+
+/**
+ * Dreht einen Punkt um den Makro-Ursprung (Grad, gegen den Uhrzeigersinn)
+ */
+function rotatePoint(p: Point, degrees: number): Point {
+  if (!degrees) return p;
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos };
+}
+
+/**
+ * Polygon-Primitiv aus Eckpunkten (vor Rotation) erzeugen
+ */
+function polygon(exposure: boolean, points: Point[], rotation: number): ApertureMacroPrimitive {
+  return { type: 'polygon', exposure, points: points.map((p) => rotatePoint(p, rotation)) };
+}
+
+/**
+ * Rechteck um einen Mittelpunkt als Eckpunkte
+ */
+function rectanglePoints(cx: number, cy: number, width: number, height: number): Point[] {
+  return [
+    { x: cx - width / 2, y: cy - height / 2 },
+    { x: cx + width / 2, y: cy - height / 2 },
+    { x: cx + width / 2, y: cy + height / 2 },
+    { x: cx - width / 2, y: cy + height / 2 },
+  ];
+}
+
+/**
+ * Punkte auf einem Kreisbogen (inkl. Start und Ende)
+ */
+function arcPoints(radius: number, startAngle: number, endAngle: number): Point[] {
+  const sweep = endAngle - startAngle;
+  const segments = Math.max(2, Math.ceil((Math.abs(sweep) * ARC_SEGMENTS_PER_CIRCLE) / (2 * Math.PI)));
+  const points: Point[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = startAngle + (sweep * i) / segments;
+    points.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+  }
+  return points;
+}
+
+/**
+ * Thermal (Primitiv 7): Ring mit vier Stegen als vier Viertel-Polygone
+ *
+ * Die Stege liegen auf den Achsen durch den Mittelpunkt. Ist der Innenkreis
+ * kleiner als die Steg-Ecke, wird die Innenkante zum Eckpunkt (gapHalf, gapHalf).
+ */
+function thermalQuadrants(
+  cx: number,
+  cy: number,
+  outerDiameter: number,
+  innerDiameter: number,
+  gap: number,
+  rotation: number
+): ApertureMacroPrimitive[] {
+  const outer = outerDiameter / 2;
+  const inner = innerDiameter / 2;
+  const gapHalf = gap / 2;
+  if (outer <= gapHalf || outer <= inner) return [];
+
+  const outerStart = Math.asin(gapHalf / outer);
+  const outerArc = arcPoints(outer, outerStart, Math.PI / 2 - outerStart);
+
+  const innerArc = inner > gapHalf * Math.SQRT2
+    ? arcPoints(inner, Math.asin(gapHalf / inner), Math.PI / 2 - Math.asin(gapHalf / inner)).reverse()
+    : [{ x: gapHalf, y: gapHalf }];
+
+  const quadrant = [...outerArc, ...innerArc];
+  const primitives: ApertureMacroPrimitive[] = [];
+  for (let q = 0; q < 4; q++) {
+    const points = quadrant.map((p) => {
+      const turned = rotatePoint(p, q * 90);
+      return { x: cx + turned.x, y: cy + turned.y };
+    });
+    primitives.push(polygon(true, points, rotation));
+  }
+  return primitives;
+}
+
+// ============================================================================
+// Primitive
+// ============================================================================
+
+/**
+ * Wertet ein einzelnes Primitiv aus
+ *
+ * @param code - Primitiv-Code
+ * @param m - Ausgewertete Parameter (in Datei-Einheiten)
+ * @param scale - Umrechnung Datei-Einheit → mm
+ */
+function evaluatePrimitive(code: string, m: number[], scale: number): ApertureMacroPrimitive[] {
+  const at = (i: number) => m[i] ?? 0;
+  const exposure = at(0) !== 0;
+
+  switch (code) {
+    // Kreis: Belichtung, Durchmesser, X, Y, [Rotation]
+    case '1': {
+      const center = rotatePoint({ x: at(2) * scale, y: at(3) * scale }, at(4));
+      return [{ type: 'circle', exposure, center, diameter: at(1) * scale }];
+    }
+
+    // Vektor-Linie: Belichtung, Breite, X1, Y1, X2, Y2, Rotation
+    case '20':
+    case '2': {
+      const width = at(1) * scale;
+      const start = { x: at(2) * scale, y: at(3) * scale };
+      const end = { x: at(4) * scale, y: at(5) * scale };
+      const length = Math.hypot(end.x - start.x, end.y - start.y);
+      if (length === 0 || width === 0) return [];
+      // Normale zur Linie, halbe Breite
+      const nx = (-(end.y - start.y) / length) * (width / 2);
+      const ny = ((end.x - start.x) / length) * (width / 2);
+      return [polygon(exposure, [
+        { x: start.x + nx, y: start.y + ny },
+        { x: start.x - nx, y: start.y - ny },
+        { x: end.x - nx, y: end.y - ny },
+        { x: end.x + nx, y: end.y + ny },
+      ], at(6))];
+    }
+
+    // Mittellinie: Belichtung, Breite, Höhe, X, Y, Rotation
+    case '21': {
+      const points = rectanglePoints(at(3) * scale, at(4) * scale, at(1) * scale, at(2) * scale);
+      return [polygon(exposure, points, at(5))];
+    }
+
+    // Outline: Belichtung, Anzahl Punkte n, X0, Y0, ..., Xn, Yn, Rotation
+    case '4': {
+      const count = Math.round(at(1)) + 1;
+      const points: Point[] = [];
+      for (let i = 0; i < count; i++) {
+        points.push({ x: at(2 + i * 2) * scale, y: at(3 + i * 2) * scale });
+      }
+      // Letzter Punkt = erster Punkt (geschlossene Kontur), doppelt nicht nötig
+      if (points.length > 1) points.pop();
+      if (points.length < 3) return [];
+      return [polygon(exposure, points, at(2 + count * 2))];
+    }
+
+    // Polygon: Belichtung, Ecken, X, Y, Durchmesser, Rotation
+    case '5': {
+      const vertices = Math.round(at(1));
+      if (vertices < 3) return [];
+      const radius = (at(4) * scale) / 2;
+      const cx = at(2) * scale;
+      const cy = at(3) * scale;
+      const points: Point[] = [];
+      for (let i = 0; i < vertices; i++) {
+        const angle = (2 * Math.PI * i) / vertices;
+        points.push({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+      }
+      return [polygon(exposure, points, at(5))];
+    }
+
+    // Thermal: X, Y, Aussen-Ø, Innen-Ø, Stegbreite, Rotation (immer belichtet)
+    case '7':
+      return thermalQuadrants(at(0) * scale, at(1) * scale, at(2) * scale, at(3) * scale, at(4) * scale, at(5));
+
+    default:
+      // Moiré (6) und unbekannte Primitive werden ignoriert
+      return [];
+  }
+}
+
+// ============================================================================
+// Hauptfunktion
+// ============================================================================
+
+/**
+ * Wertet ein Aperture-Makro mit den Parametern aus der AD-Zeile aus
+ *
+ * @param blocks - Blöcke der Makro-Definition (in Datei-Reihenfolge)
+ * @param params - Parameter der Aperture-Definition ($1, $2, ...)
+ * @param scale - Umrechnung Datei-Einheit → mm (25.4 bei Zoll)
+ * @returns Primitive in mm relativ zum Flash-Punkt
+ */
+export function evaluateApertureMacro(
+  blocks: MacroBlock[],
+  params: number[],
+  scale: number
+): ApertureMacroPrimitive[] {
+  const variables = new Map<string, number>();
+  params.forEach((value, i) => variables.set(`$${i + 1}`, value));
+
+  const primitives: ApertureMacroPrimitive[] = [];
+  for (const block of blocks) {
+    if (block.type === 'macroVariable' && block.name && block.value !== undefined) {
+      variables.set(block.name, evaluateValue(block.value, variables));
+    } else if (block.type === 'macroPrimitive' && block.code) {
+      const modifiers = (block.modifiers || []).map((v) => evaluateValue(v, variables));
+      primitives.push(...evaluatePrimitive(block.code, modifiers, scale));
+    }
+  }
+  return primitives;
+}
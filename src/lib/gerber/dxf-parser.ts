@@ -0,0 +1,452 @@
+/**
+ * DXF Parser - Board-Kontur aus einer DXF-Zeichnung
+ *
+ * Mechanik-Konstrukteure liefern die Leiterplattenkontur oft als DXF statt
+ * als Gerber-Outline. Dieser Parser liest die Geometrie aus der ENTITIES-Sektion:
+ * - LINE
+ * - ARC und CIRCLE (auch gespiegelt, Extrusion 0,0,-1)
+ * - LWPOLYLINE mit Bulges (Bögen zwischen den Stützpunkten)
+ * - SPLINE (als Polylinie angenähert)
+ *
+ * Die Einheit steht in der DXF nur als Hinweis ($INSUNITS) und fehlt oft;
+ * deshalb wird sie beim Erstellen des Outline-Layers explizit gewählt.
+ * Die DXF-Koordinaten haben zudem einen beliebigen Ursprung und werden an
+ * den Kupfer-Layern des Boards ausgerichtet.
+ */
+
+import type { Aperture, GerberCommand, GerberFile, ImportDiagnostic, ParsedGerber, Point } from '@/types';
+import { generateId } from '@/lib/utils';
+import { getLayerColor } from './layer-detector';
+import { calculateBoundingBox, calculateCombinedBoundingBox } from './parser';
+
+// ============================================================================
+// Typen und Konstanten
+// ============================================================================
+
+/** Zeichnungseinheiten, in denen eine DXF gelesen werden kann */
+export type DxfUnit = 'mm' | 'cm' | 'm' | 'inch' | 'mil';
+
+/**
+ * Ausrichtung der DXF-Kontur auf die Kupfer-Layer
+ * - center: Mitte der Kontur auf die Mitte der Kupfer-Layer
+ * - lower-left: linke untere Ecken aufeinander
+ * - none: DXF-Koordinaten unverändert (gleicher Nullpunkt wie die Gerber-Daten)
+ */
+export type DxfAlignment = 'center' | 'lower-left' | 'none';
+
+/**
+ * Gelesene DXF-Geometrie (in Zeichnungseinheiten)
+ */
+export interface DxfDrawing {
+  /** Linien und Bögen der Kontur */
+  commands: GerberCommand[];
+  /** Einheit laut $INSUNITS / $MEASUREMENT (null = nicht angegeben) */
+  detectedUnit: DxfUnit | null;
+  /** Anzahl gelesener Elemente pro Typ (z.B. { LINE: 4, ARC: 2 }) */
+  entityCounts: Record<string, number>;
+  /** Auffälligkeiten beim Lesen */
+  diagnostics: ImportDiagnostic[];
+}
+
+/** Umrechnung der Zeichnungseinheit in mm */
+export const DXF_UNIT_SCALE: Record<DxfUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  inch: 25.4,
+  mil: 0.0254,
+};
+
+/** $INSUNITS-Codes der unterstützten Einheiten */
+const INSUNITS: Record<number, DxfUnit> = {
+  1: 'inch',
+  4: 'mm',
+  5: 'cm',
+  6: 'm',
+  9: 'mil',
+};
+
+/** Elemente ohne Geometrie für die Kontur (werden ohne Warnung übergangen) */
+const ANNOTATION_ENTITIES = new Set(['TEXT', 'MTEXT', 'DIMENSION', 'HATCH', 'LEADER', 'MLEADER', 'POINT', 'SOLID']);
+
+/** Stützpunkte pro Kontrollpunkt beim Annähern von Splines */
+const SPLINE_SAMPLES_PER_CONTROL_POINT = 8;
+
+/** Linienbreite der DXF-Kontur (nur für die Darstellung) */
+const OUTLINE_APERTURE: Aperture = { id: 'D10', type: 'circle', diameter: 0.1 };
+
+/**
+ * Ein DXF-Element mit seinen Gruppencodes
+ */
+interface DxfEntity {
+  type: string;
+  codes: Array<[number, string]>;
+}
+
+// ============================================================================
+// Einlesen
+// ============================================================================
+
+/**
+ * Prüft ob eine Datei eine DXF-Zeichnung ist
+ */
+export function isDxfFile(filename: string): boolean {
+  return filename.toLowerCase().endsWith('.dxf');
+}
+
+/**
+ * Zerlegt den DXF-Text in Gruppencode/Wert-Paare
+ */
+function readGroupCodes(content: string): Array<[number, string]> {
+  const lines = content.split(/\r?\n/);
+  const pairs: Array<[number, string]> = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (isNaN(code)) continue;
+    pairs.push([code, lines[i + 1].trim()]);
+  }
+  return pairs;
+}
+
+/**
+ * Erster Wert eines Gruppencodes als Zahl
+ */
+function num(entity: DxfEntity, code: number, fallback = 0): number {
+  const entry = entity.codes.find(([c]) => c === code);
+  return entry ? parseFloat(entry[1]) : fallback;
+}
+
+/**
+ * Alle Werte eines Gruppencodes als Zahlen (z.B. Knotenvektor)
+ */
+function nums(entity: DxfEntity, code: number): number[] {
+  return entity.codes.filter(([c]) => c === code).map(([, v]) => parseFloat(v));
+}
+
+/**
+ * Punktliste aus X/Y-Gruppencodes (z.B. 10/20 für Kontrollpunkte)
+ */
+function points(entity: DxfEntity, xCode: number, yCode: number): Point[] {
+  const xs = nums(entity, xCode);
+  const ys = nums(entity, yCode);
+  return xs.slice(0, ys.length).map((x, i) => ({ x, y: ys[i] }));
+}
+
+/**
+ * Liest Einheit und Elemente aus HEADER und ENTITIES
+ */
+function readSections(pairs: Array<[number, string]>): { unit: DxfUnit | null; entities: DxfEntity[] } {
+  let section = '';
+  let headerVariable = '';
+  let insUnits: DxfUnit | null = null;
+  let metric: boolean | null = null;
+  const entities: DxfEntity[] = [];
+  let current: DxfEntity | null = null;
+
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+
+    if (code === 0) {
+      current = null;
+      if (value === 'SECTION' && pairs[i + 1]?.[0] === 2) {
+        section = pairs[i + 1][1];
+        i++;
+      } else if (value === 'ENDSEC') {
+        section = '';
+      } else if (section === 'ENTITIES') {
+        current = { type: value, codes: [] };
+        entities.push(current);
+      }
+      continue;
+    }
+
+    if (section === 'HEADER') {
+      if (code === 9) headerVariable = value;
+      else if (headerVariable === '$INSUNITS' && code === 70) insUnits = INSUNITS[parseInt(value, 10)] || null;
+      else if (headerVariable === '$MEASUREMENT' && code === 70) metric = value === '1';
+    } else if (current) {
+      current.codes.push([code, value]);
+    }
+  }
+
+  const unit = insUnits || (metric === null ? null : metric ? 'mm' : 'inch');
+  return { unit, entities };
+}
+
+// ============================================================================
+// Geometrie
+// ============================================================================
+
+function line(start: Point, end: Point): GerberCommand {
+  return { type: 'line', startPoint: start, endPoint: end, apertureId: OUTLINE_APERTURE.id };
+}
+
+function arc(start: Point, end: Point, center: Point, clockwise: boolean): GerberCommand {
+  return { type: 'arc', startPoint: start, endPoint: end, centerPoint: center, clockwise, apertureId: OUTLINE_APERTURE.id };
+}
+
+/**
+ * Gespiegeltes Objekt-Koordinatensystem (Extrusion 0,0,-1): X umkehren
+ */
+function isMirrored(entity: DxfEntity): boolean {
+  return num(entity, 230, 1) < 0;
+}
+
+/**
+ * Bogen aus Mittelpunkt, Radius und Winkeln (DXF: Grad, gegen den Uhrzeigersinn)
+ */
+function arcFromAngles(entity: DxfEntity, startDeg: number, endDeg: number): GerberCommand {
+  const mirror = isMirrored(entity) ? -1 : 1;
+  const cx = num(entity, 10);
+  const cy = num(entity, 20);
+  const r = num(entity, 40);
+  const at = (deg: number): Point => {
+    const a = (deg * Math.PI) / 180;
+    return { x: mirror * (cx + r * Math.cos(a)), y: cy + r * Math.sin(a) };
+  };
+  return arc(at(startDeg), at(endDeg), { x: mirror * cx, y: cy }, mirror < 0);
+}
+
+/**
+ * Segment zwischen zwei Polylinien-Stützpunkten (Bulge = tan(Öffnungswinkel / 4))
+ */
+function bulgeSegment(a: Point, b: Point, bulge: number): GerberCommand {
+  if (Math.abs(bulge) < 1e-9) return line(a, b);
+
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const chord = Math.hypot(dx, dy);
+  // Pfeilhöhe (positiv = Bogen gegen den Uhrzeigersinn)
+  const sagitta = (bulge * chord) / 2;
+  // Abstand Sehnenmitte → Mittelpunkt, links der Laufrichtung
+  const offset = (chord * chord / 4 - sagitta * sagitta) / (2 * sagitta);
+  const center = {
+    x: (a.x + b.x) / 2 - (dy / chord) * offset,
+    y: (a.y + b.y) / 2 + (dx / chord) * offset,
+  };
+  return arc(a, b, center, bulge < 0);
+}
+
+/**
+ * LWPOLYLINE: Stützpunkte mit optionalem Bulge, Flag 1 = geschlossen
+ */
+function convertPolyline(entity: DxfEntity): GerberCommand[] {
+  const mirror = isMirrored(entity) ? -1 : 1;
+  const vertices: Array<Point & { bulge: number }> = [];
+  for (const [code, value] of entity.codes) {
+    if (code === 10) vertices.push({ x: mirror * parseFloat(value), y: 0, bulge: 0 });
+    else if (code === 20 && vertices.length > 0) vertices[vertices.length - 1].y = parseFloat(value);
+    else if (code === 42 && vertices.length > 0) vertices[vertices.length - 1].bulge = mirror * parseFloat(value);
+  }
+
+  const closed = (num(entity, 70) & 1) === 1;
+  const count = closed ? vertices.length : vertices.length - 1;
+  const commands: GerberCommand[] = [];
+  for (let i = 0; i < count; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    if (a.x === b.x && a.y === b.y) continue;
+    commands.push(bulgeSegment({ x: a.x, y: a.y }, { x: b.x, y: b.y }, a.bulge));
+  }
+  return commands;
+}
+
+/**
+ * Punkt auf einer (rationalen) B-Spline nach de Boor
+ */
+function evaluateSpline(t: number, degree: number, knots: number[], control: Point[], weights: number[]): Point {
+  // Knotenintervall suchen
+  let k = degree;
+  while (k < control.length - 1 && t >= knots[k + 1]) k++;
+
+  // Homogene Koordinaten (x·w, y·w, w)
+  const d = Array.from({ length: degree + 1 }, (_, j) => {
+    const p = control[k - degree + j];
+    const w = weights[k - degree + j] ?? 1;
+    return { x: p.x * w, y: p.y * w, w };
+  });
+
+  for (let r = 1; r <= degree; r++) {
+    for (let j = degree; j >= r; j--) {
+      const i = k - degree + j;
+      const denom = knots[i + degree - r + 1] - knots[i];
+      const alpha = denom === 0 ? 0 : (t - knots[i]) / denom;
+      d[j] = {
+        x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+        y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+        w: (1 - alpha) * d[j - 1].w + alpha * d[j].w,
+      };
+    }
+  }
+  return { x: d[degree].x / d[degree].w, y: d[degree].y / d[degree].w };
+}
+
+/**
+ * SPLINE: über Kontrollpunkte und Knoten abtasten, sonst Fit-Punkte verbinden
+ */
+function convertSpline(entity: DxfEntity): GerberCommand[] {
+  const degree = num(entity, 71, 3);
+  const knots = nums(entity, 40);
+  const weights = nums(entity, 41);
+  const control = points(entity, 10, 20);
+  const fit = points(entity, 11, 21);
+
+  let polyline: Point[];
+  if (control.length > degree && knots.length === control.length + degree + 1) {
+    const tStart = knots[degree];
+    const tEnd = knots[control.length];
+    const samples = control.length * SPLINE_SAMPLES_PER_CONTROL_POINT;
+    polyline = Array.from({ length: samples + 1 }, (_, i) =>
+      evaluateSpline(tStart + ((tEnd - tStart) * i) / samples, degree, knots, control, weights)
+    );
+  } else {
+    polyline = fit.length >= 2 ? fit : control;
+  }
+
+  const commands: GerberCommand[] = [];
+  for (let i = 1; i < polyline.length; i++) {
+    commands.push(line(polyline[i - 1], polyline[i]));
+  }
+  return commands;
+}
+
+// ============================================================================
+// Hauptfunktionen
+// ============================================================================
+
+/**
+ * Liest die Kontur-Geometrie einer DXF-Datei
+ *
+ * @param content - Dateiinhalt (ASCII-DXF)
+ * @returns Linien und Bögen in Zeichnungseinheiten, erkannte Einheit und Diagnose
+ */
+export function parseDxf(content: string): DxfDrawing {
+  const { unit, entities } = readSections(readGroupCodes(content));
+  const commands: GerberCommand[] = [];
+  const entityCounts: Record<string, number> = {};
+  const skipped = new Map<string, number>();
+  const diagnostics: ImportDiagnostic[] = [];
+
+  for (const entity of entities) {
+    let converted: GerberCommand[] | null = null;
+    switch (entity.type) {
+      case 'LINE':
+        converted = [line({ x: num(entity, 10), y: num(entity, 20) }, { x: num(entity, 11), y: num(entity, 21) })];
+        break;
+      case 'ARC':
+        converted = [arcFromAngles(entity, num(entity, 50), num(entity, 51))];
+        break;
+      case 'CIRCLE':
+        // Vollkreis: Start = Ende
+        converted = [arcFromAngles(entity, 0, 360)];
+        break;
+      case 'LWPOLYLINE':
+        converted = convertPolyline(entity);
+        break;
+      case 'SPLINE':
+        converted = convertSpline(entity);
+        break;
+    }
+
+    if (converted) {
+      commands.push(...converted);
+      entityCounts[entity.type] = (entityCounts[entity.type] || 0) + 1;
+    } else if (!ANNOTATION_ENTITIES.has(entity.type)) {
+      skipped.set(entity.type, (skipped.get(entity.type) || 0) + 1);
+    }
+  }
+
+  if (entities.length === 0) {
+    diagnostics.push({ severity: 'error', message: 'Keine ENTITIES-Sektion gefunden (leere oder binäre DXF?).' });
+  } else if (commands.length === 0) {
+    diagnostics.push({ severity: 'error', message: 'Keine Linien, Bögen oder Polylinien in der DXF gefunden.' });
+  }
+  if (skipped.size > 0) {
+    const list = Array.from(skipped.entries()).map(([type, count]) => `${type} (${count})`);
+    diagnostics.push({ severity: 'warning', message: `Nicht unterstützte Elemente übersprungen: ${list.join(', ')}.` });
+  }
+  if (!unit) {
+    diagnostics.push({ severity: 'info', message: 'Keine Einheit in der DXF angegeben - bitte wählen.' });
+  }
+
+  return { commands, detectedUnit: unit, entityCounts, diagnostics };
+}
+
+/**
+ * Erstellt aus einer DXF-Zeichnung einen synthetischen Outline-Layer
+ *
+ * Wie der manuell definierte Outline (applyOutlineDefinition): vor jeder
+ * Linie/jedem Bogen ein Move, kein rawContent (parsedData wird gespeichert).
+ *
+ * @param drawing - Ergebnis von parseDxf
+ * @param filename - Name der DXF-Datei (für die Layer-Liste)
+ * @param options.unit - Zeichnungseinheit der DXF
+ * @param options.alignment - Ausrichtung auf die Kupfer-Layer
+ * @param options.layers - Die (normalisierten) Layer des Boards
+ * @param options.origin - Normalisierungs-Offset der Layer (für 'none': DXF um denselben Offset verschieben)
+ */
+export function createDxfOutlineLayer(
+  drawing: DxfDrawing,
+  filename: string,
+  options: { unit: DxfUnit; alignment: DxfAlignment; layers: GerberFile[]; origin?: Point }
+): GerberFile {
+  const scale = DXF_UNIT_SCALE[options.unit];
+  const scaled = (p: Point | undefined) => p && { x: p.x * scale, y: p.y * scale };
+  let commands: GerberCommand[] = drawing.commands.map((cmd) => ({
+    ...cmd,
+    startPoint: scaled(cmd.startPoint),
+    endPoint: scaled(cmd.endPoint),
+    centerPoint: scaled(cmd.centerPoint),
+  }));
+
+  // An den Kupfer-Layern ausrichten (ohne Kupfer: an allen Layern).
+  // 'none': DXF-Koordinaten gelten im Original-System der Gerber-Daten,
+  // daher denselben Offset abziehen wie beim Normalisieren der Layer
+  if (commands.length > 0) {
+    let dx = -(options.origin?.x ?? 0);
+    let dy = -(options.origin?.y ?? 0);
+    if (options.alignment !== 'none') {
+      const copper = options.layers.filter((l) => l.type.endsWith('copper') && l.parsedData);
+      const target = calculateCombinedBoundingBox(copper.length > 0 ? copper : options.layers);
+      const own = calculateBoundingBox({ commands } as ParsedGerber);
+      dx = options.alignment === 'center'
+        ? (target.minX + target.maxX) / 2 - (own.minX + own.maxX) / 2
+        : target.minX - own.minX;
+      dy = options.alignment === 'center'
+        ? (target.minY + target.maxY) / 2 - (own.minY + own.maxY) / 2
+        : target.minY - own.minY;
+    }
+    const shift = (p: Point | undefined) => p && { x: p.x + dx, y: p.y + dy };
+    commands = commands.map((cmd) => ({
+      ...cmd,
+      startPoint: shift(cmd.startPoint),
+      endPoint: shift(cmd.endPoint),
+      centerPoint: shift(cmd.centerPoint),
+    }));
+  }
+
+  // Move vor jedem Segment, damit der Zeichenpfad korrekt ist
+  const withMoves = commands.flatMap((cmd): GerberCommand[] => [
+    { type: 'move', endPoint: cmd.startPoint },
+    cmd,
+  ]);
+
+  const parsedData: ParsedGerber = {
+    commands: withMoves,
+    apertures: new Map([[OUTLINE_APERTURE.id, OUTLINE_APERTURE]]),
+    format: { units: 'mm', coordinateFormat: [4, 6] },
+    boundingBox: calculateBoundingBox({ commands } as ParsedGerber),
+  };
+
+  return {
+    id: generateId(),
+    filename,
+    type: 'outline',
+    color: getLayerColor('outline'),
+    visible: true,
+    // Kein Gerber-Inhalt: parsedData wird direkt im Projekt gespeichert
+    rawContent: '',
+    parsedData,
+    diagnostics: drawing.diagnostics,
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { isExcellonContent, parseExcellon } from './excellon-parser';
+
+/** Excellon-Datei mit Header (METRIC, ein Werkzeug) um den Programmteil */
+function excellon(body: string, header = 'METRIC\nT1C0.800'): string {
+  return `M48\n${header}\n%\nT1\n${body}\nM30`;
+}
+
+function tool(content: string) {
+  return parseExcellon(content).drill!.tools[0];
+}
+
+describe('parseExcellon', () => {
+  it('erkennt Excellon am M48-Header', () => {
+    expect(isExcellonContent('; Kommentar\nM48\nMETRIC')).toBe(true);
+    expect(isExcellonContent('%FSLAX26Y26*%')).toBe(false);
+  });
+
+  it('liest Werkzeugtabelle, Plated-Attribut und Bohrungen', () => {
+    const data = parseExcellon(`M48
+; #@! TF.FileFunction,NonPlated,1,2,NPTH
+METRIC
+T1C3.000
+%
+T1
+X10.0Y5.0
+M30`);
+    const t = data.drill!.tools[0];
+    expect(t.diameter).toBe(3);
+    expect(t.plated).toBe(false);
+    expect(t.holes).toEqual([{ x: 10, y: 5 }]);
+  });
+
+  it('rechnet INCH mit führenden Nullen (LZ) in mm um', () => {
+    const t = tool(excellon('X01Y005', 'INCH,LZ\nT1C0.0315'));
+    expect(t.diameter).toBeCloseTo(0.8001);
+    expect(t.holes[0].x).toBeCloseTo(25.4);
+    expect(t.holes[0].y).toBeCloseTo(12.7);
+  });
+
+  it('übernimmt G85-Langlöcher mit Start und Ende', () => {
+    const t = tool(excellon('X1.0Y1.0G85X5.0Y1.0'));
+    expect(t.holes).toHaveLength(0);
+    expect(t.slots).toEqual([{ start: { x: 1, y: 1 }, end: { x: 5, y: 1 } }]);
+  });
+
+  it('behandelt G93 als Nullpunkt, nicht als Bohrung', () => {
+    const t = tool(excellon('G93X10.0Y5.0\nX1.0Y1.0'));
+    expect(t.holes).toEqual([{ x: 11, y: 6 }]);
+  });
+
+  it('fräst Langlöcher nur mit abgesenktem Werkzeug (M15/M16)', () => {
+    const t = tool(excellon('G00X0.0Y0.0\nG01X5.0Y0.0\nM15\nX5.0Y5.0\nM16\nX0.0Y5.0'));
+    expect(t.slots).toEqual([{ start: { x: 5, y: 0 }, end: { x: 5, y: 5 } }]);
+  });
+
+  it.each([
+    ['I/J', 'G03X0.0Y10.0I-10.0J0.0', 10],
+    ['Radius A', 'G03X0.0Y10.0A10.0', 10],
+  ])('zerlegt gefräste Bögen (%s) in Sehnen auf dem Kreis', (_, arc, radius) => {
+    const t = tool(excellon(`G00X10.0Y0.0\nM15\n${arc}\nM16`));
+    expect(t.slots.length).toBeGreaterThan(1);
+    expect(t.slots[t.slots.length - 1].end).toEqual({ x: 0, y: 10 });
+    for (const slot of t.slots) {
+      expect(Math.hypot(slot.end.x, slot.end.y)).toBeCloseTo(radius);
+    }
+  });
+
+  it('fräst G02 im Uhrzeigersinn um den anderen Mittelpunkt', () => {
+    const t = tool(excellon('G00X10.0Y0.0\nM15\nG02X0.0Y10.0A10.0\nM16'));
+    for (const slot of t.slots) {
+      expect(Math.hypot(slot.end.x - 10, slot.end.y - 10)).toBeCloseTo(10);
+    }
+  });
+});
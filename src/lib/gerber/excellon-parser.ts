@@ -0,0 +1,437 @@
+/**
+ * Excellon Parser - Eigener Parser für NC-Bohrdateien
+ *
+ * Der tracespace Parser ist auf Gerber ausgelegt und liefert für Bohrdateien
+ * nur generische Commands (Langlöcher ohne Werkzeugbreite, Formate geraten).
+ * Dieser Parser liest Excellon direkt:
+ * - METRIC/INCH bzw. M71/M72, mit LZ/TZ und explizitem Format (z.B. "METRIC,TZ,000.000")
+ * - Format-Kommentare von KiCad/Altium (";FILE_FORMAT=4:4")
+ * - Werkzeugtabelle (T1C0.300) mit X2-Attributen für Plated/NonPlated
+ * - Bohrungen, G85-Langlöcher und gefräste Langlöcher (G00-G03 mit M15/M16,
+ *   Bögen werden in Sehnen zerlegt)
+ * - Absolute (G90) und inkrementelle (G91/ICI) Koordinaten, Nullpunkt setzen (G93)
+ *
+ * Ergebnis ist ein ParsedGerber mit Flash-/Line-Commands für die Darstellung
+ * und der strukturierten Bohrliste pro Werkzeug (parsedData.drill).
+ */
+
+import type { Aperture, BoundingBox, DrillTool, GerberCommand, ImportDiagnostic, ParsedGerber, Point } from '@/types';
+
+// ============================================================================
+// Typen und Konstanten
+// ============================================================================
+
+/**
+ * Nullen-Unterdrückung: LZ = führende Nullen vorhanden (hintere weggelassen),
+ * TZ = hintere Nullen vorhanden (führende weggelassen)
+ */
+type ZeroFormat = 'LZ' | 'TZ';
+
+/**
+ * Zustand während des Parsens
+ */
+interface ExcellonState {
+  units: 'mm' | 'in';
+  zeros: ZeroFormat | null;
+  format: [number, number] | null;
+  inHeader: boolean;
+  incremental: boolean;
+  /** 'drill' = Koordinaten sind Bohrungen, 'rout' = Koordinaten sind Fräswege */
+  mode: 'drill' | 'rout';
+  /** Im Fräsmodus: G00 (Eilgang), G01 (Gerade), G02/G03 (Bogen im/gegen Uhrzeigersinn) */
+  motion: 'move' | 'linear' | 'cw' | 'ccw';
+  toolDown: boolean;
+  currentTool: DrillTool | null;
+  position: Point;
+  /** Mit G93 gesetzter Nullpunkt (mm), Bezug der absoluten Koordinaten */
+  origin: Point;
+  /** Plated-Attribut für das nächste Werkzeug (aus "; #@! TA.AperFunction,...") */
+  pendingPlated: boolean | undefined;
+  /** Plated-Attribut der ganzen Datei (aus "; #@! TF.FileFunction,...") */
+  filePlated: boolean | undefined;
+  /** Für die Diagnose: angetroffene Einheiten und Koordinaten ohne Dezimalpunkt */
+  unitsSeen: Set<'mm' | 'in'>;
+  usedImplicitFormat: boolean;
+}
+
+/** Maximaler Winkelschritt beim Zerlegen gefräster Bögen in Sehnen */
+const ARC_STEP_RAD = Math.PI / 16;
+
+/** Standard-Formate [Vorkomma, Nachkomma], falls die Datei keines angibt */
+const DEFAULT_FORMATS: Record<'mm' | 'in', [number, number]> = {
+  mm: [3, 3],
+  in: [2, 4],
+};
+
+// ============================================================================
+// Hilfsfunktionen
+// ============================================================================
+
+/**
+ * Prüft ob ein Dateiinhalt eine Excellon-Datei ist (Header beginnt mit M48)
+ */
+export function isExcellonContent(content: string): boolean {
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) continue;
+    return line === 'M48';
+  }
+  return false;
+}
+
+/**
+ * Rechnet einen Koordinaten-String in Datei-Einheiten um
+ *
+ * Mit Dezimalpunkt wird der Wert direkt gelesen. Ohne Dezimalpunkt gilt das
+ * Format: bei LZ zählen die Stellen von links, sonst von rechts.
+ */
+function parseCoordinate(raw: string, state: ExcellonState): number {
+  if (raw.includes('.')) return parseFloat(raw);
+  if (!state.format) state.usedImplicitFormat = true;
+
+  const sign = raw.startsWith('-') ? -1 : 1;
+  const digits = raw.replace(/^[+-]/, '');
+  if (!digits) return 0;
+
+  const [intDigits, decDigits] = state.format || DEFAULT_FORMATS[state.units];
+  const value = parseInt(digits, 10);
+  return state.zeros === 'LZ'
+    ? sign * value * Math.pow(10, intDigits - digits.length)
+    : sign * value / Math.pow(10, decDigits);
+}
+
+/**
+ * Liest X/Y aus einem Koordinaten-Abschnitt; fehlende Achsen bleiben modal
+ */
+function parsePoint(text: string, from: Point, state: ExcellonState): Point | null {
+  const xMatch = text.match(/X([+-]?[\d.]+)/);
+  const yMatch = text.match(/Y([+-]?[\d.]+)/);
+  if (!xMatch && !yMatch) return null;
+
+  const scale = state.units === 'in' ? 25.4 : 1;
+  const read = (match: RegExpMatchArray | null, previous: number, origin: number) => {
+    if (!match) return previous;
+    const value = parseCoordinate(match[1], state) * scale;
+    return state.incremental ? previous + value : origin + value;
+  };
+  return { x: read(xMatch, from.x, state.origin.x), y: read(yMatch, from.y, state.origin.y) };
+}
+
+/**
+ * Liest den Nullpunkt aus einer G93-Zeile ("G93X10.0Y5.0"); fehlende Achsen sind 0
+ */
+function parseZeroSet(text: string, state: ExcellonState): Point {
+  const scale = state.units === 'in' ? 25.4 : 1;
+  const read = (match: RegExpMatchArray | null) => (match ? parseCoordinate(match[1], state) * scale : 0);
+  return { x: read(text.match(/X([+-]?[\d.]+)/)), y: read(text.match(/Y([+-]?[\d.]+)/)) };
+}
+
+/**
+ * Zerlegt einen gefrästen Bogen (G02/G03) in Punkte (ohne Startpunkt, mit Endpunkt)
+ *
+ * Der Mittelpunkt kommt aus I/J (relativ zum Start) oder aus dem Radius A
+ * (kürzerer Bogen). Ohne beides bleibt es bei der Geraden zum Endpunkt.
+ */
+function arcPoints(text: string, start: Point, end: Point, clockwise: boolean, state: ExcellonState): Point[] {
+  const scale = state.units === 'in' ? 25.4 : 1;
+  const read = (axis: string) => {
+    const match = text.match(new RegExp(`${axis}([+-]?[\\d.]+)`));
+    return match ? parseCoordinate(match[1], state) * scale : null;
+  };
+  const i = read('I');
+  const j = read('J');
+  const radius = read('A');
+
+  let center: Point;
+  if (i !== null || j !== null) {
+    center = { x: start.x + (i ?? 0), y: start.y + (j ?? 0) };
+  } else if (radius !== null) {
+    // Kürzerer Bogen: Mittelpunkt links der Sehne (G03) bzw. rechts davon (G02)
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const chord = Math.hypot(dx, dy);
+    if (chord === 0) return [end];
+    const h = Math.sqrt(Math.max(0, radius * radius - (chord / 2) ** 2)) * (clockwise ? -1 : 1);
+    center = { x: (start.x + end.x) / 2 - (dy / chord) * h, y: (start.y + end.y) / 2 + (dx / chord) * h };
+  } else {
+    return [end];
+  }
+
+  const r = Math.hypot(start.x - center.x, start.y - center.y);
+  const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+  let sweep = Math.atan2(end.y - center.y, end.x - center.x) - startAngle;
+  // Gleicher Start und Ende = Vollkreis
+  if (clockwise && sweep >= 0) sweep -= 2 * Math.PI;
+  if (!clockwise && sweep <= 0) sweep += 2 * Math.PI;
+
+  const steps = Math.max(1, Math.ceil(Math.abs(sweep) / ARC_STEP_RAD));
+  const points: Point[] = [];
+  for (let k = 1; k < steps; k++) {
+    const angle = startAngle + (sweep * k) / steps;
+    points.push({ x: center.x + r * Math.cos(angle), y: center.y + r * Math.sin(angle) });
+  }
+  points.push(end);
+  return points;
+}
+
+/**
+ * Liest eine Werkzeugdefinition bzw. -auswahl ("T1C0.3", "T01F00S00C0.0300", "T01")
+ */
+function parseToolLine(line: string): { code: string; diameter: number | null } | null {
+  const match = line.match(/^T(\d+)((?:[A-Z][+-]?[\d.]*)*)$/);
+  if (!match) return null;
+  const diameter = match[2].match(/C([\d.]+)/);
+  return {
+    code: String(parseInt(match[1], 10)),
+    diameter: diameter ? parseFloat(diameter[1]) : null,
+  };
+}
+
+// ============================================================================
+// Hauptfunktion
+// ============================================================================
+
+/**
+ * Parst den Inhalt einer Excellon-Bohrdatei
+ *
+ * @param content - Dateiinhalt
+ * @param diagnostics - Optional: sammelt Annahmen und Auffälligkeiten
+ * @returns Geparste Daten mit Commands (mm) und Bohrliste pro Werkzeug
+ */
+export function parseExcellon(content: string, diagnostics: ImportDiagnostic[] = []): ParsedGerber {
+  const tools = new Map<string, DrillTool>();
+  const state: ExcellonState = {
+    units: 'mm',
+    zeros: null,
+    format: null,
+    inHeader: false,
+    incremental: false,
+    mode: 'drill',
+    motion: 'move',
+    toolDown: false,
+    currentTool: null,
+    position: { x: 0, y: 0 },
+    origin: { x: 0, y: 0 },
+    pendingPlated: undefined,
+    filePlated: undefined,
+    unitsSeen: new Set(),
+    usedImplicitFormat: false,
+  };
+  let holesWithoutTool = 0;
+
+  // Werkzeug anlegen bzw. aktualisieren (Durchmesser in Datei-Einheiten)
+  const defineTool = (code: string, diameter: number): DrillTool => {
+    const tool = tools.get(code) || { code, diameter: 0, holes: [], slots: [] };
+    tool.diameter = diameter * (state.units === 'in' ? 25.4 : 1);
+    const plated = state.pendingPlated ?? state.filePlated;
+    if (plated !== undefined) tool.plated = plated;
+    state.pendingPlated = undefined;
+    tools.set(code, tool);
+    return tool;
+  };
+
+  const addSlot = (start: Point, end: Point) => {
+    if (state.currentTool && (start.x !== end.x || start.y !== end.y)) {
+      state.currentTool.slots.push({ start, end });
+    }
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // ---- Kommentare (Format und X2-Attribute) ----
+    if (line.startsWith(';')) {
+      const fileFormat = line.match(/FILE_FORMAT=(\d+):(\d+)/i);
+      const fileFunction = line.match(/#@!\s*TF\.FileFunction,(NonPlated|Plated)/);
+      const aperFunction = line.match(/#@!\s*TA\.AperFunction,(NonPlated|Plated)/);
+      if (fileFormat) state.format = [parseInt(fileFormat[1], 10), parseInt(fileFormat[2], 10)];
+      if (fileFunction) state.filePlated = fileFunction[1] === 'Plated';
+      if (aperFunction) state.pendingPlated = aperFunction[1] === 'Plated';
+      continue;
+    }
+
+    const upper = line.toUpperCase();
+
+    // ---- Header-Anfang/-Ende ----
+    if (upper === 'M48') {
+      state.inHeader = true;
+      continue;
+    }
+    if (upper === '%' || upper === 'M95') {
+      state.inHeader = false;
+      continue;
+    }
+
+    // ---- Einheiten und Format ----
+    const unitsMatch = upper.match(/^(METRIC|INCH)(?:,(LZ|TZ))?(?:,(0*)\.(0*))?/);
+    if (unitsMatch) {
+      state.units = unitsMatch[1] === 'METRIC' ? 'mm' : 'in';
+      state.unitsSeen.add(state.units);
+      if (unitsMatch[2]) state.zeros = unitsMatch[2] as ZeroFormat;
+      if (unitsMatch[3] !== undefined && unitsMatch[4] !== undefined) {
+        state.format = [unitsMatch[3].length, unitsMatch[4].length];
+      }
+      continue;
+    }
+    if (upper === 'M71') { state.units = 'mm'; state.unitsSeen.add('mm'); continue; }
+    if (upper === 'M72') { state.units = 'in'; state.unitsSeen.add('in'); continue; }
+    if (upper === 'ICI,ON' || upper === 'G91') { state.incremental = true; continue; }
+    if (upper === 'ICI,OFF' || upper === 'G90') { state.incremental = false; continue; }
+    // G93: Nullpunkt setzen - keine Bohrung, auch wenn die Zeile Koordinaten enthält
+    if (upper.startsWith('G93')) { state.origin = parseZeroSet(upper.slice(3), state); continue; }
+
+    // ---- Werkzeuge ----
+    const tool = parseToolLine(upper);
+    if (tool) {
+      if (tool.diameter !== null) {
+        const defined = defineTool(tool.code, tool.diameter);
+        // Definition im Programmteil wählt das Werkzeug gleich aus
+        if (!state.inHeader) state.currentTool = defined;
+      } else {
+        state.currentTool = tool.code === '0' ? null : tools.get(tool.code) || defineTool(tool.code, 0);
+      }
+      continue;
+    }
+    if (state.inHeader) continue;
+
+    // ---- Programmteil ----
+    if (upper === 'M30' || upper === 'M00') break;
+    if (upper === 'M15') { state.toolDown = true; continue; }
+    if (upper === 'M16' || upper === 'M17') { state.toolDown = false; continue; }
+
+    // G85-Langloch: Start und Ende in einer Zeile
+    const g85 = upper.indexOf('G85');
+    if (g85 >= 0) {
+      const start = parsePoint(upper.slice(0, g85), state.position, state);
+      const end = start && parsePoint(upper.slice(g85 + 3), start, state);
+      if (start && end) {
+        addSlot(start, end);
+        state.position = end;
+      }
+      continue;
+    }
+
+    // G-Code am Zeilenanfang (Modus-Wechsel)
+    const gCode = upper.match(/^G(\d+)/);
+    if (gCode) {
+      switch (parseInt(gCode[1], 10)) {
+        case 0:
+          state.mode = 'rout';
+          state.motion = 'move';
+          break;
+        case 1:
+          state.mode = 'rout';
+          state.motion = 'linear';
+          break;
+        case 2:
+          state.mode = 'rout';
+          state.motion = 'cw';
+          break;
+        case 3:
+          state.mode = 'rout';
+          state.motion = 'ccw';
+          break;
+        case 5:
+        case 81:
+          state.mode = 'drill';
+          state.toolDown = false;
+          break;
+      }
+    }
+
+    const point = parsePoint(upper, state.position, state);
+    if (!point) continue;
+
+    if (state.mode === 'drill') {
+      if (state.currentTool) state.currentTool.holes.push(point);
+      else holesWithoutTool++;
+    } else if (state.motion === 'linear' && state.toolDown) {
+      addSlot(state.position, point);
+    } else if (state.motion !== 'move' && state.toolDown) {
+      // Bogen als Folge kurzer Langlöcher
+      let from = state.position;
+      for (const to of arcPoints(upper, state.position, point, state.motion === 'cw', state)) {
+        addSlot(from, to);
+        from = to;
+      }
+    }
+    state.position = point;
+  }
+
+  // Diagnose: Annahmen und Auffälligkeiten festhalten
+  const toolList = Array.from(tools.values());
+  if (state.unitsSeen.size === 0) {
+    diagnostics.push({ severity: 'warning', message: 'Keine Einheit (METRIC/INCH) - mm angenommen.' });
+  } else if (state.unitsSeen.size > 1) {
+    diagnostics.push({ severity: 'warning', message: 'Gemischte Einheiten (METRIC und INCH) in der Bohrdatei.' });
+  }
+  if (state.usedImplicitFormat) {
+    const [intDigits, decDigits] = DEFAULT_FORMATS[state.units];
+    diagnostics.push({
+      severity: 'info',
+      message: `Koordinaten ohne Dezimalpunkt und ohne Formatangabe - Format ${intDigits}.${decDigits} (${state.zeros || 'TZ'}) angenommen.`,
+    });
+  }
+  const undefinedTools = toolList.filter((t) => !t.diameter && (t.holes.length > 0 || t.slots.length > 0));
+  if (undefinedTools.length > 0) {
+    diagnostics.push({
+      severity: 'error',
+      message: `Werkzeuge ohne Durchmesser verwendet: ${undefinedTools.map((t) => `T${t.code}`).join(', ')}.`,
+    });
+  }
+  if (holesWithoutTool > 0) {
+    diagnostics.push({ severity: 'warning', message: `${holesWithoutTool} Bohrungen ohne gewähltes Werkzeug ignoriert.` });
+  }
+
+  return drillToolsToParsedGerber(toolList, state);
+}
+
+/**
+ * Baut aus der Bohrliste die Commands für die Darstellung
+ * (Bohrung = Flash, Langloch = Linie mit Werkzeugdurchmesser)
+ */
+function drillToolsToParsedGerber(tools: DrillTool[], state: ExcellonState): ParsedGerber {
+  const commands: GerberCommand[] = [];
+  const apertures = new Map<string, Aperture>();
+
+  for (const tool of tools) {
+    apertures.set(tool.code, { id: tool.code, type: 'circle', diameter: tool.diameter });
+    for (const hole of tool.holes) {
+      commands.push({ type: 'flash', endPoint: { ...hole }, apertureId: tool.code });
+    }
+    for (const slot of tool.slots) {
+      commands.push({
+        type: 'line',
+        startPoint: { ...slot.start },
+        endPoint: { ...slot.end },
+        apertureId: tool.code,
+      });
+    }
+  }
+
+  const boundingBox: BoundingBox = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const command of commands) {
+    for (const p of [command.startPoint, command.endPoint]) {
+      if (!p) continue;
+      boundingBox.minX = Math.min(boundingBox.minX, p.x);
+      boundingBox.minY = Math.min(boundingBox.minY, p.y);
+      boundingBox.maxX = Math.max(boundingBox.maxX, p.x);
+      boundingBox.maxY = Math.max(boundingBox.maxY, p.y);
+    }
+  }
+
+  return {
+    format: {
+      units: 'mm',
+      coordinateFormat: state.format || DEFAULT_FORMATS[state.units],
+    },
+    commands,
+    apertures,
+    boundingBox: commands.length > 0 ? boundingBox : { minX: 0, minY: 0, maxX: 0, maxY: 0 },
+    drill: {
+      sourceUnits: state.units,
+      tools: tools.filter((t) => t.holes.length > 0 || t.slots.length > 0),
+    },
+  };
+}
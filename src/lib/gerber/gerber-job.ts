@@ -0,0 +1,129 @@
+/**
+ * Gerber-Jobdatei (.gbrjob) - Layer-Zuordnung und Leiterplatten-Spezifikation
+ *
+ * Die Jobdatei ist JSON (Gerber-Spezifikation, "Gerber Job Format") und
+ * beschreibt das ganze Fertigungspaket:
+ * - FilesAttributes: jede Gerber-Datei mit ihrer FileFunction
+ * - GeneralSpecs: Design-Name, Leiterplattendicke, Anzahl Lagen
+ * - MaterialStackup: Lagenaufbau mit Dicken
+ *
+ * Beim Import liefert sie die Layer-Typen auch für Dateien ohne X2-Attribute
+ * und die Werte für das Titelfeld der Maßzeichnung.
+ */
+
+import type { GerberJob, GerberJobStackupLayer } from '@/types';
+
+// ============================================================================
+// Typen (Rohformat der Jobdatei)
+// ============================================================================
+
+/**
+ * Die Felder der Jobdatei, die wir auswerten (alle optional, da je nach
+ * CAD-Programm unterschiedlich vollständig)
+ */
+interface RawGerberJob {
+  GeneralSpecs?: {
+    ProjectId?: { Name?: string };
+    LayerNumber?: number;
+    BoardThickness?: number;
+  };
+  FilesAttributes?: Array<{
+    Path?: string;
+    FileFunction?: string;
+    FilePolarity?: string;
+  }>;
+  MaterialStackup?: Array<{
+    Type?: string;
+    Name?: string;
+    Material?: string;
+    Thickness?: number;
+  }>;
+}
+
+// ============================================================================
+// Parsen
+// ============================================================================
+
+/**
+ * Prüft ob eine Datei eine Gerber-Jobdatei ist
+ */
+export function isGerberJobFile(filename: string): boolean {
+  return filename.toLowerCase().endsWith('.gbrjob');
+}
+
+/**
+ * Liest eine Gerber-Jobdatei
+ *
+ * @param content - Dateiinhalt (JSON)
+ * @returns Die Job-Angaben oder null bei ungültigem Inhalt
+ */
+export function parseGerberJob(content: string): GerberJob | null {
+  let raw: RawGerberJob;
+  try {
+    raw = JSON.parse(content) as RawGerberJob;
+  } catch (error) {
+    console.warn('Gerber-Jobdatei ist kein gültiges JSON:', error);
+    return null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+
+  const specs = raw.GeneralSpecs || {};
+  const files = (raw.FilesAttributes || [])
+    .filter((f) => f.Path && f.FileFunction)
+    .map((f) => ({
+      path: f.Path as string,
+      fileFunction: f.FileFunction as string,
+      filePolarity: f.FilePolarity,
+    }));
+  const stackup: GerberJobStackupLayer[] = (raw.MaterialStackup || [])
+    .filter((l) => l.Type)
+    .map((l) => ({
+      type: l.Type as string,
+      name: l.Name,
+      material: l.Material,
+      thickness: typeof l.Thickness === 'number' ? l.Thickness : undefined,
+    }));
+
+  return {
+    designName: specs.ProjectId?.Name || undefined,
+    boardThickness: typeof specs.BoardThickness === 'number' ? specs.BoardThickness : undefined,
+    copperLayerCount: typeof specs.LayerNumber === 'number' ? specs.LayerNumber : undefined,
+    files,
+    stackup,
+  };
+}
+
+// ============================================================================
+// Auswertung
+// ============================================================================
+
+/**
+ * Sucht die FileFunction einer Datei in der Jobdatei
+ *
+ * Verglichen wird nur der Dateiname (ohne Ordner, ohne Gross-/Kleinschreibung),
+ * da die Pfade in der Jobdatei relativ zum Ausgabeordner des CAD sind.
+ */
+export function getJobFileFunction(job: GerberJob, filename: string): string | null {
+  const name = filename.split('/').pop()?.toLowerCase();
+  const entry = job.files.find((f) => f.path.split(/[\\/]/).pop()?.toLowerCase() === name);
+  return entry ? entry.fileFunction : null;
+}
+
+/**
+ * Leiterplattendicke und Kupferdicke für das Titelfeld der Maßzeichnung
+ *
+ * Die Kupferdicke stammt von den Innenlagen, bei zweilagigen Boards von
+ * der ersten Kupferlage. Fehlende Angaben bleiben undefined.
+ */
+export function getJobDrawingSpecs(job: GerberJob): { pcbThickness?: string; copperWeight?: string } {
+  const copper = job.stackup.filter((l) => l.type.toLowerCase() === 'copper' && l.thickness);
+  const inner = copper.length > 2 ? copper.slice(1, -1) : copper;
+  const copperThickness = inner[0]?.thickness;
+
+  // Auf sinnvolle Stellen runden, ohne nachlaufende Nullen ("1.6", "0.0175")
+  const format = (value: number) => String(Number(value.toFixed(4)));
+  return {
+    pcbThickness: job.boardThickness ? format(job.boardThickness) : undefined,
+    copperWeight: copperThickness ? format(copperThickness) : undefined,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Import-Diagnose - Auffälligkeiten der importierten Dateien sammeln
+ *
+ * Der Parser hält pro Datei fest, was er annehmen oder überspringen musste
+ * (fehlendes Format, unbekannte Befehle, nicht definierte Apertures).
+ * Dieses Modul ergänzt die Prüfungen, die erst mit allen Layern möglich sind
+ * (leere Layer, unplausible Grösse, Layer neben der Outline), und erstellt
+ * den Diagnose-Bericht zum Herunterladen.
+ */
+
+import type { BoundingBox, GerberFile, ImportDiagnostic } from '@/types';
+import { getLayerLabel } from './layer-detector';
+
+// ============================================================================
+// Konstanten
+// ============================================================================
+
+/** Grösser als das wird kein Board sein (mm) - Skalierung vermutlich falsch */
+const MAX_PLAUSIBLE_SIZE = 1000;
+
+/** Kleiner als das ist verdächtig (mm) - Koordinatenformat vermutlich falsch */
+const MIN_PLAUSIBLE_SIZE = 0.5;
+
+/** Reihenfolge der Schweregrade (für Sortierung und "schlimmster Eintrag") */
+const SEVERITY_RANK: Record<ImportDiagnostic['severity'], number> = {
+  error: 3,
+  warning: 2,
+  info: 1,
+};
+
+/** Bezeichnungen im Bericht */
+const SEVERITY_LABELS: Record<ImportDiagnostic['severity'], string> = {
+  error: 'FEHLER',
+  warning: 'WARNUNG',
+  info: 'INFO',
+};
+
+// ============================================================================
+// Hilfsfunktionen
+// ============================================================================
+
+function overlaps(a: BoundingBox, b: BoundingBox): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
+
+/**
+ * Gibt den schwersten Schweregrad einer Liste zurück (null = keine Meldungen)
+ */
+export function getWorstSeverity(diagnostics: ImportDiagnostic[] | undefined): ImportDiagnostic['severity'] | null {
+  if (!diagnostics || diagnostics.length === 0) return null;
+  return diagnostics.reduce((worst, d) => (SEVERITY_RANK[d.severity] > SEVERITY_RANK[worst] ? d.severity : worst), diagnostics[0].severity);
+}
+
+// ============================================================================
+// Prüfungen über alle Layer
+// ============================================================================
+
+/**
+ * Ergänzt die Diagnose der Layer um Prüfungen, die alle Layer brauchen
+ *
+ * - Layer ohne Grafik (leer)
+ * - Unplausibel grosse oder kleine Ausdehnung
+ * - Layer, die nicht mit der Outline überlappen
+ *
+ * @param layers - Geparste, noch nicht normalisierte Layer eines Boards
+ * @returns Die Layer mit ergänzten Diagnosen
+ */
+export function diagnoseLayerSet(layers: GerberFile[]): GerberFile[] {
+  const outline = layers.find((l) => l.type === 'outline' && l.parsedData && l.parsedData.commands.length > 0);
+
+  return layers.map((layer) => {
+    const diagnostics: ImportDiagnostic[] = [...(layer.diagnostics || [])];
+    const data = layer.parsedData;
+
+    if (data && data.commands.length === 0) {
+      diagnostics.push({ severity: 'warning', message: 'Layer enthält keine Grafik (leer).' });
+    }
+
+    if (data && data.commands.length > 0) {
+      const width = data.boundingBox.maxX - data.boundingBox.minX;
+      const height = data.boundingBox.maxY - data.boundingBox.minY;
+      const size = Math.max(width, height);
+
+      if (size > MAX_PLAUSIBLE_SIZE) {
+        diagnostics.push({
+          severity: 'error',
+          message: `Unplausible Grösse ${width.toFixed(1)} x ${height.toFixed(1)} mm - Einheit oder Koordinatenformat prüfen.`,
+        });
+      } else if (size < MIN_PLAUSIBLE_SIZE && data.commands.length > 1) {
+        diagnostics.push({
+          severity: 'warning',
+          message: `Sehr kleine Ausdehnung ${width.toFixed(3)} x ${height.toFixed(3)} mm - Koordinatenformat prüfen.`,
+        });
+      }
+
+      if (outline && layer !== outline && outline.parsedData && !overlaps(data.boundingBox, outline.parsedData.boundingBox)) {
+        diagnostics.push({
+          severity: 'warning',
+          message: 'Liegt ausserhalb der Board-Outline (Versatz oder falsche Einheit?).',
+        });
+      }
+    }
+
+    return { ...layer, diagnostics };
+  });
+}
+
+// ============================================================================
+// Bericht
+// ============================================================================
+
+/**
+ * Erstellt den Diagnose-Bericht als Text
+ *
+ * @param layers - Die importierten Layer (mit Diagnosen)
+ * @param sourceName - Name der importierten Datei (ZIP)
+ * @param date - Erstellungsdatum (Standard: jetzt)
+ */
+export function generateDiagnosticsReport(layers: GerberFile[], sourceName: string, date: Date = new Date()): string {
+  const counts = { error: 0, warning: 0, info: 0 };
+  for (const layer of layers) {
+    for (const d of layer.diagnostics || []) counts[d.severity]++;
+  }
+
+  const lines = [
+    `PCB Panelizer - Import-Diagnose ${sourceName}`,
+    `Erstellt: ${date.toLocaleString('de-CH')}`,
+    `${layers.length} Dateien, ${counts.error} Fehler, ${counts.warning} Warnungen, ${counts.info} Hinweise`,
+    '',
+  ];
+
+  for (const layer of layers) {
+    const commandCount = layer.parsedData ? layer.parsedData.commands.length : 0;
+    lines.push(`${layer.filename}  [${getLayerLabel(layer.type)}, ${commandCount} Objekte]`);
+
+    const sorted = (layer.diagnostics || [])
+      .slice()
+      .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+    if (sorted.length === 0) {
+      lines.push('  OK');
+    }
+    for (const d of sorted) {
+      lines.push(`  ${SEVERITY_LABELS[d.severity].padEnd(8)} ${d.message}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
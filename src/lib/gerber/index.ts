@@ -3,6 +3,14 @@
  *
  * Dieses Modul bündelt alle Gerber-bezogenen Funktionen:
  * - Parser: Gerber-Dateien einlesen und parsen
+ * - Parse-Worker: Parsen im Hintergrund mit Fortschritt und Abbruch
+ * - Aperture-Makros: AM-Definitionen auswerten
+ * - Excellon-Parser: Bohrdateien mit Werkzeugtabelle einlesen
+ * - Gerber-Jobdatei: Layer-Zuordnung und Spezifikation aus .gbrjob
+ * - DXF-Kontur: Board-Outline aus einer DXF-Zeichnung
+ * - KiCad-Parser: Board direkt aus einer .kicad_pcb Datei
+ * - Outline-Konturen: Outline-Segmente zu Schleifen verketten
+ * - Import-Diagnose: Auffälligkeiten prüfen und als Bericht ausgeben
  * - Layer-Detector: Automatische Layer-Erkennung
  * - ZIP-Handler: ZIP-Archive verarbeiten
  */
@@ -14,13 +22,58 @@ export {
   calculateBoundingBox,
   calculateCombinedBoundingBox,
   extractBoardOutline,
+  extractBoardContours,
   isGerberFile,
   normalizeGerberLayers,
+  replaceOutlineLayer,
+  getCommandPolarity,
+  hasClearPolarity,
 } from './parser';
 
+// Parse-Worker
+export {
+  parseGerberFilesInWorker,
+  normalizeGerberLayersInWorker,
+  parseKicadPcbInWorker,
+  type ParseProgress,
+} from './parse-worker-client';
+
+// Aperture-Makros
+export { evaluateApertureMacro } from './aperture-macro';
+
+// Excellon-Parser
+export { parseExcellon, isExcellonContent } from './excellon-parser';
+
+// Gerber-Jobdatei
+export { parseGerberJob, isGerberJobFile, getJobDrawingSpecs } from './gerber-job';
+
+// DXF-Kontur
+export {
+  parseDxf,
+  isDxfFile,
+  createDxfOutlineLayer,
+  DXF_UNIT_SCALE,
+  type DxfUnit,
+  type DxfAlignment,
+  type DxfDrawing,
+} from './dxf-parser';
+
+// KiCad-Parser
+export { parseKicadPcb, isKicadPcbFile, type KicadPcb } from './kicad-parser';
+
+// Outline-Konturen
+export { assembleOutlineContours, contourToPoints, contourToCommands } from './outline-contours';
+
+// Import-Diagnose
+export { diagnoseLayerSet, getWorstSeverity, generateDiagnosticsReport } from './import-diagnostics';
+
 // Layer-Detector
 export {
   detectLayerType,
+  detectLayer,
+  refineLayerDetection,
+  matchLayerMappingRule,
+  layerRuleToRegExp,
   getLayerColor,
   getAllLayerTypes,
   getLayerLabel,
@@ -33,4 +86,5 @@ export {
   isZipFile,
   validateGerberFiles,
   type ZipExtractionResult,
+  type ZipDesignGroup,
 } from './zip-handler';
@@ -0,0 +1,934 @@
+/**
+ * KiCad-Parser - Board direkt aus einer .kicad_pcb Datei
+ *
+ * Statt über den Gerber-Export zu gehen, wird die Leiterplatten-Datei von
+ * KiCad (S-Expressions) direkt gelesen. Daraus entstehen synthetische Layer
+ * (ohne rawContent, parsedData wird im Projekt gespeichert):
+ * - Edge.Cuts als Outline (Linien, Bögen, Kreise, Rechtecke, Polygone)
+ * - Kupfer-Layer aus Pads, Leiterbahnen, Vias und gefüllten Zonen
+ * - Lötstopp, Paste und Bestückungsdruck aus Pads und Grafiken
+ * - Bohrungen (PTH/NPTH) aus Pads und Vias
+ *
+ * Dazu kommen die Footprint-Positionen und die Leiterplattendicke samt
+ * Lagenaufbau mit den KiCad-Layernamen, die beim Gerber-Export verloren gehen.
+ *
+ * KiCad rechnet mit Y nach unten; alle Koordinaten werden beim Lesen in
+ * Gerber-Koordinaten (mm, Y nach oben) umgerechnet. Texte werden nicht
+ * dargestellt.
+ */
+
+import type {
+  Aperture,
+  BoardComponent,
+  DrillTool,
+  GerberCommand,
+  GerberFile,
+  GerberJob,
+  GerberJobStackupLayer,
+  GerberLayerType,
+  ImportDiagnostic,
+  ParsedGerber,
+  Point,
+} from '@/types';
+import { generateId } from '@/lib/utils';
+import { getLayerColor } from './layer-detector';
+import { calculateBoundingBox } from './parser';
+
+// ============================================================================
+// Typen und Konstanten
+// ============================================================================
+
+/**
+ * Ergebnis des Imports einer .kicad_pcb Datei
+ */
+export interface KicadPcb {
+  /** Synthetische Layer (Kupfer, Lötstopp, Paste, Bestückungsdruck, Outline, Bohrungen) */
+  layers: GerberFile[];
+  /** Footprint-Positionen (Gerber-Koordinaten, noch nicht normalisiert) */
+  components: BoardComponent[];
+  /** Design-Name, Leiterplattendicke und Lagenaufbau wie aus einer Gerber-Jobdatei */
+  gerberJob: GerberJob;
+  /** Auffälligkeiten beim Lesen (z.B. fehlende Kontur, nicht dargestellte Texte) */
+  diagnostics: ImportDiagnostic[];
+}
+
+/** S-Expression: Atom (Zahl, Symbol, String) oder Liste */
+type SExpr = string | SExpr[];
+
+/** Lage und Drehung eines Footprints (KiCad-Koordinaten, Grad gegen den Uhrzeigersinn) */
+interface Placement {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+/** Ein entstehender Layer mit seinen Befehlen und Apertures */
+interface LayerBuilder {
+  /** KiCad-Layername (z.B. "F.Cu") */
+  name: string;
+  type: GerberLayerType;
+  commands: GerberCommand[];
+  apertures: Map<string, Aperture>;
+  /** Aperture-Beschreibung → ID, damit gleiche Apertures nur einmal angelegt werden */
+  apertureIds: Map<string, string>;
+}
+
+/** Strichbreite für Grafiken ohne Breitenangabe (wie beim manuellen Outline) */
+const DEFAULT_STROKE_WIDTH = 0.1;
+
+/** Stützpunkte für angenäherte Kreise, Bögen in Polygonen und Bezierkurven */
+const CURVE_SEGMENTS = 32;
+
+/** Radius-Anteil bei roundrect-Pads ohne roundrect_rratio (KiCad-Standard) */
+const DEFAULT_ROUNDRECT_RATIO = 0.25;
+
+/** Feste Layer: KiCad-Name → Layer-Typ (Innenlagen "In1.Cu" ... werden gesondert erkannt) */
+const KICAD_LAYER_TYPES: Record<string, GerberLayerType> = {
+  'F.Cu': 'top-copper',
+  'B.Cu': 'bottom-copper',
+  'F.Mask': 'top-soldermask',
+  'B.Mask': 'bottom-soldermask',
+  'F.SilkS': 'top-silkscreen',
+  'B.SilkS': 'bottom-silkscreen',
+  'F.Paste': 'top-paste',
+  'B.Paste': 'bottom-paste',
+  'Edge.Cuts': 'outline',
+};
+
+/** Reihenfolge der Layer im Ergebnis (wie im Lagenaufbau von oben nach unten) */
+const LAYER_ORDER: GerberLayerType[] = [
+  'top-silkscreen',
+  'top-paste',
+  'top-soldermask',
+  'top-copper',
+  'inner-copper',
+  'bottom-copper',
+  'bottom-soldermask',
+  'bottom-paste',
+  'bottom-silkscreen',
+  'outline',
+  'drill',
+  'drill-npth',
+];
+
+/** Grafik-Elemente (gr_* auf dem Board, fp_* im Footprint) */
+const GRAPHIC_KINDS = new Set(['line', 'arc', 'circle', 'rect', 'poly', 'curve']);
+
+/** Text-Elemente, die nicht dargestellt werden */
+const TEXT_ITEMS = new Set(['gr_text', 'gr_text_box', 'fp_text', 'fp_text_box']);
+
+/** Stackup-Typen von KiCad → Lagenarten der Gerber-Jobdatei */
+const STACKUP_TYPES: Array<[RegExp, string]> = [
+  [/^copper$/i, 'Copper'],
+  [/^(core|prepreg)$/i, 'Dielectric'],
+  [/solder mask/i, 'SolderMask'],
+  [/silk screen/i, 'Legend'],
+  [/solder paste/i, 'SolderPaste'],
+];
+
+// ============================================================================
+// S-Expressions lesen
+// ============================================================================
+
+/**
+ * Prüft ob eine Datei eine KiCad-Leiterplatte ist
+ */
+export function isKicadPcbFile(filename: string): boolean {
+  return filename.toLowerCase().endsWith('.kicad_pcb');
+}
+
+/**
+ * Zerlegt den Dateiinhalt in verschachtelte Listen
+ */
+function readSExpression(content: string): SExpr[] | null {
+  const stack: SExpr[][] = [];
+  let root: SExpr[] | null = null;
+  let i = 0;
+
+  while (i < content.length) {
+    const c = content[i];
+    if (c === '(') {
+      const list: SExpr[] = [];
+      if (stack.length > 0) stack[stack.length - 1].push(list);
+      else if (!root) root = list;
+      stack.push(list);
+      i++;
+    } else if (c === ')') {
+      stack.pop();
+      i++;
+    } else if (c === '"') {
+      // String bis zum nächsten nicht maskierten Anführungszeichen
+      let j = i + 1;
+      while (j < content.length && content[j] !== '"') {
+        j += content[j] === '\\' ? 2 : 1;
+      }
+      const value = content.slice(i + 1, j).replace(/\\(.)/g, (_, e: string) => (e === 'n' ? '\n' : e));
+      stack[stack.length - 1]?.push(value);
+      i = j + 1;
+    } else if (c.charCodeAt(0) <= 32) {
+      i++;
+    } else {
+      let j = i;
+      while (j < content.length && content[j] !== '(' && content[j] !== ')' && content[j] !== '"' && content.charCodeAt(j) > 32) {
+        j++;
+      }
+      stack[stack.length - 1]?.push(content.slice(i, j));
+      i = j;
+    }
+  }
+
+  return root;
+}
+
+function isList(node: SExpr | undefined): node is SExpr[] {
+  return Array.isArray(node);
+}
+
+/** Alle Unterlisten mit dem gegebenen Namen, z.B. findAll(board, 'footprint') */
+function findAll(node: SExpr[], name: string): SExpr[][] {
+  return node.filter((c): c is SExpr[] => isList(c) && c[0] === name);
+}
+
+/** Erste Unterliste mit dem gegebenen Namen */
+function find(node: SExpr[] | undefined, name: string): SExpr[] | undefined {
+  return node?.find((c): c is SExpr[] => isList(c) && c[0] === name);
+}
+
+/** Zahl an einer Position einer Liste, z.B. numberAt(['width', '0.25'], 1) */
+function numberAt(node: SExpr[] | undefined, index: number, fallback = 0): number {
+  const value = node?.[index];
+  const parsed = typeof value === 'string' ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/** String an einer Position einer Liste */
+function stringAt(node: SExpr[] | undefined, index: number): string {
+  const value = node?.[index];
+  return typeof value === 'string' ? value : '';
+}
+
+/** Punkt aus einer Unterliste wie (start 10 20) */
+function pointOf(node: SExpr[], name: string): Point | null {
+  const entry = find(node, name);
+  return entry ? { x: numberAt(entry, 1), y: numberAt(entry, 2) } : null;
+}
+
+/** Layer eines Elements: (layer "F.Cu") */
+function layerOf(node: SExpr[]): string {
+  return stringAt(find(node, 'layer'), 1);
+}
+
+/** Strichbreite: (stroke (width 0.12)) ab KiCad 7, davor (width 0.12) */
+function strokeWidthOf(node: SExpr[]): number {
+  return numberAt(find(find(node, 'stroke'), 'width') || find(node, 'width'), 1);
+}
+
+/** Ausgeblendeter Text: "hide" im Element oder in (effects ...), ab KiCad 8 (hide yes) */
+function isHidden(node: SExpr[]): boolean {
+  const effects = find(node, 'effects');
+  return node.includes('hide') || !!effects?.includes('hide') || stringAt(find(node, 'hide') || find(effects, 'hide'), 1) === 'yes';
+}
+
+/** Gefüllt: (fill solid) bzw. (fill yes) ab KiCad 8 */
+function isFilled(node: SExpr[]): boolean {
+  const fill = stringAt(find(node, 'fill'), 1);
+  return fill === 'solid' || fill === 'yes';
+}
+
+// ============================================================================
+// Koordinaten
+// ============================================================================
+
+/**
+ * Rechnet einen Punkt (KiCad, ggf. relativ zum Footprint) in Gerber-Koordinaten um
+ */
+function toBoard(p: Point, placement: Placement | null): Point {
+  if (!placement) return { x: p.x, y: -p.y };
+  // KiCad dreht sichtbar gegen den Uhrzeigersinn bei Y nach unten
+  const a = (placement.angle * Math.PI) / 180;
+  const cos = Math.cos(a);
+  const sin = Math.sin(a);
+  return {
+    x: placement.x + p.x * cos + p.y * sin,
+    y: -(placement.y - p.x * sin + p.y * cos),
+  };
+}
+
+/**
+ * Punkt relativ zu einem Mittelpunkt drehen (Gerber-Koordinaten, Grad gegen den Uhrzeigersinn)
+ */
+function rotateAround(center: Point, offset: Point, angleDeg: number): Point {
+  const a = (angleDeg * Math.PI) / 180;
+  return {
+    x: center.x + offset.x * Math.cos(a) - offset.y * Math.sin(a),
+    y: center.y + offset.x * Math.sin(a) + offset.y * Math.cos(a),
+  };
+}
+
+/**
+ * Mittelpunkt und Richtung des Bogens durch drei Punkte (null = Punkte auf einer Geraden)
+ */
+function arcThroughPoints(start: Point, mid: Point, end: Point): { center: Point; clockwise: boolean } | null {
+  const d = 2 * (start.x * (mid.y - end.y) + mid.x * (end.y - start.y) + end.x * (start.y - mid.y));
+  if (Math.abs(d) < 1e-12) return null;
+
+  const s2 = start.x * start.x + start.y * start.y;
+  const m2 = mid.x * mid.x + mid.y * mid.y;
+  const e2 = end.x * end.x + end.y * end.y;
+  const center = {
+    x: (s2 * (mid.y - end.y) + m2 * (end.y - start.y) + e2 * (start.y - mid.y)) / d,
+    y: (s2 * (end.x - mid.x) + m2 * (start.x - end.x) + e2 * (mid.x - start.x)) / d,
+  };
+  // Dreieck Start → Mitte → Ende im Uhrzeigersinn = Bogen im Uhrzeigersinn
+  const cross = (mid.x - start.x) * (end.y - start.y) - (mid.y - start.y) * (end.x - start.x);
+  return { center, clockwise: cross < 0 };
+}
+
+/**
+ * Bogen als Polylinie (für Polygone und gefüllte Flächen)
+ */
+function flattenArc(start: Point, mid: Point, end: Point): Point[] {
+  const arc = arcThroughPoints(start, mid, end);
+  if (!arc) return [start, end];
+
+  const { center, clockwise } = arc;
+  const radius = Math.hypot(start.x - center.x, start.y - center.y);
+  const a0 = Math.atan2(start.y - center.y, start.x - center.x);
+  let sweep = Math.atan2(end.y - center.y, end.x - center.x) - a0;
+  if (clockwise && sweep > 0) sweep -= 2 * Math.PI;
+  if (!clockwise && sweep < 0) sweep += 2 * Math.PI;
+
+  const steps = Math.max(2, Math.ceil((Math.abs(sweep) / (2 * Math.PI)) * CURVE_SEGMENTS));
+  const points: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const a = a0 + (sweep * i) / steps;
+    points.push({ x: center.x + radius * Math.cos(a), y: center.y + radius * Math.sin(a) });
+  }
+  return points;
+}
+
+/**
+ * Bogen im alten Format (KiCad 5): Mittelpunkt, Startpunkt und Winkel in Grad
+ * (positiv = im Uhrzeigersinn bei Y nach unten). Liefert Start, Mitte und Ende.
+ */
+function legacyArcPoints(center: Point, start: Point, angleDeg: number): [Point, Point, Point] {
+  const at = (deg: number): Point => {
+    const a = (deg * Math.PI) / 180;
+    const dx = start.x - center.x;
+    const dy = start.y - center.y;
+    return { x: center.x + dx * Math.cos(a) - dy * Math.sin(a), y: center.y + dx * Math.sin(a) + dy * Math.cos(a) };
+  };
+  return [start, at(angleDeg / 2), at(angleDeg)];
+}
+
+// ============================================================================
+// Layer aufbauen
+// ============================================================================
+
+function createBuilder(name: string, type: GerberLayerType): LayerBuilder {
+  return { name, type, commands: [], apertures: new Map(), apertureIds: new Map() };
+}
+
+/**
+ * Liefert die ID einer Aperture (legt sie beim ersten Gebrauch an)
+ */
+function getAperture(builder: LayerBuilder, aperture: Omit<Aperture, 'id'>): string {
+  const key = JSON.stringify(aperture);
+  let id = builder.apertureIds.get(key);
+  if (!id) {
+    id = `D${10 + builder.apertures.size}`;
+    builder.apertures.set(id, { id, ...aperture });
+    builder.apertureIds.set(key, id);
+  }
+  return id;
+}
+
+function strokeLine(builder: LayerBuilder, start: Point, end: Point, width: number): void {
+  const apertureId = getAperture(builder, { type: 'circle', diameter: width });
+  builder.commands.push({ type: 'move', endPoint: start }, { type: 'line', startPoint: start, endPoint: end, apertureId });
+}
+
+function strokePolyline(builder: LayerBuilder, points: Point[], width: number, closed: boolean): void {
+  for (let i = 1; i < points.length; i++) strokeLine(builder, points[i - 1], points[i], width);
+  if (closed && points.length > 2) strokeLine(builder, points[points.length - 1], points[0], width);
+}
+
+function strokeArc(builder: LayerBuilder, start: Point, mid: Point, end: Point, width: number): void {
+  const arc = arcThroughPoints(start, mid, end);
+  if (!arc) {
+    strokeLine(builder, start, end, width);
+    return;
+  }
+  const apertureId = getAperture(builder, { type: 'circle', diameter: width });
+  builder.commands.push(
+    { type: 'move', endPoint: start },
+    { type: 'arc', startPoint: start, endPoint: end, centerPoint: arc.center, clockwise: arc.clockwise, apertureId }
+  );
+}
+
+/** Vollkreis als Bogen mit Start = Ende */
+function strokeCircle(builder: LayerBuilder, center: Point, radius: number, width: number): void {
+  const apertureId = getAperture(builder, { type: 'circle', diameter: width });
+  const start = { x: center.x + radius, y: center.y };
+  builder.commands.push(
+    { type: 'move', endPoint: start },
+    { type: 'arc', startPoint: start, endPoint: { ...start }, centerPoint: center, clockwise: false, apertureId }
+  );
+}
+
+function fillRegion(builder: LayerBuilder, points: Point[]): void {
+  if (points.length >= 3) builder.commands.push({ type: 'region', points });
+}
+
+function circlePoints(center: Point, radius: number): Point[] {
+  return Array.from({ length: CURVE_SEGMENTS }, (_, i) => {
+    const a = (2 * Math.PI * i) / CURVE_SEGMENTS;
+    return { x: center.x + radius * Math.cos(a), y: center.y + radius * Math.sin(a) };
+  });
+}
+
+/**
+ * Baut den GerberFile-Eintrag eines fertigen Layers
+ */
+function builderToGerberFile(builder: LayerBuilder, filename: string): GerberFile {
+  const parsedData: ParsedGerber = {
+    format: { units: 'mm', coordinateFormat: [4, 6] },
+    commands: builder.commands,
+    apertures: builder.apertures,
+    boundingBox: calculateBoundingBox({ commands: builder.commands } as ParsedGerber),
+  };
+  return {
+    id: generateId(),
+    filename,
+    type: builder.type,
+    // Kein Gerber-Inhalt: parsedData wird direkt im Projekt gespeichert
+    rawContent: '',
+    parsedData,
+    visible: true,
+    color: getLayerColor(builder.type),
+    detection: { type: builder.type, confidence: 1, source: 'kicad' },
+  };
+}
+
+// ============================================================================
+// Grafiken, Pads und Leiterbahnen
+// ============================================================================
+
+/**
+ * Zeichnet ein Grafik-Element (gr_line, fp_arc, gr_poly, ...) auf seinen Layer
+ */
+function addGraphic(builder: LayerBuilder, kind: string, node: SExpr[], placement: Placement | null): void {
+  // Kontur nie füllen, sonst deckt sie beim Rendern das Board ab
+  const filled = builder.type !== 'outline' && isFilled(node);
+  // Gefüllte Flächen ohne Breite bekommen keinen Rand
+  const stroke = strokeWidthOf(node) || (filled ? 0 : DEFAULT_STROKE_WIDTH);
+  const at = (p: Point | null) => toBoard(p || { x: 0, y: 0 }, placement);
+
+  switch (kind) {
+    case 'line':
+      strokeLine(builder, at(pointOf(node, 'start')), at(pointOf(node, 'end')), stroke);
+      break;
+
+    case 'arc': {
+      const mid = pointOf(node, 'mid');
+      const [start, middle, end] = mid
+        ? [pointOf(node, 'start'), mid, pointOf(node, 'end')]
+        : legacyArcPoints(pointOf(node, 'start') || { x: 0, y: 0 }, pointOf(node, 'end') || { x: 0, y: 0 }, numberAt(find(node, 'angle'), 1));
+      strokeArc(builder, at(start), at(middle), at(end), stroke);
+      break;
+    }
+
+    case 'circle': {
+      const center = at(pointOf(node, 'center'));
+      const edge = at(pointOf(node, 'end'));
+      const radius = Math.hypot(edge.x - center.x, edge.y - center.y);
+      if (filled) fillRegion(builder, circlePoints(center, radius));
+      if (stroke > 0) strokeCircle(builder, center, radius, stroke);
+      break;
+    }
+
+    case 'rect': {
+      const start = pointOf(node, 'start') || { x: 0, y: 0 };
+      const end = pointOf(node, 'end') || { x: 0, y: 0 };
+      const corners = [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }].map(at);
+      if (filled) fillRegion(builder, corners);
+      if (stroke > 0) strokePolyline(builder, corners, stroke, true);
+      break;
+    }
+
+    case 'poly': {
+      // Stützpunkte (xy ...) und ab KiCad 7 auch Bögen (arc (start) (mid) (end))
+      const points: Point[] = [];
+      for (const entry of find(node, 'pts')?.slice(1) || []) {
+        if (!isList(entry)) continue;
+        if (entry[0] === 'xy') {
+          points.push(at({ x: numberAt(entry, 1), y: numberAt(entry, 2) }));
+        } else if (entry[0] === 'arc') {
+          points.push(...flattenArc(at(pointOf(entry, 'start')), at(pointOf(entry, 'mid')), at(pointOf(entry, 'end'))));
+        }
+      }
+      if (filled) fillRegion(builder, points);
+      if (stroke > 0) strokePolyline(builder, points, stroke, true);
+      break;
+    }
+
+    case 'curve': {
+      // Kubische Bezierkurve mit vier Stützpunkten
+      const [p0, p1, p2, p3] = findAll(find(node, 'pts') || [], 'xy').map((xy) => at({ x: numberAt(xy, 1), y: numberAt(xy, 2) }));
+      if (!p3) break;
+      const points = Array.from({ length: CURVE_SEGMENTS + 1 }, (_, i) => {
+        const t = i / CURVE_SEGMENTS;
+        const u = 1 - t;
+        return {
+          x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+          y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+        };
+      });
+      strokePolyline(builder, points, stroke, false);
+      break;
+    }
+  }
+}
+
+/**
+ * Eckpunkte eines (abgerundeten) Rechteck-Pads
+ */
+function padPolygon(center: Point, width: number, height: number, angle: number, cornerRadius: number): Point[] {
+  const hw = width / 2;
+  const hh = height / 2;
+  const r = Math.min(cornerRadius, hw, hh);
+  const local: Point[] = [];
+
+  if (r <= 0) {
+    local.push({ x: -hw, y: -hh }, { x: hw, y: -hh }, { x: hw, y: hh }, { x: -hw, y: hh });
+  } else {
+    // Viertelkreise an den Ecken, gegen den Uhrzeigersinn ab unten rechts
+    const corners: Array<[number, number, number]> = [
+      [hw - r, -hh + r, -90],
+      [hw - r, hh - r, 0],
+      [-hw + r, hh - r, 90],
+      [-hw + r, -hh + r, 180],
+    ];
+    const steps = CURVE_SEGMENTS / 8;
+    for (const [cx, cy, startDeg] of corners) {
+      for (let i = 0; i <= steps; i++) {
+        const a = ((startDeg + (90 * i) / steps) * Math.PI) / 180;
+        local.push({ x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) });
+      }
+    }
+  }
+
+  return local.map((p) => rotateAround(center, p, angle));
+}
+
+/**
+ * Zeichnet die Form eines Pads auf einen Layer
+ *
+ * @param center - Pad-Mittelpunkt in Gerber-Koordinaten
+ * @param angle - Absolute Pad-Drehung in Grad (enthält die Footprint-Drehung)
+ */
+function addPadShape(builder: LayerBuilder, pad: SExpr[], center: Point, angle: number): void {
+  const shape = stringAt(pad, 3);
+  const size = find(pad, 'size');
+  const width = numberAt(size, 1);
+  const height = numberAt(size, 2, width);
+  if (width <= 0 || height <= 0) return;
+
+  const rightAngle = Math.abs(angle % 90) < 1e-6;
+  const swapped = rightAngle && Math.abs(angle % 180) > 1e-6;
+
+  switch (shape) {
+    case 'circle':
+      builder.commands.push({ type: 'flash', endPoint: center, apertureId: getAperture(builder, { type: 'circle', diameter: width }) });
+      break;
+
+    case 'oval': {
+      if (Math.abs(width - height) < 1e-9) {
+        builder.commands.push({ type: 'flash', endPoint: center, apertureId: getAperture(builder, { type: 'circle', diameter: width }) });
+        break;
+      }
+      // Langloch-Form als Linie mit runder Aperture entlang der langen Seite
+      const half = Math.abs(width - height) / 2;
+      const axis = width > height ? { x: half, y: 0 } : { x: 0, y: half };
+      const start = rotateAround(center, { x: -axis.x, y: -axis.y }, angle);
+      const end = rotateAround(center, axis, angle);
+      strokeLine(builder, start, end, Math.min(width, height));
+      break;
+    }
+
+    case 'roundrect': {
+      const ratio = numberAt(find(pad, 'roundrect_rratio'), 1, DEFAULT_ROUNDRECT_RATIO);
+      fillRegion(builder, padPolygon(center, width, height, angle, ratio * Math.min(width, height)));
+      break;
+    }
+
+    default:
+      // rect, trapezoid, custom (Anker-Form): Rechteck, bei rechten Winkeln als Flash
+      if (rightAngle) {
+        const aperture = { type: 'rectangle' as const, width: swapped ? height : width, height: swapped ? width : height };
+        builder.commands.push({ type: 'flash', endPoint: center, apertureId: getAperture(builder, aperture) });
+      } else {
+        fillRegion(builder, padPolygon(center, width, height, angle, 0));
+      }
+  }
+}
+
+// ============================================================================
+// Bohrungen
+// ============================================================================
+
+/** Bohrungen nach Durchmesser gruppiert (wie die Werkzeugtabelle einer Excellon-Datei) */
+type DrillTable = Map<string, DrillTool>;
+
+function getDrillTool(table: DrillTable, diameter: number, plated: boolean): DrillTool {
+  const key = diameter.toFixed(4);
+  let tool = table.get(key);
+  if (!tool) {
+    tool = { code: String(table.size + 1), diameter, plated, holes: [], slots: [] };
+    table.set(key, tool);
+  }
+  return tool;
+}
+
+/**
+ * Bohrung eines Pads: (drill 0.8) rund oder (drill oval 1.0 2.0) als Langloch,
+ * optional mit (offset x y) relativ zum Pad
+ */
+function addPadDrill(table: DrillTable, pad: SExpr[], center: Point, angle: number, plated: boolean): void {
+  const drill = find(pad, 'drill');
+  if (!drill) return;
+
+  const oval = drill[1] === 'oval';
+  const width = numberAt(drill, oval ? 2 : 1);
+  const height = oval ? numberAt(drill, 3, width) : width;
+  if (width <= 0) return;
+
+  const offset = find(drill, 'offset');
+  // Offset in Pad-Koordinaten (KiCad: Y nach unten)
+  const hole = offset ? rotateAround(center, { x: numberAt(offset, 1), y: -numberAt(offset, 2) }, angle) : center;
+
+  if (!oval || Math.abs(width - height) < 1e-9) {
+    getDrillTool(table, width, plated).holes.push(hole);
+    return;
+  }
+  const half = Math.abs(width - height) / 2;
+  const axis = width > height ? { x: half, y: 0 } : { x: 0, y: half };
+  getDrillTool(table, Math.min(width, height), plated).slots.push({
+    start: rotateAround(hole, { x: -axis.x, y: -axis.y }, angle),
+    end: rotateAround(hole, axis, angle),
+  });
+}
+
+/**
+ * Bohr-Layer aus der Werkzeugtabelle (Bohrung = Flash, Langloch = Linie)
+ */
+function drillTableToGerberFile(table: DrillTable, type: 'drill' | 'drill-npth', filename: string): GerberFile | null {
+  const tools = Array.from(table.values());
+  if (tools.length === 0) return null;
+
+  const builder = createBuilder(filename, type);
+  for (const tool of tools) {
+    builder.apertures.set(tool.code, { id: tool.code, type: 'circle', diameter: tool.diameter });
+    for (const hole of tool.holes) {
+      builder.commands.push({ type: 'flash', endPoint: hole, apertureId: tool.code });
+    }
+    for (const slot of tool.slots) {
+      builder.commands.push({ type: 'line', startPoint: slot.start, endPoint: slot.end, apertureId: tool.code });
+    }
+  }
+
+  const file = builderToGerberFile(builder, filename);
+  if (file.parsedData) file.parsedData.drill = { sourceUnits: 'mm', tools };
+  return file;
+}
+
+// ============================================================================
+// Lagenaufbau
+// ============================================================================
+
+/**
+ * Liest Design-Name, Dicke und Lagenaufbau als Gerber-Jobdatei
+ */
+function readGerberJob(root: SExpr[], designName: string, copperLayers: string[], files: GerberFile[]): GerberJob {
+  const stackup: GerberJobStackupLayer[] = [];
+  for (const layer of findAll(find(find(root, 'setup'), 'stackup') || [], 'layer')) {
+    const kicadType = stringAt(find(layer, 'type'), 1);
+    const type = STACKUP_TYPES.find(([pattern]) => pattern.test(kicadType))?.[1] || kicadType;
+    const thickness = numberAt(find(layer, 'thickness'), 1);
+    const material = stringAt(find(layer, 'material'), 1);
+    stackup.push({
+      type,
+      name: stringAt(layer, 1),
+      ...(material && { material }),
+      ...(thickness > 0 && { thickness }),
+    });
+  }
+
+  const thickness = numberAt(find(find(root, 'general'), 'thickness'), 1);
+
+  return {
+    designName,
+    ...(thickness > 0 && { boardThickness: thickness }),
+    copperLayerCount: copperLayers.length,
+    files: files.map((file) => ({ path: file.filename, fileFunction: getFileFunction(file, copperLayers) })),
+    stackup,
+  };
+}
+
+/**
+ * FileFunction wie in einer von KiCad geschriebenen Jobdatei
+ */
+function getFileFunction(file: GerberFile, copperLayers: string[]): string {
+  const n = copperLayers.length;
+  switch (file.type) {
+    case 'top-copper':
+      return 'Copper,L1,Top';
+    case 'bottom-copper':
+      return `Copper,L${n},Bot`;
+    case 'inner-copper':
+      return `Copper,L${copperLayers.indexOf(file.filename) + 1},Inr`;
+    case 'top-soldermask':
+      return 'Soldermask,Top';
+    case 'bottom-soldermask':
+      return 'Soldermask,Bot';
+    case 'top-silkscreen':
+      return 'Legend,Top';
+    case 'bottom-silkscreen':
+      return 'Legend,Bot';
+    case 'top-paste':
+      return 'Paste,Top';
+    case 'bottom-paste':
+      return 'Paste,Bot';
+    case 'outline':
+      return 'Profile,NP';
+    case 'drill':
+      return `Plated,1,${n},PTH`;
+    default:
+      return `NonPlated,1,${n},NPTH`;
+  }
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Layer-Typ eines KiCad-Layers (null = keine Fertigungsdaten, z.B. F.Fab)
+ */
+function getKicadLayerType(name: string): GerberLayerType | null {
+  return KICAD_LAYER_TYPES[name] || (/^In\d+\.Cu$/.test(name) ? 'inner-copper' : null);
+}
+
+/**
+ * Position einer Kupferlage von oben (F.Cu, In1.Cu, In2.Cu, ..., B.Cu)
+ */
+function getCopperOrder(name: string): number {
+  if (name === 'F.Cu') return 0;
+  if (name === 'B.Cu') return Infinity;
+  return parseInt(name.slice(2), 10) || 0;
+}
+
+/**
+ * Liest eine .kicad_pcb Datei und baut daraus die Layer eines Boards
+ *
+ * @param content - Dateiinhalt (KiCad 5 bis 9)
+ * @param filename - Dateiname (Design-Name, falls im Titelblock keiner steht)
+ * @returns Layer, Bauteile, Lagenaufbau und Diagnose
+ * @throws Error wenn die Datei keine KiCad-Leiterplatte ist
+ */
+export function parseKicadPcb(content: string, filename: string): KicadPcb {
+  const root = readSExpression(content);
+  if (!root || root[0] !== 'kicad_pcb') {
+    throw new Error(`${filename} ist keine KiCad-Leiterplatte (kicad_pcb fehlt).`);
+  }
+
+  const diagnostics: ImportDiagnostic[] = [];
+
+  // Layer-Tabelle: (0 "F.Cu" signal) oder (36 "B.SilkS" user "B.Silkscreen")
+  const layerTable = (find(root, 'layers') || []).slice(1).filter(isList);
+  const displayNames = new Map(layerTable.map((l) => [stringAt(l, 1), stringAt(l, 3) || stringAt(l, 1)]));
+  const copperLayers = layerTable.map((l) => stringAt(l, 1)).filter((name) => name.endsWith('.Cu'));
+  // Kupferlagen von oben nach unten (B.Cu steht in älteren Dateien vor den Innenlagen)
+  copperLayers.sort((a, b) => getCopperOrder(a) - getCopperOrder(b));
+
+  const builders = new Map<string, LayerBuilder>();
+  const skippedLayers = new Set<string>();
+  const getBuilder = (name: string): LayerBuilder | null => {
+    const type = getKicadLayerType(name);
+    if (!type) {
+      if (name) skippedLayers.add(name);
+      return null;
+    }
+    let builder = builders.get(name);
+    if (!builder) {
+      builder = createBuilder(name, type);
+      builders.set(name, builder);
+    }
+    return builder;
+  };
+
+  // Layer-Liste eines Pads/Vias mit Platzhaltern ("*.Cu", "F&B.Cu") auflösen
+  const expandLayers = (names: string[]): string[] =>
+    names.flatMap((name) => {
+      if (name === '*.Cu') return copperLayers;
+      if (name === 'F&B.Cu') return ['F.Cu', 'B.Cu'];
+      if (name.startsWith('*.')) return [`F.${name.slice(2)}`, `B.${name.slice(2)}`];
+      return [name];
+    });
+
+  const plated: DrillTable = new Map();
+  const nonPlated: DrillTable = new Map();
+  const components: BoardComponent[] = [];
+  let textCount = 0;
+
+  // Grafik- und Text-Elemente eines Boards oder Footprints
+  const addItems = (items: SExpr[], prefix: 'gr_' | 'fp_', placement: Placement | null) => {
+    for (const item of items) {
+      if (!isList(item) || typeof item[0] !== 'string') continue;
+      const name = item[0];
+      if (TEXT_ITEMS.has(name)) {
+        // Nur sichtbare Texte auf Fertigungs-Layern zählen
+        if (getKicadLayerType(layerOf(item)) && !isHidden(item)) textCount++;
+      } else if (name.startsWith(prefix) && GRAPHIC_KINDS.has(name.slice(prefix.length))) {
+        const builder = getBuilder(layerOf(item));
+        if (builder) addGraphic(builder, name.slice(prefix.length), item, placement);
+      }
+    }
+  };
+
+  // Gefüllte Zonen (Kupferflächen) als Regionen
+  const addZones = (items: SExpr[]) => {
+    for (const zone of findAll(items, 'zone')) {
+      for (const filled of findAll(zone, 'filled_polygon')) {
+        const builder = getBuilder(layerOf(filled) || layerOf(zone));
+        const points = findAll(find(filled, 'pts') || [], 'xy').map((xy) => toBoard({ x: numberAt(xy, 1), y: numberAt(xy, 2) }, null));
+        if (builder) fillRegion(builder, points);
+      }
+    }
+  };
+
+  addItems(root, 'gr_', null);
+  addZones(root);
+
+  // Footprints (ab KiCad 6 "footprint", davor "module")
+  for (const footprint of [...findAll(root, 'footprint'), ...findAll(root, 'module')]) {
+    const at = find(footprint, 'at');
+    const placement: Placement = { x: numberAt(at, 1), y: numberAt(at, 2), angle: numberAt(at, 3) };
+    const side = layerOf(footprint) === 'B.Cu' ? 'bottom' : 'top';
+
+    addItems(footprint, 'fp_', placement);
+    addZones(footprint);
+
+    // Pads: Position relativ zum Footprint, Drehung absolut
+    for (const pad of findAll(footprint, 'pad')) {
+      const padAt = find(pad, 'at');
+      const center = toBoard({ x: numberAt(padAt, 1), y: numberAt(padAt, 2) }, placement);
+      const angle = numberAt(padAt, 3);
+      const padType = stringAt(pad, 2);
+      const padLayers = (find(pad, 'layers') || []).slice(1).filter((l): l is string => typeof l === 'string');
+
+      // NPTH ohne Kupferring: nur die Bohrung
+      const size = find(pad, 'size');
+      const drillSize = numberAt(find(pad, 'drill'), 1);
+      const bareHole = padType === 'np_thru_hole' && numberAt(size, 1) <= drillSize;
+
+      for (const layerName of expandLayers(padLayers)) {
+        if (bareHole && layerName.endsWith('.Cu')) continue;
+        const builder = getBuilder(layerName);
+        if (builder) addPadShape(builder, pad, center, angle);
+      }
+      if (padType === 'thru_hole' || padType === 'np_thru_hole') {
+        addPadDrill(padType === 'thru_hole' ? plated : nonPlated, pad, center, angle, padType === 'thru_hole');
+      }
+    }
+
+    // Bauteil-Position (Logos, Bohrungen usw. sind von der Bestückung ausgeschlossen)
+    const attributes = find(footprint, 'attr') || [];
+    if (attributes.includes('exclude_from_pos_files') || attributes.includes('virtual')) continue;
+    const property = (key: string) =>
+      stringAt(findAll(footprint, 'property').find((p) => p[1] === key), 2) ||
+      stringAt(findAll(footprint, 'fp_text').find((t) => t[1] === key.toLowerCase()), 2);
+    components.push({
+      reference: property('Reference'),
+      value: property('Value'),
+      footprint: stringAt(footprint, 1),
+      position: toBoard(placement, null),
+      rotation: placement.angle,
+      side,
+    });
+  }
+
+  // Leiterbahnen (segment, arc) und Vias
+  for (const track of findAll(root, 'segment')) {
+    const builder = getBuilder(layerOf(track));
+    const start = pointOf(track, 'start');
+    const end = pointOf(track, 'end');
+    if (builder && start && end) strokeLine(builder, toBoard(start, null), toBoard(end, null), numberAt(find(track, 'width'), 1));
+  }
+  for (const track of findAll(root, 'arc')) {
+    const builder = getBuilder(layerOf(track));
+    const [start, mid, end] = [pointOf(track, 'start'), pointOf(track, 'mid'), pointOf(track, 'end')];
+    if (builder && start && mid && end) {
+      strokeArc(builder, toBoard(start, null), toBoard(mid, null), toBoard(end, null), numberAt(find(track, 'width'), 1));
+    }
+  }
+  for (const via of findAll(root, 'via')) {
+    const center = toBoard(pointOf(via, 'at') || { x: 0, y: 0 }, null);
+    const diameter = numberAt(find(via, 'size'), 1);
+    // Durchgehende Vias auf allen Kupferlagen, Blind/Buried nur zwischen den angegebenen Lagen
+    const viaLayers = (find(via, 'layers') || []).slice(1).filter((l): l is string => typeof l === 'string');
+    const first = copperLayers.indexOf(viaLayers[0]);
+    const last = copperLayers.indexOf(viaLayers[viaLayers.length - 1]);
+    const span = via.includes('blind') || via.includes('micro')
+      ? copperLayers.slice(Math.min(first, last), Math.max(first, last) + 1)
+      : copperLayers;
+    for (const layerName of span) {
+      const builder = getBuilder(layerName);
+      if (builder && diameter > 0) {
+        builder.commands.push({ type: 'flash', endPoint: center, apertureId: getAperture(builder, { type: 'circle', diameter }) });
+      }
+    }
+    const drill = numberAt(find(via, 'drill'), 1);
+    if (drill > 0) getDrillTool(plated, drill, true).holes.push(center);
+  }
+
+  // Layer in Stackup-Reihenfolge, Dateiname = KiCad-Layername (ggf. benutzerdefiniert)
+  const sortedBuilders = Array.from(builders.values())
+    .filter((b) => b.commands.length > 0)
+    .sort((a, b) =>
+      LAYER_ORDER.indexOf(a.type) - LAYER_ORDER.indexOf(b.type) ||
+      copperLayers.indexOf(a.name) - copperLayers.indexOf(b.name)
+    );
+  const layers = sortedBuilders.map((b) => builderToGerberFile(b, displayNames.get(b.name) || b.name));
+  const drillLayers = [
+    drillTableToGerberFile(plated, 'drill', 'PTH'),
+    drillTableToGerberFile(nonPlated, 'drill-npth', 'NPTH'),
+  ].filter((l): l is GerberFile => l !== null);
+  layers.push(...drillLayers);
+
+  // Innenlagen für die FileFunction über den Anzeigenamen zuordnen
+  const copperDisplayNames = copperLayers.map((name) => displayNames.get(name) || name);
+
+  if (!builders.get('Edge.Cuts')?.commands.length) {
+    diagnostics.push({ severity: 'warning', message: 'Keine Board-Kontur auf Edge.Cuts gefunden.' });
+  }
+  if (textCount > 0) {
+    diagnostics.push({ severity: 'info', message: `${textCount} Texte werden nicht dargestellt.` });
+  }
+  if (skippedLayers.size > 0) {
+    diagnostics.push({
+      severity: 'info',
+      message: `Layer ohne Fertigungsdaten übersprungen: ${Array.from(skippedLayers).join(', ')}.`,
+    });
+  }
+
+  const title = stringAt(find(find(root, 'title_block'), 'title'), 1);
+  const designName = title || filename.replace(/\.kicad_pcb$/i, '');
+
+  return {
+    layers,
+    components,
+    gerberJob: readGerberJob(root, designName, copperDisplayNames, layers),
+    diagnostics,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { LayerMappingRule } from '@/types';
+import { detectLayer, detectLayerType, layerRuleToRegExp, matchLayerMappingRule } from './layer-detector';
+
+function rule(pattern: string, syntax: LayerMappingRule['syntax'], type: LayerMappingRule['type']): LayerMappingRule {
+  return { id: pattern, pattern, syntax, type };
+}
+
+describe('detectLayer', () => {
+  it('nimmt den Typ aus dem X2-Attribut %TF.FileFunction', () => {
+    const content = '%TF.FileFunction,Soldermask,Bot*%\n%FSLAX46Y46*%';
+    expect(detectLayer('unbekannt.gbr', content)).toEqual({ type: 'bottom-soldermask', confidence: 1, source: 'x2' });
+  });
+
+  it('erkennt Innenlagen und Kontur aus X2', () => {
+    expect(detectLayer('a.gbr', '%TF.FileFunction,Copper,L2,Inr*%').type).toBe('inner-copper');
+    expect(detectLayer('b.gbr', '%TF.FileFunction,Profile,NP*%').type).toBe('outline');
+  });
+
+  it('fällt ohne Attribute auf den Dateinamen zurück', () => {
+    expect(detectLayer('board-F_Cu.gbr', '%FSLAX46Y46*%')).toEqual({ type: 'top-copper', confidence: 0.8, source: 'filename' });
+    expect(detectLayerType('board.GKO')).toBe('outline');
+  });
+
+  it('unterscheidet Excellon-Dateien am Inhalt', () => {
+    expect(detectLayer('board.txt', 'M48\nMETRIC')).toMatchObject({ type: 'drill', source: 'excellon' });
+    expect(detectLayer('board-NPTH.drl', 'M48\nMETRIC').type).toBe('drill-npth');
+  });
+});
+
+describe('Layer-Zuordnungsregeln', () => {
+  it('wandelt Glob-Muster in einen Ausdruck über den ganzen Namen um', () => {
+    const regex = layerRuleToRegExp({ pattern: '*.art?', syntax: 'glob' });
+    expect(regex.test('BOARD.ART1')).toBe(true);
+    expect(regex.test('board.art12')).toBe(false);
+    // Punkte im Muster sind keine Platzhalter
+    expect(layerRuleToRegExp({ pattern: 'a.b', syntax: 'glob' }).test('axb')).toBe(false);
+  });
+
+  it('nimmt die erste passende Regel, ohne Ordner und ungültige Muster', () => {
+    const rules = [rule('(', 'regex', 'drill'), rule('top', 'regex', 'top-silkscreen'), rule('*.top', 'glob', 'top-copper')];
+    expect(matchLayerMappingRule('cam/layer.top', rules)?.type).toBe('top-silkscreen');
+    expect(matchLayerMappingRule('top/layer.bot', rules)).toBeNull();
+  });
+
+  it('prüft Regeln vor den eingebauten Dateinamen-Mustern', () => {
+    const rules = [rule('*.gko', 'glob', 'bottom-silkscreen')];
+    expect(detectLayerType('board.GKO', rules)).toBe('bottom-silkscreen');
+    expect(detectLayer('board.gko', '%FSLAX46Y46*%', null, rules)).toEqual({
+      type: 'bottom-silkscreen',
+      confidence: 1,
+      source: 'rule',
+    });
+  });
+
+  it('lässt X2-Attribute Vorrang vor Regeln haben', () => {
+    const rules = [rule('*.gbr', 'glob', 'bottom-silkscreen')];
+    expect(detectLayer('board.gbr', '%TF.FileFunction,Copper,L1,Top*%', null, rules).source).toBe('x2');
+  });
+});
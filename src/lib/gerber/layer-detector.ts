@@ -2,7 +2,12 @@
  * Layer Detector - Automatische Erkennung des Layer-Typs
  *
  * PCB-CAD-Programme verwenden verschiedene Namenskonventionen für Gerber-Dateien.
- * Dieses Modul erkennt automatisch den Layer-Typ anhand des Dateinamens.
+ * Dieses Modul erkennt automatisch den Layer-Typ, in dieser Reihenfolge:
+ * 1. Gerber X2 Attribute (%TF.FileFunction)
+ * 2. Gerber-Jobdatei (.gbrjob), falls im ZIP vorhanden
+ * 3. Benutzerdefinierte Zuordnungsregeln (Dateiname, siehe LayerMappingRule)
+ * 4. Excellon-Header bzw. Dateiname (eingebaute Muster)
+ * 5. Heuristiken auf dem Inhalt (geschlossene Konturen, nur Flashes, ...)
  *
  * Unterstützte CAD-Programme:
  * - KiCad (z.B. board-F_Cu.gbr, board-B_SilkS.gbr)
@@ -13,7 +18,9 @@
  * - Generische Muster
  */
 
-import type { GerberLayerType } from '@/types';
+import type { GerberJob, GerberLayerType, LayerDetection, LayerMappingRule, ParsedGerber } from '@/types';
+import { isExcellonContent } from './excellon-parser';
+import { getJobFileFunction } from './gerber-job';
 
 // ============================================================================
 // Farben für Layer-Typen
@@ -34,6 +41,7 @@ const LAYER_COLORS: Record<GerberLayerType, string> = {
   'top-paste': '#C0C0C0',         // Silber/Hellgrau
   'bottom-paste': '#A0A0A0',      // Mittelgrau
   'outline': '#00FF00',           // Knalliges Grün
+  'mechanical': '#808080',        // Grau (ersetzter Outline)
   'drill': '#FFFFFF',             // Weiß
   'drill-npth': '#FF6600',        // Orange
   'unknown': '#888888',           // Grau
@@ -169,6 +177,46 @@ const LAYER_PATTERNS: LayerPattern[] = [
   { pattern: /l[2-9]\./i, type: 'inner-copper', description: 'Generic L2-L9' },
 ];
 
+// ============================================================================
+// Benutzerdefinierte Regeln
+// ============================================================================
+
+/**
+ * Wandelt das Muster einer Regel in einen regulären Ausdruck um
+ *
+ * @throws SyntaxError bei ungültigem regulärem Ausdruck
+ *
+ * @example
+ * layerRuleToRegExp({ pattern: '*.art?', syntax: 'glob', ... }) // => /^.*\.art.$/i
+ */
+export function layerRuleToRegExp(rule: Pick<LayerMappingRule, 'pattern' | 'syntax'>): RegExp {
+  if (rule.syntax === 'regex') {
+    return new RegExp(rule.pattern, 'i');
+  }
+  const source = rule.pattern
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Erste Regel, deren Muster auf den Dateinamen passt (Ordner werden ignoriert)
+ *
+ * Regeln mit ungültigem Muster werden übersprungen.
+ */
+export function matchLayerMappingRule(filename: string, rules: LayerMappingRule[]): LayerMappingRule | null {
+  const name = filename.split('/').pop() || filename;
+  for (const rule of rules) {
+    try {
+      if (rule.pattern && layerRuleToRegExp(rule).test(name)) return rule;
+    } catch {
+      // Ungültiger regulärer Ausdruck: Regel ignorieren
+    }
+  }
+  return null;
+}
+
 // ============================================================================
 // Hauptfunktionen
 // ============================================================================
@@ -177,6 +225,7 @@ const LAYER_PATTERNS: LayerPattern[] = [
  * Erkennt den Layer-Typ anhand des Dateinamens
  *
  * @param filename - Der Dateiname der Gerber-Datei
+ * @param rules - Benutzerdefinierte Regeln (vor den eingebauten Mustern geprüft)
  * @returns Der erkannte Layer-Typ oder 'unknown'
  *
  * @example
@@ -184,7 +233,10 @@ const LAYER_PATTERNS: LayerPattern[] = [
  * detectLayerType('board.GBL')       // => 'bottom-copper'
  * detectLayerType('random.xyz')      // => 'unknown'
  */
-export function detectLayerType(filename: string): GerberLayerType {
+export function detectLayerType(filename: string, rules: LayerMappingRule[] = []): GerberLayerType {
+  const rule = matchLayerMappingRule(filename, rules);
+  if (rule) return rule.type;
+
   // Durch alle Muster iterieren
   for (const { pattern, type } of LAYER_PATTERNS) {
     if (pattern.test(filename)) {
@@ -196,6 +248,160 @@ export function detectLayerType(filename: string): GerberLayerType {
   return 'unknown';
 }
 
+/**
+ * Erkennt den Layer-Typ aus dem Dateikopf (X2-Attribute, Excellon-Header)
+ * bzw. der Jobdatei und fällt sonst auf den Dateinamen zurück
+ *
+ * Der Inhalt wird hier nur als Text gelesen; die Heuristiken auf den
+ * geparsten Daten folgen in refineLayerDetection().
+ *
+ * @param filename - Der Dateiname
+ * @param content - Der Dateiinhalt
+ * @param job - Gerber-Jobdatei des ZIP (optional)
+ * @param rules - Benutzerdefinierte Regeln (haben Vorrang vor allem anderen)
+ */
+export function detectLayer(
+  filename: string,
+  content: string,
+  job?: GerberJob | null,
+  rules: LayerMappingRule[] = []
+): LayerDetection {
+  const fileFunction = content.match(/TF\.FileFunction,([^*\r\n]*)/);
+  const x2Type = fileFunction ? layerTypeFromFileFunction(fileFunction[1]) : null;
+  if (x2Type) {
+    return { type: x2Type, confidence: 1, source: 'x2' };
+  }
+
+  const jobFunction = job ? getJobFileFunction(job, filename) : null;
+  const jobType = jobFunction ? layerTypeFromFileFunction(jobFunction) : null;
+  if (jobType) {
+    return { type: jobType, confidence: 1, source: 'job' };
+  }
+
+  // Vom Benutzer festgelegt: vor den eingebauten Mustern, aber nach den Attributen der Datei
+  const rule = matchLayerMappingRule(filename, rules);
+  if (rule) {
+    return { type: rule.type, confidence: 1, source: 'rule' };
+  }
+
+  const filenameType = detectLayerType(filename);
+
+  // Excellon ohne Attribute: PTH/NPTH nur aus dem Dateinamen unterscheidbar
+  if (isExcellonContent(content)) {
+    const type = filenameType === 'drill-npth' ? 'drill-npth' : 'drill';
+    return { type, confidence: 0.9, source: 'excellon' };
+  }
+
+  if (filenameType !== 'unknown') {
+    return { type: filenameType, confidence: 0.8, source: 'filename' };
+  }
+  return { type: 'unknown', confidence: 0, source: 'none' };
+}
+
+/**
+ * Übersetzt den Wert von %TF.FileFunction in einen Layer-Typ
+ *
+ * @example
+ * layerTypeFromFileFunction('Copper,L1,Top')  // => 'top-copper'
+ * layerTypeFromFileFunction('Soldermask,Bot') // => 'bottom-soldermask'
+ * layerTypeFromFileFunction('Plated,1,4,PTH') // => 'drill'
+ */
+function layerTypeFromFileFunction(value: string): GerberLayerType | null {
+  const [func, ...fields] = value.split(',').map((f) => f.trim());
+  const side = fields.find((f) => f === 'Top' || f === 'Bot' || f === 'Inr');
+
+  switch (func) {
+    case 'Copper':
+      if (side === 'Top') return 'top-copper';
+      if (side === 'Bot') return 'bottom-copper';
+      return 'inner-copper';
+    case 'Soldermask':
+      return side === 'Bot' ? 'bottom-soldermask' : 'top-soldermask';
+    case 'Legend':
+      return side === 'Bot' ? 'bottom-silkscreen' : 'top-silkscreen';
+    case 'Paste':
+      return side === 'Bot' ? 'bottom-paste' : 'top-paste';
+    case 'Profile':
+      return 'outline';
+    case 'Plated':
+    case 'MixedPlating':
+      return 'drill';
+    case 'NonPlated':
+      return 'drill-npth';
+    default:
+      // Drillmap, Component, Other, ... → Dateiname entscheidet
+      return null;
+  }
+}
+
+/**
+ * Ergänzt eine unsichere Erkennung mit Heuristiken auf den geparsten Daten
+ *
+ * Greift nur, wenn weder Attribute noch Dateiname etwas ergeben haben.
+ * Die Seite (Top/Bottom) lässt sich aus dem Inhalt nicht ablesen, daher
+ * wird immer Top angenommen und die Sicherheit entsprechend tief gehalten.
+ *
+ * @param detection - Ergebnis von detectLayer()
+ * @param parsed - Geparste Daten des Layers
+ * @param content - Dateiinhalt (für %TF.FilePolarity)
+ */
+export function refineLayerDetection(
+  detection: LayerDetection,
+  parsed: ParsedGerber | null,
+  content: string
+): LayerDetection {
+  if (detection.type !== 'unknown' || !parsed || parsed.commands.length === 0) {
+    return detection;
+  }
+
+  const draws = parsed.commands.filter((c) => c.type === 'line' || c.type === 'arc');
+  const flashes = parsed.commands.filter((c) => c.type === 'flash');
+  const regions = parsed.commands.filter((c) => c.type === 'region');
+  const widths = new Set(
+    draws.map((c) => (c.apertureId ? parsed.apertures.get(c.apertureId)?.diameter ?? 0 : 0))
+  );
+  const maxWidth = Math.max(0, ...Array.from(widths));
+  const negative = /TF\.FilePolarity,Negative/.test(content);
+
+  // Nur dünne Linien, die geschlossene Schleifen bilden → Kontur
+  if (flashes.length === 0 && regions.length === 0 && draws.length >= 3 && maxWidth <= 0.5 && isClosedPath(draws)) {
+    return { type: 'outline', confidence: 0.6, source: 'content' };
+  }
+
+  // Nur Flashes (Pad-Öffnungen), keine Leiterbahnen → Lötstopplack
+  if (flashes.length > 0 && draws.length === 0) {
+    return { type: 'top-soldermask', confidence: negative ? 0.5 : 0.4, source: 'content' };
+  }
+
+  // Überwiegend dünne Linien, wenige Pads → Bestückungsdruck
+  if (draws.length > flashes.length * 4 && maxWidth <= 0.25 && regions.length === 0) {
+    return { type: 'top-silkscreen', confidence: 0.35, source: 'content' };
+  }
+
+  // Pads und Leiterbahnen bzw. Kupferflächen → Kupfer
+  if (flashes.length > 0 && (draws.length > 0 || regions.length > 0)) {
+    return { type: 'top-copper', confidence: 0.35, source: 'content' };
+  }
+
+  return detection;
+}
+
+/**
+ * Prüft ob Linien/Bögen nur geschlossene Schleifen bilden
+ * (jeder Endpunkt wird von einer geraden Anzahl Segmente berührt)
+ */
+function isClosedPath(draws: ParsedGerber['commands']): boolean {
+  const degree = new Map<string, number>();
+  for (const command of draws) {
+    for (const p of [command.startPoint, command.endPoint]) {
+      if (!p) return false;
+      const key = `${p.x.toFixed(2)},${p.y.toFixed(2)}`;
+      degree.set(key, (degree.get(key) || 0) + 1);
+    }
+  }
+  return Array.from(degree.values()).every((count) => count % 2 === 0);
+}
+
 /**
  * Gibt die Farbe für einen Layer-Typ zurück
  *
@@ -222,6 +428,7 @@ export function getAllLayerTypes(): { type: GerberLayerType; label: string }[] {
     { type: 'top-paste', label: 'Top Lötpaste' },
     { type: 'bottom-paste', label: 'Bottom Lötpaste' },
     { type: 'outline', label: 'Kontur / Outline' },
+    { type: 'mechanical', label: 'Mechanisch' },
     { type: 'drill', label: 'Bohrungen (PTH)' },
     { type: 'drill-npth', label: 'Bohrungen (NPTH)' },
     { type: 'unknown', label: '⚠ Unbekannt' },
@@ -243,6 +450,7 @@ export function getLayerLabel(type: GerberLayerType): string {
     'top-paste': 'Top Lötpaste',
     'bottom-paste': 'Bottom Lötpaste',
     'outline': 'Kontur / Outline',
+    'mechanical': 'Mechanisch',
     'drill': 'Bohrungen (PTH)',
     'drill-npth': 'Bohrungen (NPTH)',
     'unknown': '⚠ Unbekannt',
@@ -0,0 +1,243 @@
+/**
+ * Outline-Konturen - Verkettet die Segmente des Outline-Layers zu Schleifen
+ *
+ * CAD-Programme schreiben die Kontur-Segmente nicht zwingend in Laufrichtung:
+ * Altium exportiert oft Linie für Linie in beliebiger Reihenfolge, Ausschnitte
+ * (z.B. für Stecker) stehen irgendwo dazwischen. Dieses Modul:
+ * - verbindet Segmente, deren Endpunkte innerhalb einer Toleranz liegen
+ * - dreht Segmente bei Bedarf um (Bögen inkl. Richtung)
+ * - bestimmt die Aussenkontur (grösste Fläche) und die Ausschnitte darin
+ * - richtet die Umlaufrichtung aus: aussen gegen, Ausschnitte im Uhrzeigersinn
+ *
+ * Alle Koordinaten sind Gerber-Koordinaten des Boards (mm, Y nach oben).
+ */
+
+import type { BoardContour, BoardContours, ContourSegment, GerberCommand, Point } from '@/types';
+
+// ============================================================================
+// Konstanten
+// ============================================================================
+
+/** Standard-Toleranz für das Verbinden von Endpunkten in mm */
+const DEFAULT_JOIN_TOLERANCE = 0.01;
+
+/** Segmente pro Vollkreis beim Linearisieren von Bögen */
+const ARC_SEGMENTS_PER_CIRCLE = 64;
+
+// ============================================================================
+// Geometrie-Hilfsfunktionen
+// ============================================================================
+
+function isNear(a: Point, b: Point, tolerance: number): boolean {
+  return Math.abs(a.x - b.x) <= tolerance && Math.abs(a.y - b.y) <= tolerance;
+}
+
+/**
+ * Überstrichener Winkel eines Bogen-Segments (positiv = gegen den Uhrzeigersinn)
+ */
+function arcSweep(segment: ContourSegment): number {
+  if (!segment.arc) return 0;
+  const { center, clockwise } = segment.arc;
+  const startAngle = Math.atan2(segment.start.y - center.y, segment.start.x - center.x);
+  const endAngle = Math.atan2(segment.end.y - center.y, segment.end.x - center.x);
+
+  let sweep = endAngle - startAngle;
+  if (clockwise) {
+    if (sweep >= 0) sweep -= Math.PI * 2;
+  } else if (sweep <= 0) {
+    sweep += Math.PI * 2;
+  }
+  return sweep;
+}
+
+/**
+ * Kehrt die Laufrichtung eines Segments um
+ */
+function reverseSegment(segment: ContourSegment): ContourSegment {
+  return {
+    start: segment.end,
+    end: segment.start,
+    ...(segment.arc && { arc: { center: segment.arc.center, clockwise: !segment.arc.clockwise } }),
+  };
+}
+
+/**
+ * Kehrt die Laufrichtung einer ganzen Kontur um
+ */
+function reverseContour(contour: BoardContour): BoardContour {
+  return {
+    segments: contour.segments.slice().reverse().map(reverseSegment),
+    closed: contour.closed,
+    signedArea: -contour.signedArea,
+  };
+}
+
+/**
+ * Shoelace-Fläche eines Polygons (positiv = gegen den Uhrzeigersinn)
+ */
+function polygonSignedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/**
+ * Punkt-in-Polygon Test (Ray Casting)
+ */
+function isPointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// ============================================================================
+// Umwandlung
+// ============================================================================
+
+/**
+ * Linearisiert eine Kontur zu Polygon-Punkten (Bögen als Teilstücke)
+ *
+ * Bei geschlossenen Konturen wird der Startpunkt nicht am Ende wiederholt.
+ */
+export function contourToPoints(contour: BoardContour): Point[] {
+  if (contour.segments.length === 0) return [];
+  const points: Point[] = [contour.segments[0].start];
+
+  for (const segment of contour.segments) {
+    if (segment.arc) {
+      const { center } = segment.arc;
+      const sweep = arcSweep(segment);
+      const radius = Math.hypot(segment.start.x - center.x, segment.start.y - center.y);
+      const startAngle = Math.atan2(segment.start.y - center.y, segment.start.x - center.x);
+      const steps = Math.max(2, Math.ceil((Math.abs(sweep) * ARC_SEGMENTS_PER_CIRCLE) / (Math.PI * 2)));
+      for (let i = 1; i < steps; i++) {
+        const angle = startAngle + (sweep * i) / steps;
+        points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+      }
+    }
+    points.push(segment.end);
+  }
+
+  if (contour.closed && points.length > 1) points.pop();
+  return points;
+}
+
+/**
+ * Wandelt eine Kontur zurück in Line-/Arc-Commands (in Laufrichtung)
+ */
+export function contourToCommands(contour: BoardContour): GerberCommand[] {
+  return contour.segments.map((segment) =>
+    segment.arc
+      ? {
+          type: 'arc' as const,
+          startPoint: segment.start,
+          endPoint: segment.end,
+          centerPoint: segment.arc.center,
+          clockwise: segment.arc.clockwise,
+        }
+      : { type: 'line' as const, startPoint: segment.start, endPoint: segment.end }
+  );
+}
+
+// ============================================================================
+// Verkettung
+// ============================================================================
+
+/**
+ * Verkettet die Segmente des Outline-Layers zu Konturen
+ *
+ * @param commands - Commands des Outline-Layers (nur Linien und Bögen zählen)
+ * @param tolerance - Max. Abstand zweier Endpunkte, die verbunden werden (mm)
+ * @returns Aussenkontur, Ausschnitte und übrige Ketten
+ */
+export function assembleOutlineContours(
+  commands: GerberCommand[],
+  tolerance: number = DEFAULT_JOIN_TOLERANCE
+): BoardContours {
+  // Segmente sammeln (Linien ohne Länge weglassen, Vollkreise behalten)
+  const unused: ContourSegment[] = [];
+  for (const cmd of commands) {
+    if (!cmd.startPoint || !cmd.endPoint) continue;
+    if (cmd.type === 'arc' && cmd.centerPoint) {
+      unused.push({
+        start: cmd.startPoint,
+        end: cmd.endPoint,
+        arc: { center: cmd.centerPoint, clockwise: !!cmd.clockwise },
+      });
+    } else if (cmd.type === 'line' && !isNear(cmd.startPoint, cmd.endPoint, tolerance / 10)) {
+      unused.push({ start: cmd.startPoint, end: cmd.endPoint });
+    }
+  }
+
+  const chains: ContourSegment[][] = [];
+  while (unused.length > 0) {
+    const chain = [unused.shift() as ContourSegment];
+    const isClosed = () => isNear(chain[chain.length - 1].end, chain[0].start, tolerance);
+
+    // Am Ende anhängen, solange ein passendes Segment existiert
+    while (!isClosed()) {
+      const tail = chain[chain.length - 1].end;
+      const index = unused.findIndex((s) => isNear(s.start, tail, tolerance) || isNear(s.end, tail, tolerance));
+      if (index < 0) break;
+      const [segment] = unused.splice(index, 1);
+      const oriented = isNear(segment.start, tail, tolerance) ? segment : reverseSegment(segment);
+      // Startpunkt auf das Kettenende ziehen, damit die Kontur lückenlos ist
+      chain.push({ ...oriented, start: tail });
+    }
+
+    // Offene Kette: am Anfang weitersuchen (Datei begann mitten in der Kontur)
+    while (!isClosed()) {
+      const head = chain[0].start;
+      const index = unused.findIndex((s) => isNear(s.start, head, tolerance) || isNear(s.end, head, tolerance));
+      if (index < 0) break;
+      const [segment] = unused.splice(index, 1);
+      const oriented = isNear(segment.end, head, tolerance) ? segment : reverseSegment(segment);
+      chain.unshift({ ...oriented, end: head });
+    }
+
+    chains.push(chain);
+  }
+
+  // Konturen mit Fläche und Schliess-Status
+  const contours: BoardContour[] = chains.map((segments) => {
+    const closed = isNear(segments[segments.length - 1].end, segments[0].start, tolerance);
+    const contour: BoardContour = { segments, closed, signedArea: 0 };
+    if (closed) contour.signedArea = polygonSignedArea(contourToPoints(contour));
+    return contour;
+  });
+
+  // Aussenkontur = geschlossene Kontur mit der grössten Fläche
+  const closedContours = contours
+    .filter((c) => c.closed)
+    .sort((a, b) => Math.abs(b.signedArea) - Math.abs(a.signedArea));
+  const outer = closedContours[0] || null;
+  const outerPolygon = outer ? contourToPoints(outer) : [];
+
+  const cutouts: BoardContour[] = [];
+  const other: BoardContour[] = [];
+  for (const contour of contours) {
+    if (contour === outer) continue;
+    const inside = contour.closed && isPointInPolygon(contour.segments[0].start, outerPolygon);
+    if (inside) {
+      cutouts.push(contour.signedArea > 0 ? reverseContour(contour) : contour);
+    } else {
+      other.push(contour);
+    }
+  }
+
+  return {
+    outer: outer && outer.signedArea < 0 ? reverseContour(outer) : outer,
+    cutouts,
+    other,
+  };
+}
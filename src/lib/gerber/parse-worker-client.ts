@@ -0,0 +1,178 @@
+/**
+ * Parse-Worker Client - Gerber-Dateien ohne Blockieren der Oberfläche parsen
+ *
+ * Startet für jeden Auftrag einen eigenen Worker (parse-worker.ts) und beendet
+ * ihn danach wieder. So lässt sich ein laufender Import jederzeit abbrechen:
+ * ein AbortSignal beendet den Worker sofort, auch mitten in einer grossen Datei.
+ *
+ * Ohne Worker-Unterstützung (z.B. beim Server-Rendering) wird im aktuellen
+ * Thread geparst.
+ */
+
+import type { GerberFile, GerberJob, LayerMappingRule } from '@/types';
+import { parseGerberFiles, normalizeGerberLayers } from './parser';
+import { parseKicadPcb, type KicadPcb } from './kicad-parser';
+
+// ============================================================================
+// Nachrichten zwischen Client und Worker
+// ============================================================================
+
+/**
+ * Auftrag an den Worker
+ */
+export type ParseWorkerRequest =
+  | { type: 'parse'; files: Array<[string, string]>; job: GerberJob | null; rules: LayerMappingRule[]; includeAll: boolean }
+  | { type: 'normalize'; layers: GerberFile[] }
+  | { type: 'kicad'; content: string; filename: string };
+
+/**
+ * Antwort des Workers
+ */
+export type ParseWorkerResponse =
+  | { type: 'progress'; done: number; total: number; filename: string }
+  | { type: 'parsed'; layers: GerberFile[] }
+  | { type: 'normalized'; layers: GerberFile[] }
+  | { type: 'kicad'; pcb: KicadPcb }
+  | { type: 'error'; message: string };
+
+/**
+ * Fortschritt beim Parsen (nach jeder fertigen Datei)
+ */
+export interface ParseProgress {
+  /** Anzahl fertig geparster Dateien */
+  done: number;
+  /** Anzahl Dateien insgesamt */
+  total: number;
+  /** Zuletzt fertig geparste Datei */
+  filename: string;
+}
+
+// ============================================================================
+// Worker ausführen
+// ============================================================================
+
+function createAbortError(): DOMException {
+  return new DOMException('Verarbeitung abgebrochen.', 'AbortError');
+}
+
+/**
+ * Führt einen Auftrag in einem neuen Worker aus und wartet auf das Ergebnis
+ */
+function runWorker(
+  request: ParseWorkerRequest,
+  signal?: AbortSignal,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParseWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./parse-worker.ts', import.meta.url));
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.({ done: response.done, total: response.total, filename: response.filename });
+        return;
+      }
+      finish();
+      if (response.type === 'error') {
+        reject(new Error(response.message));
+      } else {
+        resolve(response);
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Parse-Worker konnte nicht gestartet werden.'));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+// ============================================================================
+// Öffentliche Funktionen
+// ============================================================================
+
+/**
+ * Parst mehrere Gerber-Dateien im Worker (wie parseGerberFiles)
+ *
+ * @param files - Map von Dateiname zu Inhalt
+ * @param options.job - Gerber-Jobdatei für die Layer-Zuordnung
+ * @param options.rules - Benutzerdefinierte Layer-Zuordnungsregeln
+ * @param options.includeAll - Alle Dateien parsen, ohne Filter nach Dateiendung
+ * @param options.onProgress - Wird nach jeder fertigen Datei aufgerufen
+ * @param options.signal - Bricht das Parsen ab (Promise wird mit AbortError abgelehnt)
+ */
+export async function parseGerberFilesInWorker(
+  files: Map<string, string>,
+  options: {
+    job?: GerberJob | null;
+    rules?: LayerMappingRule[];
+    includeAll?: boolean;
+    onProgress?: (progress: ParseProgress) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<GerberFile[]> {
+  const { job = null, rules = [], includeAll = false, onProgress, signal } = options;
+
+  if (typeof Worker === 'undefined') {
+    return parseGerberFiles(files, job, (done, total, filename) => onProgress?.({ done, total, filename }), rules, includeAll);
+  }
+
+  const response = await runWorker({ type: 'parse', files: Array.from(files.entries()), job, rules, includeAll }, signal, onProgress);
+  return response.type === 'parsed' ? response.layers : [];
+}
+
+/**
+ * Normalisiert die Layer eines Boards im Worker (wie normalizeGerberLayers)
+ *
+ * Die Bounding Boxen der Layer werden dabei im Worker neu berechnet.
+ */
+export async function normalizeGerberLayersInWorker(
+  layers: GerberFile[],
+  options: { signal?: AbortSignal } = {}
+): Promise<GerberFile[]> {
+  if (typeof Worker === 'undefined') {
+    return normalizeGerberLayers(layers);
+  }
+
+  const response = await runWorker({ type: 'normalize', layers }, options.signal);
+  return response.type === 'normalized' ? response.layers : layers;
+}
+
+/**
+ * Liest eine KiCad-Leiterplatte im Worker (wie parseKicadPcb)
+ *
+ * @param content - Inhalt der .kicad_pcb Datei
+ * @param filename - Dateiname (für Design-Name und Fehlermeldungen)
+ * @param options.signal - Bricht das Lesen ab (Promise wird mit AbortError abgelehnt)
+ */
+export async function parseKicadPcbInWorker(
+  content: string,
+  filename: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<KicadPcb> {
+  if (typeof Worker === 'undefined') {
+    return parseKicadPcb(content, filename);
+  }
+
+  const response = await runWorker({ type: 'kicad', content, filename }, options.signal);
+  if (response.type !== 'kicad') {
+    throw new Error(`${filename} konnte nicht gelesen werden.`);
+  }
+  return response.pcb;
+}
@@ -0,0 +1,45 @@
+/**
+ * Parse-Worker - Gerber-Dateien im Hintergrund parsen
+ *
+ * Läuft als Web Worker (siehe parse-worker-client.ts), damit die Oberfläche
+ * beim Parsen grosser Kupfer-Layer nicht einfriert. Der Worker kennt drei
+ * Aufträge:
+ * - parse: Dateien parsen, nach jeder Datei Fortschritt melden
+ * - normalize: Layer auf gemeinsamen Ursprung schieben (inkl. neuer Bounding Boxen)
+ * - kicad: KiCad-Leiterplatte (.kicad_pcb) in Layer umwandeln
+ *
+ * Abgebrochen wird von aussen mit worker.terminate().
+ */
+
+import { parseGerberFiles, normalizeGerberLayers } from './parser';
+import { parseKicadPcb } from './kicad-parser';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parse-worker-client';
+
+const ctx = self as unknown as Worker;
+
+function reply(response: ParseWorkerResponse) {
+  ctx.postMessage(response);
+}
+
+ctx.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'parse') {
+      const layers = await parseGerberFiles(
+        new Map(request.files),
+        request.job,
+        (done, total, filename) => reply({ type: 'progress', done, total, filename }),
+        request.rules,
+        request.includeAll
+      );
+      reply({ type: 'parsed', layers });
+    } else if (request.type === 'kicad') {
+      reply({ type: 'kicad', pcb: parseKicadPcb(request.content, request.filename) });
+    } else {
+      reply({ type: 'normalized', layers: normalizeGerberLayers(request.layers) });
+    }
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { getCommandPolarity, hasClearPolarity, parseGerberFile, parseGerberFiles } from './parser';
+
+/** Minimale Gerber-Datei (mm, 2.6-Format) um den eigentlichen Inhalt */
+function gerber(body: string): string {
+  return `%FSLAX26Y26*%\n%MOMM*%\n${body}\nM02*`;
+}
+
+async function parse(body: string) {
+  const file = await parseGerberFile(gerber(body), 'board-F_Cu.gbr');
+  return { file, data: file.parsedData! };
+}
+
+describe('Aperture-Makros', () => {
+  it('wertet ein Makro mit Variablen zu Primitiven in mm aus', async () => {
+    const { data } = await parse(`%AMPAD*
+21,1,$1,$2,0,0,0*%
+%ADD10PAD,2X1*%
+D10*
+X1000000Y1000000D03*`);
+    const aperture = data.apertures.get('10')!;
+    expect(aperture.type).toBe('macro');
+    expect(aperture.primitives).toHaveLength(1);
+    const xs = aperture.primitives![0].points!.map((p) => p.x);
+    expect(Math.min(...xs)).toBeCloseTo(-1);
+    expect(Math.max(...xs)).toBeCloseTo(1);
+  });
+
+  it('behält Primitive ohne Belichtung als Aussparung des Pads', async () => {
+    const { data } = await parse(`%AMDONUT*
+1,1,4,0,0*
+1,0,2,0,0*%
+%ADD10DONUT*%
+D10*
+X0Y0D03*`);
+    const primitives = data.apertures.get('10')!.primitives!;
+    expect(primitives.map((p) => p.exposure)).toEqual([true, false]);
+    expect(hasClearPolarity(data)).toBe(true);
+  });
+
+  it('braucht ohne Aussparungen keine Polaritäts-Behandlung', async () => {
+    const { data } = await parse(`%ADD10C,1.0*%
+D10*
+X0Y0D03*`);
+    expect(hasClearPolarity(data)).toBe(false);
+  });
+});
+
+describe('Polarität (LPD/LPC, IPNEG)', () => {
+  it('markiert nur die LPC-Objekte als löschend', async () => {
+    const { data } = await parse(`%ADD10C,1.0*%
+D10*
+X0Y0D03*
+%LPC*%
+X1000000Y0D03*
+%LPD*%
+X2000000Y0D03*`);
+    expect(data.commands.map((c) => getCommandPolarity(c, data))).toEqual(['dark', 'clear', 'dark']);
+    expect(hasClearPolarity(data)).toBe(true);
+  });
+
+  it('invertiert bei negativem Bild die Polarität aller Objekte', async () => {
+    const { data } = await parse(`%IPNEG*%
+%ADD10C,1.0*%
+D10*
+X0Y0D03*
+%LPC*%
+X1000000Y0D03*`);
+    expect(data.imagePolarity).toBe('negative');
+    expect(data.commands.map((c) => getCommandPolarity(c, data))).toEqual(['clear', 'dark']);
+    expect(hasClearPolarity(data)).toBe(true);
+  });
+});
+
+describe('Step-and-Repeat und Block-Apertures', () => {
+  const flashX = (data: { commands: Array<{ type: string; endPoint?: { x: number } }> }) =>
+    data.commands.filter((c) => c.type === 'flash').map((c) => c.endPoint!.x);
+
+  it('vervielfacht einen SR-Block in X-Richtung', async () => {
+    const { data } = await parse(`%ADD10C,1.0*%
+%SRX3Y1I5J0*%
+D10*
+X0Y0D03*
+%SR*%`);
+    expect(flashX(data)).toEqual([0, 5, 10]);
+  });
+
+  it('setzt eine Block-Aperture an der Flash-Position ein', async () => {
+    const { data } = await parse(`%ADD10C,1.0*%
+%ABD20*%
+D10*
+X1000000Y0D03*
+%AB*%
+D10*
+X0Y0D03*
+D20*
+X10000000Y0D03*`);
+    expect(flashX(data)).toEqual([0, 11]);
+  });
+
+  it('ignoriert SR innerhalb einer Block-Aperture mit Diagnose', async () => {
+    const { file, data } = await parse(`%ADD10C,1.0*%
+%ABD20*%
+%SRX2Y1I5J0*%
+D10*
+X1000000Y0D03*
+%SR*%
+%AB*%
+D10*
+X0Y0D03*
+D20*
+X20000000Y0D03*`);
+    expect(flashX(data)).toEqual([0, 21]);
+    expect(file.diagnostics?.map((d) => d.message)).toContainEqual(expect.stringContaining('%SR'));
+  });
+});
+
+describe('Import-Diagnose', () => {
+  it('meldet X2-Attribute nicht als nicht unterstützte Befehle', async () => {
+    const content = `%TF.GenerationSoftware,KiCad,Pcbnew,8.0*%
+%TF.FileFunction,Copper,L1,Top*%
+%TF.FilePolarity,Positive*%
+${gerber(`%TA.AperFunction,SMDPad,CuDef*%
+%ADD10C,1.0*%
+%TD*%
+%TO.N,GND*%
+D10*
+X0Y0D03*
+%TD*%`)}`;
+    const file = await parseGerberFile(content, 'board-F_Cu.gbr');
+    expect(file.diagnostics).toEqual([]);
+  });
+
+  it('meldet unbekannte erweiterte Befehle', async () => {
+    const { file } = await parse(`%ADD10C,1.0*%
+%XYZ1*%
+D10*
+X0Y0D03*`);
+    expect(file.diagnostics).toContainEqual(
+      expect.objectContaining({ severity: 'warning', message: expect.stringContaining('%XYZ1*%') })
+    );
+  });
+
+  it('meldet nicht definierte Apertures als Fehler', async () => {
+    const { file } = await parse(`D11*
+X0Y0D03*`);
+    expect(file.diagnostics).toContainEqual(expect.objectContaining({ severity: 'error', message: expect.stringContaining('D11') }));
+  });
+});
+
+describe('parseGerberFiles - Zuordnungsregeln', () => {
+  const files = new Map([
+    ['board.art1', gerber('%ADD10C,1.0*%\nD10*\nX0Y0D03*')],
+    ['readme.txt', 'Fertigungshinweise'],
+  ]);
+  const rules = [{ id: 'r1', pattern: '*.art1', syntax: 'glob' as const, type: 'bottom-copper' as const }];
+
+  it('übernimmt unübliche Endungen nur mit passender Regel', async () => {
+    expect(await parseGerberFiles(files)).toEqual([]);
+    const parsed = await parseGerberFiles(files, null, undefined, rules);
+    expect(parsed.map((f) => [f.filename, f.type])).toEqual([['board.art1', 'bottom-copper']]);
+  });
+
+  it('parst mit includeAll alle Dateien unabhängig von den Regeln', async () => {
+    const parsed = await parseGerberFiles(new Map([['board.art1', files.get('board.art1')!]]), null, undefined, [], true);
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0].parsedData?.commands.length).toBeGreaterThan(0);
+  });
+});
@@ -8,12 +8,23 @@
  * - Root Node mit children Array
  * - Graphic Nodes für Zeichenbefehle (shape, segment, move)
  * - ToolDefinition Nodes für Apertures
+ * - ToolMacro Nodes für Aperture-Makros (AM)
  * - ToolChange Nodes für Werkzeugwechsel
+ * - RegionMode Nodes für gefüllte Flächen (G36/G37)
+ * - LoadPolarity Nodes für dunkle/löschende Objekte (LPD/LPC)
+ * - StepRepeat Nodes und Block-Apertures (SR/AB) für Mehrfachnutzen
  */
 
 import { createParser } from '@tracespace/parser';
 import type {
   GerberFile,
+  GerberLayerType,
+  LayerDetection,
+  LayerMappingRule,
+  ImportDiagnostic,
+  BoardContour,
+  BoardContours,
+  GerberJob,
   ParsedGerber,
   GerberCommand,
   Aperture,
@@ -21,7 +32,11 @@ import type {
   Point,
 } from '@/types';
 import { generateId } from '@/lib/utils';
-import { detectLayerType, getLayerColor } from './layer-detector';
+import { detectLayer, getLayerColor, matchLayerMappingRule, refineLayerDetection } from './layer-detector';
+import { evaluateApertureMacro, type MacroBlock } from './aperture-macro';
+import { isExcellonContent, parseExcellon } from './excellon-parser';
+import { getJobFileFunction } from './gerber-job';
+import { assembleOutlineContours, contourToPoints } from './outline-contours';
 
 // ============================================================================
 // Typen für den tracespace Parser (basierend auf der Bibliothek)
@@ -61,12 +76,21 @@ interface TraceToolDefinition extends TraceNode {
 }
 
 interface TraceShape {
-  type: 'circle' | 'rectangle' | 'obround' | 'polygon';
+  type: 'circle' | 'rectangle' | 'obround' | 'polygon' | 'macroShape';
   diameter?: number;
   xSize?: number;
   ySize?: number;
   vertices?: number;
   rotation?: number;
+  /** Für Makros: Name und Parameter */
+  name?: string;
+  params?: number[];
+}
+
+interface TraceToolMacro extends TraceNode {
+  type: 'toolMacro';
+  name: string;
+  children: MacroBlock[];
 }
 
 interface TraceToolChange extends TraceNode {
@@ -89,59 +113,159 @@ interface TraceInterpolateMode extends TraceNode {
   mode: 'line' | 'cwArc' | 'ccwArc' | 'move' | 'drill';
 }
 
+interface TraceRegionMode extends TraceNode {
+  type: 'regionMode';
+  region: boolean;
+}
+
+interface TraceLoadPolarity extends TraceNode {
+  type: 'loadPolarity';
+  polarity: 'dark' | 'clear';
+}
+
+interface TraceUnimplemented extends TraceNode {
+  type: 'unimplemented';
+  value: string;
+}
+
+interface TraceStepRepeat extends TraceNode {
+  type: 'stepRepeat';
+  /** Leer = Ende des SR-Blocks */
+  stepRepeat: { x?: number; y?: number; i?: number; j?: number };
+}
+
+/**
+ * Offener oder abgeschlossener Step-and-Repeat-Block (Indizes in commands)
+ */
+interface StepRepeatBlock {
+  start: number;
+  end: number;
+  /** Anzahl Kopien in X/Y */
+  countX: number;
+  countY: number;
+  /** Schrittweite in mm */
+  stepX: number;
+  stepY: number;
+}
+
+/**
+ * Block-Aperture (%ABDnn%) in Definition
+ */
+interface BlockAperture {
+  code: string;
+  commands: GerberCommand[];
+}
+
 // ============================================================================
 // Hauptfunktionen
 // ============================================================================
 
 /**
  * Parst den Inhalt einer Gerber-Datei
+ *
+ * @param rules - Benutzerdefinierte Layer-Zuordnungsregeln
  */
 export async function parseGerberFile(
   content: string,
-  filename: string
+  filename: string,
+  job?: GerberJob | null,
+  rules: LayerMappingRule[] = []
 ): Promise<GerberFile> {
-  const layerType = detectLayerType(filename);
+  const detection = detectLayer(filename, content, job, rules);
   let parsedData: ParsedGerber | null = null;
+  let diagnostics: ImportDiagnostic[] = [];
 
   try {
+    // Bohrdateien mit dem eigenen Excellon-Parser (Werkzeugtabelle, Formate, Langlöcher)
+    if (detection.type === 'drill' || detection.type === 'drill-npth' || isExcellonContent(content)) {
+      const drillDiagnostics: ImportDiagnostic[] = [];
+      const drillData = parseExcellon(content, drillDiagnostics);
+      if (drillData.commands.length > 0) {
+        return createGerberFile(filename, content, detection, drillData, drillDiagnostics);
+      }
+    }
+
     const parser = createParser();
     parser.feed(content);
     const root = parser.results() as unknown as TraceRoot;
 
     if (root && root.children && root.children.length > 0) {
-      parsedData = convertTraceRoot(root);
-      // Parsed OK
+      parsedData = convertTraceRoot(root, diagnostics);
+    } else {
+      diagnostics.push({ severity: 'error', message: 'Keine Gerber-Daten gefunden (leere oder keine Gerber-Datei).' });
     }
   } catch (error) {
     console.warn(`Fehler beim Parsen von ${filename}:`, error);
+    // Teilergebnisse verwerfen, der Layer bleibt leer
+    diagnostics = [{
+      severity: 'error',
+      message: `Datei konnte nicht gelesen werden: ${error instanceof Error ? error.message : String(error)}`,
+    }];
   }
 
+  // Weder Attribute noch Dateiname eindeutig → Inhalt auswerten
+  return createGerberFile(
+    filename,
+    content,
+    refineLayerDetection(detection, parsedData, content),
+    parsedData,
+    diagnostics
+  );
+}
+
+/**
+ * Baut den GerberFile-Eintrag für einen geparsten Layer
+ */
+function createGerberFile(
+  filename: string,
+  content: string,
+  detection: LayerDetection,
+  parsedData: ParsedGerber | null,
+  diagnostics: ImportDiagnostic[]
+): GerberFile {
   return {
     id: generateId(),
     filename,
-    type: layerType,
+    type: detection.type,
     rawContent: content,
     parsedData,
     // Unbekannte Layer standardmässig ausblenden (können in der Sidebar wieder eingeblendet werden)
-    visible: layerType !== 'unknown',
-    color: getLayerColor(layerType),
+    visible: detection.type !== 'unknown',
+    color: getLayerColor(detection.type),
+    detection,
+    diagnostics,
   };
 }
 
 /**
  * Parst mehrere Gerber-Dateien
+ *
+ * @param onProgress - Wird nach jeder Datei aufgerufen (für Fortschrittsanzeigen)
+ * @param rules - Benutzerdefinierte Layer-Zuordnungsregeln
+ * @param includeAll - Alle Dateien parsen, ohne Filter nach Dateiendung
+ *                     (beim Öffnen eines Projekts stehen die Layer bereits fest)
  */
 export async function parseGerberFiles(
-  files: Map<string, string>
+  files: Map<string, string>,
+  job?: GerberJob | null,
+  onProgress?: (done: number, total: number, filename: string) => void,
+  rules: LayerMappingRule[] = [],
+  includeAll = false
 ): Promise<GerberFile[]> {
   const gerberFiles: GerberFile[] = [];
-  const entries = Array.from(files.entries());
+  // Dateien aus der Jobdatei bzw. mit passender Regel auch mit unüblicher Endung übernehmen
+  const entries = Array.from(files.entries()).filter(
+    ([filename]) =>
+      includeAll ||
+      isGerberFile(filename) ||
+      (job && getJobFileFunction(job, filename)) ||
+      matchLayerMappingRule(filename, rules)
+  );
 
   for (const [filename, content] of entries) {
-    if (isGerberFile(filename)) {
-      const parsed = await parseGerberFile(content, filename);
-      gerberFiles.push(parsed);
-    }
+    const parsed = await parseGerberFile(content, filename, job, rules);
+    gerberFiles.push(parsed);
+    onProgress?.(gerberFiles.length, entries.length, filename);
   }
 
   return gerberFiles;
@@ -150,9 +274,10 @@ export async function parseGerberFiles(
 /**
  * Konvertiert den tracespace Root Node in unser Format
  */
-function convertTraceRoot(root: TraceRoot): ParsedGerber {
+function convertTraceRoot(root: TraceRoot, diagnostics: ImportDiagnostic[]): ParsedGerber {
   const commands: GerberCommand[] = [];
   const apertures = new Map<string, Aperture>();
+  const macros = new Map<string, MacroBlock[]>();
 
   // Einheiten und Format aus den Nodes extrahieren
   let units: 'mm' | 'in' = 'mm';
@@ -161,15 +286,79 @@ function convertTraceRoot(root: TraceRoot): ParsedGerber {
   let currentMode: 'line' | 'cwArc' | 'ccwArc' = 'line';
   let lastPosition: Point = { x: 0, y: 0 };
 
+  // Aktuelle Polarität (LPD/LPC) und Bild-Polarität (IPPOS/IPNEG)
+  let polarity: 'dark' | 'clear' = 'dark';
+  let imagePolarity: 'positive' | 'negative' = 'positive';
+
+  // Block-Apertures (AB): fertige Blöcke und die gerade definierten (verschachtelbar)
+  const blocks = new Map<string, GerberCommand[]>();
+  const openBlocks: BlockAperture[] = [];
+
+  // Step-and-Repeat (SR): werden erst nach der Skalierung vervielfacht
+  const stepRepeats: StepRepeatBlock[] = [];
+  let openStepRepeat: StepRepeatBlock | null = null;
+
+  // Befehl mit der aktuellen Polarität übernehmen (nur 'clear' wird gespeichert)
+  // Während einer Block-Definition landet er im Block statt im Layer
+  const pushCommand = (cmd: GerberCommand) => {
+    const target = openBlocks.length > 0 ? openBlocks[openBlocks.length - 1].commands : commands;
+    target.push(polarity === 'clear' ? { ...cmd, polarity } : cmd);
+  };
+
+  // Block an einer Position einsetzen; LPC invertiert die Polarität des ganzen Blocks
+  const flashBlock = (blockCommands: GerberCommand[], at: Point) => {
+    for (const blockCmd of blockCommands) {
+      const copy = offsetCommand(blockCmd, at.x, at.y);
+      const inverted = (blockCmd.polarity === 'clear') !== (polarity === 'clear');
+      delete copy.polarity;
+      const target = openBlocks.length > 0 ? openBlocks[openBlocks.length - 1].commands : commands;
+      target.push(inverted ? { ...copy, polarity: 'clear' } : copy);
+    }
+  };
+
+  // Offenen SR-Block abschliessen
+  const closeStepRepeat = () => {
+    if (openStepRepeat) {
+      openStepRepeat.end = commands.length;
+      stepRepeats.push(openStepRepeat);
+      openStepRepeat = null;
+    }
+  };
+
+  // Region-Modus (G36 ... G37): Segmente bilden Konturen statt Linien
+  let regionMode = false;
+  let regionPoints: Point[] = [];
+
+  // Aktuelle Kontur als Region-Command abschliessen (mind. 3 Punkte)
+  const flushRegion = () => {
+    if (regionPoints.length >= 3) {
+      pushCommand({ type: 'region', points: regionPoints });
+    }
+    regionPoints = [];
+  };
+
+  // Für die Diagnose: nicht unterstützte Befehle und fehlende Apertures
+  const unsupported = new Set<string>();
+  const undefinedApertures = new Set<string>();
+  let stepRepeatInBlock = false;
+  const unitsSeen = new Set<'mm' | 'in'>();
+  let hasFormat = false;
+
   // Erste Pass: Einheiten und Format extrahieren
   for (const node of root.children) {
     if (node.type === 'units') {
       const unitsNode = node as TraceUnits;
       units = unitsNode.units || 'mm';
+      unitsSeen.add(units);
     }
     if (node.type === 'coordinateFormat') {
       const formatNode = node as TraceCoordinateFormat;
       coordinateFormat = formatNode.format || [4, 6];
+      hasFormat = !!formatNode.format;
+    }
+    if (node.type === 'toolMacro') {
+      const macroNode = node as TraceToolMacro;
+      macros.set(macroNode.name, macroNode.children || []);
     }
   }
 
@@ -185,7 +374,7 @@ function convertTraceRoot(root: TraceRoot): ParsedGerber {
     switch (node.type) {
       case 'toolDefinition': {
         const toolNode = node as TraceToolDefinition;
-        const aperture = convertToolDefinition(toolNode, units);
+        const aperture = convertToolDefinition(toolNode, units, macros);
         if (aperture) {
           apertures.set(aperture.id, aperture);
         }
@@ -206,11 +395,91 @@ function convertTraceRoot(root: TraceRoot): ParsedGerber {
         break;
       }
 
+      case 'loadPolarity': {
+        const polarityNode = node as TraceLoadPolarity;
+        polarity = polarityNode.polarity === 'clear' ? 'clear' : 'dark';
+        break;
+      }
+
+      case 'unimplemented': {
+        // %IPNEG% (veraltet, aber bei Altium-Planes üblich) und %AB% kennt tracespace nicht.
+        // X2-Attribute (%TF, %TA, %TO, %TD) sind Standard und ändern die Grafik nicht
+        const value = (node as TraceUnimplemented).value || '';
+        const blockStart = value.match(/^%ABD?(\d+)\*%$/);
+        if (/^%T[FAOD]/.test(value)) continue;
+        if (/^%IPNEG\*%$/.test(value)) imagePolarity = 'negative';
+        else if (/^%IPPOS\*%$/.test(value)) imagePolarity = 'positive';
+        else if (blockStart) {
+          flushRegion();
+          openBlocks.push({ code: blockStart[1], commands: [] });
+        } else if (/^%AB\*%$/.test(value)) {
+          flushRegion();
+          const block = openBlocks.pop();
+          if (block) blocks.set(block.code, block.commands);
+        } else if (value.trim()) {
+          unsupported.add(value.trim().slice(0, 40));
+        }
+        break;
+      }
+
+      case 'stepRepeat': {
+        // SR innerhalb einer Block-Aperture ist laut Spezifikation nicht erlaubt
+        // (die Indizes gelten nur für die Layer-Befehle) - ignorieren und melden
+        if (openBlocks.length > 0) {
+          stepRepeatInBlock = true;
+          break;
+        }
+        // Jedes SR beendet den vorherigen Block, SRX1Y1 bzw. leeres SR startet keinen neuen
+        const { x = 1, y = 1, i = 0, j = 0 } = (node as TraceStepRepeat).stepRepeat || {};
+        flushRegion();
+        closeStepRepeat();
+        if (x > 1 || y > 1) {
+          openStepRepeat = {
+            start: commands.length,
+            end: commands.length,
+            countX: Math.max(1, Math.round(x)),
+            countY: Math.max(1, Math.round(y)),
+            stepX: i * unitScale,
+            stepY: j * unitScale,
+          };
+        }
+        break;
+      }
+
+      case 'regionMode': {
+        const regionNode = node as TraceRegionMode;
+        // G36 startet, G37 beendet den Region-Modus - offene Kontur in beiden Fällen abschliessen
+        flushRegion();
+        regionMode = regionNode.region;
+        break;
+      }
+
       case 'graphic': {
         const graphicNode = node as TraceGraphic;
         const cmd = convertGraphic(graphicNode, currentTool, currentMode, lastPosition, unitScale);
-        if (cmd) {
-          commands.push(cmd);
+        if (cmd && !regionMode && cmd.type !== 'move' && cmd.apertureId
+          && !apertures.has(cmd.apertureId) && !blocks.has(cmd.apertureId)) {
+          undefinedApertures.add(cmd.apertureId);
+        }
+        if (cmd && regionMode) {
+          // Im Region-Modus: Segmente sammeln, ein Move (D02) beginnt eine neue Kontur
+          if (cmd.type === 'line' || cmd.type === 'arc') {
+            if (regionPoints.length === 0) {
+              regionPoints.push({ x: lastPosition.x, y: lastPosition.y });
+            }
+            regionPoints.push(...(cmd.type === 'arc' ? flattenArc(cmd) : [{ x: cmd.endPoint!.x, y: cmd.endPoint!.y }]));
+          } else {
+            flushRegion();
+          }
+          if (cmd.endPoint) {
+            lastPosition = cmd.endPoint;
+          }
+        } else if (cmd && cmd.type === 'flash' && cmd.apertureId && blocks.has(cmd.apertureId)) {
+          // Flash einer Block-Aperture: Block-Inhalt an die Position kopieren
+          flashBlock(blocks.get(cmd.apertureId)!, cmd.endPoint!);
+          lastPosition = cmd.endPoint!;
+        } else if (cmd) {
+          pushCommand(cmd);
           // Position für nächsten Befehl aktualisieren
           if (cmd.endPoint) {
             lastPosition = cmd.endPoint;
@@ -221,6 +490,10 @@ function convertTraceRoot(root: TraceRoot): ParsedGerber {
     }
   }
 
+  // Datei ohne G37 bzw. ohne SR-Ende: letzte Kontur / letzten Block trotzdem übernehmen
+  flushRegion();
+  closeStepRepeat();
+
   // Bounding Box berechnen
   let boundingBox = calculateBoundingBoxFromCommands(commands);
 
@@ -267,6 +540,38 @@ function convertTraceRoot(root: TraceRoot): ParsedGerber {
     // Skalierung angewendet
   }
 
+  // Step-and-Repeat erst jetzt vervielfachen: die Schrittweiten sind bereits in mm,
+  // die Koordinaten erst nach der Skalierungs-Heuristik
+  if (stepRepeats.length > 0) {
+    expandStepRepeats(commands, stepRepeats);
+    boundingBox = calculateBoundingBoxFromCommands(commands);
+  }
+
+  // Diagnose: Annahmen und Auffälligkeiten festhalten
+  if (!hasFormat) {
+    diagnostics.push({ severity: 'warning', message: `Kein Koordinatenformat (%FS) - ${coordinateFormat.join('.')} angenommen.` });
+  }
+  if (unitsSeen.size === 0) {
+    diagnostics.push({ severity: 'warning', message: 'Keine Einheit (%MO) - mm angenommen.' });
+  } else if (unitsSeen.size > 1) {
+    diagnostics.push({ severity: 'warning', message: 'Gemischte Einheiten (%MOMM und %MOIN) - die letzte Angabe gilt für die ganze Datei.' });
+  }
+  if (undefinedApertures.size > 0) {
+    diagnostics.push({
+      severity: 'error',
+      message: `Nicht definierte Apertures verwendet: ${Array.from(undefinedApertures).map((a) => `D${a}`).join(', ')}.`,
+    });
+  }
+  if (stepRepeatInBlock) {
+    diagnostics.push({ severity: 'warning', message: 'Step-and-Repeat (%SR) innerhalb einer Block-Aperture (%AB) ignoriert.' });
+  }
+  if (unsupported.size > 0) {
+    diagnostics.push({
+      severity: 'warning',
+      message: `Nicht unterstützte Befehle ignoriert: ${Array.from(unsupported).slice(0, 5).join(', ')}${unsupported.size > 5 ? ` (+${unsupported.size - 5})` : ''}.`,
+    });
+  }
+
   // WICHTIG: Keine individuelle Normalisierung pro Layer!
   // Die Normalisierung muss für ALLE Layer gemeinsam passieren,
   // damit sie korrekt übereinander liegen.
@@ -280,13 +585,47 @@ function convertTraceRoot(root: TraceRoot): ParsedGerber {
     commands,
     apertures,
     boundingBox,
+    ...(imagePolarity === 'negative' ? { imagePolarity } : {}),
   };
 }
 
+/**
+ * Effektive Polarität eines Befehls
+ *
+ * Bei negativen Layern (IPNEG) ist das Bild invertiert: gezeichnete Objekte
+ * sind Aussparungen, gelöschte Objekte wieder Kupfer.
+ */
+export function getCommandPolarity(command: GerberCommand, data: ParsedGerber): 'dark' | 'clear' {
+  const clear = command.polarity === 'clear';
+  return clear !== (data.imagePolarity === 'negative') ? 'clear' : 'dark';
+}
+
+/**
+ * Prüft ob ein Layer Aussparungen enthält (LPC-Objekte, negatives Bild oder
+ * Makro-Primitive mit Belichtung aus)
+ *
+ * Nur dann müssen die Renderer Objekte voneinander abziehen; sonst
+ * genügt einfaches Übereinanderzeichnen.
+ */
+export function hasClearPolarity(data: ParsedGerber): boolean {
+  return (
+    data.imagePolarity === 'negative' ||
+    data.commands.some((cmd) => cmd.polarity === 'clear') ||
+    Array.from(data.apertures.values()).some((ap) => ap.primitives?.some((primitive) => !primitive.exposure))
+  );
+}
+
 /**
  * Konvertiert eine ToolDefinition in eine Aperture
+ *
+ * Makro-Apertures werden mit ihren Parametern ausgewertet; unbekannte
+ * Makros und leere Ergebnisse fallen auf den kleinen Standard-Kreis zurück.
  */
-function convertToolDefinition(node: TraceToolDefinition, units: 'mm' | 'in'): Aperture | null {
+function convertToolDefinition(
+  node: TraceToolDefinition,
+  units: 'mm' | 'in',
+  macros: Map<string, MacroBlock[]>
+): Aperture | null {
   if (!node.code || !node.shape) return null;
 
   const scale = units === 'in' ? 25.4 : 1;
@@ -325,6 +664,24 @@ function convertToolDefinition(node: TraceToolDefinition, units: 'mm' | 'in'): A
         rotation: shape.rotation || 0,
       };
 
+    case 'macroShape': {
+      const blocks = shape.name ? macros.get(shape.name) : undefined;
+      const primitives = blocks ? evaluateApertureMacro(blocks, shape.params || [], scale) : [];
+      if (primitives.length > 0) {
+        return {
+          id: node.code,
+          type: 'macro',
+          macroName: shape.name,
+          primitives,
+        };
+      }
+      return {
+        id: node.code,
+        type: 'circle',
+        diameter: 0.1 * scale,
+      };
+    }
+
     default:
       return {
         id: node.code,
@@ -414,6 +771,89 @@ function convertGraphic(
   }
 }
 
+/**
+ * Kopiert einen Befehl und verschiebt alle Koordinaten
+ */
+function offsetCommand(cmd: GerberCommand, dx: number, dy: number): GerberCommand {
+  const move = (p: Point): Point => ({ x: p.x + dx, y: p.y + dy });
+  return {
+    ...cmd,
+    ...(cmd.startPoint ? { startPoint: move(cmd.startPoint) } : {}),
+    ...(cmd.endPoint ? { endPoint: move(cmd.endPoint) } : {}),
+    ...(cmd.centerPoint ? { centerPoint: move(cmd.centerPoint) } : {}),
+    ...(cmd.points ? { points: cmd.points.map(move) } : {}),
+  };
+}
+
+/**
+ * Vervielfacht die Befehle der SR-Blöcke (in-place)
+ *
+ * Die Kopien ersetzen den Original-Block in Zeilen-/Spalten-Reihenfolge,
+ * damit löschende Objekte weiterhin nur ihre eigene Kopie betreffen.
+ */
+function expandStepRepeats(commands: GerberCommand[], stepRepeats: StepRepeatBlock[]): void {
+  // Von hinten nach vorne, damit die Indizes der früheren Blöcke gültig bleiben
+  for (const sr of [...stepRepeats].reverse()) {
+    const block = commands.slice(sr.start, sr.end);
+    if (block.length === 0) continue;
+
+    const expanded: GerberCommand[] = [];
+    for (let iy = 0; iy < sr.countY; iy++) {
+      for (let ix = 0; ix < sr.countX; ix++) {
+        for (const cmd of block) {
+          expanded.push(ix === 0 && iy === 0 ? cmd : offsetCommand(cmd, ix * sr.stepX, iy * sr.stepY));
+        }
+      }
+    }
+    commands.splice(sr.start, block.length, ...expanded);
+  }
+}
+
+/**
+ * Approximiert einen Bogen als Punktfolge (ohne Startpunkt)
+ *
+ * Wird für Bögen in Region-Konturen verwendet, damit Regionen als
+ * einfache Polygone gefüllt werden können. Die Segmentanzahl richtet sich
+ * nach dem Winkel (wie im Canvas), nicht nach der Länge, weil die
+ * Koordinaten bei der Skalierungs-Heuristik noch nachträglich geteilt werden.
+ */
+function flattenArc(command: GerberCommand): Point[] {
+  const start = command.startPoint!;
+  const end = command.endPoint!;
+  const center = command.centerPoint;
+
+  const radius = center ? Math.sqrt((start.x - center.x) ** 2 + (start.y - center.y) ** 2) : 0;
+  if (!center || radius < 1e-9 || !isFinite(radius)) {
+    return [{ x: end.x, y: end.y }];
+  }
+
+  const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+  const endAngle = Math.atan2(end.y - center.y, end.x - center.x);
+
+  // Sweep-Winkel bestimmen (gleicher Start-/Endpunkt = Vollkreis)
+  let sweep = endAngle - startAngle;
+  if (command.clockwise) {
+    if (sweep > 0) sweep -= 2 * Math.PI;
+    if (sweep === 0) sweep = -2 * Math.PI;
+  } else {
+    if (sweep < 0) sweep += 2 * Math.PI;
+    if (sweep === 0) sweep = 2 * Math.PI;
+  }
+
+  const segments = Math.max(2, Math.ceil(Math.abs(sweep) * 32 / Math.PI));
+  const points: Point[] = [];
+  for (let i = 1; i < segments; i++) {
+    const angle = startAngle + (sweep * i) / segments;
+    points.push({
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle),
+    });
+  }
+  // Exakter Endpunkt, damit die Kontur ohne Rundungsfehler anschliesst
+  points.push({ x: end.x, y: end.y });
+  return points;
+}
+
 /**
  * Berechnet die Extrempunkte eines Bogens (Arc) für die Bounding Box.
  *
@@ -590,12 +1030,24 @@ export function normalizeGerberLayers(layers: GerberFile[]): GerberFile[] {
     // Neue Bounding Box für diesen Layer
     const newBBox = calculateBoundingBoxFromCommands(normalizedCommands);
 
+    // Bohrliste der Excellon-Dateien mitverschieben
+    const shift = (p: Point): Point => ({ x: p.x - offsetX, y: p.y - offsetY });
+    const drill = layer.parsedData.drill && {
+      ...layer.parsedData.drill,
+      tools: layer.parsedData.drill.tools.map(tool => ({
+        ...tool,
+        holes: tool.holes.map(shift),
+        slots: tool.slots.map(slot => ({ start: shift(slot.start), end: shift(slot.end) })),
+      })),
+    };
+
     return {
       ...layer,
       parsedData: {
         ...layer.parsedData,
         commands: normalizedCommands,
         boundingBox: newBBox,
+        ...(drill && { drill }),
       },
     };
   });
@@ -628,22 +1080,35 @@ export function calculateCombinedBoundingBox(layers: GerberFile[]): BoundingBox
 }
 
 /**
- * Extrahiert die Board-Outline
+ * Verkettet den Outline-Layer zu Aussenkontur und Ausschnitten
+ *
+ * Ohne Outline-Layer bleibt die Aussenkontur leer (null).
  */
-export function extractBoardOutline(layers: GerberFile[]): Point[] {
+export function extractBoardContours(layers: GerberFile[]): BoardContours {
   const outlineLayer = layers.find((l) => l.type === 'outline');
+  if (!outlineLayer?.parsedData) {
+    return { outer: null, cutouts: [], other: [] };
+  }
+  return assembleOutlineContours(outlineLayer.parsedData.commands);
+}
 
-  if (outlineLayer?.parsedData) {
-    const points: Point[] = [];
-
-    for (const command of outlineLayer.parsedData.commands) {
-      if (command.type === 'line' || command.type === 'arc') {
-        if (command.endPoint) {
-          points.push(command.endPoint);
-        }
-      }
-    }
-
+/**
+ * Extrahiert die Board-Outline als Polygon
+ *
+ * Nimmt die verkettete Aussenkontur (Bögen linearisiert). Ist die Kontur
+ * nicht geschlossen (Lücke grösser als die Toleranz), wird die längste
+ * offene Kette verwendet, ohne Outline das Rechteck der Bounding Box.
+ */
+export function extractBoardOutline(layers: GerberFile[]): Point[] {
+  const { outer, other } = extractBoardContours(layers);
+  const longest = other.reduce<BoardContour | null>(
+    (best, c) => (!best || c.segments.length > best.segments.length ? c : best),
+    null
+  );
+  const contour = outer || longest;
+
+  if (contour) {
+    const points = contourToPoints(contour);
     if (points.length >= 3) {
       return points;
     }
@@ -659,6 +1124,20 @@ export function extractBoardOutline(layers: GerberFile[]): Point[] {
   ];
 }
 
+/**
+ * Setzt einen neuen Outline-Layer ein (manuell definiert oder aus DXF)
+ *
+ * Ein bisheriger Outline-Layer bleibt als 'mechanical' (grau) in der Liste.
+ */
+export function replaceOutlineLayer(layers: GerberFile[], outlineLayer: GerberFile): GerberFile[] {
+  return [
+    ...layers.map((layer): GerberFile =>
+      layer.type === 'outline' ? { ...layer, type: 'mechanical', color: getLayerColor('mechanical') } : layer
+    ),
+    outlineLayer,
+  ];
+}
+
 /**
  * Prüft ob eine Datei eine Gerber-Datei ist
  */
@@ -0,0 +1,38 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { extractZipFile } from './zip-handler';
+
+/**
+ * ZIP-Archiv mit den angegebenen Pfaden (Inhalt egal)
+ *
+ * JSZip liest unter Node keine Blobs, die Bytes werden direkt übergeben.
+ */
+async function zipOf(paths: string[]): Promise<Blob> {
+  const zip = new JSZip();
+  for (const path of paths) zip.file(path, '%FSLAX46Y46*%\nM02*');
+  return (await zip.generateAsync({ type: 'uint8array' })) as unknown as Blob;
+}
+
+describe('extractZipFile - Design-Erkennung', () => {
+  it('trennt mehrere Ordner mit Kupfer in eigene Designs', async () => {
+    const result = await extractZipFile(
+      await zipOf(['carrier/carrier-F_Cu.gbr', 'carrier/carrier-Edge_Cuts.gbr', 'daughter/daughter-F_Cu.gbr'])
+    );
+    expect(result.designs.map((d) => d.name).sort()).toEqual(['carrier', 'daughter']);
+  });
+
+  it('zählt einen Ordner nur mit Outline nicht als eigenes Design', async () => {
+    const result = await extractZipFile(await zipOf(['gerber/board-F_Cu.gbr', 'gerber/board-B_Cu.gbr', 'mech/board.gko']));
+    expect(result.designs).toHaveLength(1);
+    expect(result.designs[0].files).toHaveLength(3);
+  });
+
+  it('trennt Designs am Dateinamen-Präfix', async () => {
+    const result = await extractZipFile(
+      await zipOf(['carrier-F_Cu.gbr', 'carrier-B_Cu.gbr', 'daughter-F_Cu.gbr', 'daughter-B_Cu.gbr', 'shared.drl'])
+    );
+    expect(result.designs).toHaveLength(2);
+    // Übrige Dateien kommen zum grössten Design
+    expect(result.designs.flatMap((d) => d.files)).toContain('shared.drl');
+  });
+});
@@ -6,13 +6,29 @@
  */
 
 import JSZip from 'jszip';
+import type { GerberJob, LayerMappingRule } from '@/types';
 import { isGerberFile } from './parser';
+import { detectLayerType, matchLayerMappingRule } from './layer-detector';
+import { getJobFileFunction, isGerberJobFile, parseGerberJob } from './gerber-job';
+import { isDxfFile } from './dxf-parser';
+
+/**
+ * Ein Design innerhalb eines ZIP-Archivs (z.B. Trägerplatine und Tochterplatine)
+ */
+export interface ZipDesignGroup {
+  /** Name des Designs (Ordnername oder gemeinsames Dateinamen-Präfix) */
+  name: string;
+  /** Schlüssel in ZipExtractionResult.files */
+  files: string[];
+  /** Jobdatei dieses Designs, falls vorhanden */
+  gerberJob: GerberJob | null;
+}
 
 /**
  * Ergebnis der ZIP-Extraktion
  */
 export interface ZipExtractionResult {
-  /** Map von Dateiname zu Inhalt (nur Text-Dateien) */
+  /** Map von Dateiname zu Inhalt (nur Text-Dateien; bei gleichen Namen in mehreren Ordnern der Pfad) */
   files: Map<string, string>;
   /** Liste aller gefundenen Gerber-Dateien */
   gerberFiles: string[];
@@ -20,47 +36,174 @@ export interface ZipExtractionResult {
   skippedFiles: string[];
   /** Name des ZIP-Archivs */
   zipName: string;
+  /** Gerber-Jobdatei (.gbrjob), falls im ZIP vorhanden */
+  gerberJob: GerberJob | null;
+  /** Erkannte Designs (mehr als eines = Archiv enthält mehrere Boards) */
+  designs: ZipDesignGroup[];
+  /** DXF-Zeichnungen (Schlüssel in files), z.B. Board-Kontur von der Mechanik */
+  dxfFiles: string[];
+}
+
+/**
+ * Eine gelesene Datei mit Ordner (für die Design-Erkennung)
+ */
+interface ZipFileInfo {
+  key: string;
+  filename: string;
+  folder: string;
+}
+
+/** KiCad-Layer-Suffixe, die vom Design-Präfix abgetrennt werden */
+const KICAD_SUFFIX = /-(?:(?:F|B|In\d+)[._](?:Cu|Mask|SilkS|Silkscreen|Paste|Fab|CrtYd|Courtyard|Adhes)|Edge[._]Cuts|User[._]\w+|Dwgs[._]User|Cmts[._]User|Margin|N?PTH(?:-drl(?:_map)?)?|drl(?:_map)?|job)$/i;
+
+/**
+ * Gemeinsames Design-Präfix eines Dateinamens
+ *
+ * @example
+ * getDesignPrefix('carrier-F_Cu.gbr') // => 'carrier'
+ * getDesignPrefix('daughter.GTL')     // => 'daughter'
+ */
+function getDesignPrefix(filename: string): string {
+  const base = filename.replace(/\.[^.]+$/, '');
+  return base.replace(KICAD_SUFFIX, '').toLowerCase();
+}
+
+/**
+ * Zählt eine Gruppe als eigenes Design, wenn sie Kupfer enthält
+ *
+ * Eine Gruppe nur mit Outline (z.B. Ordner "mech/" neben "gerber/") gehört
+ * zum selben Board und kommt wie andere übrige Dateien zum grössten Design.
+ */
+function isDesignGroup(filenames: string[], rules: LayerMappingRule[]): boolean {
+  return filenames.some((f) => detectLayerType(f, rules).endsWith('copper'));
+}
+
+/**
+ * Teilt die Dateien eines Archivs in Designs auf
+ *
+ * 1. Unterordner: mehrere Ordner mit je einem Design
+ * 2. Dateinamen-Präfix: "carrier-F_Cu.gbr" / "daughter-F_Cu.gbr"
+ * Dateien, die keinem Design zugeordnet werden können (z.B. gemeinsame
+ * Bohrdatei), kommen zum grössten Design.
+ */
+function groupDesigns(
+  infos: ZipFileInfo[],
+  jobs: Array<{ folder: string; prefix: string; job: GerberJob }>,
+  rules: LayerMappingRule[]
+): ZipDesignGroup[] {
+  const groupBy = (keyOf: (info: ZipFileInfo) => string) => {
+    const groups = new Map<string, ZipFileInfo[]>();
+    for (const info of infos) {
+      const key = keyOf(info);
+      groups.set(key, [...(groups.get(key) || []), info]);
+    }
+    return groups;
+  };
+
+  const byFolder = groupBy((info) => info.folder);
+  const byPrefix = groupBy((info) => getDesignPrefix(info.filename));
+
+  const isDesign = (list: ZipFileInfo[]) => isDesignGroup(list.map((i) => i.filename), rules);
+  const folderDesigns = Array.from(byFolder.entries()).filter(([, list]) => isDesign(list));
+  const prefixDesigns = Array.from(byPrefix.entries()).filter(([, list]) => list.length >= 2 && isDesign(list));
+
+  let groups: Array<{ name: string; key: string; infos: ZipFileInfo[]; byFolder: boolean }>;
+  if (folderDesigns.length >= 2) {
+    groups = folderDesigns.map(([folder, list]) => ({
+      name: folder.split('/').pop() || folder, key: folder, infos: list, byFolder: true,
+    }));
+  } else if (prefixDesigns.length >= 2) {
+    groups = prefixDesigns.map(([prefix, list]) => ({
+      name: list[0].filename.slice(0, prefix.length), key: prefix, infos: list, byFolder: false,
+    }));
+  } else {
+    return [{ name: '', files: infos.map((i) => i.key), gerberJob: jobs[0]?.job || null }];
+  }
+
+  // Übrige Dateien dem grössten Design zuordnen
+  const assigned = new Set(groups.flatMap((g) => g.infos));
+  const largest = groups.reduce((a, b) => (b.infos.length > a.infos.length ? b : a));
+  largest.infos.push(...infos.filter((i) => !assigned.has(i)));
+
+  return groups.map((g) => ({
+    name: g.name,
+    files: g.infos.map((i) => i.key),
+    gerberJob: jobs.find((j) => (g.byFolder ? j.folder === g.key : j.prefix === g.key))?.job || null,
+  }));
 }
 
 /**
  * Extrahiert Dateien aus einem ZIP-Archiv
  *
  * @param file - Die ZIP-Datei (als File oder Blob)
+ * @param rules - Benutzerdefinierte Layer-Zuordnungsregeln (passende Dateien gelten als Gerber)
  * @returns Extrahierte Dateien als Map
  *
  * @example
  * const result = await extractZipFile(zipFile);
  * console.log(`Gefunden: ${result.gerberFiles.length} Gerber-Dateien`);
  */
-export async function extractZipFile(file: File | Blob): Promise<ZipExtractionResult> {
+export async function extractZipFile(file: File | Blob, rules: LayerMappingRule[] = []): Promise<ZipExtractionResult> {
   // ZIP laden
   const zip = await JSZip.loadAsync(file);
 
   const files = new Map<string, string>();
   const gerberFiles: string[] = [];
   const skippedFiles: string[] = [];
+  const dxfFiles: string[] = [];
+  const infos: ZipFileInfo[] = [];
 
-  // Durch alle Dateien im ZIP iterieren
-  for (const [path, zipEntry] of Object.entries(zip.files)) {
-    // Ordner überspringen
-    if (zipEntry.dir) continue;
+  // Sichtbare Dateien mit Ordner und Dateiname
+  const entries = Object.entries(zip.files)
+    .filter(([, zipEntry]) => !zipEntry.dir)
+    .map(([path, zipEntry]) => ({
+      path,
+      zipEntry,
+      filename: path.split('/').pop() || path,
+      folder: path.split('/').slice(0, -1).join('/'),
+    }));
+
+  // Zuerst die Jobdateien lesen: sie listen auch Gerber-Dateien mit unüblicher Endung
+  const jobs: Array<{ folder: string; prefix: string; job: GerberJob }> = [];
+  for (const entry of entries) {
+    if (entry.path.includes('__MACOSX') || !isGerberJobFile(entry.filename)) continue;
+    const job = parseGerberJob(await entry.zipEntry.async('string'));
+    if (job) jobs.push({ folder: entry.folder, prefix: getDesignPrefix(entry.filename), job });
+  }
+  const isListedInJob = (filename: string) => jobs.some((j) => getJobFileFunction(j.job, filename));
 
-    // Nur den Dateinamen extrahieren (ohne Ordnerpfad)
-    const filename = path.split('/').pop() || path;
+  // Gleiche Dateinamen in mehreren Ordnern: Pfad als Schlüssel verwenden
+  const nameCount = new Map<string, number>();
+  for (const entry of entries) nameCount.set(entry.filename, (nameCount.get(entry.filename) || 0) + 1);
 
+  // Durch alle Dateien im ZIP iterieren
+  for (const { path, zipEntry, filename, folder } of entries) {
     // Versteckte Dateien überspringen (z.B. __MACOSX)
     if (filename.startsWith('.') || path.includes('__MACOSX')) {
       skippedFiles.push(filename);
       continue;
     }
 
-    // Prüfen ob es eine Gerber-Datei ist
-    if (isGerberFile(filename)) {
+    // Jobdateien wurden oben schon gelesen
+    if (isGerberJobFile(filename)) continue;
+
+    // DXF-Zeichnungen separat sammeln (vor der Gerber-Prüfung: "board-Edge_Cuts.dxf")
+    if (isDxfFile(filename)) {
+      const key = (nameCount.get(filename) || 0) > 1 ? path : filename;
+      files.set(key, await zipEntry.async('string'));
+      dxfFiles.push(key);
+      continue;
+    }
+
+    // Prüfen ob es eine Gerber-Datei ist (oder in einer Jobdatei aufgeführt)
+    if (isGerberFile(filename) || isListedInJob(filename) || matchLayerMappingRule(filename, rules)) {
       try {
         // Inhalt als Text lesen
         const content = await zipEntry.async('string');
-        files.set(filename, content);
-        gerberFiles.push(filename);
+        const key = (nameCount.get(filename) || 0) > 1 ? path : filename;
+        files.set(key, content);
+        gerberFiles.push(key);
+        infos.push({ key, filename, folder });
       } catch (error) {
         console.warn(`Konnte ${filename} nicht lesen:`, error);
         skippedFiles.push(filename);
@@ -75,6 +218,9 @@ export async function extractZipFile(file: File | Blob): Promise<ZipExtractionRe
     gerberFiles,
     skippedFiles,
     zipName: (file as File).name || 'upload.zip',
+    gerberJob: jobs[0]?.job || null,
+    designs: groupDesigns(infos, jobs, rules),
+    dxfFiles,
   };
 }
 
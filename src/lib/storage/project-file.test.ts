@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { Board, GerberFile, Panel } from '@/types';
+import { createDxfOutlineLayer, parseDxf } from '@/lib/gerber/dxf-parser';
+import {
+  calculateBoundingBox,
+  calculateCombinedBoundingBox,
+  normalizeGerberLayers,
+  parseGerberFiles,
+  replaceOutlineLayer,
+} from '@/lib/gerber/parser';
+import { deserializeProject, serializeProject } from './project-file';
+
+/** Kupfer-Layer mit Inhalt von (10,10) bis (30,20) mm in Original-Koordinaten */
+const COPPER = [
+  '%FSLAX26Y26*%',
+  '%MOMM*%',
+  '%ADD10C,0.1*%',
+  'D10*',
+  'X10000000Y10000000D02*',
+  'X30000000Y20000000D01*',
+  'M02*',
+].join('\n');
+
+/** DXF-Rechteck in denselben Original-Koordinaten wie das Kupfer */
+function dxfRectangle(): string {
+  const corners = [[10, 10], [30, 10], [30, 20], [10, 20]];
+  const lines = corners.flatMap(([x1, y1], i) => {
+    const [x2, y2] = corners[(i + 1) % corners.length];
+    return ['0', 'LINE', '8', '0', '10', `${x1}`, '20', `${y1}`, '11', `${x2}`, '21', `${y2}`];
+  });
+  return ['0', 'SECTION', '2', 'ENTITIES', ...lines, '0', 'ENDSEC', '0', 'EOF'].join('\n');
+}
+
+/** Board wie beim Import: normalisieren, dann DXF-Kontur ohne Ausrichtung einsetzen */
+async function importBoard(): Promise<Board> {
+  const files = await parseGerberFiles(new Map([['board-F_Cu.gbr', COPPER]]));
+  const origin = calculateCombinedBoundingBox(files);
+  const sourceOrigin = { x: origin.minX, y: origin.minY };
+  let layers = normalizeGerberLayers(files);
+  const dxfLayer = createDxfOutlineLayer(parseDxf(dxfRectangle()), 'board.dxf', {
+    unit: 'mm',
+    alignment: 'none',
+    layers,
+    origin: sourceOrigin,
+  });
+  layers = replaceOutlineLayer(layers, dxfLayer);
+  const bbox = calculateCombinedBoundingBox(layers);
+  return {
+    id: 'board-1',
+    name: 'board',
+    layers,
+    outline: [],
+    boundingBox: bbox,
+    width: bbox.maxX - bbox.minX,
+    height: bbox.maxY - bbox.minY,
+    sourceOrigin,
+    layerRotation: 0,
+    mirrorX: false,
+    mirrorY: false,
+    importedAt: new Date(),
+  };
+}
+
+function panelWith(board: Board): Panel {
+  return {
+    id: 'panel-1',
+    name: 'Test',
+    boards: [board],
+    instances: [],
+    frame: { left: 5, right: 5, top: 5, bottom: 5, cornerRadius: 2 },
+    width: 100,
+    height: 100,
+    tabs: [],
+    fiducials: [],
+    badmarks: [],
+    toolingHoles: [],
+    panelTexts: [],
+    vscoreLines: [],
+    freeMousebites: [],
+    routingContours: [],
+    routingConfig: { toolDiameter: 2, generateBoardOutlines: true, generatePanelOutline: true, clearance: 0 },
+    createdAt: new Date(),
+    modifiedAt: new Date(),
+  };
+}
+
+function layerBbox(layers: GerberFile[], type: GerberFile['type']) {
+  const layer = layers.find((l) => l.type === type);
+  return layer?.parsedData ? calculateBoundingBox(layer.parsedData) : null;
+}
+
+describe('Projektdatei - Speichern und Laden', () => {
+  it('stellt Gerber- und DXF-Layer an denselben Koordinaten wieder her', async () => {
+    const board = await importBoard();
+    const json = serializeProject(panelWith(board), {
+      unit: 'mm',
+      grid: { visible: false, size: 0.1, snapEnabled: false },
+    });
+    const { panel } = await deserializeProject(json);
+    const loaded = panel.boards[0];
+
+    expect(loaded.sourceOrigin?.x).toBeCloseTo(board.sourceOrigin!.x, 6);
+    expect(loaded.sourceOrigin?.y).toBeCloseTo(board.sourceOrigin!.y, 6);
+    for (const type of ['top-copper', 'outline'] as const) {
+      const before = layerBbox(board.layers, type)!;
+      const after = layerBbox(loaded.layers, type)!;
+      expect(after.minX).toBeCloseTo(before.minX, 6);
+      expect(after.minY).toBeCloseTo(before.minY, 6);
+      expect(after.maxX).toBeCloseTo(before.maxX, 6);
+    }
+  });
+
+  it('wandelt die Apertures synthetischer Layer zurück in eine Map', async () => {
+    const json = serializeProject(panelWith(await importBoard()), {
+      unit: 'mm',
+      grid: { visible: false, size: 0.1, snapEnabled: false },
+    });
+    const { panel } = await deserializeProject(json);
+    const outline = panel.boards[0].layers.find((l) => l.type === 'outline');
+    expect(outline?.parsedData?.apertures).toBeInstanceOf(Map);
+    expect(outline?.parsedData?.apertures.size).toBe(1);
+  });
+
+  it('lehnt Dateien ohne Versions-Information ab', async () => {
+    await expect(deserializeProject(JSON.stringify({ panel: {}, settings: {} }))).rejects.toThrow(
+      'keine Versions-Information'
+    );
+  });
+});
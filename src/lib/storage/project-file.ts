@@ -6,16 +6,16 @@
  *
  * WICHTIG: ParsedGerber enthält eine Map<string, Aperture>, die nicht
  * JSON-serialisierbar ist. Deshalb wird beim Speichern nur der rawContent
- * behalten und beim Laden mit parseGerberFile() neu geparst.
+ * behalten und beim Laden im Parse-Worker neu geparst.
  */
 
 import type { Panel, ProjectFile, Unit, GridConfig } from '@/types';
 import {
-  parseGerberFile,
-  normalizeGerberLayers,
   extractBoardOutline,
+  extractBoardContours,
   calculateCombinedBoundingBox,
 } from '@/lib/gerber/parser';
+import { parseGerberFilesInWorker, normalizeGerberLayersInWorker } from '@/lib/gerber/parse-worker-client';
 import { saveAs } from 'file-saver';
 import {
   getCurrentFileHandle,
@@ -93,7 +93,7 @@ export function serializeProject(
  * Was passiert hier:
  * 1. JSON-String wird geparst
  * 2. Grundstruktur wird validiert (version, panel, settings)
- * 3. Für jeden Board: alle Layer werden aus rawContent neu geparst
+ * 3. Für jeden Board: alle Layer werden aus rawContent neu geparst (im Worker)
  * 4. Layer werden normalisiert (gemeinsamer Ursprung)
  * 5. Board-Outline wird extrahiert
  * 6. Date-Strings werden zurück zu Date-Objekten konvertiert
@@ -130,39 +130,54 @@ export async function deserializeProject(
 
   // 3. Für jeden Board: Gerber-Layer aus rawContent neu parsen
   for (const board of panel.boards) {
-    // Alle Layer dieses Boards parsen
-    const parsedLayers = await Promise.all(
-      board.layers.map(async (layer) => {
-        if (!layer.rawContent) {
-          // Synthetischer Layer (z.B. manueller Outline): parsedData wurde direkt
-          // serialisiert, Apertures müssen von Object zurück zu Map konvertiert werden
-          if (layer.parsedData && layer.parsedData.apertures && !(layer.parsedData.apertures instanceof Map)) {
-            layer.parsedData.apertures = new Map(Object.entries(layer.parsedData.apertures));
-          }
-          return layer;
+    // Alle Gerber-Dateien dieses Boards im Worker erneut parsen (wie beim Import).
+    // Ohne Filter nach Dateiendung: auch Layer, die nur über eine Zuordnungsregel
+    // importiert wurden, müssen unabhängig von den aktuellen Regeln geladen werden.
+    const rawFiles = new Map(
+      board.layers.filter((layer) => layer.rawContent).map((layer) => [layer.filename, layer.rawContent])
+    );
+    const freshlyParsed = await parseGerberFilesInWorker(rawFiles, { job: board.gerberJob, includeAll: true });
+
+    const parsedLayers = board.layers.map((layer) => {
+      if (!layer.rawContent) {
+        // Synthetischer Layer (z.B. manueller Outline): parsedData wurde direkt
+        // serialisiert, Apertures müssen von Object zurück zu Map konvertiert werden
+        if (layer.parsedData && layer.parsedData.apertures && !(layer.parsedData.apertures instanceof Map)) {
+          layer.parsedData.apertures = new Map(Object.entries(layer.parsedData.apertures));
         }
+        return layer;
+      }
 
-        // Gerber-Datei erneut parsen (wie beim Import)
-        const freshlyParsed = await parseGerberFile(layer.rawContent, layer.filename);
+      // Die geparsten Daten übernehmen, aber ID, type, visible, color
+      // aus der gespeicherten Datei behalten (könnte manuell geändert worden sein)
+      const fresh = freshlyParsed.find((f) => f.filename === layer.filename);
+      return {
+        ...layer,
+        parsedData: fresh ? fresh.parsedData : null,
+      };
+    });
 
-        // Die geparsten Daten übernehmen, aber ID, type, visible, color
-        // aus der gespeicherten Datei behalten (könnte manuell geändert worden sein)
-        return {
-          ...layer,
-          parsedData: freshlyParsed.parsedData,
-        };
-      })
+    // 4. Neu geparste Layer normalisieren (gemeinsamer Ursprung 0,0), ebenfalls im Worker.
+    // Synthetische Layer (DXF-/manueller Outline) sind bereits normalisiert gespeichert
+    // und bleiben unverändert. Den Offset merken, damit eine DXF-Kontur in
+    // Original-Koordinaten passt
+    const sourceLayers = parsedLayers.filter((layer) => layer.rawContent);
+    if (sourceLayers.length > 0) {
+      const sourceBbox = calculateCombinedBoundingBox(sourceLayers);
+      board.sourceOrigin = { x: sourceBbox.minX, y: sourceBbox.minY };
+    }
+    const normalizedSource = await normalizeGerberLayersInWorker(sourceLayers);
+    const normalizedLayers = parsedLayers.map((layer) =>
+      layer.rawContent ? normalizedSource[sourceLayers.indexOf(layer)] : layer
     );
 
-    // 4. Layer normalisieren (gemeinsamer Ursprung 0,0)
-    const normalizedLayers = normalizeGerberLayers(parsedLayers);
-
     // 5. Board-Outline extrahieren
     const outline = extractBoardOutline(normalizedLayers);
 
     // Aktualisierte Layer und Outline zurückschreiben
     board.layers = normalizedLayers;
     board.outline = outline;
+    board.contours = extractBoardContours(normalizedLayers);
 
     // Board-Dimensionen aus sichtbaren Layern neu berechnen
     const visibleLayers = normalizedLayers.filter((l) => l.visible);
@@ -215,6 +230,11 @@ export async function deserializeProject(
     (panel as any).badmarks = [];
   }
 
+  // 6c. Migration: panelTexts-Array für ältere Projekte setzen
+  if (!(panel as any).panelTexts) {
+    (panel as any).panelTexts = [];
+  }
+
   // 7. Date-Strings zurück zu Date-Objekten konvertieren
   // JSON.stringify wandelt Date in ISO-String um, wir müssen das rückgängig machen
   panel.createdAt = new Date(panel.createdAt);
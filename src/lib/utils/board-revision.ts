@@ -0,0 +1,205 @@
+/**
+ * Board-Revision - Vergleich beim Ersetzen der Board-Daten
+ *
+ * Wenn ein Kunde eine neue Revision schickt, werden nur die Gerber-Daten
+ * des Boards ausgetauscht; Instanzen, Tabs, Fräskonturen und Badmarks
+ * bleiben stehen. Dieses Modul zeigt, was sich geändert hat, und findet
+ * Elemente, die nicht mehr zur neuen Outline passen:
+ * - Tabs, die die neue Kontur nicht mehr berühren
+ * - Fräskonturen, die zu weit von der neuen Kontur entfernt liegen
+ * - Board-Fiducials ausserhalb der neuen Kontur
+ * - Badmarks, die jetzt auf dem Board liegen
+ *
+ * Alle Prüfungen in Panel-Koordinaten (mm, Y-down).
+ */
+
+import type {
+  Board,
+  BoardInstance,
+  BoardRevisionIssue,
+  BoardRevisionSummary,
+  GerberLayerType,
+  Panel,
+  Point,
+} from '@/types';
+import { transformGerberPoint } from '@/lib/export/board-transform';
+import { getTabRect } from './mousebite-holes';
+
+// ============================================================================
+// Konstanten
+// ============================================================================
+
+/** Max. Abstand zwischen Tab und Kontur in mm, damit der Tab als verbunden gilt */
+const TAB_CONTACT_TOLERANCE = 0.5;
+
+/** Zuschlag zum Fräserdurchmesser in mm für Fräskonturen (Offset + Rundung) */
+const ROUTING_TOLERANCE = 0.1;
+
+/** Anzeigenamen der Tab-Kanten */
+const EDGE_LABELS: Record<string, string> = {
+  top: 'oben',
+  bottom: 'unten',
+  left: 'links',
+  right: 'rechts',
+};
+
+// ============================================================================
+// Geometrie-Hilfsfunktionen
+// ============================================================================
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Kleinster Abstand eines Punkts zum Rand eines Polygons
+ */
+function distanceToPolygon(p: Point, polygon: Point[]): number {
+  let min = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    min = Math.min(min, distanceToSegment(p, polygon[i], polygon[(i + 1) % polygon.length]));
+  }
+  return min;
+}
+
+/**
+ * Punkt-in-Polygon Test (Ray Casting)
+ */
+function isPointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Outline einer Instanz in Panel-Koordinaten
+ */
+function getInstanceOutline(board: Board, instance: BoardInstance): Point[] {
+  return board.outline.map((p) => transformGerberPoint(p.x, p.y, board, instance));
+}
+
+/**
+ * Berührungspunkt eines Tabs mit der Board-Kante (Mitte der Tab-Seite zum Board)
+ */
+function getTabContactPoint(rect: { x: number; y: number; width: number; height: number }, edge: string): Point {
+  switch (edge) {
+    case 'top':
+      return { x: rect.x + rect.width / 2, y: rect.y };
+    case 'bottom':
+      return { x: rect.x + rect.width / 2, y: rect.y + rect.height };
+    case 'left':
+      return { x: rect.x + rect.width, y: rect.y + rect.height / 2 };
+    default:
+      return { x: rect.x, y: rect.y + rect.height / 2 };
+  }
+}
+
+/**
+ * Layer-Typen eines Boards (ohne unbekannte Layer)
+ */
+function getLayerTypes(board: Board): Set<GerberLayerType> {
+  return new Set(board.layers.map((l) => l.type).filter((t) => t !== 'unknown'));
+}
+
+// ============================================================================
+// Vergleich
+// ============================================================================
+
+/**
+ * Vergleicht die bisherigen Board-Daten mit der neuen Revision
+ *
+ * @param panel - Das aktuelle Panel (mit den Elementen der Instanzen)
+ * @param oldBoard - Das Board vor dem Ersetzen
+ * @param newBoard - Das Board mit den Daten der neuen Revision (gleiche ID)
+ */
+export function compareBoardRevision(panel: Panel, oldBoard: Board, newBoard: Board): BoardRevisionSummary {
+  const oldTypes = getLayerTypes(oldBoard);
+  const newTypes = getLayerTypes(newBoard);
+
+  const instances = panel.instances.filter((i) => i.boardId === oldBoard.id);
+  const issues: BoardRevisionIssue[] = [];
+
+  instances.forEach((instance, index) => {
+    const label = instances.length > 1 ? ` (Instanz ${index + 1})` : '';
+    const outline = getInstanceOutline(newBoard, instance);
+    if (outline.length < 3) return;
+
+    // Tabs: Berührungspunkt muss auf der neuen Kontur liegen
+    for (const tab of panel.tabs.filter((t) => t.boardInstanceId === instance.id)) {
+      const contact = getTabContactPoint(getTabRect(tab, instance, newBoard), tab.edge);
+      if (distanceToPolygon(contact, outline) > TAB_CONTACT_TOLERANCE) {
+        issues.push({
+          kind: 'tab',
+          id: tab.id,
+          message: `Tab ${EDGE_LABELS[tab.edge]} bei ${Math.round(tab.position * 100)}%${label} berührt die neue Kontur nicht.`,
+        });
+      }
+    }
+
+    // Fräskonturen: Segment-Endpunkte nahe der neuen Kontur (frei gezeichnete ausgenommen)
+    for (const contour of panel.routingContours) {
+      if (contour.boardInstanceId !== instance.id || contour.creationMethod === 'free-draw') continue;
+      const maxDistance = contour.toolDiameter + ROUTING_TOLERANCE;
+      const off = contour.segments.some(
+        (s) => distanceToPolygon(s.start, outline) > maxDistance || distanceToPolygon(s.end, outline) > maxDistance
+      );
+      if (off) {
+        issues.push({
+          kind: 'routing',
+          id: contour.id,
+          message: `Fräskontur${label} folgt nicht mehr der neuen Kontur - neu erzeugen.`,
+        });
+      }
+    }
+
+    // Board-Fiducials müssen auf dem Board liegen
+    for (const fiducial of panel.fiducials) {
+      if (fiducial.type !== 'board' || fiducial.boardInstanceId !== instance.id) continue;
+      if (!isPointInPolygon(fiducial.position, outline)) {
+        issues.push({
+          kind: 'fiducial',
+          id: fiducial.id,
+          message: `Board-Fiducial${label} liegt ausserhalb der neuen Kontur.`,
+        });
+      }
+    }
+
+    // Badmarks liegen neben dem Board und dürfen es nicht überdecken
+    for (const badmark of panel.badmarks) {
+      if (badmark.boardInstanceId !== instance.id) continue;
+      const half = badmark.size / 2;
+      const corners = [
+        { x: badmark.position.x - half, y: badmark.position.y - half },
+        { x: badmark.position.x + half, y: badmark.position.y - half },
+        { x: badmark.position.x + half, y: badmark.position.y + half },
+        { x: badmark.position.x - half, y: badmark.position.y + half },
+      ];
+      if (corners.some((c) => isPointInPolygon(c, outline))) {
+        issues.push({
+          kind: 'badmark',
+          id: badmark.id,
+          message: `Badmark${label} liegt jetzt auf dem Board.`,
+        });
+      }
+    }
+  });
+
+  return {
+    oldSize: { width: oldBoard.width, height: oldBoard.height },
+    newSize: { width: newBoard.width, height: newBoard.height },
+    addedLayers: Array.from(newTypes).filter((t) => !oldTypes.has(t)),
+    removedLayers: Array.from(oldTypes).filter((t) => !newTypes.has(t)),
+    instanceCount: instances.length,
+    issues,
+  };
+}
@@ -0,0 +1,449 @@
+/**
+ * Kupfer-Thieving - Ausgleichsfläche auf Nutzenrand und Zwischenräumen
+ *
+ * Einzige Quelle für die Thieving-Geometrie:
+ * - Canvas (pixi-panel-canvas.tsx) zeichnet sie als eigenen Layer
+ * - Gerber-Export (gerber-export.ts) schreibt sie in alle Kupferlagen
+ *
+ * Vorgehen: Alle Sperrflächen (Boards, Bohrungen, Fiducials, Badmarks, Tabs,
+ * V-Scores, Fräskonturen, Kupfer-Beschriftungen) werden inkl. Abstand als Rechteck, Kreis oder
+ * Kapsel (Linie mit Breite) beschrieben. Das Füllmuster wird als Linien bzw.
+ * Punkte erzeugt und an diesen konvexen Sperrflächen exakt abgeschnitten:
+ * - Vollfläche: horizontale Streifen (Rechtecke), lückenlos übereinander
+ * - Schraffur: 45°-Kreuzgitter aus Linien mit runden Enden
+ * - Punkte: versetztes Punkteraster, nur vollständige Punkte
+ *
+ * Alle Koordinaten in Panel-Koordinaten (mm, Y-down).
+ */
+
+import type { CopperThievingConfig, Panel, Point, RoutingSegment } from '@/types';
+import { getTabRect, getTabMousebiteHoles, getFreeMousebiteHoles } from './mousebite-holes';
+import { getPanelTextStrokes } from './stroke-font';
+
+// ============================================================================
+// Typen und Konstanten
+// ============================================================================
+
+/**
+ * Standard-Konfiguration: deaktiviert, Punkte-Muster
+ */
+export const DEFAULT_COPPER_THIEVING_CONFIG: CopperThievingConfig = {
+  enabled: false,
+  pattern: 'dots',
+  boardClearance: 1.0,
+  featureClearance: 1.0,
+  vscoreClearance: 1.0,
+  edgeClearance: 0.5,
+  hatchWidth: 0.3,
+  hatchPitch: 1.0,
+  dotDiameter: 1.0,
+  dotPitch: 1.5,
+};
+
+/** Streifenhöhe der Vollfläche in mm (bestimmt die Treppenstufen an Rundungen) */
+const SOLID_STRIP_HEIGHT = 0.25;
+
+/** Maximaler Winkelschritt beim Zerlegen von Fräsbögen in Sehnen */
+const ARC_STEP_RAD = Math.PI / 16;
+
+/**
+ * Erzeugte Thieving-Geometrie
+ */
+export interface CopperThievingGeometry {
+  /** Vollfläche: Rechteck-Streifen */
+  strips: Array<{ x: number; y: number; width: number; height: number }>;
+  /** Schraffur: Linien (Breite = hatchWidth, runde Enden) */
+  lines: Array<{ start: Point; end: Point }>;
+  /** Schraffur-Linienbreite in mm */
+  lineWidth: number;
+  /** Punkte: Mittelpunkte (Durchmesser = dotDiameter) */
+  dots: Point[];
+  /** Punkt-Durchmesser in mm */
+  dotDiameter: number;
+}
+
+/**
+ * Sperrfläche (bereits inkl. Abstand)
+ */
+type ThievingObstacle =
+  | { kind: 'rect'; x1: number; y1: number; x2: number; y2: number }
+  | { kind: 'circle'; center: Point; radius: number }
+  | { kind: 'capsule'; start: Point; end: Point; radius: number };
+
+// ============================================================================
+// Sperrflächen sammeln
+// ============================================================================
+
+/**
+ * Zerlegt ein Fräskontur-Segment in gerade Teilstücke (Bögen als Sehnen)
+ *
+ * @returns Teilstücke und der maximale Sehnenfehler (für den Sicherheitszuschlag)
+ */
+function flattenRoutingSegment(seg: RoutingSegment): { points: Point[]; sagitta: number } {
+  if (!seg.arc) return { points: [seg.start, seg.end], sagitta: 0 };
+
+  const { center, radius } = seg.arc;
+  let sA = seg.arc.startAngle;
+  let eA = seg.arc.endAngle;
+  // Gleiche Richtungslogik wie im Canvas: CW = abnehmende Winkel
+  if (seg.arc.clockwise) {
+    while (eA >= sA) eA -= Math.PI * 2;
+  } else {
+    while (eA <= sA) eA += Math.PI * 2;
+  }
+
+  const steps = Math.max(1, Math.ceil(Math.abs(eA - sA) / ARC_STEP_RAD));
+  const points: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const a = sA + (eA - sA) * (i / steps);
+    points.push({ x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius });
+  }
+  const halfStep = Math.abs(eA - sA) / steps / 2;
+  return { points, sagitta: radius * (1 - Math.cos(halfStep)) };
+}
+
+/**
+ * Sammelt alle Sperrflächen des Panels inkl. der konfigurierten Abstände
+ */
+function collectObstacles(panel: Panel, config: CopperThievingConfig): ThievingObstacle[] {
+  const obstacles: ThievingObstacle[] = [];
+  const fc = config.featureClearance;
+
+  const rect = (x: number, y: number, w: number, h: number, grow: number) => {
+    obstacles.push({ kind: 'rect', x1: x - grow, y1: y - grow, x2: x + w + grow, y2: y + h + grow });
+  };
+  const circle = (center: Point, radius: number) => {
+    obstacles.push({ kind: 'circle', center, radius });
+  };
+
+  // Boards (Bounding-Box der Instanz)
+  for (const instance of panel.instances) {
+    const board = panel.boards.find((b) => b.id === instance.boardId);
+    if (!board) continue;
+    const isRotated = instance.rotation === 90 || instance.rotation === 270;
+    const w = isRotated ? board.height : board.width;
+    const h = isRotated ? board.width : board.height;
+    rect(instance.position.x, instance.position.y, w, h, config.boardClearance);
+  }
+
+  // Tabs inkl. Mousebite-Bohrungen
+  for (const tab of panel.tabs) {
+    const instance = panel.instances.find((i) => i.id === tab.boardInstanceId);
+    const board = instance ? panel.boards.find((b) => b.id === instance.boardId) : undefined;
+    if (!instance || !board) continue;
+
+    const r = getTabRect(tab, instance, board);
+    rect(r.x, r.y, r.width, r.height, fc);
+    for (const p of getTabMousebiteHoles(tab, instance, board)) {
+      circle(p, (tab.holeDiameter || 0) / 2 + fc);
+    }
+  }
+
+  // Rundungs-Mousebites
+  for (const mousebite of panel.freeMousebites) {
+    for (const p of getFreeMousebiteHoles(mousebite)) {
+      circle(p, mousebite.holeDiameter / 2 + fc);
+    }
+  }
+
+  // Fiducials (ab Masköffnung), Badmarks, Tooling-Bohrungen
+  for (const fiducial of panel.fiducials) {
+    circle(fiducial.position, fiducial.maskDiameter / 2 + fc);
+  }
+  for (const badmark of panel.badmarks) {
+    const half = badmark.size / 2;
+    rect(badmark.position.x - half, badmark.position.y - half, badmark.size, badmark.size, fc);
+  }
+  for (const hole of panel.toolingHoles) {
+    circle(hole.position, hole.diameter / 2 + fc);
+  }
+
+  // Kupfer-Beschriftungen (Bounding-Box der Striche)
+  for (const text of panel.panelTexts) {
+    if (text.layer !== 'copper') continue;
+    const points = getPanelTextStrokes(text, panel).flat();
+    if (points.length === 0) continue;
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    rect(x, y, Math.max(...xs) - x, Math.max(...ys) - y, text.strokeWidth / 2 + fc);
+  }
+
+  // V-Score Linien (durchgehend von Kante zu Kante)
+  for (const line of panel.vscoreLines) {
+    obstacles.push({ kind: 'capsule', start: line.start, end: line.end, radius: config.vscoreClearance });
+  }
+
+  // Fräskonturen: Fräserbahn (Mittellinie ± Fräserradius)
+  for (const contour of panel.routingContours) {
+    if (!contour.visible) continue;
+    for (const seg of contour.segments) {
+      const { points, sagitta } = flattenRoutingSegment(seg);
+      const radius = contour.toolDiameter / 2 + fc + sagitta;
+      for (let i = 0; i < points.length - 1; i++) {
+        obstacles.push({ kind: 'capsule', start: points[i], end: points[i + 1], radius });
+      }
+    }
+  }
+
+  // Abgerundete Panel-Ecken: Eckquadrate sperren (konservativ)
+  const cr = panel.frame.cornerRadius;
+  if (cr > 0) {
+    rect(0, 0, cr, cr, 0);
+    rect(panel.width - cr, 0, cr, cr, 0);
+    rect(0, panel.height - cr, cr, cr, 0);
+    rect(panel.width - cr, panel.height - cr, cr, cr, 0);
+  }
+
+  return obstacles;
+}
+
+// ============================================================================
+// Geometrie: Linie gegen Sperrfläche
+// ============================================================================
+
+/**
+ * Liang-Barsky: schränkt [t0, t1] auf den Bereich ein, in dem p + t·d
+ * die Bedingung lo ≤ Wert ≤ hi erfüllt (Wert = p + t·d in einer Achse)
+ */
+function clipSlab(
+  range: [number, number] | null,
+  p: number,
+  d: number,
+  lo: number,
+  hi: number
+): [number, number] | null {
+  if (!range) return null;
+  if (Math.abs(d) < 1e-12) {
+    return p >= lo && p <= hi ? range : null;
+  }
+  let a = (lo - p) / d;
+  let b = (hi - p) / d;
+  if (a > b) [a, b] = [b, a];
+  const t0 = Math.max(range[0], a);
+  const t1 = Math.min(range[1], b);
+  return t0 < t1 ? [t0, t1] : null;
+}
+
+/**
+ * Parameterbereich, in dem die Gerade p + t·d (d normiert) einen Kreis schneidet
+ */
+function clipCircle(p: Point, d: Point, center: Point, radius: number): [number, number] | null {
+  const fx = p.x - center.x;
+  const fy = p.y - center.y;
+  const b = fx * d.x + fy * d.y;
+  const c = fx * fx + fy * fy - radius * radius;
+  const disc = b * b - c;
+  if (disc <= 0) return null;
+  const sq = Math.sqrt(disc);
+  return [-b - sq, -b + sq];
+}
+
+/**
+ * Parameterbereich, in dem die Gerade p + t·d (d normiert) in der um
+ * `grow` vergrösserten Sperrfläche liegt
+ *
+ * Alle Sperrflächen sind konvex, der Schnitt ist daher immer ein Intervall.
+ */
+function blockedRange(
+  obstacle: ThievingObstacle,
+  p: Point,
+  d: Point,
+  grow: number
+): [number, number] | null {
+  const all: [number, number] = [-Infinity, Infinity];
+
+  switch (obstacle.kind) {
+    case 'rect':
+      return clipSlab(
+        clipSlab(all, p.x, d.x, obstacle.x1 - grow, obstacle.x2 + grow),
+        p.y, d.y, obstacle.y1 - grow, obstacle.y2 + grow
+      );
+
+    case 'circle':
+      return clipCircle(p, d, obstacle.center, obstacle.radius + grow);
+
+    case 'capsule': {
+      const radius = obstacle.radius + grow;
+      const ranges: Array<[number, number] | null> = [
+        clipCircle(p, d, obstacle.start, radius),
+        clipCircle(p, d, obstacle.end, radius),
+      ];
+
+      // Mittelteil: Rechteck im lokalen System der Kapsel (u entlang, v quer)
+      const length = Math.hypot(obstacle.end.x - obstacle.start.x, obstacle.end.y - obstacle.start.y);
+      if (length > 1e-9) {
+        const ux = (obstacle.end.x - obstacle.start.x) / length;
+        const uy = (obstacle.end.y - obstacle.start.y) / length;
+        const rx = p.x - obstacle.start.x;
+        const ry = p.y - obstacle.start.y;
+        ranges.push(clipSlab(
+          clipSlab(all, rx * ux + ry * uy, d.x * ux + d.y * uy, 0, length),
+          -rx * uy + ry * ux, -d.x * uy + d.y * ux, -radius, radius
+        ));
+      }
+
+      const hits = ranges.filter((r): r is [number, number] => r !== null);
+      if (hits.length === 0) return null;
+      return [Math.min(...hits.map((r) => r[0])), Math.max(...hits.map((r) => r[1]))];
+    }
+  }
+}
+
+/**
+ * Schneidet das Geradenstück p + t·d, t ∈ [t0, t1] an allen Sperrflächen ab
+ *
+ * @returns Die freien Teilstücke als Parameterintervalle
+ */
+function freeRanges(
+  obstacles: ThievingObstacle[],
+  p: Point,
+  d: Point,
+  t0: number,
+  t1: number,
+  grow: number
+): Array<[number, number]> {
+  const blocked: Array<[number, number]> = [];
+  for (const obstacle of obstacles) {
+    const range = blockedRange(obstacle, p, d, grow);
+    if (range && range[1] > t0 && range[0] < t1) blocked.push(range);
+  }
+  blocked.sort((a, b) => a[0] - b[0]);
+
+  const free: Array<[number, number]> = [];
+  let cursor = t0;
+  for (const [b0, b1] of blocked) {
+    if (b0 > cursor) free.push([cursor, Math.min(b0, t1)]);
+    cursor = Math.max(cursor, b1);
+    if (cursor >= t1) break;
+  }
+  if (cursor < t1) free.push([cursor, t1]);
+  return free;
+}
+
+/**
+ * Prüft ob ein Punkt in einer (um `grow` vergrösserten) Sperrfläche liegt
+ */
+function isPointBlocked(obstacle: ThievingObstacle, p: Point, grow: number): boolean {
+  switch (obstacle.kind) {
+    case 'rect':
+      return p.x > obstacle.x1 - grow && p.x < obstacle.x2 + grow &&
+        p.y > obstacle.y1 - grow && p.y < obstacle.y2 + grow;
+
+    case 'circle':
+      return Math.hypot(p.x - obstacle.center.x, p.y - obstacle.center.y) < obstacle.radius + grow;
+
+    case 'capsule': {
+      const dx = obstacle.end.x - obstacle.start.x;
+      const dy = obstacle.end.y - obstacle.start.y;
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0
+        ? Math.max(0, Math.min(1, ((p.x - obstacle.start.x) * dx + (p.y - obstacle.start.y) * dy) / len2))
+        : 0;
+      const cx = obstacle.start.x + t * dx;
+      const cy = obstacle.start.y + t * dy;
+      return Math.hypot(p.x - cx, p.y - cy) < obstacle.radius + grow;
+    }
+  }
+}
+
+// ============================================================================
+// Hauptfunktion
+// ============================================================================
+
+/**
+ * Erzeugt die Thieving-Geometrie für das Panel
+ *
+ * @param panel - Das Panel
+ * @param config - Thieving-Konfiguration (Standard: panel.thievingConfig)
+ * @returns Die Geometrie (leer, wenn Thieving deaktiviert ist)
+ */
+export function generateCopperThieving(
+  panel: Panel,
+  config: CopperThievingConfig = { ...DEFAULT_COPPER_THIEVING_CONFIG, ...panel.thievingConfig }
+): CopperThievingGeometry {
+  const geometry: CopperThievingGeometry = {
+    strips: [],
+    lines: [],
+    lineWidth: config.hatchWidth,
+    dots: [],
+    dotDiameter: config.dotDiameter,
+  };
+  if (!config.enabled || panel.instances.length === 0) return geometry;
+
+  const obstacles = collectObstacles(panel, config);
+
+  // Füllbereich: Panel abzüglich Randabstand
+  const minX = config.edgeClearance;
+  const minY = config.edgeClearance;
+  const maxX = panel.width - config.edgeClearance;
+  const maxY = panel.height - config.edgeClearance;
+  if (maxX <= minX || maxY <= minY) return geometry;
+
+  if (config.pattern === 'solid') {
+    // Streifen: Mittellinie frei von den um die halbe Höhe vergrösserten
+    // Sperrflächen → der ganze Streifen ist frei
+    const h = SOLID_STRIP_HEIGHT;
+    const rows = Math.floor((maxY - minY) / h);
+    for (let row = 0; row < rows; row++) {
+      const y = minY + row * h;
+      const p = { x: 0, y: y + h / 2 };
+      for (const [t0, t1] of freeRanges(obstacles, p, { x: 1, y: 0 }, minX, maxX, h / 2)) {
+        if (t1 - t0 < h) continue;
+        geometry.strips.push({ x: t0, y, width: t1 - t0, height: h });
+      }
+    }
+    return geometry;
+  }
+
+  if (config.pattern === 'hatch') {
+    const half = config.hatchWidth / 2;
+    const pitch = config.hatchPitch;
+    if (half <= 0 || pitch <= 0) return geometry;
+
+    // Zwei Linienscharen unter ±45°, Abstand senkrecht gemessen
+    for (const d of [{ x: Math.SQRT1_2, y: Math.SQRT1_2 }, { x: Math.SQRT1_2, y: -Math.SQRT1_2 }]) {
+      const n = { x: -d.y, y: d.x };
+      const corners = [
+        { x: minX, y: minY }, { x: maxX, y: minY }, { x: minX, y: maxY }, { x: maxX, y: maxY },
+      ];
+      const offsets = corners.map((c) => c.x * n.x + c.y * n.y);
+      const start = Math.ceil(Math.min(...offsets) / pitch) * pitch;
+
+      for (let s = start; s <= Math.max(...offsets); s += pitch) {
+        const p = { x: n.x * s, y: n.y * s };
+        // Auf den um die halbe Linienbreite verkleinerten Füllbereich begrenzen
+        const range = clipSlab(
+          clipSlab([-Infinity, Infinity], p.x, d.x, minX + half, maxX - half),
+          p.y, d.y, minY + half, maxY - half
+        );
+        if (!range) continue;
+
+        for (const [t0, t1] of freeRanges(obstacles, p, d, range[0], range[1], half)) {
+          if (t1 - t0 < config.hatchWidth) continue;
+          geometry.lines.push({
+            start: { x: p.x + d.x * t0, y: p.y + d.y * t0 },
+            end: { x: p.x + d.x * t1, y: p.y + d.y * t1 },
+          });
+        }
+      }
+    }
+    return geometry;
+  }
+
+  // Punkte: versetztes Raster (jede zweite Reihe um einen halben Abstand verschoben)
+  const r = config.dotDiameter / 2;
+  const pitch = config.dotPitch;
+  if (r <= 0 || pitch <= 0) return geometry;
+
+  const rowPitch = pitch * Math.sqrt(3) / 2;
+  for (let row = 0, y = minY + r; y <= maxY - r; row++, y += rowPitch) {
+    for (let x = minX + r + (row % 2 ? pitch / 2 : 0); x <= maxX - r; x += pitch) {
+      const p = { x, y };
+      if (obstacles.some((o) => isPointBlocked(o, p, r))) continue;
+      geometry.dots.push(p);
+    }
+  }
+  return geometry;
+}
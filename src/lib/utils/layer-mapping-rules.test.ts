@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { LayerMappingRule } from '@/types';
+import {
+  exportLayerMappingRules,
+  getRulesForProfile,
+  parseLayerMappingRulesFile,
+  suggestLayerRulePattern,
+  validateLayerRulePattern,
+} from './layer-mapping-rules';
+
+const RULES: LayerMappingRule[] = [
+  { id: 'a', pattern: '*.art1', syntax: 'glob', type: 'top-copper' },
+  { id: 'b', pattern: 'l\\d+\\.pho$', syntax: 'regex', type: 'inner-copper', profile: 'Kunde A' },
+  { id: 'c', pattern: 'mask.top', syntax: 'glob', type: 'top-soldermask', profile: 'Kunde B' },
+];
+
+describe('suggestLayerRulePattern', () => {
+  it('übernimmt eigene Endungen als Platzhalter-Muster', () => {
+    expect(suggestLayerRulePattern('gerber/board.art1')).toBe('*.art1');
+  });
+
+  it('nimmt bei üblichen Endungen nur den exakten Dateinamen', () => {
+    expect(suggestLayerRulePattern('gerber/top.gbr')).toBe('top.gbr');
+    expect(suggestLayerRulePattern('OUTLINE')).toBe('OUTLINE');
+  });
+});
+
+describe('validateLayerRulePattern', () => {
+  it('meldet fehlende Muster und ungültige reguläre Ausdrücke', () => {
+    expect(validateLayerRulePattern({ pattern: '  ', syntax: 'glob' })).toBe('Muster fehlt.');
+    expect(validateLayerRulePattern({ pattern: '(abc', syntax: 'regex' })).toMatch(/^Ungültiger regulärer Ausdruck/);
+    // Als Glob ist dasselbe Muster gültig (Klammern werden escaped)
+    expect(validateLayerRulePattern({ pattern: '(abc', syntax: 'glob' })).toBeNull();
+  });
+});
+
+describe('Kundenprofile', () => {
+  it('kombiniert allgemeine Regeln mit denen des Profils', () => {
+    expect(getRulesForProfile(RULES, 'Kunde A').map((r) => r.id)).toEqual(['a', 'b']);
+    expect(getRulesForProfile(RULES, '').map((r) => r.id)).toEqual(['a']);
+  });
+});
+
+describe('Export und Import', () => {
+  it('liest exportierte Regeln mit neuen IDs wieder ein', () => {
+    const imported = parseLayerMappingRulesFile(exportLayerMappingRules(RULES));
+    expect(imported.map(({ id: _id, ...rule }) => rule)).toEqual(RULES.map(({ id: _id, ...rule }) => rule));
+    expect(imported.map((r) => r.id)).not.toContain('a');
+  });
+
+  it('verwirft Regeln mit unbekanntem Layer-Typ', () => {
+    const json = JSON.stringify({
+      format: 'pcb-panelizer-layer-rules',
+      version: 1,
+      rules: [{ pattern: '*.x', syntax: 'glob', type: 'gibt-es-nicht' }, RULES[0]],
+    });
+    expect(parseLayerMappingRulesFile(json).map((r) => r.pattern)).toEqual(['*.art1']);
+  });
+
+  it('lehnt fremde Dateien ab', () => {
+    expect(() => parseLayerMappingRulesFile('{"rules": []}')).toThrow('keine Layer-Zuordnungsregeln');
+    expect(() => parseLayerMappingRulesFile('kein json')).toThrow('kein gültiges JSON');
+  });
+});
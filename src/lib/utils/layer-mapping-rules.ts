@@ -0,0 +1,207 @@
+/**
+ * Layer-Zuordnungsregeln - benutzerdefinierte Muster für Dateinamen
+ *
+ * Speichert die Regeln im localStorage des Browsers, unabhängig vom Projekt.
+ * Regeln können einem Kundenprofil zugeordnet werden; beim Import gelten
+ * die allgemeinen Regeln plus die des gewählten Profils.
+ *
+ * Verwendung:
+ * - Bearbeiten im Dialog "Layer-Zuordnungsregeln"
+ * - Als JSON-Datei exportieren und im Team wieder importieren
+ * - Beim Import werden die Regeln vor den eingebauten Mustern geprüft
+ */
+
+import type { GerberLayerType, LayerMappingRule } from '@/types';
+import { getAllLayerTypes, layerRuleToRegExp } from '@/lib/gerber';
+import { generateId } from '@/lib/utils';
+
+// ============================================================================
+// Konstanten
+// ============================================================================
+
+/** Schlüssel unter dem die Regeln im localStorage gespeichert werden */
+const STORAGE_KEY = 'pcb-panelizer-layer-rules';
+
+/** Schlüssel für das zuletzt gewählte Kundenprofil */
+const PROFILE_KEY = 'pcb-panelizer-layer-profile';
+
+/** Kennung der Export-Datei (zur Prüfung beim Import) */
+const FILE_FORMAT = 'pcb-panelizer-layer-rules';
+
+/** Dateiendungen, die für jeden Layer-Typ verwendet werden (sagen nichts über den Layer aus) */
+const GENERIC_EXTENSIONS = new Set([
+  'gbr', 'ger', 'gbx', 'pho', 'art', 'drl', 'xln', 'exc', 'nc', 'txt', 'cnc', 'tap', 'dat',
+]);
+
+// ============================================================================
+// Lesen und Speichern
+// ============================================================================
+
+/**
+ * Liest alle Regeln aus dem localStorage
+ *
+ * Gibt ein leeres Array zurück, wenn noch keine Regeln angelegt wurden
+ * oder der localStorage nicht verfügbar ist (z.B. Server-Side Rendering).
+ */
+export function getLayerMappingRules(): LayerMappingRule[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    return sanitizeRules(JSON.parse(stored));
+  } catch {
+    console.warn('Fehler beim Lesen der Layer-Zuordnungsregeln aus localStorage');
+    return [];
+  }
+}
+
+/**
+ * Speichert die komplette Regelliste (Reihenfolge = Priorität)
+ */
+export function saveLayerMappingRules(rules: LayerMappingRule[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch {
+    console.warn('Fehler beim Speichern der Layer-Zuordnungsregeln in localStorage');
+  }
+}
+
+/**
+ * Hängt eine Regel an die gespeicherte Liste an
+ */
+export function addLayerMappingRule(rule: Omit<LayerMappingRule, 'id'>): LayerMappingRule {
+  const created = { ...rule, id: generateId() };
+  saveLayerMappingRules([...getLayerMappingRules(), created]);
+  return created;
+}
+
+/**
+ * Zuletzt gewähltes Kundenprofil ('' = keines)
+ */
+export function getActiveLayerProfile(): string {
+  if (typeof window === 'undefined') return '';
+
+  try {
+    return localStorage.getItem(PROFILE_KEY) || '';
+  } catch {
+    console.warn('Fehler beim Lesen des Kundenprofils aus localStorage');
+    return '';
+  }
+}
+
+export function setActiveLayerProfile(profile: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(PROFILE_KEY, profile);
+  } catch {
+    console.warn('Fehler beim Speichern des Kundenprofils in localStorage');
+  }
+}
+
+// ============================================================================
+// Profile
+// ============================================================================
+
+/**
+ * Alle Kundenprofile, die in den Regeln vorkommen (alphabetisch)
+ */
+export function getLayerRuleProfiles(rules: LayerMappingRule[]): string[] {
+  const profiles = new Set(rules.map((r) => r.profile || '').filter(Boolean));
+  return Array.from(profiles).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Regeln, die für ein Profil gelten: allgemeine Regeln plus die des Profils
+ */
+export function getRulesForProfile(rules: LayerMappingRule[], profile: string): LayerMappingRule[] {
+  return rules.filter((r) => !r.profile || r.profile === profile);
+}
+
+// ============================================================================
+// Prüfen, Export und Import
+// ============================================================================
+
+/**
+ * Muster für eine Regel aus einer manuellen Zuordnung
+ *
+ * Eigene Endungen (z.B. "board.art1") werden als "*.art1" übernommen,
+ * bei üblichen Gerber-Endungen (.gbr, .ger, .drl, ...) nur der exakte
+ * Dateiname — sonst würde eine Korrektur alle künftigen Dateien treffen.
+ */
+export function suggestLayerRulePattern(filename: string): string {
+  const basename = filename.split('/').pop() || filename;
+  const dot = basename.lastIndexOf('.');
+  const extension = dot > 0 ? basename.slice(dot + 1) : '';
+  if (!extension || GENERIC_EXTENSIONS.has(extension.toLowerCase())) return basename;
+  return `*.${extension}`;
+}
+
+/**
+ * Fehlermeldung zu einem Muster (null = gültig)
+ */
+export function validateLayerRulePattern(rule: Pick<LayerMappingRule, 'pattern' | 'syntax'>): string | null {
+  if (!rule.pattern.trim()) return 'Muster fehlt.';
+  try {
+    layerRuleToRegExp(rule);
+    return null;
+  } catch (error) {
+    return `Ungültiger regulärer Ausdruck: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Regeln als JSON-Datei zum Weitergeben im Team
+ */
+export function exportLayerMappingRules(rules: LayerMappingRule[]): string {
+  return JSON.stringify({ format: FILE_FORMAT, version: 1, rules }, null, 2);
+}
+
+/**
+ * Liest eine exportierte Regel-Datei
+ *
+ * Jede Regel bekommt eine neue ID, damit sie sich mit bestehenden
+ * Regeln mischen lässt.
+ *
+ * @throws Error wenn die Datei keine Regel-Datei ist
+ */
+export function parseLayerMappingRulesFile(json: string): LayerMappingRule[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Die Datei ist kein gültiges JSON.');
+  }
+
+  const file = data as { format?: string; rules?: unknown };
+  if (!file || file.format !== FILE_FORMAT || !Array.isArray(file.rules)) {
+    throw new Error('Die Datei enthält keine Layer-Zuordnungsregeln.');
+  }
+
+  return sanitizeRules(file.rules).map((rule) => ({ ...rule, id: generateId() }));
+}
+
+// ============================================================================
+// Hilfsfunktionen
+// ============================================================================
+
+/**
+ * Übernimmt nur vollständige Regeln mit bekanntem Layer-Typ
+ */
+function sanitizeRules(value: unknown): LayerMappingRule[] {
+  if (!Array.isArray(value)) return [];
+  const types = new Set<GerberLayerType>(getAllLayerTypes().map((t) => t.type));
+
+  return value
+    .filter((r) => r && typeof r.pattern === 'string' && types.has(r.type))
+    .map((r) => ({
+      id: typeof r.id === 'string' ? r.id : generateId(),
+      pattern: r.pattern,
+      syntax: r.syntax === 'regex' ? 'regex' : 'glob',
+      type: r.type,
+      ...(typeof r.profile === 'string' && r.profile && { profile: r.profile }),
+    }));
+}
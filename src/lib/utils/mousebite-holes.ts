@@ -0,0 +1,137 @@
+/**
+ * Mousebite-Bohrungen - Positionen der Perforationsbohrungen
+ *
+ * Einzige Quelle für die Lage der Mousebite-Bohrungen:
+ * - Canvas (pixi-panel-canvas.tsx) zeichnet sie
+ * - Excellon-Export (drill-export.ts) bohrt sie
+ *
+ * Dadurch sind gezeichnete und gebohrte Positionen garantiert identisch.
+ * Alle Positionen in Panel-Koordinaten (mm, Y-down).
+ */
+
+import type { Board, BoardInstance, FreeMousebite, Point, Tab } from '@/types';
+
+/** Tab-Tiefe in mm (wie weit der Tab-Balken ins Nutzenrand-Material reicht) */
+export const TAB_DEPTH_MM = 2;
+
+/**
+ * Rechteck eines Tabs in Panel-Koordinaten (mm)
+ *
+ * Die Kanten-Zuordnung entspricht der Canvas-Darstellung:
+ * 'top' liegt bei position.y + Board-Höhe, 'bottom' bei position.y - Tab-Tiefe.
+ */
+export function getTabRect(
+  tab: Tab,
+  instance: BoardInstance,
+  board: Board
+): { x: number; y: number; width: number; height: number } {
+  // Board-Größe (berücksichtigt Rotation)
+  const isRotated = instance.rotation === 90 || instance.rotation === 270;
+  const boardWidth = isRotated ? board.height : board.width;
+  const boardHeight = isRotated ? board.width : board.height;
+
+  const boardX = instance.position.x;
+  const boardY = instance.position.y;
+
+  switch (tab.edge) {
+    case 'top':
+      return {
+        x: boardX + tab.position * boardWidth - tab.width / 2,
+        y: boardY + boardHeight,
+        width: tab.width,
+        height: TAB_DEPTH_MM,
+      };
+    case 'bottom':
+      return {
+        x: boardX + tab.position * boardWidth - tab.width / 2,
+        y: boardY - TAB_DEPTH_MM,
+        width: tab.width,
+        height: TAB_DEPTH_MM,
+      };
+    case 'left':
+      return {
+        x: boardX - TAB_DEPTH_MM,
+        y: boardY + tab.position * boardHeight - tab.width / 2,
+        width: TAB_DEPTH_MM,
+        height: tab.width,
+      };
+    case 'right':
+      return {
+        x: boardX + boardWidth,
+        y: boardY + tab.position * boardHeight - tab.width / 2,
+        width: TAB_DEPTH_MM,
+        height: tab.width,
+      };
+  }
+}
+
+/**
+ * Berechnet die Bohrungsmittelpunkte eines Mousebite-Tabs
+ *
+ * WICHTIG: Die Bohrungsmittelpunkte liegen direkt auf der Board-Kante,
+ * damit das Ausbrechen sauber funktioniert.
+ *
+ * @returns Leeres Array für Tabs ohne Mousebites oder ohne Bohrparameter
+ */
+export function getTabMousebiteHoles(tab: Tab, instance: BoardInstance, board: Board): Point[] {
+  if (tab.type !== 'mousebites' || !tab.holeDiameter || !tab.holeSpacing) return [];
+
+  const rect = getTabRect(tab, instance, board);
+  const horizontal = tab.edge === 'top' || tab.edge === 'bottom';
+
+  // Anzahl Bohrungen aus Tab-Länge und Abstand
+  const tabLength = horizontal ? rect.width : rect.height;
+  const holeCount = Math.floor(tabLength / tab.holeSpacing);
+
+  const holes: Point[] = [];
+  for (let i = 0; i < holeCount; i++) {
+    if (horizontal) {
+      // Bohrungen entlang der X-Achse verteilen
+      // Top-Kante: unterer Rand des Tabs = Board-Oberkante
+      // Bottom-Kante: oberer Rand des Tabs = Board-Unterkante
+      holes.push({
+        x: rect.x + (i + 0.5) * (rect.width / holeCount),
+        y: tab.edge === 'top' ? rect.y : rect.y + rect.height,
+      });
+    } else {
+      // Bohrungen entlang der Y-Achse verteilen
+      // Left-Kante: rechter Rand des Tabs = Board-Linkskante
+      // Right-Kante: linker Rand des Tabs = Board-Rechtskante
+      holes.push({
+        x: tab.edge === 'left' ? rect.x + rect.width : rect.x,
+        y: rect.y + (i + 0.5) * (rect.height / holeCount),
+      });
+    }
+  }
+
+  return holes;
+}
+
+/**
+ * Berechnet die Bohrungsmittelpunkte einer Rundungs-Mousebite (Kreisbogen)
+ *
+ * Die Bohrungen werden gleichmässig vom Start- bis zum Endwinkel verteilt,
+ * erste und letzte Bohrung liegen genau auf den Bogenenden.
+ */
+export function getFreeMousebiteHoles(mousebite: FreeMousebite): Point[] {
+  // Winkelbereich in Radians
+  const startRad = (mousebite.arcStartAngle * Math.PI) / 180;
+  const endRad = (mousebite.arcEndAngle * Math.PI) / 180;
+  const totalArc = Math.abs(endRad - startRad);
+
+  // Bogenlänge in mm berechnen → daraus Anzahl der Bohrungen
+  const arcLengthMm = mousebite.arcRadius * totalArc;
+  const holeCount = Math.max(2, Math.round(arcLengthMm / mousebite.holeSpacing) + 1);
+
+  const holes: Point[] = [];
+  for (let i = 0; i < holeCount; i++) {
+    const t = holeCount > 1 ? i / (holeCount - 1) : 0.5;
+    const angle = startRad + t * totalArc;
+    holes.push({
+      x: mousebite.arcCenter.x + Math.cos(angle) * mousebite.arcRadius,
+      y: mousebite.arcCenter.y + Math.sin(angle) * mousebite.arcRadius,
+    });
+  }
+
+  return holes;
+}
@@ -0,0 +1,169 @@
+/**
+ * Strichschrift (Stroke Font) für Panel-Beschriftungen
+ *
+ * Einzige Quelle für die Geometrie der Panel-Texte:
+ * - Canvas (pixi-panel-canvas.tsx) zeichnet die Striche
+ * - PDF (dimension-drawing.ts) zeichnet die Striche
+ * - Gerber-Export (gerber-export.ts) fährt die Striche mit einer runden Aperture ab
+ *
+ * Jedes Zeichen besteht aus Polylinien in einem Raster von 4 × 6 Einheiten
+ * (x nach rechts, y nach oben, Grundlinie y = 0, Versalhöhe y = 6).
+ * Kleinbuchstaben werden als Grossbuchstaben dargestellt, unbekannte
+ * Zeichen als '?'.
+ */
+
+import type { Panel, PanelText, Point } from '@/types';
+
+/** Versalhöhe im Glyphen-Raster */
+const GLYPH_HEIGHT = 6;
+
+/** Zeichenabstand (Vorschub) im Glyphen-Raster: 4 Breite + 2 Abstand */
+const GLYPH_ADVANCE = 6;
+
+/** Glyphen-Breite im Glyphen-Raster */
+const GLYPH_WIDTH = 4;
+
+/**
+ * Glyphen-Definitionen: Polylinien durch ';' getrennt, Punkte "x,y" durch Leerzeichen
+ */
+const GLYPH_SOURCE: Record<string, string> = {
+  'A': '0,0 0,4 2,6 4,4 4,0;0,3 4,3',
+  'B': '0,0 0,6 3,6 4,5 4,4 3,3 0,3;3,3 4,2 4,1 3,0 0,0',
+  'C': '4,5 3,6 1,6 0,5 0,1 1,0 3,0 4,1',
+  'D': '0,0 0,6 2,6 4,4 4,2 2,0 0,0',
+  'E': '4,6 0,6 0,0 4,0;0,3 3,3',
+  'F': '4,6 0,6 0,0;0,3 3,3',
+  'G': '4,5 3,6 1,6 0,5 0,1 1,0 3,0 4,1 4,3 2,3',
+  'H': '0,0 0,6;4,0 4,6;0,3 4,3',
+  'I': '1,6 3,6;2,6 2,0;1,0 3,0',
+  'J': '4,6 4,1 3,0 1,0 0,1',
+  'K': '0,0 0,6;4,6 0,2;1,3 4,0',
+  'L': '0,6 0,0 4,0',
+  'M': '0,0 0,6 2,3 4,6 4,0',
+  'N': '0,0 0,6 4,0 4,6',
+  'O': '1,0 0,1 0,5 1,6 3,6 4,5 4,1 3,0 1,0',
+  'P': '0,0 0,6 3,6 4,5 4,4 3,3 0,3',
+  'Q': '1,0 0,1 0,5 1,6 3,6 4,5 4,1 3,0 1,0;2,2 4,0',
+  'R': '0,0 0,6 3,6 4,5 4,4 3,3 0,3;2,3 4,0',
+  'S': '4,5 3,6 1,6 0,5 0,4 1,3 3,3 4,2 4,1 3,0 1,0 0,1',
+  'T': '0,6 4,6;2,6 2,0',
+  'U': '0,6 0,1 1,0 3,0 4,1 4,6',
+  'V': '0,6 2,0 4,6',
+  'W': '0,6 1,0 2,4 3,0 4,6',
+  'X': '0,0 4,6;0,6 4,0',
+  'Y': '0,6 2,3 4,6;2,3 2,0',
+  'Z': '0,6 4,6 0,0 4,0',
+  '0': '1,0 0,1 0,5 1,6 3,6 4,5 4,1 3,0 1,0;0,1 4,5',
+  '1': '1,5 2,6 2,0;1,0 3,0',
+  '2': '0,5 1,6 3,6 4,5 4,4 0,0 4,0',
+  '3': '0,5 1,6 3,6 4,5 4,4 3,3 1,3;3,3 4,2 4,1 3,0 1,0 0,1',
+  '4': '3,0 3,6 0,2 4,2',
+  '5': '4,6 0,6 0,3 3,3 4,2 4,1 3,0 1,0 0,1',
+  '6': '4,5 3,6 1,6 0,5 0,1 1,0 3,0 4,1 4,2 3,3 0,3',
+  '7': '0,6 4,6 1,0',
+  '8': '1,3 0,4 0,5 1,6 3,6 4,5 4,4 3,3 1,3 0,2 0,1 1,0 3,0 4,1 4,2 3,3',
+  '9': '4,3 1,3 0,4 0,5 1,6 3,6 4,5 4,1 3,0 1,0 0,1',
+  '-': '1,3 3,3',
+  '+': '1,3 3,3;2,2 2,4',
+  '=': '0,2 4,2;0,4 4,4',
+  '.': '2,0 2,0.4',
+  ',': '2,0.4 1.5,-1',
+  ':': '2,0 2,0.4;2,3.6 2,4',
+  '/': '0,0 4,6',
+  '_': '0,-0.5 4,-0.5',
+  '(': '3,6 1,4 1,2 3,0',
+  ')': '1,6 3,4 3,2 1,0',
+  '#': '1,0 1,6;3,0 3,6;0,2 4,2;0,4 4,4',
+  '*': '2,1 2,5;0,2 4,4;0,4 4,2',
+  "'": '2,6 2,4',
+  '"': '1,6 1,4;3,6 3,4',
+  '!': '2,6 2,2;2,0 2,0.4',
+  '?': '0,5 1,6 3,6 4,5 4,4 2,3 2,2;2,0 2,0.4',
+  '%': '0,0 4,6;0,6 0,5;4,0 4,1',
+  ' ': '',
+};
+
+/** Geparste Glyphen (Polylinien im Glyphen-Raster) */
+const GLYPHS: Record<string, Point[][]> = Object.fromEntries(
+  Object.entries(GLYPH_SOURCE).map(([char, source]) => [
+    char,
+    source
+      ? source.split(';').map((stroke) =>
+          stroke.split(' ').map((pair) => {
+            const [x, y] = pair.split(',').map(Number);
+            return { x, y };
+          })
+        )
+      : [],
+  ])
+);
+
+/**
+ * Ersetzt die Platzhalter {name}, {drawingNumber}, {date} und {revision}
+ *
+ * - {revision} ist der Revisions-Index der Zeichnungsnummer (z.B. "02" aus "SMTEC-2026-0001.02")
+ * - {date} ist das aktuelle Datum (TT.MM.JJJJ)
+ *
+ * Unbekannte Platzhalter bleiben unverändert stehen.
+ */
+export function resolvePanelTextTokens(text: string, panel: Panel, date: Date = new Date()): string {
+  const drawingNumber = panel.drawingNumber || '';
+  const revision = drawingNumber.match(/\.(\d+)$/)?.[1] || '';
+  const tokens: Record<string, string> = {
+    name: panel.name,
+    drawingNumber,
+    date: date.toLocaleDateString('de-CH', { day: '2-digit', month: '2-digit', year: 'numeric' }),
+    revision,
+  };
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => tokens[key] ?? match);
+}
+
+/**
+ * Berechnet die Breite eines Textes in mm (ohne Strichbreite)
+ */
+export function getStrokeTextWidth(text: string, height: number): number {
+  if (text.length === 0) return 0;
+  const scale = height / GLYPH_HEIGHT;
+  return ((text.length - 1) * GLYPH_ADVANCE + GLYPH_WIDTH) * scale;
+}
+
+/**
+ * Erzeugt die Strich-Polylinien eines Panel-Textes in Panel-Koordinaten (mm, Y-down)
+ *
+ * Der Text wird um text.position zentriert, um text.rotation (Grad, gegen den
+ * Uhrzeigersinn wie im Canvas sichtbar) gedreht und auf der Unterseite
+ * gespiegelt, damit er von unten betrachtet lesbar ist.
+ *
+ * @param text - Der Panel-Text
+ * @param panel - Das Panel (für die Platzhalter)
+ * @param date - Datum für {date} (Standard: heute)
+ */
+export function getPanelTextStrokes(text: PanelText, panel: Panel, date?: Date): Point[][] {
+  const content = resolvePanelTextTokens(text.text, panel, date).toUpperCase();
+  const scale = text.height / GLYPH_HEIGHT;
+  const width = getStrokeTextWidth(content, text.height);
+
+  const angle = (text.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const mirror = text.side === 'bottom' ? -1 : 1;
+
+  // Lokale Koordinaten (u rechts, v oben, Ursprung = Textmitte) → Panel (Y-down)
+  const toPanel = (u: number, v: number): Point => {
+    const mu = u * mirror;
+    return {
+      x: text.position.x + mu * cos - v * sin,
+      y: text.position.y - mu * sin - v * cos,
+    };
+  };
+
+  const strokes: Point[][] = [];
+  for (let i = 0; i < content.length; i++) {
+    const glyph = GLYPHS[content[i]] ?? GLYPHS['?'];
+    const offsetX = i * GLYPH_ADVANCE * scale - width / 2;
+    for (const stroke of glyph) {
+      strokes.push(stroke.map((p) => toPanel(offsetX + p.x * scale, p.y * scale - text.height / 2)));
+    }
+  }
+  return strokes;
+}
@@ -14,17 +14,30 @@
 
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
-import { extractBoardOutline, calculateCombinedBoundingBox } from '@/lib/gerber';
+import {
+  extractBoardOutline,
+  extractBoardContours,
+  calculateCombinedBoundingBox,
+  contourToCommands,
+  replaceOutlineLayer,
+} from '@/lib/gerber';
 import { getNextDrawingNumber, incrementRevision } from '@/lib/utils/drawing-number';
+import { DEFAULT_ROUTER_EXPORT_OPTIONS } from '@/lib/export/routing-export';
+import { DEFAULT_VSCORE_EXPORT_OPTIONS } from '@/lib/export/vscore-export';
+import { DEFAULT_GERBER_EXPORT_OPTIONS } from '@/lib/export/gerber-export';
+import { DEFAULT_COPPER_THIEVING_CONFIG } from '@/lib/utils/copper-thieving';
 import type {
   Board,
+  BoardRevisionData,
   BoardInstance,
+  GerberFile,
   Panel,
   PanelFrame,
   Tab,
   Fiducial,
   Badmark,
   ToolingHole,
+  PanelText,
   VScoreLine,
   FreeMousebite,
   GerberCommand,
@@ -42,6 +55,10 @@ import type {
   DimensionLineDistances,
   DimensionOverrides,
   DrawingPreviewConfig,
+  RouterExportOptions,
+  VScoreExportOptions,
+  PanelFeatureExportOptions,
+  CopperThievingConfig,
 } from '@/types';
 
 // ============================================================================
@@ -77,6 +94,9 @@ interface PanelStore {
   /** Aktuell ausgewählte Tooling-Bohrung (für Bearbeitung im Properties Panel) */
   selectedToolingHoleId: string | null;
 
+  /** Aktuell ausgewählte Panel-Beschriftung (für Bearbeitung im Properties Panel) */
+  selectedPanelTextId: string | null;
+
   /** Aktuell ausgewählter Tab (für Bearbeitung im Properties Panel und Canvas-Glow) */
   selectedTabId: string | null;
 
@@ -107,6 +127,15 @@ interface PanelStore {
   /** Konfiguration für manuelle Mousebite-Platzierung (Bogenlänge, Bohrungsparameter) */
   mousebiteConfig: { arcLength: number; holeDiameter: number; holeSpacing: number };
 
+  /** Maschinenparameter für das Fräsprogramm (Depaneling-Router) */
+  routerConfig: RouterExportOptions;
+
+  /** Optionen für das V-Cut-Programm (Format, Leiterplattendicke) */
+  vscoreExportConfig: VScoreExportOptions;
+
+  /** Optionen für Fiducials, Badmarks und Tooling-Bohrungen im Gerber-Export */
+  panelFeatureConfig: PanelFeatureExportOptions;
+
   /** State für Free-Draw Fräskontur (Punkte die der Benutzer nacheinander klickt) */
   routeFreeDrawState: { points: Point[] };
 
@@ -114,7 +143,7 @@ interface PanelStore {
   routeSegmentSelectState: {
     boardInstanceId: string | null;
     selectedSegmentIndices: number[];       // Frei wählbare Segment-Indizes
-    outlineSegments: OutlinePathSegment[];  // Gecachte Outline-Segmente
+    outlineSegments: OutlinePathSegment[];  // Gecachte Outline-Segmente (nur die angeklickte Kontur)
   };
 
   /** State für "Outline definieren" Modus (manuelle Outline-Auswahl aus Layern) */
@@ -132,6 +161,9 @@ interface PanelStore {
   /** Fräskonturen im Canvas ein-/ausblenden */
   showRoutingContours: boolean;
 
+  /** Kupfer-Thieving im Canvas ein-/ausblenden */
+  showCopperThieving: boolean;
+
   /** Bemaßungs-Overlay im Canvas ein-/ausblenden */
   showDimensions: boolean;
 
@@ -154,6 +186,9 @@ interface PanelStore {
   /** Entfernt ein Board aus der Library */
   removeBoard: (boardId: string) => void;
 
+  /** Ersetzt die Gerber-Daten eines Boards (neue Revision), Panel-Layout bleibt erhalten */
+  replaceBoardData: (boardId: string, data: BoardRevisionData) => void;
+
   /** Schaltet die Sichtbarkeit eines Layers um */
   toggleLayerVisibility: (boardId: string, layerId: string) => void;
 
@@ -185,6 +220,9 @@ interface PanelStore {
   /** Erstellt einen neuen Outline-Layer aus den ausgewählten Commands */
   applyOutlineDefinition: () => void;
 
+  /** Übernimmt einen aus einer DXF erstellten Outline-Layer (beendet den "Outline definieren"-Modus) */
+  applyDxfOutline: (boardId: string, outlineLayer: GerberFile) => void;
+
   /** Dreht die Gerber-Layer eines Boards um 90° gegen den Uhrzeigersinn */
   rotateBoardLayers: (boardId: string) => void;
 
@@ -342,6 +380,21 @@ interface PanelStore {
   /** Wählt eine Tooling-Bohrung aus */
   selectToolingHole: (holeId: string | null) => void;
 
+  /** Fügt eine Panel-Beschriftung hinzu */
+  addPanelText: (text: Omit<PanelText, 'id'>) => void;
+
+  /** Entfernt eine Panel-Beschriftung */
+  removePanelText: (textId: string) => void;
+
+  /** Aktualisiert die Position einer Panel-Beschriftung (für Drag, OHNE History) */
+  updatePanelTextPosition: (textId: string, position: Point) => void;
+
+  /** Aktualisiert Text, Grösse, Drehung, Layer oder Seite einer Panel-Beschriftung */
+  updatePanelText: (textId: string, data: Partial<Omit<PanelText, 'id'>>) => void;
+
+  /** Wählt eine Panel-Beschriftung aus */
+  selectPanelText: (textId: string | null) => void;
+
   /** Fügt eine V-Score Linie hinzu */
   addVScoreLine: (line: Omit<VScoreLine, 'id'>) => void;
 
@@ -411,6 +464,18 @@ interface PanelStore {
   /** Aktualisiert die Fräskonturen-Konfiguration */
   setRoutingConfig: (config: Partial<RoutingConfig>) => void;
 
+  /** Aktualisiert die Kupfer-Thieving-Konfiguration */
+  setThievingConfig: (config: Partial<CopperThievingConfig>) => void;
+
+  /** Aktualisiert die Maschinenparameter für das Fräsprogramm */
+  setRouterConfig: (config: Partial<RouterExportOptions>) => void;
+
+  /** Aktualisiert die Optionen für das V-Cut-Programm */
+  setVScoreExportConfig: (config: Partial<VScoreExportOptions>) => void;
+
+  /** Aktualisiert die Optionen für Panel-Elemente im Gerber-Export */
+  setPanelFeatureConfig: (config: Partial<PanelFeatureExportOptions>) => void;
+
   /** Generiert Fräskonturen automatisch aus Board-Positionen und Tabs */
   autoGenerateRoutingContours: () => void;
 
@@ -532,6 +597,9 @@ interface PanelStore {
   /** Schaltet Fräskonturen im Canvas ein/aus */
   toggleRoutingContours: () => void;
 
+  /** Schaltet das Kupfer-Thieving im Canvas ein/aus */
+  toggleCopperThieving: () => void;
+
   // --------------------------------------------------------------------------
   // Grid-Einstellungen
   // --------------------------------------------------------------------------
@@ -602,6 +670,7 @@ function createEmptyPanel(): Panel {
     fiducials: [],
     badmarks: [],
     toolingHoles: [],
+    panelTexts: [],
     vscoreLines: [],
     freeMousebites: [],
     routingContours: [],
@@ -649,6 +718,37 @@ export const DEFAULT_DIM_DISTANCES: DimensionLineDistances = {
   boardOffsetLeft: 4.2,       // Board Y-Offset links
 };
 
+// ============================================================================
+// Hilfsfunktionen für Board-Outlines
+// ============================================================================
+
+/**
+ * Setzt einen neuen Outline-Layer in ein Board ein (manuell definiert oder aus DXF)
+ * und berechnet Outline, Konturen und Abmessungen neu
+ */
+function withOutlineLayer(board: Board, outlineLayer: GerberFile): Board {
+  const updatedLayers = replaceOutlineLayer(board.layers, outlineLayer);
+
+  // Board-Dimensionen aus sichtbaren Layern neu berechnen
+  // (der neue Outline-Layer ist sichtbar und beeinflusst die Bounding Box)
+  const visibleLayers = updatedLayers.filter((l) => l.visible);
+  const visBbox = visibleLayers.length > 0 ? calculateCombinedBoundingBox(visibleLayers) : null;
+
+  return {
+    ...board,
+    layers: updatedLayers,
+    outline: extractBoardOutline(updatedLayers),
+    contours: extractBoardContours(updatedLayers),
+    ...(visBbox && {
+      width: visBbox.maxX - visBbox.minX,
+      height: visBbox.maxY - visBbox.minY,
+      boundingBox: visBbox,
+      renderOffsetX: visBbox.minX,
+      renderOffsetY: visBbox.minY,
+    }),
+  };
+}
+
 // ============================================================================
 // Hilfsfunktionen für Fräskonturen-Generierung
 // ============================================================================
@@ -974,6 +1074,74 @@ function smartAnchorReposition(
   };
 }
 
+/**
+ * Überträgt ein Board-Fiducial von der alten auf die neue Lage seiner Instanz.
+ *
+ * Die Position wird relativ zur alten Instanz (inkl. Rotation) in Board-Koordinaten
+ * zurückgerechnet und mit der neuen Instanz wieder ins Panel gesetzt. So folgt die
+ * Marke beim Verschieben, Drehen und beim Neuaufbau eines Arrays (neue Instanz-ID).
+ */
+function moveBoardFiducial(
+  fiducial: Fiducial,
+  board: Board,
+  oldInstance: BoardInstance,
+  newInstance: BoardInstance
+): Fiducial {
+  const layerRotation = board.layerRotation || 0;
+  const isLayerRotated = layerRotation === 90 || layerRotation === 270;
+  const effectiveW = isLayerRotated ? board.height : board.width;
+  const effectiveH = isLayerRotated ? board.width : board.height;
+
+  // Panel → Board-lokal (Umkehrung der Instanz-Rotation, siehe transformPointToPanel)
+  const rx = fiducial.position.x - oldInstance.position.x;
+  const ry = fiducial.position.y - oldInstance.position.y;
+  let x: number;
+  let y: number;
+  if (oldInstance.rotation === 90) {
+    x = ry;
+    y = effectiveH - rx;
+  } else if (oldInstance.rotation === 180) {
+    x = effectiveW - rx;
+    y = effectiveH - ry;
+  } else if (oldInstance.rotation === 270) {
+    x = effectiveW - ry;
+    y = rx;
+  } else {
+    x = rx;
+    y = ry;
+  }
+
+  // Board-lokal → Panel mit der neuen Instanz
+  const { position, rotation } = newInstance;
+  const newPosition =
+    rotation === 90 ? { x: position.x + effectiveH - y, y: position.y + x }
+    : rotation === 180 ? { x: position.x + effectiveW - x, y: position.y + effectiveH - y }
+    : rotation === 270 ? { x: position.x + y, y: position.y + effectiveW - x }
+    : { x: position.x + x, y: position.y + y };
+
+  return { ...fiducial, position: newPosition, boardInstanceId: newInstance.id };
+}
+
+/**
+ * Ordnet Board-Fiducials neu erstellten Instanzen zu (z.B. nach "Array erstellen").
+ *
+ * Die alten Instanzen werden der Reihe nach auf die neuen abgebildet; Fiducials
+ * von Instanzen ohne Nachfolger werden entfernt. Andere Fiducials bleiben unverändert.
+ */
+function remapBoardFiducials(
+  fiducials: Fiducial[],
+  board: Board,
+  oldInstances: BoardInstance[],
+  newInstances: BoardInstance[]
+): Fiducial[] {
+  return fiducials.flatMap((f) => {
+    const index = f.type === 'board' ? oldInstances.findIndex((i) => i.id === f.boardInstanceId) : -1;
+    if (index < 0) return [f];
+    if (index >= newInstances.length) return [];
+    return [moveBoardFiducial(f, board, oldInstances[index], newInstances[index])];
+  });
+}
+
 // ============================================================================
 // Reine Funktion: Auto-Routing-Konturen generieren
 // ============================================================================
@@ -1845,20 +2013,23 @@ export function mergeGroupToRoutingSegments(
  * Baut die echten Outline-Segmente eines Boards in Panel-Koordinaten auf.
  *
  * Liest die Gerber-Outline-Daten (Linien + Bögen) und transformiert sie
- * von Gerber-Koordinaten in Panel-Koordinaten. Jedes Segment bekommt
- * eine kumulierte Distanz, damit man Punkte auf dem Pfad lokalisieren kann.
+ * von Gerber-Koordinaten in Panel-Koordinaten. Jede geschlossene Kontur
+ * (Aussenkontur, dann Ausschnitte) ist eine eigene Schleife, damit ein
+ * zyklischer Lauf entlang der Outline nie in eine andere Kontur springt.
+ * Jedes Segment bekommt eine kumulierte Distanz innerhalb seiner Schleife.
  *
  * Fallback: Wenn kein Outline-Layer vorhanden ist, werden 4 Rechteck-Kanten
  * basierend auf der Board-Größe generiert (wie bisher).
  *
  * @param board - Das Board mit den Gerber-Daten
  * @param instance - Die Board-Instanz (Position + Rotation im Panel)
- * @returns Array von OutlinePathSegment in Panel-Koordinaten
+ * @returns Pro Schleife ein Array von OutlinePathSegment in Panel-Koordinaten
+ *          (Index 0 = Aussenkontur, danach Ausschnitte)
  */
-export function buildOutlineSegments(
+export function buildOutlineLoops(
   board: Board,
   instance: BoardInstance
-): OutlinePathSegment[] {
+): OutlinePathSegment[][] {
   const outlineLayer = board.layers.find((l) => l.type === 'outline');
 
   // --- Fallback: Kein Outline-Layer → Rechteck-Segmente wie bisher ---
@@ -1891,14 +2062,38 @@ export function buildOutlineSegments(
       segments.push({ start: s, end: e, cumulativeDistance: cumDist, length: len });
       cumDist += len;
     }
-    return segments;
+    return [segments];
   }
 
   // --- Echte Outline-Segmente aus Gerber-Daten ---
+  // Verkettete Konturen (Aussenkontur, dann Ausschnitte) statt Datei-Reihenfolge
+  const loopCommands = board.contours?.outer
+    ? [board.contours.outer, ...board.contours.cutouts].map(contourToCommands)
+    : [outlineLayer.parsedData.commands];
+  const loops = loopCommands
+    .map((commands) => buildLoopSegments(commands, board, instance))
+    .filter((segments) => segments.length > 0);
+
+  // Wenn keine Segmente gefunden: Fallback auf Rechteck
+  if (loops.length === 0) {
+    return buildOutlineLoops({ ...board, layers: [] }, instance);
+  }
+
+  return loops;
+}
+
+/**
+ * Wandelt die Commands einer Kontur in Panel-Segmente mit kumulierter Distanz um
+ */
+function buildLoopSegments(
+  pathCommands: GerberCommand[],
+  board: Board,
+  instance: BoardInstance
+): OutlinePathSegment[] {
   const segments: OutlinePathSegment[] = [];
   let cumDist = 0;
 
-  for (const cmd of outlineLayer.parsedData.commands) {
+  for (const cmd of pathCommands) {
     if (cmd.type === 'line' && cmd.startPoint && cmd.endPoint) {
       // Gerade Linie: Start und End transformieren
       const tStart = transformPointToPanel(cmd.startPoint, board, instance);
@@ -1968,11 +2163,6 @@ export function buildOutlineSegments(
     // 'move' und 'flash' Commands werden ignoriert (kein Pfad-Segment)
   }
 
-  // Wenn keine Segmente gefunden: Fallback auf Rechteck
-  if (segments.length === 0) {
-    return buildOutlineSegments({ ...board, layers: [] }, instance);
-  }
-
   return segments;
 }
 
@@ -2291,6 +2481,7 @@ export const usePanelStore = create<PanelStore>((set, get) => {
   selectedFiducialId: null,
   selectedBadmarkId: null,
   selectedToolingHoleId: null,
+  selectedPanelTextId: null,
   selectedTabId: null,
   selectedVScoreLineId: null,
   selectedRoutingContourId: null,
@@ -2300,11 +2491,15 @@ export const usePanelStore = create<PanelStore>((set, get) => {
   toolingHoleConfig: { diameter: 3.0, plated: false },
   selectedFreeMousebiteId: null,
   mousebiteConfig: { arcLength: 5, holeDiameter: 0.5, holeSpacing: 0.8 },
+  routerConfig: { ...DEFAULT_ROUTER_EXPORT_OPTIONS },
+  vscoreExportConfig: { ...DEFAULT_VSCORE_EXPORT_OPTIONS },
+  panelFeatureConfig: { ...DEFAULT_GERBER_EXPORT_OPTIONS.panelFeatures },
   routeFreeDrawState: { points: [] },
   routeSegmentSelectState: { boardInstanceId: null, selectedSegmentIndices: [], outlineSegments: [] },
   outlineDefineState: { active: false, sourceBoardId: null, selectedCommands: [], prevShowBackground: true, prevShowLabels: true },
   showVScoreLines: true,
   showRoutingContours: true,
+  showCopperThieving: true,
   showDimensions: false,
   showDrawingPreview: false,
   history: {
@@ -2344,6 +2539,27 @@ export const usePanelStore = create<PanelStore>((set, get) => {
         boards: state.panel.boards.filter((b) => b.id !== boardId),
         // Alle Instanzen dieses Boards entfernen
         instances: state.panel.instances.filter((i) => i.boardId !== boardId),
+        // Board-Fiducials dieser Instanzen gehören nicht mehr zum Panel
+        fiducials: state.panel.fiducials.filter(
+          (f) =>
+            f.type !== 'board' ||
+            !state.panel.instances.some((i) => i.boardId === boardId && i.id === f.boardInstanceId)
+        ),
+        modifiedAt: new Date(),
+      },
+    }));
+  },
+
+  replaceBoardData: (boardId, data) => {
+    saveHistory();
+    set((state) => ({
+      panel: {
+        ...state.panel,
+        // Nur die Daten tauschen: ID, Name, Rotation und Spiegelung bleiben,
+        // damit Instanzen, Tabs, Fräskonturen und Badmarks weiter passen
+        boards: state.panel.boards.map((board) =>
+          board.id === boardId ? { ...board, ...data, importedAt: new Date() } : board
+        ),
         modifiedAt: new Date(),
       },
     }));
@@ -2616,54 +2832,11 @@ export const usePanelStore = create<PanelStore>((set, get) => {
       },
     };
 
-    // Bestehenden Outline-Layer auf 'mechanical' zurücksetzen (falls vorhanden)
-    const updatedLayers = board.layers.map((layer) => {
-      if (layer.type === 'outline') {
-        return { ...layer, type: 'mechanical' as any, color: '#808080' };
-      }
-      return layer;
-    });
-
-    // Neuen Layer hinzufügen
-    updatedLayers.push(newLayer);
-
-    // Board-Outline neu berechnen
-    const newOutline = extractBoardOutline(updatedLayers);
-
-    // Board-Dimensionen aus sichtbaren Layern neu berechnen
-    // (der neue Outline-Layer ist sichtbar und beeinflusst die Bounding Box)
-    const visibleLayers = updatedLayers.filter((l) => l.visible);
-    let newWidth = board.width;
-    let newHeight = board.height;
-    let newBBox = board.boundingBox;
-    let newRenderOffsetX = board.renderOffsetX || 0;
-    let newRenderOffsetY = board.renderOffsetY || 0;
-    if (visibleLayers.length > 0) {
-      const visBbox = calculateCombinedBoundingBox(visibleLayers);
-      newWidth = visBbox.maxX - visBbox.minX;
-      newHeight = visBbox.maxY - visBbox.minY;
-      newBBox = visBbox;
-      newRenderOffsetX = visBbox.minX;
-      newRenderOffsetY = visBbox.minY;
-    }
-
     // Board aktualisieren + Modus beenden + Sichtbarkeit wiederherstellen
     set((s) => ({
       panel: {
         ...s.panel,
-        boards: s.panel.boards.map((b) => {
-          if (b.id !== sourceBoardId) return b;
-          return {
-            ...b,
-            layers: updatedLayers,
-            outline: newOutline,
-            width: newWidth,
-            height: newHeight,
-            boundingBox: newBBox,
-            renderOffsetX: newRenderOffsetX,
-            renderOffsetY: newRenderOffsetY,
-          };
-        }),
+        boards: s.panel.boards.map((b) => (b.id === sourceBoardId ? withOutlineLayer(b, newLayer) : b)),
         modifiedAt: new Date(),
       },
       outlineDefineState: {
@@ -2678,6 +2851,29 @@ export const usePanelStore = create<PanelStore>((set, get) => {
     }));
   },
 
+  applyDxfOutline: (boardId, outlineLayer) => {
+    saveHistory();
+    set((s) => ({
+      panel: {
+        ...s.panel,
+        boards: s.panel.boards.map((b) => (b.id === boardId ? withOutlineLayer(b, outlineLayer) : b)),
+        modifiedAt: new Date(),
+      },
+      // Modus beenden (falls aktiv) + Sichtbarkeit wiederherstellen
+      ...(s.outlineDefineState.active && {
+        outlineDefineState: {
+          active: false,
+          sourceBoardId: null,
+          selectedCommands: [],
+          prevShowBackground: true,
+          prevShowLabels: true,
+        },
+        showBoardBackground: s.outlineDefineState.prevShowBackground,
+        showBoardLabels: s.outlineDefineState.prevShowLabels,
+      }),
+    }));
+  },
+
   rotateBoardLayers: (boardId) => {
     saveHistory();
     set((state) => ({
@@ -2779,6 +2975,16 @@ export const usePanelStore = create<PanelStore>((set, get) => {
         },
       }));
 
+      // --- Panel-Beschriftungen rotieren (Text dreht mit: +90°) ---
+      const newPanelTexts = panel.panelTexts.map((t) => ({
+        ...t,
+        position: {
+          x: t.position.y,
+          y: oldWidth - t.position.x,
+        },
+        rotation: ((t.rotation + 90) % 360) as PanelText['rotation'],
+      }));
+
       // --- V-Score Linien rotieren ---
       const newVScoreLines = panel.vscoreLines.map((l) => ({
         ...l,
@@ -2827,6 +3033,7 @@ export const usePanelStore = create<PanelStore>((set, get) => {
           instances: newInstances,
           fiducials: newFiducials,
           toolingHoles: newToolingHoles,
+          panelTexts: newPanelTexts,
           vscoreLines: newVScoreLines,
           freeMousebites: newFreeMousebites,
           routingContours: newRoutingContours,
@@ -2874,6 +3081,10 @@ export const usePanelStore = create<PanelStore>((set, get) => {
         instances: state.panel.instances.filter((i) => i.id !== instanceId),
         // Auch zugehörige Tabs entfernen
         tabs: state.panel.tabs.filter((t) => t.boardInstanceId !== instanceId),
+        // Board-Fiducials gehören zur Instanz
+        fiducials: state.panel.fiducials.filter(
+          (f) => f.type !== 'board' || f.boardInstanceId !== instanceId
+        ),
         modifiedAt: new Date(),
       },
       selectedInstances: state.selectedInstances.filter((id) => id !== instanceId),
@@ -2881,26 +3092,52 @@ export const usePanelStore = create<PanelStore>((set, get) => {
   },
 
   moveBoardInstance: (instanceId, newPosition) =>
-    set((state) => ({
-      panel: {
-        ...state.panel,
-        instances: state.panel.instances.map((i) =>
-          i.id === instanceId ? { ...i, position: newPosition } : i
-        ),
-        modifiedAt: new Date(),
-      },
-    })),
+    set((state) => {
+      const instance = state.panel.instances.find((i) => i.id === instanceId);
+      if (!instance) return state;
+
+      // Board-Fiducials wandern mit ihrer Instanz mit
+      const dx = newPosition.x - instance.position.x;
+      const dy = newPosition.y - instance.position.y;
+
+      return {
+        panel: {
+          ...state.panel,
+          instances: state.panel.instances.map((i) =>
+            i.id === instanceId ? { ...i, position: newPosition } : i
+          ),
+          fiducials: state.panel.fiducials.map((f) =>
+            f.type === 'board' && f.boardInstanceId === instanceId
+              ? { ...f, position: { x: f.position.x + dx, y: f.position.y + dy } }
+              : f
+          ),
+          modifiedAt: new Date(),
+        },
+      };
+    }),
 
   rotateBoardInstance: (instanceId, rotation) =>
-    set((state) => ({
-      panel: {
-        ...state.panel,
-        instances: state.panel.instances.map((i) =>
-          i.id === instanceId ? { ...i, rotation } : i
-        ),
-        modifiedAt: new Date(),
-      },
-    })),
+    set((state) => {
+      const instance = state.panel.instances.find((i) => i.id === instanceId);
+      const board = instance ? state.panel.boards.find((b) => b.id === instance.boardId) : undefined;
+      if (!instance || !board) return state;
+
+      // Board-Fiducials drehen mit ihrer Instanz mit
+      const rotated = { ...instance, rotation };
+
+      return {
+        panel: {
+          ...state.panel,
+          instances: state.panel.instances.map((i) => (i.id === instanceId ? rotated : i)),
+          fiducials: state.panel.fiducials.map((f) =>
+            f.type === 'board' && f.boardInstanceId === instanceId
+              ? moveBoardFiducial(f, board, instance, rotated)
+              : f
+          ),
+          modifiedAt: new Date(),
+        },
+      };
+    }),
 
   createBoardArray: (boardId, config, startPosition) => {
     saveHistory();
@@ -2930,10 +3167,14 @@ export const usePanelStore = create<PanelStore>((set, get) => {
         }
       }
 
+      // Board-Fiducials auf die neuen Instanzen übertragen (neue IDs)
+      const oldInstances = state.panel.instances.filter((i) => i.boardId === boardId);
+
       return {
         panel: {
           ...state.panel,
           instances: [...otherInstances, ...newInstances],
+          fiducials: remapBoardFiducials(state.panel.fiducials, board, oldInstances, newInstances),
           modifiedAt: new Date(),
         },
         selectedInstances: [], // Auswahl zurücksetzen
@@ -2986,17 +3227,31 @@ export const usePanelStore = create<PanelStore>((set, get) => {
       const dx = frame.left - panel.frame.left;
       const dy = frame.bottom - panel.frame.bottom;
 
-      // --- Fiducials + Tooling Holes: Smart Anchor ---
-      const newFiducials = panel.fiducials.map((f) => ({
-        ...f,
-        position: smartAnchorReposition(f.position, oldW, oldH, dx, dy, widthDiff, heightDiff),
-      }));
+      // --- Fiducials + Tooling Holes + Beschriftungen: Smart Anchor ---
+      // Board-Fiducials folgen ihrer Instanz: die dieses Boards wandern auf die neuen
+      // Instanzen, die anderer Boards bleiben wie deren Instanzen an Ort und Stelle
+      const oldInstances = panel.instances.filter((i) => i.boardId === boardId);
+      const newFiducials = remapBoardFiducials(
+        panel.fiducials.map((f) =>
+          f.type === 'board'
+            ? f
+            : { ...f, position: smartAnchorReposition(f.position, oldW, oldH, dx, dy, widthDiff, heightDiff) }
+        ),
+        board,
+        oldInstances,
+        newInstances
+      );
 
       const newToolingHoles = panel.toolingHoles.map((h) => ({
         ...h,
         position: smartAnchorReposition(h.position, oldW, oldH, dx, dy, widthDiff, heightDiff),
       }));
 
+      const newPanelTexts = panel.panelTexts.map((t) => ({
+        ...t,
+        position: smartAnchorReposition(t.position, oldW, oldH, dx, dy, widthDiff, heightDiff),
+      }));
+
       // --- V-Scores: Komplett neu generieren wenn welche existierten ---
       let newVScoreLines: VScoreLine[] = [];
       if (panel.vscoreLines.length > 0) {
@@ -3161,6 +3416,7 @@ export const usePanelStore = create<PanelStore>((set, get) => {
         instances: allInstances,
         fiducials: newFiducials,
         toolingHoles: newToolingHoles,
+        panelTexts: newPanelTexts,
         vscoreLines: newVScoreLines,
         tabs: [], // Tabs müssen neu verteilt werden
         freeMousebites: [], // Mousebites müssen neu erstellt werden
@@ -3310,18 +3566,25 @@ export const usePanelStore = create<PanelStore>((set, get) => {
         },
       }));
 
-      // 2. Fiducials: Smart Anchor
+      // 2. Fiducials: Smart Anchor (Board-Fiducials verschieben sich wie ihre Instanz)
       const newFiducials = panel.fiducials.map((f) => ({
         ...f,
-        position: smartAnchorReposition(f.position, oldW, oldH, dx, dy, widthDiff, heightDiff),
+        position: f.type === 'board'
+          ? { x: f.position.x + dx, y: f.position.y + dy }
+          : smartAnchorReposition(f.position, oldW, oldH, dx, dy, widthDiff, heightDiff),
       }));
 
-      // 3. Tooling Holes: Smart Anchor
+      // 3. Tooling Holes + Beschriftungen: Smart Anchor
       const newToolingHoles = panel.toolingHoles.map((h) => ({
         ...h,
         position: smartAnchorReposition(h.position, oldW, oldH, dx, dy, widthDiff, heightDiff),
       }));
 
+      const newPanelTexts = panel.panelTexts.map((t) => ({
+        ...t,
+        position: smartAnchorReposition(t.position, oldW, oldH, dx, dy, widthDiff, heightDiff),
+      }));
+
       // 4. V-Score Linien: Position shift (dx, dy), Endpunkte auf neue Panel-Kanten
       const newVScoreLines = panel.vscoreLines.map((l) => {
         // V-Score Endpunkte auf Panel-Kanten anpassen:
@@ -3418,6 +3681,7 @@ export const usePanelStore = create<PanelStore>((set, get) => {
         instances: newInstances,
         fiducials: newFiducials,
         toolingHoles: newToolingHoles,
+        panelTexts: newPanelTexts,
         vscoreLines: newVScoreLines,
         tabs: newTabs,
         freeMousebites: newFreeMousebites,
@@ -4032,6 +4296,63 @@ export const usePanelStore = create<PanelStore>((set, get) => {
       selectedToolingHoleId: holeId,
     })),
 
+  addPanelText: (text) => {
+    saveHistory();
+    const id = uuidv4();
+    set((state) => ({
+      panel: {
+        ...state.panel,
+        panelTexts: [...state.panel.panelTexts, { ...text, id }],
+        modifiedAt: new Date(),
+      },
+      selectedPanelTextId: id,
+    }));
+  },
+
+  removePanelText: (textId) => {
+    saveHistory();
+    set((state) => ({
+      panel: {
+        ...state.panel,
+        panelTexts: state.panel.panelTexts.filter((t) => t.id !== textId),
+        modifiedAt: new Date(),
+      },
+      selectedPanelTextId:
+        state.selectedPanelTextId === textId ? null : state.selectedPanelTextId,
+    }));
+  },
+
+  updatePanelTextPosition: (textId, position) =>
+    set((state) => ({
+      panel: {
+        ...state.panel,
+        panelTexts: state.panel.panelTexts.map((t) =>
+          t.id === textId ? { ...t, position } : t
+        ),
+        modifiedAt: new Date(),
+      },
+    })),
+
+  // Aktualisiert Text, Grösse, Drehung, Layer oder Seite einer Panel-Beschriftung
+  updatePanelText: (textId, data) => {
+    saveHistory();
+    set((state) => ({
+      panel: {
+        ...state.panel,
+        panelTexts: state.panel.panelTexts.map((t) =>
+          t.id === textId ? { ...t, ...data } : t
+        ),
+        modifiedAt: new Date(),
+      },
+    }));
+  },
+
+  // Wählt eine Panel-Beschriftung aus (oder null zum Abwählen)
+  selectPanelText: (textId) =>
+    set(() => ({
+      selectedPanelTextId: textId,
+    })),
+
   addVScoreLine: (line) => {
     saveHistory();
     set((state) => ({
@@ -4624,6 +4945,38 @@ export const usePanelStore = create<PanelStore>((set, get) => {
       },
     })),
 
+  // Aktualisiert die Kupfer-Thieving-Konfiguration (fehlende Werte aus den Standardwerten)
+  setThievingConfig: (config) =>
+    set((state) => ({
+      panel: {
+        ...state.panel,
+        thievingConfig: {
+          ...DEFAULT_COPPER_THIEVING_CONFIG,
+          ...state.panel.thievingConfig,
+          ...config,
+        },
+        modifiedAt: new Date(),
+      },
+    })),
+
+  // Aktualisiert die Maschinenparameter für das Fräsprogramm
+  setRouterConfig: (config) =>
+    set((state) => ({
+      routerConfig: { ...state.routerConfig, ...config },
+    })),
+
+  // Aktualisiert die Optionen für das V-Cut-Programm
+  setVScoreExportConfig: (config) =>
+    set((state) => ({
+      vscoreExportConfig: { ...state.vscoreExportConfig, ...config },
+    })),
+
+  // Aktualisiert die Optionen für Panel-Elemente im Gerber-Export
+  setPanelFeatureConfig: (config) =>
+    set((state) => ({
+      panelFeatureConfig: { ...state.panelFeatureConfig, ...config },
+    })),
+
   // Generiert Fräskonturen automatisch aus Board-Positionen und Tabs.
   // Kern-Algorithmus:
   // A) Board-Outline-Konturen: Für jedes Board eine Kontur mit Lücken an Tab-Positionen
@@ -5070,6 +5423,12 @@ export const usePanelStore = create<PanelStore>((set, get) => {
       showRoutingContours: !state.showRoutingContours,
     })),
 
+  // Kupfer-Thieving im Canvas ein-/ausschalten
+  toggleCopperThieving: () =>
+    set((state) => ({
+      showCopperThieving: !state.showCopperThieving,
+    })),
+
   // --------------------------------------------------------------------------
   // Bemaßungs-Overlay
   // --------------------------------------------------------------------------
@@ -5434,6 +5793,7 @@ export const useSelectedBadmarkId = () => usePanelStore((state) => state.selecte
  * Gibt die ausgewählte Tooling-Bohrung zurück
  */
 export const useSelectedToolingHoleId = () => usePanelStore((state) => state.selectedToolingHoleId);
+export const useSelectedPanelTextId = () => usePanelStore((state) => state.selectedPanelTextId);
 
 /**
  * Gibt den ausgewählten Tab zurück
@@ -5478,6 +5838,9 @@ export const useShowVScoreLines = () => usePanelStore((state) => state.showVScor
 /** Hook: Fräskonturen ein-/ausblenden */
 export const useShowRoutingContours = () => usePanelStore((state) => state.showRoutingContours);
 
+/** Hook: Kupfer-Thieving ein-/ausblenden */
+export const useShowCopperThieving = () => usePanelStore((state) => state.showCopperThieving);
+
 /** Hook: Bemaßungs-Overlay ein-/ausblenden */
 export const useShowDimensions = () => usePanelStore((state) => state.showDimensions);
 
@@ -80,6 +80,7 @@ export type GerberLayerType =
   | 'top-paste'
   | 'bottom-paste'
   | 'outline'
+  | 'mechanical' // Ersetzter Outline-Layer (nur Anzeige)
   | 'drill'
   | 'drill-npth' // Non-plated through hole
   | 'unknown';
@@ -102,6 +103,50 @@ export interface GerberFile {
   visible: boolean;
   /** Farbe für die Darstellung */
   color: string;
+  /** Wie sicher die automatische Erkennung ist (fehlt bei manueller Zuordnung) */
+  detection?: LayerDetection;
+  /** Auffälligkeiten beim Import (unbekannte Befehle, leere Layer, ...) */
+  diagnostics?: ImportDiagnostic[];
+}
+
+/**
+ * Eine Meldung aus dem Import einer Datei
+ */
+export interface ImportDiagnostic {
+  /** error = Daten fehlen/falsch, warning = prüfen, info = Annahme getroffen */
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+/**
+ * Ergebnis der automatischen Layer-Erkennung
+ */
+export interface LayerDetection {
+  /** Erkannter Layer-Typ */
+  type: GerberLayerType;
+  /** Sicherheit von 0 (geraten) bis 1 (aus X2-Attribut) */
+  confidence: number;
+  /** Woher die Zuordnung stammt */
+  source: 'x2' | 'job' | 'rule' | 'excellon' | 'kicad' | 'filename' | 'content' | 'none';
+}
+
+/**
+ * Benutzerdefinierte Regel für die Layer-Zuordnung über den Dateinamen
+ *
+ * Wird vor den eingebauten Mustern geprüft, z.B. "*.art1" → Top Copper
+ * für einen Kunden mit eigenen Dateiendungen.
+ */
+export interface LayerMappingRule {
+  /** Eindeutige ID */
+  id: string;
+  /** Muster für den Dateinamen (ohne Ordner) */
+  pattern: string;
+  /** glob: * und ? als Platzhalter, ganzer Name; regex: Teilübereinstimmung */
+  syntax: 'glob' | 'regex';
+  /** Zugeordneter Layer-Typ */
+  type: GerberLayerType;
+  /** Kundenprofil (leer = gilt für alle Importe) */
+  profile?: string;
 }
 
 /**
@@ -122,6 +167,42 @@ export interface ParsedGerber {
   apertures: Map<string, Aperture>;
   /** Berechnete Bounding Box */
   boundingBox: BoundingBox;
+  /**
+   * Bild-Polarität (%IPNEG%): 'negative' = gezeichnete Objekte sind Aussparungen,
+   * z.B. bei Innenlagen-Planes aus Altium. Fehlt = 'positive'.
+   */
+  imagePolarity?: 'positive' | 'negative';
+  /** Nur bei Excellon-Bohrdateien: Bohrungen und Langlöcher pro Werkzeug */
+  drill?: DrillData;
+}
+
+/**
+ * Strukturierte Bohrdaten einer Excellon-Datei
+ *
+ * Zusätzlich zu den Commands (für die Darstellung) stehen hier die
+ * Bohrungen pro Werkzeug, damit Anzahl und Durchmesser direkt ablesbar sind.
+ */
+export interface DrillData {
+  /** Einheit der Quelldatei (alle Werte hier sind in mm) */
+  sourceUnits: 'mm' | 'in';
+  /** Werkzeuge in Datei-Reihenfolge */
+  tools: DrillTool[];
+}
+
+/**
+ * Ein Bohrwerkzeug mit seinen Bohrungen
+ */
+export interface DrillTool {
+  /** Werkzeugnummer ohne "T" (z.B. "1") */
+  code: string;
+  /** Durchmesser in mm */
+  diameter: number;
+  /** Durchkontaktiert laut X2-Attribut der Datei (fehlt = unbekannt, Layer-Typ entscheidet) */
+  plated?: boolean;
+  /** Bohrungsmittelpunkte */
+  holes: Point[];
+  /** Langlöcher (G85 oder gefräst mit M15/M16) */
+  slots: Array<{ start: Point; end: Point }>;
 }
 
 /**
@@ -147,6 +228,8 @@ export interface GerberCommand {
   apertureId?: string;
   /** Für Regionen: Kontur-Punkte */
   points?: Point[];
+  /** Polarität (%LPD% / %LPC%): 'clear' löscht bereits Gezeichnetes. Fehlt = 'dark' */
+  polarity?: 'dark' | 'clear';
 }
 
 /**
@@ -157,10 +240,11 @@ export interface GerberCommand {
  * - Rectangle: Rechteckiges Pad
  * - Obround: Abgerundetes Rechteck (Oval)
  * - Polygon: Vieleck
+ * - Macro: Aus Primitiven zusammengesetzte Form (AM), z.B. abgerundete Pads, Thermals
  */
 export interface Aperture {
   id: string;
-  type: 'circle' | 'rectangle' | 'obround' | 'polygon';
+  type: 'circle' | 'rectangle' | 'obround' | 'polygon' | 'macro';
   /** Durchmesser (für circle) oder Breite */
   diameter?: number;
   width?: number;
@@ -170,6 +254,28 @@ export interface Aperture {
   rotation?: number;
   /** Innenloch (für hohle Pads) */
   hole?: { diameter: number } | { width: number; height: number };
+  /** Für Makros: Name des Makros (AM) */
+  macroName?: string;
+  /** Für Makros: ausgewertete Primitive (mm, relativ zum Flash-Punkt) */
+  primitives?: ApertureMacroPrimitive[];
+}
+
+/**
+ * Ausgewertetes Primitiv einer Makro-Aperture
+ *
+ * Variablen, Arithmetik und Rotation sind bereits aufgelöst.
+ * Kreise bleiben Kreise, alle anderen Primitive (Outline, Polygon,
+ * Linien, Thermal) werden als geschlossene Polygone abgelegt.
+ */
+export interface ApertureMacroPrimitive {
+  type: 'circle' | 'polygon';
+  /** true = belichtet (dunkel), false = löscht innerhalb der Aperture */
+  exposure: boolean;
+  /** Für Kreise: Mittelpunkt und Durchmesser */
+  center?: Point;
+  diameter?: number;
+  /** Für Polygone: Eckpunkte */
+  points?: Point[];
 }
 
 // ============================================================================
@@ -191,6 +297,8 @@ export interface Board {
   layers: GerberFile[];
   /** Outline-Kontur des Boards */
   outline: Point[];
+  /** Zu geschlossenen Schleifen verkettete Outline (Aussenkontur + Ausschnitte) */
+  contours?: BoardContours;
   /** Berechnete Bounding Box */
   boundingBox: BoundingBox;
   /** Größe in mm */
@@ -199,6 +307,8 @@ export interface Board {
   /** Render-Offset in mm: Verschiebung der Gerber-Daten damit sichtbarer Inhalt bei (0,0) startet */
   renderOffsetX?: number;
   renderOffsetY?: number;
+  /** Ursprung der Original-Koordinaten in mm: um diesen Punkt wurden die Layer beim Normalisieren verschoben */
+  sourceOrigin?: Point;
   /** Rotation der Gerber-Layer um den Nullpunkt in Grad (0, 90, 180, 270) */
   layerRotation: 0 | 90 | 180 | 270;
   /** Gerber-Layer an X-Achse spiegeln (horizontal) */
@@ -207,6 +317,153 @@ export interface Board {
   mirrorY: boolean;
   /** Importzeitpunkt */
   importedAt: Date;
+  /** Angaben aus der Gerber-Jobdatei (.gbrjob), falls im ZIP vorhanden */
+  gerberJob?: GerberJob;
+  /** Bauteil-Positionen (nur bei direktem Import einer .kicad_pcb) */
+  components?: BoardComponent[];
+}
+
+/**
+ * Ein platziertes Bauteil (Footprint) eines Boards
+ */
+export interface BoardComponent {
+  /** Referenz (z.B. "R12") */
+  reference: string;
+  /** Wert (z.B. "10k") */
+  value: string;
+  /** Footprint-Name aus der Bibliothek (z.B. "Resistor_SMD:R_0603") */
+  footprint: string;
+  /** Position in Gerber-Koordinaten (mm, Y nach oben, gleicher Ursprung wie die Layer) */
+  position: Point;
+  /** Drehung in Grad gegen den Uhrzeigersinn */
+  rotation: number;
+  /** Bestückungsseite */
+  side: 'top' | 'bottom';
+}
+
+/**
+ * Ein Segment einer verketteten Board-Kontur (Gerber-Koordinaten, Y nach oben)
+ */
+export interface ContourSegment {
+  start: Point;
+  end: Point;
+  /** Nur bei Bögen: Mittelpunkt und Richtung (Start = Ende → Vollkreis) */
+  arc?: {
+    center: Point;
+    clockwise: boolean;
+  };
+}
+
+/**
+ * Eine Kette zusammenhängender Outline-Segmente
+ */
+export interface BoardContour {
+  /** Segmente in Laufrichtung (Ende eines Segments = Start des nächsten) */
+  segments: ContourSegment[];
+  /** Ob die Kette zum Startpunkt zurückkehrt */
+  closed: boolean;
+  /**
+   * Vorzeichenbehaftete Fläche in mm² (Gerber-Koordinaten):
+   * > 0 = gegen den Uhrzeigersinn, < 0 = im Uhrzeigersinn
+   */
+  signedArea: number;
+}
+
+/**
+ * Verkettete Outline eines Boards
+ *
+ * Die Aussenkontur läuft gegen den Uhrzeigersinn, Ausschnitte (z.B. für
+ * Stecker) im Uhrzeigersinn - wie bei Gerber-Regionen mit Löchern.
+ */
+export interface BoardContours {
+  /** Grösste geschlossene Kontur (null = keine geschlossene Kontur gefunden) */
+  outer: BoardContour | null;
+  /** Geschlossene Konturen innerhalb der Aussenkontur */
+  cutouts: BoardContour[];
+  /** Offene Ketten und Konturen ausserhalb der Aussenkontur */
+  other: BoardContour[];
+}
+
+/**
+ * Inhalt einer Gerber-Jobdatei (.gbrjob, JSON)
+ *
+ * KiCad und Altium legen die Jobdatei neben die Gerber-Dateien. Sie enthält
+ * die Layer-Zuordnung und die Leiterplatten-Spezifikation.
+ */
+export interface GerberJob {
+  /** Design-Name (GeneralSpecs.ProjectId.Name) */
+  designName?: string;
+  /** Leiterplattendicke in mm */
+  boardThickness?: number;
+  /** Anzahl Kupferlagen */
+  copperLayerCount?: number;
+  /** Dateien mit ihrer Funktion (z.B. "Copper,L1,Top") */
+  files: Array<{ path: string; fileFunction: string; filePolarity?: string }>;
+  /** Lagenaufbau von oben nach unten */
+  stackup: GerberJobStackupLayer[];
+}
+
+/**
+ * Eine Lage im Lagenaufbau der Jobdatei
+ */
+export interface GerberJobStackupLayer {
+  /** Art der Lage ("Copper", "Dielectric", "SolderMask", "Legend", ...) */
+  type: string;
+  /** Bezeichnung (z.B. "F.Cu") */
+  name?: string;
+  /** Material (z.B. "FR4") */
+  material?: string;
+  /** Dicke in mm */
+  thickness?: number;
+}
+
+/**
+ * Die Board-Daten, die beim Import einer neuen Revision ersetzt werden
+ *
+ * Name, Rotation, Spiegelung und alle Panel-Elemente (Instanzen, Tabs,
+ * Fräskonturen, Badmarks) bleiben erhalten.
+ */
+export type BoardRevisionData = Pick<
+  Board,
+  | 'layers'
+  | 'outline'
+  | 'contours'
+  | 'boundingBox'
+  | 'width'
+  | 'height'
+  | 'renderOffsetX'
+  | 'renderOffsetY'
+  | 'sourceOrigin'
+  | 'gerberJob'
+  | 'components'
+>;
+
+/**
+ * Ein Panel-Element, das nach dem Revisions-Import nicht mehr zur Outline passt
+ */
+export interface BoardRevisionIssue {
+  /** Art des Elements */
+  kind: 'tab' | 'routing' | 'fiducial' | 'badmark';
+  /** ID des Elements */
+  id: string;
+  /** Beschreibung für die Anzeige */
+  message: string;
+}
+
+/**
+ * Vergleich alte/neue Revision eines Boards
+ */
+export interface BoardRevisionSummary {
+  /** Größe vorher und nachher in mm */
+  oldSize: { width: number; height: number };
+  newSize: { width: number; height: number };
+  /** Layer-Typen, die neu dazugekommen bzw. weggefallen sind */
+  addedLayers: GerberLayerType[];
+  removedLayers: GerberLayerType[];
+  /** Anzahl platzierter Instanzen des Boards */
+  instanceCount: number;
+  /** Elemente, die nicht mehr zur neuen Outline passen */
+  issues: BoardRevisionIssue[];
 }
 
 /**
@@ -357,6 +614,32 @@ export interface ToolingHole {
   plated: boolean;
 }
 
+/**
+ * Panel-Beschriftung (z.B. Panel-ID oder Datumscode auf dem Nutzenrand)
+ *
+ * Wird mit der eingebauten Strichschrift als Vektor-Striche gerendert
+ * (Canvas, PDF-Zeichnung und Gerber). Platzhalter im Text:
+ * {name}, {drawingNumber}, {date}, {revision}
+ */
+export interface PanelText {
+  /** Eindeutige ID */
+  id: string;
+  /** Text inkl. Platzhalter */
+  text: string;
+  /** Mittelpunkt des Textes im Panel (mm) */
+  position: Point;
+  /** Zeichenhöhe (Versalhöhe) in mm */
+  height: number;
+  /** Strichbreite in mm */
+  strokeWidth: number;
+  /** Drehung in Grad (gegen den Uhrzeigersinn) */
+  rotation: 0 | 90 | 180 | 270;
+  /** Ziel-Layer */
+  layer: 'silkscreen' | 'copper';
+  /** Seite (Unterseite wird gespiegelt) */
+  side: 'top' | 'bottom';
+}
+
 /**
  * Ein Segment einer Fräskontur (gerade Linie von Start bis End)
  * Lücken zwischen Segmenten = Tabs (dort wird nicht gefräst)
@@ -454,6 +737,36 @@ export interface RoutingConfig {
   clearance: number;
 }
 
+/**
+ * Konfiguration für Kupfer-Thieving (Ausgleichsfläche)
+ *
+ * Füllt Nutzenrand und Zwischenräume zwischen den Boards auf allen
+ * Kupferlagen mit Kupfer, damit die Galvanik gleichmässig verteilt wird.
+ * Alle Abstände in mm.
+ */
+export interface CopperThievingConfig {
+  /** Thieving erzeugen (Canvas + Gerber-Export) */
+  enabled: boolean;
+  /** Füllmuster: Vollfläche, Schraffur (45° Kreuzgitter) oder Punkte */
+  pattern: 'solid' | 'hatch' | 'dots';
+  /** Abstand zu den Boards */
+  boardClearance: number;
+  /** Abstand zu Bohrungen, Fiducials, Badmarks, Tabs und Fräskonturen */
+  featureClearance: number;
+  /** Abstand zu V-Score Linien (pro Seite) */
+  vscoreClearance: number;
+  /** Abstand zur Panel-Außenkante */
+  edgeClearance: number;
+  /** Schraffur: Linienbreite */
+  hatchWidth: number;
+  /** Schraffur: Linienabstand (Mitte zu Mitte) */
+  hatchPitch: number;
+  /** Punkte: Durchmesser */
+  dotDiameter: number;
+  /** Punkte: Rasterabstand (Mitte zu Mitte) */
+  dotPitch: number;
+}
+
 /**
  * V-Score Linie
  */
@@ -521,6 +834,8 @@ export interface Panel {
   badmarks: Badmark[];
   /** Alle Tooling-Bohrungen */
   toolingHoles: ToolingHole[];
+  /** Beschriftungen auf dem Nutzenrand */
+  panelTexts: PanelText[];
   /** V-Score Linien */
   vscoreLines: VScoreLine[];
   /** Frei platzierbare Mousebites (z.B. an Rundungen) */
@@ -529,6 +844,8 @@ export interface Panel {
   routingContours: RoutingContour[];
   /** Konfiguration für Fräskonturen-Generierung */
   routingConfig: RoutingConfig;
+  /** Kupfer-Thieving (Ausgleichsfläche auf Nutzenrand und Zwischenräumen) */
+  thievingConfig?: CopperThievingConfig;
   /** Bemaßungs-Überschreibungen (Label-Positionen, Maßlinien-Abstände) */
   dimensionOverrides?: DimensionOverrides;
   /** Zeichnungsvorschau-Konfiguration (Panel-Position + Massstab für Canvas + PDF) */
@@ -685,6 +1002,65 @@ export interface GerberExportOptions {
   coordinateFormat: [number, number];
   /** Einheiten im Export */
   units: 'mm' | 'inch';
+  /** Fiducials, Badmarks und Tooling-Bohrungen in Kupfer/Lötstopp */
+  panelFeatures: PanelFeatureExportOptions;
+}
+
+/**
+ * Optionen für Panel-Elemente in den Kupfer- und Lötstopp-Layern
+ *
+ * Fiducials, Badmarks und Tooling-Bohrungen werden als Pads auf Top- und
+ * Bottom-Kupfer geflasht und im Lötstopp freigestellt.
+ */
+export interface PanelFeatureExportOptions {
+  /** Panel-Elemente in die Gerber-Layer einfügen */
+  enabled: boolean;
+  /** Lötstopp-Freistellung pro Seite in mm (Badmarks, Tooling-Bohrungen) */
+  maskExpansion: number;
+  /** Restring der durchkontaktierten Tooling-Bohrungen in mm */
+  toolingAnnularRing: number;
+  /** Kupfer-Sperrring um Fiducials und Tooling-Bohrungen */
+  copperKeepOut: boolean;
+  /** Breite des Sperrrings in mm (ab Masköffnung bzw. Bohrungsrand) */
+  keepOutClearance: number;
+}
+
+/**
+ * Export-Optionen für Excellon-Bohrdaten
+ */
+export interface DrillExportOptions {
+  /** Einheiten im Export (METRIC oder INCH) */
+  units: 'mm' | 'inch';
+}
+
+/**
+ * Export-Optionen für das Fräsprogramm (Depaneling-Router)
+ */
+export interface RouterExportOptions {
+  /** Ausgabeformat: Excellon Rout-Modus (M15/M16) oder G-Code */
+  format: 'excellon' | 'gcode';
+  /** Einheiten im Export */
+  units: 'mm' | 'inch';
+  /** Vorschub beim Fräsen in mm/min */
+  feedRate: number;
+  /** Eintauchgeschwindigkeit in mm/min (nur G-Code) */
+  plungeRate: number;
+  /** Spindeldrehzahl in U/min */
+  spindleSpeed: number;
+  /** Sichere Höhe über dem Material in mm (nur G-Code) */
+  safeZ: number;
+  /** Frästiefe unter der Materialoberfläche in mm (nur G-Code) */
+  cutDepth: number;
+}
+
+/**
+ * Export-Optionen für das V-Cut-Programm (Ritzliste)
+ */
+export interface VScoreExportOptions {
+  /** Ausgabeformat: CSV (Semikolon-getrennt) oder Text mit festen Spalten */
+  format: 'csv' | 'text';
+  /** Leiterplattendicke in mm (für die Umrechnung der Tiefe % → mm) */
+  boardThickness: number;
 }
 
 /**